@@ -45,6 +45,7 @@ describe('Authentication Middleware', () => {
   describe('authenticate', () => {
     it('should authenticate user with valid Firebase token', async () => {
       const mockUser = {
+        _id: 'user1',
         email: 'test@example.com',
         role: 'operator' as UserRole,
         enterprises: ['enterprise1'],
@@ -66,6 +67,7 @@ describe('Authentication Middleware', () => {
       expect(mockUser.save).toHaveBeenCalled();
       expect(req.user).toMatchObject({
         uid: 'firebase-uid',
+        user_id: 'user1',
         email: 'test@example.com',
         role: 'operator',
         enterprises: ['enterprise1'],
@@ -82,6 +84,7 @@ describe('Authentication Middleware', () => {
 
       expect(req.user).toMatchObject({
         uid: 'dev-user',
+        user_id: 'dev-user',
         email: 'dev@example.com',
         role: 'enterprise_admin',
         enterprises: ['dev-enterprise'],
@@ -166,6 +169,7 @@ describe('Authentication Middleware', () => {
     it('should allow access for user with correct role', () => {
       req.user = {
         uid: 'test-uid',
+        user_id: 'user1',
         email: 'test@example.com',
         role: 'enterprise_admin',
         enterprises: ['enterprise1'],
@@ -182,6 +186,7 @@ describe('Authentication Middleware', () => {
     it('should deny access for user with incorrect role', () => {
       req.user = {
         uid: 'test-uid',
+        user_id: 'user1',
         email: 'test@example.com',
         role: 'operator',
         enterprises: ['enterprise1'],
@@ -228,6 +233,7 @@ describe('Authentication Middleware', () => {
     it('should allow access for super admin to any enterprise', () => {
       req.user = {
         uid: 'test-uid',
+        user_id: 'user1',
         email: 'admin@example.com',
         role: 'super_admin',
         enterprises: ['enterprise2'],
@@ -243,6 +249,7 @@ describe('Authentication Middleware', () => {
     it('should allow access for user with enterprise access', () => {
       req.user = {
         uid: 'test-uid',
+        user_id: 'user1',
         email: 'user@example.com',
         role: 'enterprise_admin',
         enterprises: ['enterprise1', 'enterprise2'],
@@ -258,6 +265,7 @@ describe('Authentication Middleware', () => {
     it('should deny access for user without enterprise access', () => {
       req.user = {
         uid: 'test-uid',
+        user_id: 'user1',
         email: 'user@example.com',
         role: 'enterprise_admin',
         enterprises: ['enterprise2'],
@@ -297,6 +305,7 @@ describe('Authentication Middleware', () => {
       req.params = {};
       req.user = {
         uid: 'test-uid',
+        user_id: 'user1',
         email: 'user@example.com',
         role: 'enterprise_admin',
         enterprises: ['enterprise1'],
@@ -320,6 +329,7 @@ describe('Authentication Middleware', () => {
   describe('optionalAuth', () => {
     it('should authenticate user when valid token is provided', async () => {
       const mockUser = {
+        _id: 'user1',
         email: 'test@example.com',
         role: 'operator' as UserRole,
         enterprises: ['enterprise1'],
@@ -338,6 +348,7 @@ describe('Authentication Middleware', () => {
 
       expect(req.user).toMatchObject({
         uid: 'firebase-uid',
+        user_id: 'user1',
         email: 'test@example.com',
         role: 'operator',
         enterprises: ['enterprise1'],
@@ -373,6 +384,7 @@ describe('Authentication Middleware', () => {
 
       expect(req.user).toMatchObject({
         uid: 'dev-user',
+        user_id: 'dev-user',
         email: 'dev@example.com',
         role: 'operator',
         enterprises: ['dev-enterprise'],
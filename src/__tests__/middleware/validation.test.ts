@@ -3,15 +3,6 @@ import express from 'express';
 import Joi from 'joi';
 import { validateRequest, validateFileUpload, schemas } from '../../middleware/validation';
 
-// Extend Express Request interface for file uploads
-declare global {
-  namespace Express {
-    interface Request {
-      files?: any[];
-    }
-  }
-}
-
 describe('Validation Middleware', () => {
   let app: express.Application;
 
@@ -364,6 +355,30 @@ describe('Validation Middleware', () => {
         // The schema uses .or() which means either field is acceptable
         expect(error).toBeUndefined();
       });
+
+      it('should accept language codes and BCP-47 tags of supported languages', () => {
+        for (const language of ['auto', 'tanglish', 'hi', 'ta-IN', 'en-US']) {
+          const { error } = schemas.queryRequest.validate({
+            enterprise_id: '507f1f77bcf86cd799439011',
+            operator_id: '507f1f77bcf86cd799439012',
+            input_text: 'Hello',
+            language,
+          });
+
+          expect(error).toBeUndefined();
+        }
+      });
+
+      it('should reject unsupported languages', () => {
+        const { error } = schemas.queryRequest.validate({
+          enterprise_id: '507f1f77bcf86cd799439011',
+          operator_id: '507f1f77bcf86cd799439012',
+          input_text: 'Hello',
+          language: 'xx-YY',
+        });
+
+        expect(error).toBeDefined();
+      });
     });
 
     describe('createEnterprise schema', () => {
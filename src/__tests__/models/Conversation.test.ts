@@ -0,0 +1,61 @@
+import { Conversation } from '../../models/Conversation';
+import mongoose from 'mongoose';
+
+describe('Conversation Model', () => {
+  const enterpriseId = new mongoose.Types.ObjectId();
+  const operatorId = new mongoose.Types.ObjectId();
+
+  const createConversation = () => new Conversation({
+    enterprise_id: enterpriseId,
+    operator_id: operatorId,
+  });
+
+  describe('Validation', () => {
+    it('should be valid with enterprise and operator', () => {
+      const conversation = createConversation();
+
+      expect(conversation.validateSync()).toBeUndefined();
+      expect(conversation.query_ids).toHaveLength(0);
+      expect(conversation.last_activity_at).toBeInstanceOf(Date);
+    });
+
+    it('should require an operator', () => {
+      const conversation = new Conversation({ enterprise_id: enterpriseId });
+
+      const error = conversation.validateSync();
+      expect(error?.errors.operator_id).toBeDefined();
+    });
+
+    it('should reject out of range intent confidence', () => {
+      const conversation = createConversation();
+      conversation.set('context.intent_confidence', 1.5);
+
+      expect(conversation.validateSync()?.errors['context.intent_confidence']).toBeDefined();
+    });
+  });
+
+  describe('Instance Methods', () => {
+    it('should expire after the inactivity timeout', () => {
+      const conversation = createConversation();
+      conversation.last_activity_at = new Date(Date.now() - 20 * 60 * 1000);
+
+      expect(conversation.isExpired(15 * 60 * 1000)).toBe(true);
+      expect(conversation.isExpired(30 * 60 * 1000)).toBe(false);
+    });
+
+    it('should add turns and merge context', () => {
+      const conversation = createConversation();
+      const firstQuery = new mongoose.Types.ObjectId();
+      const secondQuery = new mongoose.Types.ObjectId();
+
+      conversation.addTurn(firstQuery, { machine: 'cnc lathe', intent: 'maintenance_procedure', last_text: 'first' });
+      conversation.addTurn(secondQuery.toString(), { last_text: 'second' });
+
+      expect(conversation.getTurnCount()).toBe(2);
+      expect(conversation.query_ids[1].toString()).toBe(secondQuery.toString());
+      expect(conversation.context.machine).toBe('cnc lathe');
+      expect(conversation.context.intent).toBe('maintenance_procedure');
+      expect(conversation.context.last_text).toBe('second');
+    });
+  });
+});
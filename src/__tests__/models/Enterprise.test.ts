@@ -111,6 +111,9 @@ describe('Enterprise Model', () => {
       expect(enterprise.isLanguageAllowed('en')).toBe(true);
       expect(enterprise.isLanguageAllowed('ta')).toBe(true);
       expect(enterprise.isLanguageAllowed('fr')).toBe(false);
+      expect(enterprise.isLanguageAllowed('ta-IN')).toBe(true);
+      expect(enterprise.isLanguageAllowed('english')).toBe(true);
+      expect(enterprise.isLanguageAllowed('klingon')).toBe(false);
     });
 
     it('should get risk threshold', () => {
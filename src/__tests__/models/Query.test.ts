@@ -268,6 +268,51 @@ describe('Query Model', () => {
     it('should convert processing time to seconds', () => {
       expect(query.getProcessingTimeSeconds()).toBe(1.5);
     });
+
+    it('should record operator feedback', async () => {
+      const chunkId = new mongoose.Types.ObjectId().toString();
+      query.recordFeedback({
+        helpful: false,
+        correction_text: 'Use the red isolator, not the green one',
+        correct_chunk_id: chunkId,
+        submitted_by: 'operator@example.com',
+      });
+      const saved = await query.save();
+
+      expect(saved.feedback?.helpful).toBe(false);
+      expect(saved.feedback?.correction_text).toBe('Use the red isolator, not the green one');
+      expect(String(saved.feedback?.correct_chunk_id)).toBe(chunkId);
+      expect(saved.feedback?.submitted_at).toBeInstanceOf(Date);
+    });
+
+    it('should record the answer to a clarifying question', async () => {
+      query.clarification = {
+        reason: 'tied_intents',
+        question: 'Is your question about unusual noise or overheating?',
+        language: 'en',
+        options: [
+          { id: '1', kind: 'intent', value: 'abnormal_noise', label: 'unusual noise', confidence: 0.52 },
+          { id: '2', kind: 'intent', value: 'overheating', label: 'overheating', confidence: 0.5 },
+        ],
+        status: 'pending',
+        asked_at: new Date(),
+      };
+      await query.save();
+
+      expect(query.getPendingClarificationOption('3')).toBeUndefined();
+      expect(query.getPendingClarificationOption('2')?.value).toBe('overheating');
+
+      query.resolveClarification('2', 'operator@example.com');
+      const saved = await query.save();
+
+      expect(saved.clarification).toMatchObject({
+        status: 'resolved',
+        selected_option_id: '2',
+        resolved_by: 'operator@example.com',
+      });
+      expect(saved.clarification?.resolved_at).toBeInstanceOf(Date);
+      expect(saved.getPendingClarificationOption('2')).toBeUndefined();
+    });
   });
 
   describe('Static Methods', () => {
@@ -361,6 +406,58 @@ describe('Query Model', () => {
     });
   });
 
+  describe('Feedback Report', () => {
+    const manualId = new mongoose.Types.ObjectId();
+
+    const createQuery = (intent: string, helpful: boolean, correction?: string) => {
+      const query = new Query({
+        enterprise_id: enterpriseId,
+        operator_id: operatorId,
+        data: {
+          text: `Query about ${intent}`,
+          intent: { name: intent, confidence: 0.8, matched_examples: [] },
+          confidence: 0.8,
+          risk: 'low',
+          blocked: false,
+          detected_language: 'en',
+          processing_time_ms: 100,
+          sources: [1, 2].map(page => ({
+            chunk_id: new mongoose.Types.ObjectId(),
+            manual_id: manualId,
+            manual_name: 'press-manual.pdf',
+            page_number: page,
+            similarity: 0.8,
+          })),
+        },
+      });
+      query.recordFeedback({ helpful, correction_text: correction, submitted_by: 'operator@example.com' });
+      return query.save();
+    };
+
+    beforeEach(async () => {
+      await createQuery('machine_not_starting', true);
+      await createQuery('machine_not_starting', false, 'Check the door interlock first');
+      await createQuery('maintenance_procedure', true);
+    });
+
+    it('should report satisfaction per intent', async () => {
+      const report = await Query.getFeedbackReport(enterpriseId);
+
+      expect(report.overall[0]).toMatchObject({ total: 3, helpful: 2, corrections: 1 });
+      expect(report.by_intent).toEqual(expect.arrayContaining([
+        expect.objectContaining({ _id: 'machine_not_starting', total: 2, helpful: 1, corrections: 1 }),
+        expect.objectContaining({ _id: 'maintenance_procedure', total: 1, helpful: 1 }),
+      ]));
+    });
+
+    it('should count each query once per cited manual', async () => {
+      const report = await Query.getFeedbackReport(enterpriseId);
+
+      expect(report.by_manual).toHaveLength(1);
+      expect(report.by_manual[0]).toMatchObject({ manual_name: 'press-manual.pdf', total: 3, helpful: 2 });
+    });
+  });
+
   describe('Indexes', () => {
     it('should have proper indexes for performance', async () => {
       const indexes = await Query.collection.getIndexes();
@@ -0,0 +1,75 @@
+import { NaiveBayesClassifier, charNgrams } from '../../../modules/query/bayes';
+import { PlattCalibration } from '../../../modules/query/calibration';
+
+describe('charNgrams', () => {
+  it('should pad content words with word boundaries and skip function words', () => {
+    expect(charNgrams('the fan', { min: 2, max: 3 })).toEqual([' f', 'fa', 'an', 'n ', ' fa', 'fan', 'an ']);
+  });
+});
+
+describe('NaiveBayesClassifier', () => {
+  const texts = [
+    { label: 'noise', text: 'motor sound varuthu' },
+    { label: 'noise', text: 'grinding sound from the gearbox' },
+    { label: 'heat', text: 'motor romba heat aaguthu' },
+    { label: 'heat', text: 'temperature too high' },
+  ];
+  const classifier = new NaiveBayesClassifier().train(texts);
+
+  it('should give the most probable label to a similar spelling', () => {
+    const { probabilities, coverage } = classifier.predict('motor sound varudhu');
+    expect(probabilities.get('noise')).toBeGreaterThan(probabilities.get('heat')!);
+    expect([...probabilities.values()].reduce((sum, p) => sum + p, 0)).toBeCloseTo(1);
+    expect(coverage).toBeGreaterThan(0.5);
+  });
+
+  it('should report low coverage for unfamiliar text', () => {
+    expect(classifier.predict('xyzzy plugh').coverage).toBe(0);
+  });
+
+  it('should predict as if an excluded text had never been trained on', () => {
+    const heldOut = new NaiveBayesClassifier().train(texts.slice(1));
+    const excluded = classifier.predict('motor sound varuthu', texts[0]);
+    const expected = heldOut.predict('motor sound varuthu');
+
+    expect(excluded.coverage).toBeCloseTo(expected.coverage);
+    for (const [label, probability] of expected.probabilities) {
+      expect(excluded.probabilities.get(label)).toBeCloseTo(probability);
+    }
+  });
+});
+
+describe('PlattCalibration', () => {
+  it('should map higher scores to higher probabilities', () => {
+    const calibration = PlattCalibration.fit([
+      { score: 0.9, correct: true },
+      { score: 0.8, correct: true },
+      { score: 0.6, correct: true },
+      { score: 0.5, correct: false },
+      { score: 0.3, correct: false },
+      { score: 0.1, correct: false },
+    ]);
+
+    expect(calibration).not.toBeNull();
+    expect(calibration!.apply(0.9)).toBeGreaterThan(calibration!.apply(0.1));
+    expect(calibration!.apply(0.9)).toBeLessThan(1);
+    expect(calibration!.apply(0.1)).toBeGreaterThan(0);
+  });
+
+  it('should not fit too few samples of either outcome', () => {
+    expect(PlattCalibration.fit([
+      { score: 0.9, correct: true },
+      { score: 0.8, correct: true },
+      { score: 0.2, correct: false },
+    ])).toBeNull();
+  });
+
+  it('should not fit samples where higher scores are less often right', () => {
+    expect(PlattCalibration.fit([
+      { score: 0.9, correct: false },
+      { score: 0.8, correct: false },
+      { score: 0.2, correct: true },
+      { score: 0.1, correct: true },
+    ])).toBeNull();
+  });
+});
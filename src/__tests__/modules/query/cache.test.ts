@@ -0,0 +1,95 @@
+import { AnswerCache, CachedAnswer } from '../../../modules/query/cache';
+import { Manual } from '../../../models/Manual';
+
+jest.mock('../../../models/Manual');
+
+const mockGetCorpusVersion = Manual.getCorpusVersion as jest.Mock;
+
+const ENTERPRISE_ID = '64b7f0c2a1b2c3d4e5f60718';
+const OTHER_ENTERPRISE_ID = '64b7f0c2a1b2c3d4e5f60720';
+
+const value: CachedAnswer = {
+  chunks: [],
+  answer: { text: 'Check the main power supply.', sources: [], found: true },
+};
+
+const keyFor = (text: string, overrides: Record<string, string> = {}) => ({
+  enterprise_id: ENTERPRISE_ID,
+  text,
+  language: 'en',
+  ...overrides,
+});
+
+describe('AnswerCache', () => {
+  let cache: AnswerCache;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    cache = new AnswerCache(2, 60 * 1000);
+    mockGetCorpusVersion.mockResolvedValue('3:1700000000000');
+  });
+
+  it('should normalize case, punctuation and spacing', () => {
+    expect(AnswerCache.normalize('  Machine NOT starting?! ')).toBe('machine not starting');
+  });
+
+  it('should return stored answers and count hits and misses', async () => {
+    const miss = await cache.get(keyFor('machine not starting'));
+    expect(miss.value).toBeUndefined();
+
+    cache.set(keyFor('machine not starting'), miss.corpus_version, value);
+    const hit = await cache.get(keyFor('Machine not starting.'));
+
+    expect(hit.value).toBe(value);
+    expect(cache.getStats()).toMatchObject({ hits: 1, misses: 1, hit_rate: 0.5, size: 1 });
+  });
+
+  it('should scope entries by enterprise, language and machine', async () => {
+    const { corpus_version } = await cache.get(keyFor('machine not starting'));
+    cache.set(keyFor('machine not starting'), corpus_version, value);
+
+    expect((await cache.get(keyFor('machine not starting', { enterprise_id: OTHER_ENTERPRISE_ID }))).value).toBeUndefined();
+    expect((await cache.get(keyFor('machine not starting', { language: 'ta' }))).value).toBeUndefined();
+    expect((await cache.get(keyFor('machine not starting', { machine: 'cnc lathe' }))).value).toBeUndefined();
+  });
+
+  it('should invalidate an enterprise when its manual corpus version changes', async () => {
+    const { corpus_version } = await cache.get(keyFor('machine not starting'));
+    cache.set(keyFor('machine not starting'), corpus_version, value);
+
+    mockGetCorpusVersion.mockResolvedValue('4:1700000005000');
+    const lookup = await cache.get(keyFor('machine not starting'));
+
+    expect(lookup.value).toBeUndefined();
+    expect(cache.getStats().size).toBe(0);
+  });
+
+  it('should not store answers computed against an outdated corpus', async () => {
+    const { corpus_version } = await cache.get(keyFor('machine not starting'));
+    mockGetCorpusVersion.mockResolvedValue('4:1700000005000');
+    await cache.get(keyFor('how to change the belt'));
+
+    cache.set(keyFor('machine not starting'), corpus_version, value);
+
+    expect(cache.getStats().size).toBe(0);
+  });
+
+  it('should evict the least recently used entry when full', async () => {
+    const { corpus_version } = await cache.get(keyFor('first'));
+    cache.set(keyFor('first'), corpus_version, value);
+    cache.set(keyFor('second'), corpus_version, value);
+    await cache.get(keyFor('first'));
+    cache.set(keyFor('third'), corpus_version, value);
+
+    expect((await cache.get(keyFor('first'))).value).toBe(value);
+    expect((await cache.get(keyFor('second'))).value).toBeUndefined();
+  });
+
+  it('should expire entries after the TTL', async () => {
+    const shortLived = new AnswerCache(10, 0);
+    const { corpus_version } = await shortLived.get(keyFor('machine not starting'));
+    shortLived.set(keyFor('machine not starting'), corpus_version, value);
+
+    expect((await shortLived.get(keyFor('machine not starting'))).value).toBeUndefined();
+  });
+});
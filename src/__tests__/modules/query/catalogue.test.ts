@@ -0,0 +1,222 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { LANGUAGE_CODES } from '../../../utils/languages';
+import {
+  BUNDLED_CATALOGUE_PATH,
+  CATALOGUE_LANGUAGES,
+  IntentCatalogueError,
+  IntentCatalogueLoader,
+  getBundledIntents,
+  parseIntentCatalogue,
+} from '../../../modules/query/catalogue';
+
+jest.mock('../../../utils/logger');
+
+const VALID_CATALOGUE = `version: "7"
+intents:
+  - name: machine_not_starting
+    examples:
+      - machine not starting
+      - machine odala
+    responses:
+      en: Check the main power supply.
+      tanglish: Main power check pannunga.
+    labels:
+      en: the machine not starting
+    risk: low
+  - name: fire_smoke
+    examples:
+      - smoke coming from the machine
+    responses:
+      en: Press the emergency stop.
+    risk: critical
+    block_threshold: critical
+`;
+
+const issuesOf = (text: string) => {
+  try {
+    parseIntentCatalogue(text, 'test.yml');
+  } catch (error) {
+    if (error instanceof IntentCatalogueError) return error.issues;
+    throw error;
+  }
+  throw new Error('Catalogue was accepted');
+};
+
+describe('parseIntentCatalogue', () => {
+  it('should parse a valid catalogue', () => {
+    const catalogue = parseIntentCatalogue(VALID_CATALOGUE);
+
+    expect(catalogue.version).toBe('7');
+    expect(catalogue.checksum).toMatch(/^[0-9a-f]{12}$/);
+    expect(catalogue.intents).toEqual([
+      {
+        name: 'machine_not_starting',
+        examples: ['machine not starting', 'machine odala'],
+        responses: { en: 'Check the main power supply.', tanglish: 'Main power check pannunga.' },
+        labels: { en: 'the machine not starting' },
+        risk: 'low',
+      },
+      {
+        name: 'fire_smoke',
+        examples: ['smoke coming from the machine'],
+        responses: { en: 'Press the emergency stop.' },
+        risk: 'critical',
+        block_threshold: 'critical',
+      },
+    ]);
+  });
+
+  it('should accept the shipped catalogue', () => {
+    const text = readFileSync(path.resolve(__dirname, '../../../../config/intents.yml'), 'utf8');
+    const catalogue = parseIntentCatalogue(text);
+
+    expect(catalogue.intents.map(intent => intent.name)).toEqual(expect.arrayContaining([
+      'fire_smoke', 'electrical_hazard', 'bypass_safety',
+    ]));
+  });
+
+  it('should bundle the shipped catalogue', () => {
+    expect(BUNDLED_CATALOGUE_PATH).toBe(path.resolve(__dirname, '../../../../config/intents.yml'));
+    expect(getBundledIntents()).toEqual(parseIntentCatalogue(readFileSync(BUNDLED_CATALOGUE_PATH, 'utf8')).intents);
+  });
+
+  it('should accept responses in every supported language', () => {
+    expect(CATALOGUE_LANGUAGES).toEqual(LANGUAGE_CODES);
+    const responses = LANGUAGE_CODES.map(code => `      ${code}: Check the power supply.`).join('\n');
+
+    const catalogue = parseIntentCatalogue(`version: "1"
+intents:
+  - name: machine_not_starting
+    examples:
+      - machine not starting
+    responses:
+${responses}
+    risk: low
+`);
+
+    expect(Object.keys(catalogue.intents[0].responses)).toEqual(LANGUAGE_CODES);
+  });
+
+  it('should report YAML syntax errors with their line', () => {
+    const issues = issuesOf('version: "1"\nintents:\n  - name: [unclosed\n');
+
+    expect(issues.length).toBeGreaterThan(0);
+    expect(issues[0].line).toBeGreaterThanOrEqual(3);
+  });
+
+  it('should report every invalid field with its line and path', () => {
+    const issues = issuesOf(`version: "2"
+intents:
+  - name: Machine Not Starting
+    examples: []
+    responses:
+      ta: மின் இணைப்பைச் சரிபார்க்கவும்.
+    risk: severe
+    priority: 1
+`);
+
+    expect(issues).toEqual(expect.arrayContaining([
+      expect.objectContaining({ line: 3, path: 'intents[0].name', message: expect.stringContaining('snake_case') }),
+      expect.objectContaining({ line: 4, path: 'intents[0].examples' }),
+      expect.objectContaining({ line: 6, path: 'intents[0].responses', message: expect.stringContaining('"en"') }),
+      expect.objectContaining({ line: 7, path: 'intents[0].risk', message: expect.stringContaining('low, medium, high, critical') }),
+      expect.objectContaining({ line: 8, path: 'intents[0].priority', message: expect.stringContaining('unknown field') }),
+    ]));
+  });
+
+  it('should reject duplicate intents, unknown languages and unreachable block thresholds', () => {
+    const issues = issuesOf(`version: "3"
+intents:
+  - name: overheating
+    examples: [machine is overheating]
+    responses: { en: Stop the machine. }
+    risk: medium
+    block_threshold: high
+  - name: overheating
+    examples: [motor is very hot]
+    responses: { en: Let it cool down., tamil: Aaruvathu varai kaathirunga. }
+    risk: high
+`);
+
+    expect(issues).toEqual(expect.arrayContaining([
+      expect.objectContaining({ line: 7, path: 'intents[0].block_threshold', message: expect.stringContaining('would never block') }),
+      expect.objectContaining({ line: 10, path: 'intents[1].responses.tamil', message: expect.stringContaining('unknown language') }),
+    ]));
+  });
+
+  it('should reject the same intent name twice', () => {
+    const intent = '  - name: overheating\n    examples: [too hot]\n    responses: { en: Stop. }\n    risk: high\n';
+    const issues = issuesOf(`version: "4"\nintents:\n${intent}${intent}`);
+
+    expect(issues).toEqual([expect.objectContaining({ line: 7, path: 'intents[1].name', message: expect.stringContaining('duplicate intent "overheating"') })]);
+  });
+
+  it('should require a version', () => {
+    const issues = issuesOf(VALID_CATALOGUE.replace('version: "7"\n', ''));
+
+    expect(issues).toEqual([expect.objectContaining({ path: 'version' })]);
+  });
+});
+
+describe('IntentCatalogueLoader', () => {
+  let directory: string;
+  let file: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(path.join(tmpdir(), 'intents-'));
+    file = path.join(directory, 'intents.yml');
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should fall back to the bundled intents without a file', () => {
+    const loader = new IntentCatalogueLoader(file, 1000);
+
+    expect(loader.getCatalogue().version).toBe('builtin');
+    expect(loader.getIntents()).toEqual(getBundledIntents());
+  });
+
+  it('should fail to load an invalid file', () => {
+    writeFileSync(file, 'version: "1"\nintents: []\n');
+    const loader = new IntentCatalogueLoader(file, 1000);
+
+    expect(() => loader.load()).toThrow(IntentCatalogueError);
+  });
+
+  it('should reload changes and notify listeners', () => {
+    writeFileSync(file, VALID_CATALOGUE);
+    const loader = new IntentCatalogueLoader(file, 1000);
+    const listener = jest.fn();
+    loader.onChange(listener);
+    loader.load();
+
+    writeFileSync(file, VALID_CATALOGUE.replace('version: "7"', 'version: "8"'));
+    expect(loader.reload()).toBe(true);
+
+    expect(loader.getStatus()).toMatchObject({ version: '8', intents: 2, source: file });
+    expect(listener).toHaveBeenCalledTimes(2);
+    expect(listener.mock.calls[1][0].version).toBe('8');
+  });
+
+  it('should keep the previous catalogue when a reload is invalid', () => {
+    writeFileSync(file, VALID_CATALOGUE);
+    const loader = new IntentCatalogueLoader(file, 1000);
+    loader.load();
+
+    writeFileSync(file, VALID_CATALOGUE.replace('risk: low', 'risk: lowest'));
+    expect(loader.reload()).toBe(false);
+
+    const status = loader.getStatus();
+    expect(status.version).toBe('7');
+    expect(status.last_error?.issues).toEqual([expect.objectContaining({ line: 12, path: 'intents[0].risk' })]);
+    expect(loader.getIntents()[0].risk).toBe('low');
+
+    writeFileSync(file, VALID_CATALOGUE);
+    expect(loader.reload()).toBe(true);
+    expect(loader.getStatus().last_error).toBeUndefined();
+  });
+});
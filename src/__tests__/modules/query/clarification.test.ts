@@ -0,0 +1,105 @@
+import { ClarificationPolicy } from '../../../modules/query/clarification';
+import { getBundledIntents } from '../../../modules/query/catalogue';
+import { RetrievedChunk } from '../../../modules/query/retrieval';
+
+const getIntent = (name: string) => getBundledIntents().find(intent => intent.name === name);
+
+const makeChunk = (manualId: string, manualName: string, similarity: number): RetrievedChunk => ({
+  chunk_id: `${manualId}-chunk`,
+  manual_id: manualId,
+  manual_name: manualName,
+  text: 'Check the power supply.',
+  similarity,
+  metadata: { word_count: 4, char_count: 23 },
+});
+
+describe('ClarificationPolicy', () => {
+  const policy = new ClarificationPolicy({ minConfidence: 0.45, tieMargin: 0.05, minOptionConfidence: 0.2, maxOptions: 3 });
+
+  describe('forIntents', () => {
+    it('should not ask when the top intent is clear', () => {
+      const request = policy.forIntents([
+        { name: 'machine_not_starting', confidence: 0.9 },
+        { name: 'error_code', confidence: 0.4 },
+      ], 'en', getIntent);
+
+      expect(request).toBeNull();
+    });
+
+    it('should offer every plausible intent when confidence is low', () => {
+      const request = policy.forIntents([
+        { name: 'machine_not_starting', confidence: 0.4 },
+        { name: 'error_code', confidence: 0.3 },
+        { name: 'abnormal_noise', confidence: 0.1 },
+      ], 'en', getIntent);
+
+      expect(request?.reason).toBe('low_confidence');
+      expect(request?.options.map(option => option.value)).toEqual(['machine_not_starting', 'error_code']);
+      expect(request?.question).toBe('I am not sure I understood. Is your question about the machine not starting or an error code?');
+    });
+
+    it('should offer only the tied intents when the top intent is confident', () => {
+      const request = policy.forIntents([
+        { name: 'abnormal_noise', confidence: 0.7 },
+        { name: 'overheating', confidence: 0.68 },
+        { name: 'error_code', confidence: 0.5 },
+      ], 'ta', getIntent);
+
+      expect(request?.reason).toBe('tied_intents');
+      expect(request?.options.map(option => option.label)).toEqual(['அசாதாரண சத்தம்', 'அதிக வெப்பம்']);
+      expect(request?.question).toBe('உங்கள் கேள்வி சரியாகப் புரியவில்லை. இது அசாதாரண சத்தம் அல்லது அதிக வெப்பம் பற்றியதா?');
+    });
+
+    it('should not ask when fewer than two intents are plausible', () => {
+      const request = policy.forIntents([
+        { name: 'machine_not_starting', confidence: 0.25 },
+        { name: 'error_code', confidence: 0.1 },
+      ], 'en', getIntent);
+
+      expect(request).toBeNull();
+    });
+
+    it('should fall back to English labels, then to the intent name', () => {
+      const request = policy.forIntents([
+        { name: 'overheating', confidence: 0.3 },
+        { name: 'custom_intent', confidence: 0.3 },
+      ], 'hi', getIntent);
+
+      expect(request?.options.map(option => option.label)).toEqual(['overheating', 'custom intent']);
+      expect(request?.question).toContain('overheating or custom intent');
+    });
+  });
+
+  describe('forSources', () => {
+    it('should ask which machine when manuals match equally well', () => {
+      const request = policy.forSources([
+        makeChunk('manual1', 'hydraulic-press.pdf', 0.8),
+        makeChunk('manual2', 'cnc_lathe.docx', 0.78),
+        makeChunk('manual1', 'hydraulic-press.pdf', 0.7),
+      ], 'en');
+
+      expect(request).toEqual({
+        reason: 'ambiguous_machine',
+        question: 'Which machine do you mean: hydraulic press or cnc lathe?',
+        options: [
+          { id: '1', kind: 'manual', value: 'manual1', label: 'hydraulic press', confidence: 0.8 },
+          { id: '2', kind: 'manual', value: 'manual2', label: 'cnc lathe', confidence: 0.78 },
+        ],
+      });
+    });
+
+    it('should not ask when one manual clearly matches best', () => {
+      expect(policy.forSources([
+        makeChunk('manual1', 'hydraulic-press.pdf', 0.8),
+        makeChunk('manual2', 'cnc_lathe.docx', 0.6),
+      ], 'en')).toBeNull();
+    });
+
+    it('should not ask when all chunks come from one manual', () => {
+      expect(policy.forSources([
+        makeChunk('manual1', 'hydraulic-press.pdf', 0.8),
+        makeChunk('manual1', 'hydraulic-press.pdf', 0.79),
+      ], 'en')).toBeNull();
+    });
+  });
+});
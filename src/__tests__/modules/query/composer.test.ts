@@ -0,0 +1,82 @@
+import { AnswerComposer, DEFAULT_ANSWER_TEMPLATES } from '../../../modules/query/composer';
+import { HashingEmbeddingService } from '../../../modules/query/embeddings';
+import { RetrievedChunk } from '../../../modules/query/retrieval';
+
+const makeChunk = (overrides: Partial<RetrievedChunk> = {}): RetrievedChunk => ({
+  chunk_id: 'chunk1',
+  manual_id: 'manual1',
+  manual_name: 'press-manual.pdf',
+  text: '',
+  similarity: 0.8,
+  metadata: { word_count: 0, char_count: 0 },
+  ...overrides,
+});
+
+describe('AnswerComposer', () => {
+  const composer = new AnswerComposer(new HashingEmbeddingService(), { minSimilarity: 0.4, maxSentences: 2 });
+
+  it('should pick the sentences most relevant to the question', async () => {
+    const chunk = makeChunk({
+      text: 'The press frame is painted grey. Check the hydraulic oil level weekly using the sight glass. The warranty lasts two years.',
+    });
+
+    const answer = await composer.compose('how to check hydraulic oil level', [chunk], 'en');
+
+    expect(answer.found).toBe(true);
+    expect(answer.text).toContain('Check the hydraulic oil level weekly using the sight glass.');
+    expect(answer.text).not.toContain('warranty');
+    expect(answer.sources).toEqual([expect.objectContaining({ chunk_id: 'chunk1', manual_name: 'press-manual.pdf' })]);
+  });
+
+  it('should keep numbered procedure steps together and in order', async () => {
+    const chunk = makeChunk({
+      text: 'Replacing the drive belt:\n1. Switch off and lock out the main isolator.\n2. Remove the belt guard.\n3. Loosen the motor mount and replace the drive belt.\n4. Refit the belt guard before restarting.',
+    });
+
+    const answer = await composer.compose('how to replace the drive belt', [chunk], 'en');
+    const lines = answer.text.split('\n');
+
+    const steps = lines.filter(line => /^\d\./.test(line));
+    expect(steps.map(step => step[0])).toEqual(['1', '2', '3', '4']);
+  });
+
+  it('should split steps that were flattened onto one line', async () => {
+    const chunk = makeChunk({
+      text: 'To reset the spindle: 1. Press stop. 2. Turn the key to reset. 3. Press start.',
+    });
+
+    const answer = await composer.compose('reset the spindle', [chunk], 'en');
+
+    expect(answer.text).toContain('1. Press stop.\n2. Turn the key to reset.\n3. Press start.');
+  });
+
+  it('should wrap answers in the operator language template', async () => {
+    const chunk = makeChunk({ text: 'Check the hydraulic oil level weekly.' });
+
+    const answer = await composer.compose('hydraulic oil level', [chunk], 'tanglish');
+    const lines = answer.text.split('\n');
+
+    expect(lines[0]).toBe('press-manual.pdf manual padi:');
+    expect(lines[lines.length - 1]).toBe(DEFAULT_ANSWER_TEMPLATES.tanglish.outro);
+  });
+
+  it('should return a localized not-found message below the similarity threshold', async () => {
+    const chunk = makeChunk({ text: 'Check the hydraulic oil level weekly.', similarity: 0.3 });
+
+    const answer = await composer.compose('hydraulic oil level', [chunk], 'ta');
+
+    expect(answer).toEqual({ text: DEFAULT_ANSWER_TEMPLATES.ta.not_found, sources: [], found: false });
+  });
+
+  it('should only cite the chunks it used', async () => {
+    const chunks = [
+      makeChunk({ chunk_id: 'chunk1', text: 'Check the hydraulic oil level weekly using the sight glass.' }),
+      makeChunk({ chunk_id: 'chunk2', text: 'Grease the slide ways monthly.', similarity: 0.5 }),
+    ];
+
+    const answer = await new AnswerComposer(new HashingEmbeddingService(), { maxSentences: 1 })
+      .compose('hydraulic oil level sight glass', chunks, 'en');
+
+    expect(answer.sources.map(source => source.chunk_id)).toEqual(['chunk1']);
+  });
+});
@@ -0,0 +1,91 @@
+import { ConversationResolver } from '../../../modules/query/conversation';
+import { IConversation } from '../../../models/Conversation';
+
+const conversation = (context: Record<string, any> = {}, turns: number = 1) => ({
+  query_ids: new Array(turns).fill('q'),
+  context,
+}) as unknown as IConversation;
+
+describe('ConversationResolver', () => {
+  describe('detectMachine', () => {
+    it('should find multi-word machine names before single words', () => {
+      expect(ConversationResolver.detectMachine('Hydraulic press is leaking oil')).toBe('hydraulic press');
+      expect(ConversationResolver.detectMachine('cnc lathe chuck not gripping')).toBe('cnc lathe');
+    });
+
+    it('should return undefined when no machine is mentioned', () => {
+      expect(ConversationResolver.detectMachine('what torque for the bolts?')).toBeUndefined();
+    });
+
+    it('should not match machine names inside other words', () => {
+      expect(ConversationResolver.detectMachine('please express the value')).toBeUndefined();
+    });
+  });
+
+  describe('isFollowUp', () => {
+    it('should not treat the first turn as a follow-up', () => {
+      expect(ConversationResolver.isFollowUp('what torque?', conversation({}, 0))).toBe(false);
+      expect(ConversationResolver.isFollowUp('what torque?', null)).toBe(false);
+    });
+
+    it('should treat short questions as follow-ups', () => {
+      expect(ConversationResolver.isFollowUp('what torque for the bolts?', conversation())).toBe(true);
+    });
+
+    it('should treat longer questions with references as follow-ups', () => {
+      expect(ConversationResolver.isFollowUp(
+        'and after I have removed it how long should I wait before running',
+        conversation()
+      )).toBe(true);
+    });
+
+    it('should treat questions naming a machine as a new topic', () => {
+      expect(ConversationResolver.isFollowUp('hydraulic press noise', conversation())).toBe(false);
+    });
+  });
+
+  describe('resolve', () => {
+    it('should carry machine, manual and previous text forward for follow-ups', () => {
+      const resolved = ConversationResolver.resolve('what torque for the bolts?', conversation({
+        machine: 'cnc lathe',
+        manual_id: 'manual1',
+        last_text: 'how to change the spindle belt',
+      }));
+
+      expect(resolved).toEqual({
+        is_follow_up: true,
+        retrieval_text: 'how to change the spindle belt what torque for the bolts?',
+        machine: 'cnc lathe',
+        manual_id: 'manual1',
+      });
+    });
+
+    it('should leave new topics untouched', () => {
+      const resolved = ConversationResolver.resolve('boiler pressure too high', conversation({ machine: 'cnc lathe' }));
+      expect(resolved).toEqual({ is_follow_up: false, retrieval_text: 'boiler pressure too high', machine: 'boiler' });
+    });
+  });
+
+  describe('carryIntent', () => {
+    const unknown = { name: 'unknown', confidence: 0.1, matched_examples: [] };
+
+    it('should carry the previous intent for unclassified follow-ups', () => {
+      const conv = conversation({ intent: 'maintenance_procedure', intent_confidence: 0.8 });
+      const resolved = ConversationResolver.resolve('what torque?', conv);
+
+      expect(ConversationResolver.carryIntent(unknown, resolved, conv)).toEqual({
+        name: 'maintenance_procedure',
+        confidence: 0.8,
+        matched_examples: [],
+      });
+    });
+
+    it('should keep a classified intent even on follow-ups', () => {
+      const conv = conversation({ intent: 'maintenance_procedure' });
+      const resolved = ConversationResolver.resolve('smoke now', conv);
+      const fire = { name: 'fire_smoke', confidence: 0.6, matched_examples: ['pugai varuthu'] };
+
+      expect(ConversationResolver.carryIntent(fire, resolved, conv)).toBe(fire);
+    });
+  });
+});
@@ -0,0 +1,111 @@
+import {
+  GoldenSetEvaluator,
+  GoldenSetError,
+  EvaluationReport,
+  parseGoldenSet,
+} from '../../../modules/query/evaluation';
+import { IntentConfig } from '../../../types';
+
+jest.mock('../../../utils/logger');
+
+const INTENTS: IntentConfig[] = [
+  { name: 'overheating', examples: ['motor is very hot'], responses: { en: 'Let it cool.' }, risk: 'high' },
+  { name: 'belt_slipping', examples: ['conveyor belt slipping'], responses: { en: 'Tension the belt.' }, risk: 'low' },
+  { name: 'fire_smoke', examples: ['smoke coming from the machine'], responses: { en: 'Evacuate.' }, risk: 'critical' },
+];
+
+const GOLDEN = [
+  '# comment lines and blank lines are skipped',
+  '',
+  '{"text": "motor is very hot", "language": "en", "expected_intent": "overheating", "expected_risk": "high"}',
+  '{"text": "conveyor belt slipping", "language": "en", "expected_intent": "belt_slipping", "expected_risk": "low"}',
+  '{"text": "smoke coming from the machine", "language": "en", "expected_intent": "fire_smoke", "expected_risk": "critical"}',
+  '{"text": "belt slipping and burning", "language": "tanglish", "expected_intent": "fire_smoke", "expected_risk": "critical"}',
+  '{"text": "xyzzy plugh", "language": "tanglish", "expected_intent": "fire_smoke", "expected_risk": "critical"}',
+].join('\n');
+
+describe('parseGoldenSet', () => {
+  it('should parse labeled utterances with their line numbers', () => {
+    const examples = parseGoldenSet(GOLDEN);
+
+    expect(examples).toHaveLength(5);
+    expect(examples[0]).toEqual({
+      text: 'motor is very hot',
+      language: 'en',
+      expected_intent: 'overheating',
+      expected_risk: 'high',
+      line: 3,
+    });
+  });
+
+  it.each([
+    ['{"text": "hot"', 'Line 1: invalid JSON'],
+    ['{"text": "hot", "language": "en", "expected_intent": "overheating"}', 'Line 1: "expected_risk" must be a non-empty string'],
+    ['{"text": "hot", "language": "en", "expected_intent": "overheating", "expected_risk": "severe"}', 'Line 1: "expected_risk" must be one of'],
+    ['{"text": "hot", "language": "en", "expected_intent": "overheating", "expected_risk": "high", "note": "x"}', 'Line 1: unknown field "note"'],
+    ['# nothing but comments', 'golden set is empty'],
+  ])('should reject %s', (text, message) => {
+    expect(() => parseGoldenSet(text)).toThrow(GoldenSetError);
+    expect(() => parseGoldenSet(text)).toThrow(message);
+  });
+});
+
+describe('GoldenSetEvaluator', () => {
+  let report: EvaluationReport;
+
+  beforeAll(async () => {
+    report = await new GoldenSetEvaluator(INTENTS, 'test').evaluate(parseGoldenSet(GOLDEN));
+  });
+
+  it('should report accuracy and critical recall', () => {
+    expect(report).toMatchObject({
+      catalogue_version: 'test',
+      total: 5,
+      critical_support: 3,
+    });
+    // The unclassifiable hazard is the only critical miss; keywords catch the burning belt
+    expect(report.critical_recall).toBe(0.667);
+    expect(report.critical_misses).toMatchObject([{ line: 7, text: 'xyzzy plugh', predicted_risk: 'low' }]);
+    expect(report.risk_accuracy).toBe(0.8);
+    expect(report.intent_accuracy).toBe(0.6);
+  });
+
+  it('should report precision and recall per intent', () => {
+    expect(report.per_intent.fire_smoke).toEqual({ precision: 1, recall: 0.333, f1: 0.5, support: 3 });
+    expect(report.per_intent.overheating).toEqual({ precision: 1, recall: 1, f1: 1, support: 1 });
+    expect(report.per_intent.belt_slipping.precision).toBe(0.5);
+  });
+
+  it('should build confusion matrices with expected labels as rows', () => {
+    const { labels, matrix } = report.intent_confusion;
+    const cell = (expected: string, predicted: string) => matrix[labels.indexOf(expected)][labels.indexOf(predicted)];
+
+    expect(labels).toEqual(['belt_slipping', 'fire_smoke', 'overheating', 'unknown']);
+    expect(cell('fire_smoke', 'fire_smoke')).toBe(1);
+    expect(cell('fire_smoke', 'belt_slipping')).toBe(1);
+    expect(cell('fire_smoke', 'unknown')).toBe(1);
+
+    expect(report.risk_confusion.labels).toEqual(['low', 'medium', 'high', 'critical']);
+    expect(report.risk_confusion.matrix[3]).toEqual([1, 0, 0, 2]);
+  });
+
+  it('should break accuracy down by language', () => {
+    expect(report.per_language).toEqual({
+      en: { total: 3, intent_accuracy: 1, risk_accuracy: 1 },
+      tanglish: { total: 2, intent_accuracy: 0, risk_accuracy: 0.5 },
+    });
+  });
+
+  it('should flag any drop in critical recall against a baseline', () => {
+    const baseline = { ...report, critical_recall: 1, intent_accuracy: 0.62 };
+
+    expect(GoldenSetEvaluator.compare(report, baseline)).toEqual([
+      { metric: 'critical_recall', baseline: 1, current: 0.667 },
+      { metric: 'intent_accuracy', baseline: 0.62, current: 0.6 },
+    ]);
+    expect(GoldenSetEvaluator.compare(report, baseline, 0.05)).toEqual([
+      { metric: 'critical_recall', baseline: 1, current: 0.667 },
+    ]);
+    expect(GoldenSetEvaluator.compare(report, report)).toEqual([]);
+  });
+});
@@ -0,0 +1,76 @@
+import { summarizeRiskExplanation } from '../../../modules/query/explanation';
+import { RiskAssessor } from '../../../modules/query/risk';
+import { RiskExplanation } from '../../../types';
+
+jest.mock('../../../utils/logger');
+
+const explain = (text: string, risk: 'medium' | 'high' | 'critical' = 'medium'): RiskExplanation =>
+  RiskAssessor.assess({ name: 'error_code', examples: [], responses: {}, risk }, 'medium', text).explanation;
+
+describe('summarizeRiskExplanation', () => {
+  it('should summarize a keyword escalation in English', () => {
+    expect(summarizeRiskExplanation(explain('smoke and more smoke from the panel'))).toBe(
+      'Risk is critical; the query was blocked. Intent "error_code" carries medium risk. ' +
+      'Hazard words: "smoke" (fire_smoke). Above the enterprise threshold (medium).'
+    );
+  });
+
+  it('should list fired enterprise rules', () => {
+    const explanation = RiskAssessor.assess(
+      { name: 'overheating', examples: [], responses: {}, risk: 'high' },
+      'critical',
+      'press at 95 C',
+      undefined,
+      [{ rule_id: 'hot_press', source: 'rule', level: 'high', rule_version: 2 }]
+    ).explanation;
+
+    expect(summarizeRiskExplanation(explanation)).toBe(
+      'Risk is high; the query was answered. Intent "overheating" carries high risk. ' +
+      'Enterprise rules fired: hot_press (high). Within the enterprise threshold (critical).'
+    );
+  });
+
+  it('should mention the intent block threshold when it decided the block', () => {
+    const explanation = RiskAssessor.assess(
+      { name: 'overheating', examples: [], responses: {}, risk: 'high', block_threshold: 'high' },
+      'critical'
+    ).explanation;
+
+    expect(summarizeRiskExplanation(explanation)).toContain('Reaches the intent\'s block threshold (high).');
+  });
+
+  it('should explain refusals during a lockdown', () => {
+    const explanation = explain('how do I restart the press');
+    explanation.decision = { ...explanation.decision, blocked: true, locked_down: true };
+
+    expect(summarizeRiskExplanation(explanation)).toMatch(/^Risk is medium; the query was refused because the operator is locked down\./);
+  });
+
+  it('should localize to Tamil and Tanglish', () => {
+    const explanation = explain('இயந்திரத்தில் புகை வருகிறது');
+
+    expect(summarizeRiskExplanation(explanation, 'ta')).toBe(
+      'ஆபத்து நிலை: மிகக் கடுமையான; கேள்வி தடுக்கப்பட்டது. "error_code" நோக்கத்தின் ஆபத்து நிலை: நடுத்தர. ' +
+      'ஆபத்துச் சொற்கள்: "புகை" (fire_smoke). நிறுவன வரம்பை (நடுத்தர) மீறுகிறது.'
+    );
+    expect(summarizeRiskExplanation(explain('motor romba soodu aagudhu'), 'tanglish')).toBe(
+      'Risk high; query block pannapattadhu. "error_code" intent-oda risk medium. ' +
+      'Aabathu vaarthaigal: "romba soodu" (overheating). Enterprise threshold (medium)-a thaandudhu.'
+    );
+  });
+
+  it('should say why the risk was lowered', () => {
+    const explanation = explain('what if there is a fire');
+
+    expect(summarizeRiskExplanation(explanation)).toContain(
+      'Lowered from critical because the hazard is only mentioned as hypothetical.'
+    );
+    expect(summarizeRiskExplanation(explain('pugai illa'), 'tanglish')).toContain(
+      'Aabathu illa-nnu mattum sonnadhaala critical-la irundhu kuraikkapattadhu.'
+    );
+  });
+
+  it('should fall back to English for other languages', () => {
+    expect(summarizeRiskExplanation(explain('smoke'), 'fr')).toBe(summarizeRiskExplanation(explain('smoke')));
+  });
+});
@@ -0,0 +1,143 @@
+import mongoose from 'mongoose';
+import { QueryJobQueue } from '../../../modules/query/jobs';
+import { QueryPipeline } from '../../../modules/query/pipeline';
+import { AudioStore } from '../../../modules/query/audio';
+import { QueryJob } from '../../../models/QueryJob';
+
+jest.mock('../../../models/QueryJob');
+jest.mock('../../../utils/logger');
+
+const mockCreate = QueryJob.create as jest.Mock;
+const mockClaimNext = QueryJob.claimNext as jest.Mock;
+const mockFinish = QueryJob.finish as jest.Mock;
+const mockCancel = QueryJob.cancel as jest.Mock;
+
+const ENTERPRISE_ID = '64b7f0c2a1b2c3d4e5f60718';
+const OPERATOR_ID = '64b7f0c2a1b2c3d4e5f60719';
+const AUDIO_FILE_ID = new mongoose.Types.ObjectId();
+
+const makeJob = (id: string, overrides: Record<string, any> = {}) => ({
+  _id: id,
+  enterprise_id: ENTERPRISE_ID,
+  operator_id: OPERATOR_ID,
+  trace_id: `trace-${id}`,
+  status: 'running',
+  attempts: 1,
+  request: { input_text: 'machine not starting', language: 'auto' },
+  ...overrides,
+});
+
+// Let queued promise callbacks run
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+describe('QueryJobQueue', () => {
+  let process: jest.Mock;
+  let audioStore: { save: jest.Mock; load: jest.Mock; remove: jest.Mock };
+  let queue: QueryJobQueue;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process = jest.fn().mockResolvedValue({ text: 'answer' });
+    audioStore = {
+      save: jest.fn().mockResolvedValue(AUDIO_FILE_ID),
+      load: jest.fn().mockResolvedValue('UklGRg=='),
+      remove: jest.fn().mockResolvedValue(undefined),
+    };
+    queue = new QueryJobQueue({
+      pipeline: { process } as unknown as QueryPipeline,
+      audioStore: audioStore as unknown as AudioStore,
+      concurrency: 2,
+      leaseMs: 60000,
+      maxAttempts: 3,
+    });
+    mockClaimNext.mockResolvedValue(null);
+    mockFinish.mockResolvedValue({});
+  });
+
+  it('should store audio-only requests in the audio store and queue them', async () => {
+    mockCreate.mockImplementation(async (doc: any) => ({ _id: 'job1', ...doc }));
+
+    await queue.submit({
+      enterprise_id: ENTERPRISE_ID,
+      operator_id: OPERATOR_ID,
+      audio_base64: 'UklGRg==',
+    }, 'trace-1');
+
+    expect(audioStore.save).toHaveBeenCalledWith('UklGRg==', 'trace-1.audio');
+    const job = mockCreate.mock.calls[0][0];
+    expect(job.request).toEqual(expect.objectContaining({ audio_file_id: AUDIO_FILE_ID, language: 'auto' }));
+    expect(job.request.audio_base64).toBeUndefined();
+  });
+
+  it('should process claimed jobs and record the response', async () => {
+    const job = makeJob('job1', { request: { audio_file_id: AUDIO_FILE_ID, language: 'ta' } });
+    mockClaimNext.mockResolvedValueOnce(job).mockResolvedValue(null);
+
+    await queue.drain();
+    await flush();
+
+    expect(process).toHaveBeenCalledWith(
+      expect.objectContaining({ enterprise_id: ENTERPRISE_ID, audio_base64: 'UklGRg==', language: 'ta' }),
+      'trace-job1',
+      undefined,
+      expect.objectContaining({ signal: expect.any(AbortSignal) })
+    );
+    expect(mockFinish).toHaveBeenCalledWith('job1', { status: 'completed', result: { text: 'answer' } });
+    expect(audioStore.remove).toHaveBeenCalledWith(AUDIO_FILE_ID);
+    expect(queue.getRunningCount()).toBe(0);
+  });
+
+  it('should not run more jobs than the concurrency limit', async () => {
+    process.mockReturnValue(new Promise(() => undefined));
+    mockClaimNext.mockImplementation(async () => makeJob(`job${mockClaimNext.mock.calls.length}`));
+
+    await queue.drain();
+
+    expect(queue.getRunningCount()).toBe(2);
+    expect(mockClaimNext).toHaveBeenCalledTimes(2);
+  });
+
+  it('should abort a running job when it is cancelled', async () => {
+    let signal: AbortSignal | undefined;
+    process.mockImplementation((_request: any, _trace: any, _listener: any, options: any) => {
+      signal = options.signal;
+      return new Promise(() => undefined);
+    });
+    mockClaimNext.mockResolvedValueOnce(makeJob('job1')).mockResolvedValue(null);
+    mockCancel.mockResolvedValue(makeJob('job1', { status: 'cancelled' }));
+
+    await queue.drain();
+    await flush();
+    const cancelled = await queue.cancel('job1');
+
+    expect(cancelled?.status).toBe('cancelled');
+    expect(signal?.aborted).toBe(true);
+  });
+
+  it('should record pipeline failures on the job', async () => {
+    const error = Object.assign(new Error('Enterprise not found'), { statusCode: 404, code: 'ENTERPRISE_NOT_FOUND' });
+    process.mockRejectedValue(error);
+    mockClaimNext.mockResolvedValueOnce(makeJob('job1')).mockResolvedValue(null);
+
+    await queue.drain();
+    await flush();
+
+    expect(mockFinish).toHaveBeenCalledWith('job1', {
+      status: 'failed',
+      error: { code: 'ENTERPRISE_NOT_FOUND', message: 'Enterprise not found' },
+    });
+  });
+
+  it('should give up on jobs interrupted too many times', async () => {
+    mockClaimNext.mockResolvedValueOnce(makeJob('job1', { attempts: 4 })).mockResolvedValue(null);
+
+    await queue.drain();
+    await flush();
+
+    expect(process).not.toHaveBeenCalled();
+    expect(mockFinish).toHaveBeenCalledWith('job1', expect.objectContaining({
+      status: 'failed',
+      error: expect.objectContaining({ code: 'JOB_ATTEMPTS_EXHAUSTED' }),
+    }));
+  });
+});
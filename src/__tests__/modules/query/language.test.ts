@@ -2,9 +2,13 @@ import {
   LanguageDetectionResult,
   TamilDetectionUtils,
   TanglishDetector,
+  IndicScriptUtils,
+  CodeMixedDetector,
+  INDIC_SCRIPTS,
   SimpleLanguageDetector,
   LanguageDetectionService
 } from '../../../modules/query/language';
+import { RomanizedHindiDetector, RomanizedTamilDetector } from '../../../modules/query/romanized';
 
 describe('TamilDetectionUtils', () => {
   describe('isTamilCharacter', () => {
@@ -125,6 +129,104 @@ describe('TanglishDetector', () => {
   });
 });
 
+describe('RomanizedTamilDetector', () => {
+  describe('classifyWord', () => {
+    it('should recognize lexicon words and Tamil suffixes', () => {
+      expect(RomanizedTamilDetector.classifyWord('pannanum')).toBe('lexicon');
+      expect(RomanizedTamilDetector.classifyWord('motorku')).toBe('suffix');
+      expect(RomanizedTamilDetector.classifyWord('odalama')).toBe('suffix');
+    });
+
+    it('should keep English words English whatever their endings', () => {
+      expect(RomanizedTamilDetector.classifyWord('machine')).toBe('english');
+      expect(RomanizedTamilDetector.classifyWord('simple')).toBe('english');
+      expect(RomanizedTamilDetector.classifyWord('vanilla')).not.toBe('suffix');
+    });
+
+    it('should judge unlisted words by their character n-grams', () => {
+      expect(RomanizedTamilDetector.classifyWord('aagave')).toBe('ngram');
+      expect(RomanizedTamilDetector.classifyWord('xyz')).toBe('english');
+    });
+  });
+
+  describe('score', () => {
+    it('should detect Tamil typed in Latin letters', () => {
+      const result = RomanizedTamilDetector.score('machine odala, enna pannanum');
+      expect(result.isRomanizedTamil).toBe(true);
+      expect(result.ratio).toBeCloseTo(0.75, 2);
+      expect(result.lexicon_words).toBe(3);
+      expect(result.confidence).toBe(0.85);
+    });
+
+    it('should split Tamil suffixes joined with hyphens', () => {
+      const result = RomanizedTamilDetector.score('motor-ku enna aachu');
+      expect(result.words).toBe(4);
+      expect(result.lexicon_words).toBe(3);
+      expect(result.isRomanizedTamil).toBe(true);
+    });
+
+    it('should need more than n-gram evidence', () => {
+      expect(RomanizedTamilDetector.score('xyz abc def').isRomanizedTamil).toBe(false);
+      expect(RomanizedTamilDetector.score('aagave kedaiku').isRomanizedTamil).toBe(false);
+    });
+
+    it('should not detect English as romanized Tamil', () => {
+      const result = RomanizedTamilDetector.score('the whole machine is shaking badly');
+      expect(result.isRomanizedTamil).toBe(false);
+      expect(result.confidence).toBe(0);
+    });
+  });
+});
+
+describe('RomanizedHindiDetector', () => {
+  it('should detect Hindi typed in Latin letters', () => {
+    const result = RomanizedHindiDetector.score('machine chal nahi raha hai');
+    expect(result.lexicon_words).toBe(4);
+    expect(result.isRomanizedHindi).toBe(true);
+    expect(result.confidence).toBe(0.85);
+  });
+
+  it('should need more than one Hindi word', () => {
+    expect(RomanizedHindiDetector.score('check the ki valve').isRomanizedHindi).toBe(false);
+  });
+
+  it('should not detect English as romanized Hindi', () => {
+    const result = RomanizedHindiDetector.score('is the pump on main line to us');
+    expect(result.lexicon_words).toBe(0);
+    expect(result.isRomanizedHindi).toBe(false);
+  });
+});
+
+describe('IndicScriptUtils', () => {
+  const script = (language: string) => INDIC_SCRIPTS.find(entry => entry.language === language)!;
+
+  it('should calculate the share of a script', () => {
+    expect(IndicScriptUtils.calculateScriptRatio('मशीन', script('hindi'))).toBe(1);
+    expect(IndicScriptUtils.calculateScriptRatio('मशीन', script('bengali'))).toBe(0);
+    expect(IndicScriptUtils.calculateScriptRatio('', script('hindi'))).toBe(0);
+  });
+
+  it('should find the dominant script', () => {
+    expect(IndicScriptUtils.dominantScript('మెషిన్ పని చేయడం లేదు')?.script.language).toBe('telugu');
+    expect(IndicScriptUtils.dominantScript('machine is down')).toBeNull();
+  });
+});
+
+describe('CodeMixedDetector', () => {
+  const hindi = INDIC_SCRIPTS.find(entry => entry.language === 'hindi')!;
+
+  it('should detect a script mixed with English', () => {
+    const result = CodeMixedDetector.calculateMixedRatio('मशीन बंद है please check', hindi);
+    expect(result.isCodeMixed).toBe(true);
+    expect(result.confidence).toBe(0.9);
+  });
+
+  it('should not detect pure script or pure English as code-mixed', () => {
+    expect(CodeMixedDetector.calculateMixedRatio('मशीन बंद है', hindi).isCodeMixed).toBe(false);
+    expect(CodeMixedDetector.calculateMixedRatio('machine is down', hindi).isCodeMixed).toBe(false);
+  });
+});
+
 describe('SimpleLanguageDetector', () => {
   describe('detectWithPatterns', () => {
     it('should detect English text', () => {
@@ -173,18 +275,87 @@ describe('LanguageDetectionService', () => {
       const result = await LanguageDetectionService.detectLanguage('வணக்கம் hello world');
       expect(result.detected_language).toBe('tanglish');
       expect(result.is_tanglish).toBe(true);
+      expect(result.tanglish_type).toBe('script_mixed');
       expect(result.tamil_ratio).toBeGreaterThan(0);
       expect(result.confidence).toBeGreaterThan(0);
     });
 
+    it('should detect romanized Tanglish', async () => {
+      const result = await LanguageDetectionService.detectLanguage('motor romba soodu aagudhu');
+      expect(result.detected_language).toBe('tanglish');
+      expect(result.is_tanglish).toBe(true);
+      expect(result.tanglish_type).toBe('romanized');
+      expect(result.tamil_ratio).toBe(0);
+      expect(result.confidence).toBe(0.85);
+    });
+
     it('should detect pure Tamil correctly', async () => {
       const result = await LanguageDetectionService.detectLanguage('வணக்கம் நண்பர்களே எப்படி இருக்கீங்க');
       expect(result.detected_language).toBe('tamil');
       expect(result.is_tanglish).toBe(false);
+      expect(result.tanglish_type).toBeUndefined();
       expect(result.tamil_ratio).toBeGreaterThan(0.8);
       expect(result.confidence).toBe(0.9);
     });
 
+    it.each([
+      ['मशीन से धुआं आ रहा है', 'hindi'],
+      ['మెషిన్ నుండి పొగ వస్తోంది', 'telugu'],
+      ['ಯಂತ್ರದಿಂದ ಹೊಗೆ ಬರುತ್ತಿದೆ', 'kannada'],
+      ['മെഷീനിൽ നിന്ന് പുക വരുന്നു', 'malayalam'],
+      ['মেশিন থেকে ধোঁয়া বের হচ্ছে', 'bengali'],
+    ])('should detect pure Indic text: %s', async (text, language) => {
+      const result = await LanguageDetectionService.detectLanguage(text);
+      expect(result.detected_language).toBe(language);
+      expect(result.is_code_mixed).toBe(false);
+      expect(result.script_ratio).toBeGreaterThan(0.8);
+      expect(result.confidence).toBe(0.9);
+    });
+
+    it.each([
+      ['मशीन से धुआं आ रहा है please check', 'hinglish'],
+      ['motor నుండి పొగ వస్తోంది', 'tenglish'],
+      ['pump ಬಿಸಿ ಆಗಿದೆ', 'kanglish'],
+      ['motor ചൂടാകുന്നു', 'manglish'],
+      ['conveyor বন্ধ হয়ে গেছে', 'banglish'],
+    ])('should detect code-mixed Indic text: %s', async (text, language) => {
+      const result = await LanguageDetectionService.detectLanguage(text);
+      expect(result.detected_language).toBe(language);
+      expect(result.is_code_mixed).toBe(true);
+      expect(result.is_tanglish).toBe(false);
+    });
+
+    it('should detect romanized Hinglish', async () => {
+      const result = await LanguageDetectionService.detectLanguage('machine chal nahi raha hai');
+      expect(result.detected_language).toBe('hinglish');
+      expect(result.is_code_mixed).toBe(true);
+      expect(result.script_ratio).toBe(0);
+    });
+
+    it('should keep romanized Tanglish Tanglish', async () => {
+      const result = await LanguageDetectionService.detectLanguage('machine odala, enna pannanum?');
+      expect(result.detected_language).toBe('tanglish');
+      expect(result.is_code_mixed).toBe(true);
+    });
+
+    it('should report the stored code of the detected language', async () => {
+      expect((await LanguageDetectionService.detectLanguage('This is a test sentence in English')).language_code).toBe('en');
+      expect((await LanguageDetectionService.detectLanguage('வணக்கம் நண்பர்களே எப்படி இருக்கீங்க')).language_code).toBe('ta');
+      expect((await LanguageDetectionService.detectLanguage('motor romba soodu aagudhu')).language_code).toBe('tanglish');
+      expect((await LanguageDetectionService.detectLanguage('مرحبا بكم في المصنع')).language_code).toBe('unknown');
+    });
+
+    it.each([
+      ['La máquina hace un ruido extraño cada vez que arranca', 'spanish', 'es'],
+      ['La machine fait un bruit bizarre à chaque démarrage', 'french', 'fr'],
+      ['Die Maschine macht bei jedem Start ein seltsames Geräusch', 'german', 'de'],
+    ])('should identify other Latin-script languages from their trigrams: %s', async (text, language, code) => {
+      const result = await LanguageDetectionService.detectLanguage(text);
+      expect(result.detected_language).toBe(language);
+      expect(result.language_code).toBe(code);
+      expect(result.confidence).toBeGreaterThanOrEqual(0.6);
+    });
+
     it('should use pattern detection for other languages', async () => {
       const result = await LanguageDetectionService.detectLanguage('This is a test sentence in English');
       expect(result.detected_language).toBe('english');
@@ -244,9 +415,12 @@ describe('LanguageDetectionService', () => {
     it('should identify reliable detections', () => {
       const reliableResult: LanguageDetectionResult = {
         detected_language: 'tanglish',
+        language_code: 'tanglish',
         confidence: 0.8,
+        is_code_mixed: true,
         is_tanglish: true,
-        tamil_ratio: 0.5
+        tamil_ratio: 0.5,
+        script_ratio: 0.5
       };
       
       expect(LanguageDetectionService.isReliableDetection(reliableResult)).toBe(true);
@@ -255,9 +429,12 @@ describe('LanguageDetectionService', () => {
     it('should identify unreliable detections', () => {
       const unreliableResult: LanguageDetectionResult = {
         detected_language: 'unknown',
+        language_code: 'unknown',
         confidence: 0.3,
+        is_code_mixed: false,
         is_tanglish: false,
-        tamil_ratio: 0
+        tamil_ratio: 0,
+        script_ratio: 0
       };
       
       expect(LanguageDetectionService.isReliableDetection(unreliableResult)).toBe(false);
@@ -280,6 +457,14 @@ describe('Language Detection Integration Tests', () => {
       text: 'வணக்கம் நண்பர்களே எல்லாரும் எப்படி இருக்கீங்க',
       expected: { language: 'tamil', isTanglish: false }
     },
+    {
+      text: 'machine odala, enna pannanum?',
+      expected: { language: 'tanglish', isTanglish: true }
+    },
+    {
+      text: 'screen la alarm varuthu',
+      expected: { language: 'tanglish', isTanglish: true }
+    },
     {
       text: 'Hello, how are you doing today?',
       expected: { language: 'english', isTanglish: false }
@@ -0,0 +1,70 @@
+import { analyzeMention } from '../../../modules/query/negation';
+
+const analyze = (text: string, hazard: string) => {
+  const start = text.indexOf(hazard);
+  return analyzeMention(text, start, start + hazard.length);
+};
+
+describe('analyzeMention', () => {
+  it('should treat plain mentions as asserted', () => {
+    expect(analyze('smoke coming from the panel', 'smoke')).toEqual({ context: 'asserted' });
+    expect(analyze('இயந்திரத்தில் புகை வருகிறது', 'புகை')).toEqual({ context: 'asserted' });
+    expect(analyze('machine la pugai varuthu', 'pugai')).toEqual({ context: 'asserted' });
+  });
+
+  it('should find English negation before the hazard', () => {
+    expect(analyze('there is no smoke now', 'smoke')).toEqual({ context: 'negated', cue: 'no' });
+    expect(analyze('no sign of smoke from the motor', 'smoke')).toEqual({ context: 'negated', cue: 'no' });
+    expect(analyze('there isn’t any fire', 'fire')).toEqual({ context: 'negated', cue: 'isnt' });
+  });
+
+  it('should find negation after the hazard', () => {
+    expect(analyze('the smoke is gone now', 'smoke')).toEqual({ context: 'negated', cue: 'gone' });
+    expect(analyze('புகை இல்லை', 'புகை')).toEqual({ context: 'negated', cue: 'இல்லை' });
+    expect(analyze('புகை வரவில்லை', 'புகை')).toEqual({ context: 'negated', cue: 'வரவில்லை' });
+    expect(analyze('pugai varala', 'pugai')).toEqual({ context: 'negated', cue: 'varala' });
+    expect(analyze('smoke ippo illa', 'smoke')).toEqual({ context: 'negated', cue: 'illa' });
+  });
+
+  it('should find English negation after the hazard saying it is absent', () => {
+    expect(analyze('smoke is not coming anymore', 'smoke')).toEqual({ context: 'negated', cue: 'not' });
+    expect(analyze("the fire isn't there now", 'fire')).toEqual({ context: 'negated', cue: 'isnt' });
+    expect(analyze('the smoke is no more', 'smoke')).toEqual({ context: 'negated', cue: 'no' });
+    expect(analyze('pugai ippo not coming', 'pugai')).toEqual({ context: 'negated', cue: 'not' });
+    expect(analyze('machine la smoke not there anymore', 'smoke')).toEqual({ context: 'negated', cue: 'not' });
+  });
+
+  it('should not read negation of other words as negating the hazard', () => {
+    expect(analyze("can't stop the fire", 'fire')).toEqual({ context: 'asserted' });
+    expect(analyze('the fire is not stopping', 'fire')).toEqual({ context: 'asserted' });
+    expect(analyze('pugai ippo not stopping', 'pugai')).toEqual({ context: 'asserted' });
+    expect(analyze('the motor stopped and smoke coming out', 'smoke')).toEqual({ context: 'asserted' });
+    expect(analyze('the fire stopped the conveyor and is spreading', 'fire')).toEqual({ context: 'asserted' });
+    expect(analyze('புகையால் மூச்சு திணறல்', 'புகை')).toEqual({ context: 'asserted' });
+  });
+
+  it('should find hypothetical mentions', () => {
+    expect(analyze('what should I do if there is a fire?', 'fire')).toEqual({ context: 'hypothetical', cue: 'if' });
+    expect(analyze('how to prevent fire in the panel', 'fire')).toEqual({ context: 'hypothetical', cue: 'prevent' });
+    expect(analyze('fire drill at 3pm', 'fire')).toEqual({ context: 'hypothetical', cue: 'drill' });
+    expect(analyze('in case of smoke', 'smoke')).toEqual({ context: 'hypothetical', cue: 'in case' });
+    expect(analyze('தீ பிடித்தால் என்ன செய்வது', 'தீ')).toEqual({ context: 'hypothetical', cue: 'பிடித்தால்' });
+    expect(analyze('oru vela pugai vandha na', 'pugai')).toEqual({ context: 'hypothetical', cue: 'oru vela' });
+  });
+
+  it('should only read conditions and precautions that take in the hazard', () => {
+    expect(analyze('if the motor catches fire what do I do', 'fire')).toEqual({ context: 'hypothetical', cue: 'if' });
+    expect(analyze('whenever I start the motor smoke comes out', 'smoke')).toEqual({ context: 'asserted' });
+    expect(analyze('I do not know if the fire will spread to the panel', 'fire')).toEqual({ context: 'asserted' });
+    expect(analyze('we cannot prevent the fire from spreading', 'fire')).toEqual({ context: 'asserted' });
+  });
+
+  it('should keep cues within their clause', () => {
+    expect(analyze('no smoke but fire in the panel', 'fire')).toEqual({ context: 'asserted' });
+    expect(analyze('if the alarm rings, call me. smoke everywhere', 'smoke')).toEqual({ context: 'asserted' });
+  });
+
+  it('should prefer negation over a condition', () => {
+    expect(analyze('if there is no smoke, restart it', 'smoke')).toEqual({ context: 'negated', cue: 'no' });
+  });
+});
@@ -0,0 +1,177 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  BUNDLED_PROFILES_DIRECTORY,
+  LanguageProfileError,
+  PROFILE_SIZE,
+  TrigramLanguageIdentifier,
+  loadProfiles,
+  parseProfile,
+  trainProfile,
+} from '../../../modules/query/ngram';
+import { SimpleLanguageDetector } from '../../../modules/query/language';
+import { LANGUAGE_CODES, normalizeLanguageCode } from '../../../utils/languages';
+
+const CONFIG_DIR = path.resolve(__dirname, '../../../../config');
+
+// Sentences in none of the training corpora
+const HELD_OUT: Array<[string, string]> = [
+  ['en', 'The compressor makes a strange noise every time it starts'],
+  ['en', 'Where is the manual for the cutting machine'],
+  ['en', 'There were three workers standing near the furnace'],
+  ['en', 'How often should the hydraulic oil be changed'],
+  ['es', 'La máquina hace un ruido extraño cada vez que arranca'],
+  ['es', '¿Dónde está el manual de la cortadora?'],
+  ['fr', 'La machine fait un bruit bizarre à chaque démarrage'],
+  ['fr', 'Où se trouve le manuel de la découpeuse ?'],
+  ['de', 'Die Maschine macht bei jedem Start ein seltsames Geräusch'],
+  ['de', 'Wo finde ich das Handbuch für die Schneidemaschine?'],
+  ['tanglish', 'compressor start aagumbodhu vitthiyasamana satham varudhu'],
+  ['tanglish', 'cutting machine manual enga irukku'],
+  ['hinglish', 'compressor start hote hi ajeeb awaaz karta hai'],
+  ['hinglish', 'cutting machine ka manual kahan hai'],
+  ['ta', 'கம்ப்ரசர் தொடங்கும்போது விசித்திரமான சத்தம் வருகிறது'],
+  ['hi', 'कंप्रेसर चालू होते ही अजीब आवाज़ करता है'],
+  ['te', 'కంప్రెసర్ ప్రారంభమైనప్పుడు వింత శబ్దం వస్తోంది'],
+  ['kn', 'ಕಂಪ್ರೆಸರ್ ಪ್ರಾರಂಭವಾದಾಗ ವಿಚಿತ್ರ ಶಬ್ದ ಬರುತ್ತದೆ'],
+  ['ml', 'കംപ്രസർ തുടങ്ങുമ്പോൾ വിചിത്രമായ ശബ്ദം വരുന്നു'],
+  ['bn', 'কম্প্রেসার চালু হলেই অদ্ভুত শব্দ করে'],
+];
+
+function goldenSet(): Array<[string, string]> {
+  return readFileSync(path.join(CONFIG_DIR, 'golden-set.jsonl'), 'utf8')
+    .split('\n')
+    .filter(line => line.startsWith('{'))
+    .map(line => JSON.parse(line))
+    .map(example => [example.language, example.text]);
+}
+
+function accuracy(examples: Array<[string, string]>, identify: (text: string) => string | undefined): number {
+  return examples.filter(([language, text]) => identify(text) === language).length / examples.length;
+}
+
+describe('trainProfile', () => {
+  it('should rank trigrams by frequency, word starts and endings included', () => {
+    const profile = trainProfile('en', 'the cat, the hat; the 42 bats');
+    expect(profile.language).toBe('en');
+    expect(profile.ngrams.slice(0, 3)).toEqual([' th', 'he ', 'the']);
+    expect(profile.ngrams).toContain('at ');
+    expect(profile.ngrams.some(gram => /[\d,;]/.test(gram))).toBe(false);
+  });
+
+  it('should give the same profile for the same corpus', () => {
+    const corpus = 'alpha beta gamma delta';
+    expect(trainProfile('en', corpus)).toEqual(trainProfile('en', corpus));
+  });
+
+  it('should keep the most frequent trigrams only', () => {
+    expect(trainProfile('en', 'abcdefghijklmnop qrstuvwxyz', 5).ngrams).toHaveLength(5);
+  });
+});
+
+describe('parseProfile', () => {
+  it('should read a profile', () => {
+    expect(parseProfile('{"language": "en", "ngrams": [" th", "the"]}')).toEqual({ language: 'en', ngrams: [' th', 'the'] });
+  });
+
+  it('should reject invalid profiles', () => {
+    expect(() => parseProfile('{', 'en.json')).toThrow(LanguageProfileError);
+    expect(() => parseProfile('["the"]', 'en.json')).toThrow('en.json: profile must be an object');
+    expect(() => parseProfile('{"ngrams": ["the"]}', 'en.json')).toThrow('en.json: "language" must be a language code');
+    expect(() => parseProfile('{"language": "en", "ngrams": []}')).toThrow('"ngrams" must be a non-empty list of trigrams');
+    expect(() => parseProfile('{"language": "en", "ngrams": ["then"]}')).toThrow(LanguageProfileError);
+  });
+});
+
+describe('loadProfiles', () => {
+  it('should load a bundled profile for every corpus', () => {
+    const profiles = loadProfiles(path.join(CONFIG_DIR, 'language-profiles'));
+    expect(profiles.map(profile => profile.language).sort()).toEqual(
+      ['bn', 'de', 'en', 'es', 'fr', 'hi', 'hinglish', 'kn', 'ml', 'ta', 'tanglish', 'te']
+    );
+    for (const profile of profiles) {
+      expect(LANGUAGE_CODES).toContain(profile.language);
+      expect(profile.ngrams).toHaveLength(PROFILE_SIZE);
+    }
+  });
+
+  it('should keep bundled profiles in step with the corpora', () => {
+    const corpus = readFileSync(path.join(CONFIG_DIR, 'language-corpora/en.txt'), 'utf8')
+      .split('\n')
+      .filter(line => !line.startsWith('#'))
+      .join('\n');
+    const [bundled] = loadProfiles(path.join(CONFIG_DIR, 'language-profiles')).filter(profile => profile.language === 'en');
+    expect(bundled).toEqual(trainProfile('en', corpus));
+  });
+
+  it('should reject a missing directory', () => {
+    expect(() => loadProfiles(path.join(CONFIG_DIR, 'missing'))).toThrow(LanguageProfileError);
+  });
+});
+
+describe('TrigramLanguageIdentifier', () => {
+  const identifier = TrigramLanguageIdentifier.getDefault();
+
+  it('should rank every language, most likely first', () => {
+    const candidates = identifier.identify('The pump is leaking oil from the seal');
+    expect(candidates[0].language).toBe('en');
+    expect(candidates).toHaveLength(identifier.languages.length);
+    for (let i = 1; i < candidates.length; i++) {
+      expect(candidates[i].score).toBeLessThanOrEqual(candidates[i - 1].score);
+    }
+    expect(candidates.every(candidate => candidate.score >= 0 && candidate.score <= 1)).toBe(true);
+  });
+
+  it('should score languages of another script at zero', () => {
+    const candidates = identifier.identify('The pump is leaking oil from the seal');
+    expect(candidates.find(candidate => candidate.language === 'ta')?.score).toBe(0);
+  });
+
+  it('should limit candidates to some languages', () => {
+    const candidates = identifier.identify('motor romba soodu aagudhu', ['en', 'es']);
+    expect(candidates.map(candidate => candidate.language).sort()).toEqual(['en', 'es']);
+  });
+
+  it('should return no candidates for text without letters', () => {
+    expect(identifier.identify('12:45 !!')).toEqual([]);
+    expect(identifier.identify('')).toEqual([]);
+  });
+
+  it('should detect with the profiles of another directory', () => {
+    const directory = mkdtempSync(path.join(os.tmpdir(), 'profiles-'));
+    try {
+      writeFileSync(path.join(directory, 'en.json'), JSON.stringify(trainProfile('en', 'the pump is leaking oil')));
+      TrigramLanguageIdentifier.useProfiles(directory);
+      expect(TrigramLanguageIdentifier.getDefault().languages).toEqual(['en']);
+    } finally {
+      TrigramLanguageIdentifier.useProfiles(BUNDLED_PROFILES_DIRECTORY);
+      rmSync(directory, { recursive: true, force: true });
+    }
+  });
+
+  it('should identify held-out sentences of every bundled language', () => {
+    for (const [language, text] of HELD_OUT) {
+      expect([text, identifier.identify(text)[0].language]).toEqual([text, language]);
+    }
+  });
+
+  describe('benchmark against the pattern detector', () => {
+    const patterns = (text: string) =>
+      normalizeLanguageCode(SimpleLanguageDetector.detectWithEnhancedPatterns(text).language);
+    const trigrams = (text: string) => identifier.identify(text)[0]?.language;
+
+    it('should be more accurate on held-out sentences', () => {
+      const identified = accuracy(HELD_OUT, trigrams);
+      expect(identified).toBe(1);
+      expect(identified).toBeGreaterThan(accuracy(HELD_OUT, patterns));
+    });
+
+    it('should be more accurate on the golden set', () => {
+      const examples = goldenSet();
+      const identified = accuracy(examples, trigrams);
+      expect(identified).toBeGreaterThanOrEqual(0.9);
+      expect(identified).toBeGreaterThan(accuracy(examples, patterns));
+    });
+  });
+});
@@ -0,0 +1,99 @@
+import {
+  mergeIntentOverrides,
+  describeOverrideProblems,
+  weakensCriticalIntent,
+} from '../../../modules/query/overrides';
+import { IntentConfig } from '../../../types';
+
+jest.mock('../../../models/IntentOverride');
+jest.mock('../../../utils/logger');
+
+const BASE: IntentConfig[] = [
+  {
+    name: 'overheating',
+    examples: ['motor is very hot'],
+    responses: { en: 'Stop the machine and let it cool.', ta: 'இயந்திரத்தை நிறுத்தவும்.' },
+    labels: { en: 'overheating' },
+    risk: 'high',
+  },
+  {
+    name: 'fire_smoke',
+    examples: ['smoke coming from the machine'],
+    responses: { en: 'Press the emergency stop.' },
+    risk: 'critical',
+  },
+];
+
+describe('mergeIntentOverrides', () => {
+  it('should keep global intents without overrides', () => {
+    const { intents, disabled } = mergeIntentOverrides(BASE, []);
+
+    expect(intents.map(intent => intent.source)).toEqual(['global', 'global']);
+    expect(disabled).toEqual([]);
+  });
+
+  it('should add examples and replace wording and risk of global intents', () => {
+    const { intents } = mergeIntentOverrides(BASE, [{
+      intent_name: 'overheating',
+      examples: ['Motor is very hot', 'press body too hot to touch'],
+      responses: { en: 'Switch off the press and call maintenance.' },
+      labels: { ta: 'அதிக வெப்பம்' },
+      risk: 'critical',
+    }]);
+
+    const overheating = intents.find(intent => intent.name === 'overheating')!;
+    expect(overheating.source).toBe('overridden');
+    expect(overheating.examples).toEqual(['motor is very hot', 'press body too hot to touch']);
+    expect(overheating.responses).toEqual({
+      en: 'Switch off the press and call maintenance.',
+      ta: 'இயந்திரத்தை நிறுத்தவும்.',
+    });
+    expect(overheating.labels).toEqual({ en: 'overheating', ta: 'அதிக வெப்பம்' });
+    expect(overheating.risk).toBe('critical');
+  });
+
+  it('should drop disabled intents', () => {
+    const { intents, disabled } = mergeIntentOverrides(BASE, [{ intent_name: 'overheating', disabled: true }]);
+
+    expect(intents.map(intent => intent.name)).toEqual(['fire_smoke']);
+    expect(disabled).toEqual(['overheating']);
+  });
+
+  it('should add complete enterprise-only intents and skip incomplete ones', () => {
+    const { intents } = mergeIntentOverrides(BASE, [
+      {
+        intent_name: 'hydraulic_leak',
+        examples: ['hydraulic oil leaking'],
+        responses: { en: 'Isolate the hydraulic unit.' },
+        risk: 'high',
+        block_threshold: 'high',
+      },
+      { intent_name: 'belt_slipping', examples: ['belt slipping'] },
+    ]);
+
+    expect(intents.map(intent => intent.name)).toEqual(['overheating', 'fire_smoke', 'hydraulic_leak']);
+    expect(intents[2]).toMatchObject({ source: 'enterprise', risk: 'high', block_threshold: 'high' });
+  });
+});
+
+describe('describeOverrideProblems', () => {
+  it('should require examples, an English response and a risk for new intents', () => {
+    expect(describeOverrideProblems({ intent_name: 'belt_slipping' })).toHaveLength(3);
+    expect(describeOverrideProblems({ intent_name: 'overheating', examples: ['too hot'] }, BASE[0])).toEqual([]);
+  });
+
+  it('should reject block thresholds above the risk', () => {
+    const problems = describeOverrideProblems({ intent_name: 'overheating', block_threshold: 'critical' }, BASE[0]);
+
+    expect(problems).toEqual([expect.stringContaining('above the intent\'s high risk')]);
+  });
+});
+
+describe('weakensCriticalIntent', () => {
+  it('should flag disabling or downgrading critical intents only', () => {
+    expect(weakensCriticalIntent({ intent_name: 'fire_smoke', disabled: true }, BASE[1])).toBe(true);
+    expect(weakensCriticalIntent({ intent_name: 'fire_smoke', risk: 'high' }, BASE[1])).toBe(true);
+    expect(weakensCriticalIntent({ intent_name: 'fire_smoke', examples: ['flames'] }, BASE[1])).toBe(false);
+    expect(weakensCriticalIntent({ intent_name: 'overheating', disabled: true }, BASE[0])).toBe(false);
+  });
+});
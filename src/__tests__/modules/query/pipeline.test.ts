@@ -0,0 +1,1384 @@
+import { QueryPipeline } from '../../../modules/query/pipeline';
+import { IntentClassifier } from '../../../modules/query/intent';
+import { getBundledIntents } from '../../../modules/query/catalogue';
+import { RiskAssessor } from '../../../modules/query/risk';
+import { AnswerCache } from '../../../modules/query/cache';
+import { Enterprise } from '../../../models/Enterprise';
+import { Query } from '../../../models/Query';
+import { Alert } from '../../../models/Alert';
+import { Vector } from '../../../models/Vector';
+import { Conversation } from '../../../models/Conversation';
+import { Manual } from '../../../models/Manual';
+import { IntentOverride } from '../../../models/IntentOverride';
+import { RiskRuleSet } from '../../../models/RiskRuleSet';
+import { OperatorLockdown } from '../../../models/OperatorLockdown';
+import { LabelingTask } from '../../../models/LabelingTask';
+import { IntentConfig } from '../../../types';
+import { LANGUAGE_CODES } from '../../../utils/languages';
+
+jest.mock('../../../models/Enterprise');
+jest.mock('../../../models/Conversation');
+jest.mock('../../../models/Query');
+jest.mock('../../../models/Alert');
+jest.mock('../../../models/Vector');
+jest.mock('../../../models/Manual');
+jest.mock('../../../models/IntentOverride');
+jest.mock('../../../models/RiskRuleSet');
+jest.mock('../../../models/OperatorLockdown');
+jest.mock('../../../models/LabelingTask');
+jest.mock('../../../utils/logger');
+
+const mockEnterpriseFindById = Enterprise.findById as jest.Mock;
+const mockQueryCreate = Query.create as jest.Mock;
+const mockAlertCreate = Alert.create as jest.Mock;
+const mockVectorFindSimilar = Vector.findSimilar as jest.Mock;
+const mockVectorDistinct = Vector.distinct as jest.Mock;
+const mockManualFind = Manual.find as jest.Mock;
+const mockGetCorpusVersion = Manual.getCorpusVersion as jest.Mock;
+const MockConversation = Conversation as unknown as jest.Mock;
+const mockFindActiveSession = Conversation.findActiveSession as jest.Mock;
+const mockConversationFindOne = Conversation.findOne as jest.Mock;
+const mockFindOverrides = IntentOverride.findByEnterprise as jest.Mock;
+const mockFindRuleSet = RiskRuleSet.findActive as jest.Mock;
+const mockFindLockdown = OperatorLockdown.findActive as jest.Mock;
+const mockLockdownCreate = OperatorLockdown.create as jest.Mock;
+const mockEnqueueTask = LabelingTask.enqueue as jest.Mock;
+
+const makeConversation = (overrides: Record<string, any> = {}) => ({
+  _id: 'conv123',
+  query_ids: [],
+  context: {},
+  isExpired: jest.fn().mockReturnValue(false),
+  addTurn: jest.fn(),
+  save: jest.fn().mockResolvedValue(undefined),
+  ...overrides,
+});
+
+const ENTERPRISE_ID = '64b7f0c2a1b2c3d4e5f60718';
+const OPERATOR_ID = '64b7f0c2a1b2c3d4e5f60719';
+
+describe('IntentClassifier', () => {
+  const classifier = new IntentClassifier(getBundledIntents());
+
+  it('should classify English machine questions', async () => {
+    const result = await classifier.classify('the machine is not starting');
+    expect(result.name).toBe('machine_not_starting');
+    expect(result.confidence).toBeGreaterThan(0.3);
+    expect(result.matched_examples.length).toBeGreaterThan(0);
+  });
+
+  it('should classify romanized Tanglish hazards', async () => {
+    const result = await classifier.classify('current adikuthu');
+    expect(result.name).toBe('electrical_hazard');
+  });
+
+  it('should return unknown for unrelated text', async () => {
+    const result = await classifier.classify('xyzzy plugh');
+    expect(result.name).toBe('unknown');
+    expect(result.matched_examples).toEqual([]);
+  });
+
+  it('should pick up a newly loaded catalogue', async () => {
+    let intents: IntentConfig[] = [
+      { name: 'overheating', examples: ['motor is very hot'], responses: { en: 'Stop.' }, risk: 'high' },
+    ];
+    const reloadable = new IntentClassifier(() => intents);
+    expect((await reloadable.classify('conveyor belt slipping')).name).toBe('unknown');
+
+    intents = [...intents, { name: 'belt_slipping', examples: ['conveyor belt slipping'], responses: { en: 'Tension the belt.' }, risk: 'low' }];
+
+    expect((await reloadable.classify('conveyor belt slipping')).name).toBe('belt_slipping');
+    expect(reloadable.getIntent('belt_slipping')?.risk).toBe('low');
+  });
+
+  it('should score every intent with its keyword, kNN and Naive Bayes components', async () => {
+    const [best, ...rest] = await classifier.scoreIntents('motor sound varuthu');
+    expect(best.name).toBe('abnormal_noise');
+    expect(best.components.keyword).toBe(1);
+    expect(best.examples[0]).toBe('motor sound varuthu');
+    expect(rest.every(score => score.score <= best.score)).toBe(true);
+    for (const score of [best, ...rest]) {
+      expect(score.confidence).toBeGreaterThanOrEqual(0);
+      expect(score.confidence).toBeLessThanOrEqual(1);
+    }
+  });
+
+  it('should ignore machine names when scoring', async () => {
+    const result = await classifier.classify('how do I restart the hydraulic press');
+    expect(result.name).not.toBe('bypass_safety');
+  });
+
+  it('should weight the scorers as configured', async () => {
+    const keywordOnly = new IntentClassifier(getBundledIntents(), undefined, {
+      weights: { keyword: 1, knn: 0, naive_bayes: 0 },
+    });
+    const [best] = await keywordOnly.scoreIntents('panel la spark varuthu');
+    expect(best).toMatchObject({ name: 'electrical_hazard', score: 1 });
+  });
+
+  it('should return unknown below the minimum ensemble score', async () => {
+    const strict = new IntentClassifier(getBundledIntents(), undefined, { minScore: 0.99 });
+    expect((await strict.classify('the machine is not starting')).name).toBe('unknown');
+  });
+});
+
+describe('RiskAssessor', () => {
+  it('should block risk above the enterprise threshold', () => {
+    const result = RiskAssessor.assess(
+      { name: 'fire_smoke', examples: [], responses: {}, risk: 'critical' },
+      'medium'
+    );
+    expect(result).toMatchObject({ risk: 'critical', blocked: true });
+    expect(result.reason).toContain('exceeding enterprise threshold medium');
+  });
+
+  it('should not block medium risk even with a low threshold', () => {
+    const result = RiskAssessor.assess(
+      { name: 'error_code', examples: [], responses: {}, risk: 'medium' },
+      'low'
+    );
+    expect(result.blocked).toBe(false);
+  });
+
+  it('should honour the intent block threshold', () => {
+    const result = RiskAssessor.assess(
+      { name: 'overheating', examples: [], responses: {}, risk: 'high', block_threshold: 'high' },
+      'critical'
+    );
+    expect(result.blocked).toBe(true);
+  });
+
+  it('should default to low risk for unknown intents', () => {
+    expect(RiskAssessor.assess(undefined, 'medium')).toMatchObject({ risk: 'low', blocked: false });
+  });
+
+  it('should record the intent as the rule when no keyword escalates', () => {
+    const result = RiskAssessor.assess(
+      { name: 'fire_smoke', examples: [], responses: {}, risk: 'critical' },
+      'medium',
+      'smoke coming from the machine'
+    );
+    expect(result.rule).toEqual({ rule_id: 'intent:fire_smoke', source: 'intent', level: 'critical' });
+  });
+
+  it.each([
+    ['there is a fire near the press', 'fire_smoke', 'en', 'fire'],
+    ['இயந்திரத்தில் புகை வருகிறது', 'fire_smoke', 'ta', 'புகை'],
+    ['machine la pugaiya irukku', 'fire_smoke', 'tanglish', 'pugaiya'],
+    ['panel la current adikuthu', 'electric_shock', 'tanglish', 'current adikuthu'],
+    ['operator got an electric shock', 'electric_shock', 'en', 'shock'],
+    ['கை சிக்கிவிட்டது', 'injury', 'ta', 'சிக்கிவிட்டது'],
+  ])('should escalate "%s" with rule %s', (text, ruleId, language, matched) => {
+    const result = RiskAssessor.assess(
+      { name: 'error_code', examples: [], responses: {}, risk: 'medium' },
+      'medium',
+      text
+    );
+
+    expect(result).toMatchObject({ risk: 'critical', blocked: true });
+    expect(result.rule).toMatchObject({ rule_id: ruleId, source: 'keyword', language, matched });
+    expect(result.reason).toBe(
+      `Keyword "${matched}" (${language}) matched escalation rule "${ruleId}", ` +
+      'raising intent "error_code" from medium to critical risk, exceeding enterprise threshold medium'
+    );
+  });
+
+  it('should only match keywords as whole words unless marked as a prefix', () => {
+    expect(RiskAssessor.matchKeywords('the machine misfired twice')).toBeNull();
+    expect(RiskAssessor.matchKeywords('தீர்வு என்ன')).toBeNull();
+    expect(RiskAssessor.matchKeywords('தீ பிடித்தது')).toMatchObject({ rule_id: 'fire_smoke', matched: 'தீ' });
+  });
+
+  it('should prefer the most severe keyword', () => {
+    expect(RiskAssessor.matchKeywords('motor too hot and now smoking')).toMatchObject({
+      rule_id: 'fire_smoke',
+      level: 'critical',
+    });
+    expect(RiskAssessor.matchKeywords('motor is overheating')).toMatchObject({ rule_id: 'overheating', level: 'high' });
+  });
+
+  it('should use the rules it is given', () => {
+    const rules = [{ id: 'coolant', level: 'high' as const, keywords: { en: ['coolant leak*'] } }];
+
+    const result = RiskAssessor.assess(undefined, 'critical', 'coolant leaking everywhere', rules);
+    expect(result).toMatchObject({ risk: 'high', blocked: false });
+    expect(result.rule).toMatchObject({ rule_id: 'coolant', matched: 'coolant leaking' });
+  });
+
+  it('should find every keyword with its position in the text', () => {
+    const text = 'motor too hot and now smoking, more smoking';
+
+    const hits = RiskAssessor.findKeywords(text);
+    expect(hits.map(({ rule_id, matched, start, end }) => [rule_id, matched, start, end])).toEqual([
+      ['overheating', 'too hot', 6, 13],
+      ['fire_smoke', 'smoking', 22, 29],
+      ['fire_smoke', 'smoking', 36, 43],
+    ]);
+    expect(text.slice(hits[1].start, hits[1].end)).toBe('smoking');
+  });
+
+  it('should explain how the decision was reached', () => {
+    const result = RiskAssessor.assess(
+      { name: 'overheating', examples: [], responses: {}, risk: 'high' },
+      'high',
+      'motor too hot and now smoking',
+      undefined,
+      [{ rule_id: 'hot_press', source: 'rule', level: 'high', rule_version: 4 }]
+    );
+
+    expect(result.explanation).toEqual({
+      intent: { name: 'overheating', level: 'high' },
+      keywords: [
+        expect.objectContaining({ rule_id: 'overheating', level: 'high', start: 6 }),
+        expect.objectContaining({ rule_id: 'fire_smoke', level: 'critical', keyword: 'smoking', language: 'en', start: 22, end: 29 }),
+      ],
+      rules: [{ rule_id: 'hot_press', level: 'high', rule_version: 4 }],
+      threshold: { enterprise: 'high', exceeds_enterprise: true, intent: undefined, reaches_intent: false },
+      decision: { risk: 'critical', blocked: true, source: 'keyword', rule_id: 'fire_smoke' },
+    });
+    expect(result.explanation.adjustment).toBeUndefined();
+  });
+
+  it('should not block hazards said to be absent', () => {
+    const fireSmoke = { name: 'fire_smoke', examples: ['smoke coming from the machine'], responses: {}, risk: 'critical' as const };
+
+    const result = RiskAssessor.assess(fireSmoke, 'medium', 'there is no smoke now');
+    expect(result).toMatchObject({ risk: 'medium', blocked: false });
+    expect(result.reason).toContain('lowered from critical because "smoke" is negated');
+    expect(result.explanation.keywords).toEqual([
+      expect.objectContaining({ matched: 'smoke', context: 'negated', cue: 'no' }),
+    ]);
+    expect(result.explanation.adjustment).toEqual({
+      original_risk: 'critical',
+      original_blocked: true,
+      original_rule_id: 'intent:fire_smoke',
+      adjusted_risk: 'medium',
+      contexts: ['negated'],
+    });
+  });
+
+  it.each([
+    'smoke is not coming anymore',
+    "the fire isn't there now",
+  ])('should not block "%s"', text => {
+    const fireSmoke = { name: 'fire_smoke', examples: ['smoke coming from the machine', 'fire in the panel'], responses: {}, risk: 'critical' as const };
+
+    expect(RiskAssessor.assess(fireSmoke, 'medium', text)).toMatchObject({ risk: 'medium', blocked: false });
+  });
+
+  it.each([
+    'we cannot prevent the fire from spreading',
+    'whenever I start the motor smoke comes out',
+    'I do not know if the fire will spread to the panel',
+    'the fire stopped the conveyor and is spreading',
+  ])('should block the active hazard in "%s"', text => {
+    const result = RiskAssessor.assess(undefined, 'high', text);
+
+    expect(result).toMatchObject({ risk: 'critical', blocked: true });
+    expect(result.explanation.adjustment).toBeUndefined();
+  });
+
+  it('should cap hypothetical hazards at medium risk', () => {
+    const result = RiskAssessor.assess(undefined, 'medium', 'oruvela theepidichaa enna pannanum');
+
+    expect(result).toMatchObject({ risk: 'medium', blocked: false });
+    expect(result.explanation.adjustment).toMatchObject({ original_risk: 'critical', contexts: ['hypothetical'] });
+  });
+
+  it('should keep the risk of a hazard asserted next to a negated one', () => {
+    const result = RiskAssessor.assess(undefined, 'medium', 'no smoke but fire in the panel');
+
+    expect(result).toMatchObject({ risk: 'critical', blocked: true });
+    expect(result.explanation.adjustment).toBeUndefined();
+  });
+
+  it('should match Tamil keywords against romanized Tamil words', () => {
+    const text = 'kai machine la sikkiduchu';
+
+    const hits = RiskAssessor.findKeywords(text);
+    expect(hits).toEqual([
+      expect.objectContaining({ rule_id: 'injury', keyword: 'சிக்கி*', language: 'ta', matched: 'sikkiduchu' }),
+    ]);
+    expect(text.slice(hits[0].start, hits[0].end)).toBe('sikkiduchu');
+  });
+
+  it('should list a word matched by keywords of both scripts once', () => {
+    expect(RiskAssessor.findKeywords('pugai varuthu')).toEqual([
+      expect.objectContaining({ rule_id: 'fire_smoke', keyword: 'pugai*', start: 0, end: 5 }),
+    ]);
+  });
+
+  it('should ignore negated mentions when matching keywords', () => {
+    expect(RiskAssessor.matchKeywords('புகை வரவில்லை')).toBeNull();
+    expect(RiskAssessor.matchKeywords('no smoke, motor too hot')).toMatchObject({ rule_id: 'overheating' });
+  });
+
+  it.each([
+    ['where is the fire extinguisher', 'fire extinguisher'],
+    ['smoke detector battery', 'smoke detector'],
+    ['fire alarm test', 'fire alarm'],
+    ['replace the shock absorber', 'shock absorber'],
+  ])('should not treat "%s" as critical', (text, compound) => {
+    const result = RiskAssessor.assess(undefined, 'medium', text);
+
+    expect(result).toMatchObject({ risk: 'medium', blocked: false });
+    expect(result.reason).toContain(`is part of "${compound}"`);
+    expect(result.explanation.keywords).toEqual([expect.objectContaining({ context: 'compound', cue: compound })]);
+    expect(RiskAssessor.matchKeywords(text)).toBeNull();
+  });
+
+  it('should discount an intent recognized from an excluded compound alone', () => {
+    const fireSmoke = { name: 'fire_smoke', examples: ['fire in the panel'], responses: {}, risk: 'critical' as const };
+
+    expect(RiskAssessor.assess(fireSmoke, 'medium', 'where is the fire exit')).toMatchObject({ risk: 'medium', blocked: false });
+    expect(RiskAssessor.assess(fireSmoke, 'medium', 'the fire exit is on fire')).toMatchObject({ risk: 'critical', blocked: true });
+  });
+});
+
+function makeEnterprise(allowedLanguages: string[]) {
+  return {
+    _id: ENTERPRISE_ID,
+    settings: { allowed_languages: allowedLanguages },
+    getRiskThreshold: () => 'medium',
+    isLanguageAllowed: (language: string) => allowedLanguages.includes(language),
+  };
+}
+
+describe('QueryPipeline', () => {
+  let pipeline: QueryPipeline;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    pipeline = new QueryPipeline({ cache: new AnswerCache() });
+
+    mockEnterpriseFindById.mockResolvedValue(makeEnterprise(['en', 'ta', 'tanglish']));
+    mockVectorFindSimilar.mockResolvedValue([]);
+    mockVectorDistinct.mockResolvedValue([]);
+    mockGetCorpusVersion.mockResolvedValue('1:1700000000000');
+    mockManualFind.mockReturnValue({
+      select: jest.fn().mockResolvedValue([{ _id: 'manual1', original_name: 'press-operator-manual.pdf' }]),
+    });
+    mockQueryCreate.mockImplementation(async (doc: any) => ({
+      _id: 'query123',
+      ...doc,
+      isHighRisk: () => ['high', 'critical'].includes(doc.data.risk),
+      shouldCreateAlert: () => doc.data.blocked || ['high', 'critical'].includes(doc.data.risk),
+    }));
+    mockAlertCreate.mockResolvedValue({ _id: 'alert123' });
+    MockConversation.mockImplementation(() => makeConversation());
+    mockFindActiveSession.mockResolvedValue(null);
+    mockFindOverrides.mockResolvedValue([]);
+    mockFindRuleSet.mockResolvedValue(null);
+    mockFindLockdown.mockResolvedValue(null);
+    mockLockdownCreate.mockImplementation(async (doc: any) => doc);
+    mockEnqueueTask.mockResolvedValue({ _id: 'task123' });
+  });
+
+  it('should process a low-risk text query end to end', async () => {
+    const response = await pipeline.process({
+      enterprise_id: ENTERPRISE_ID,
+      operator_id: OPERATOR_ID,
+      input_text: 'machine not starting',
+    }, 'trace-1');
+
+    expect(response.intent.name).toBe('machine_not_starting');
+    expect(response.risk_level).toBe('low');
+    expect(response.blocked).toBe(false);
+    expect(response.text).toContain('emergency stop');
+    expect(response.query_id).toBe('query123');
+    expect(response.trace.trace_id).toBe('trace-1');
+    expect(response.trace.steps.map(step => step.name)).toEqual([
+      'language_detection',
+      'conversation_resolution',
+      'intent_classification',
+      'risk_assessment',
+      'lockdown_check',
+      'clarification',
+      'cache_lookup',
+      'retrieval',
+      'response_generation',
+      'persistence',
+    ]);
+    expect(response.trace.steps.every(step => step.success)).toBe(true);
+
+    const stored = mockQueryCreate.mock.calls[0][0];
+    expect(stored.data.detected_language).toBe('en');
+    expect(stored.data.response_text).toBe(response.text);
+    expect(mockAlertCreate).not.toHaveBeenCalled();
+  });
+
+  it('should answer from the top retrieved chunk', async () => {
+    mockVectorFindSimilar.mockResolvedValue([{
+      similarity: 0.8,
+      chunk_id: {
+        _id: 'chunk1',
+        manual_id: 'manual1',
+        text: 'Turn the isolator to ON and press the green start button.',
+        metadata: { word_count: 11, char_count: 58 },
+      },
+    }]);
+
+    const response = await pipeline.process({
+      enterprise_id: ENTERPRISE_ID,
+      operator_id: OPERATOR_ID,
+      input_text: 'machine not starting',
+    });
+
+    expect(response.text).toContain('Turn the isolator to ON and press the green start button.');
+    expect(response.text).toContain('press-operator-manual.pdf');
+  });
+
+  it('should cite the manual chunks an answer came from', async () => {
+    mockVectorFindSimilar.mockResolvedValue([{
+      similarity: 0.8,
+      chunk_id: {
+        _id: 'chunk1',
+        manual_id: 'manual1',
+        text: 'Turn the isolator to ON and press the green start button.',
+        metadata: { page_number: 12, section_title: 'Start-up', word_count: 11, char_count: 58, start_position: 4200, end_position: 4258 },
+      },
+    }]);
+
+    const response = await pipeline.process({
+      enterprise_id: ENTERPRISE_ID,
+      operator_id: OPERATOR_ID,
+      input_text: 'machine not starting',
+    });
+
+    const expected = {
+      chunk_id: 'chunk1',
+      manual_id: 'manual1',
+      manual_name: 'press-operator-manual.pdf',
+      page_number: 12,
+      section_title: 'Start-up',
+      start_position: 4200,
+      end_position: 4258,
+      similarity: 0.8,
+    };
+    expect(response.sources).toEqual([expected]);
+    expect(mockQueryCreate.mock.calls[0][0].data.sources).toEqual([expected]);
+  });
+
+  it('should not cite sources for answers that are not from manuals', async () => {
+    const response = await pipeline.process({
+      enterprise_id: ENTERPRISE_ID,
+      operator_id: OPERATOR_ID,
+      input_text: 'smoke coming from the machine',
+    });
+
+    expect(response.sources).toEqual([]);
+    expect(mockQueryCreate.mock.calls[0][0].data.sources).toEqual([]);
+  });
+
+  it('should block critical queries, skip retrieval and create an alert', async () => {
+    const response = await pipeline.process({
+      enterprise_id: ENTERPRISE_ID,
+      operator_id: OPERATOR_ID,
+      input_text: 'smoke coming from the machine',
+    });
+
+    expect(response.blocked).toBe(true);
+    expect(response.risk_level).toBe('critical');
+    expect(response.text).toContain('blocked for safety');
+    expect(mockVectorFindSimilar).not.toHaveBeenCalled();
+    expect(response.trace.steps.map(step => step.name)).not.toContain('retrieval');
+
+    expect(mockAlertCreate).toHaveBeenCalledTimes(1);
+    const alert = mockAlertCreate.mock.calls[0][0];
+    expect(alert.data.risk).toBe('critical');
+    expect(alert.data.trigger_reason).toContain('fire_smoke');
+  });
+
+  it('should escalate and alert on hazard keywords the intent missed', async () => {
+    const response = await pipeline.process({
+      enterprise_id: ENTERPRISE_ID,
+      operator_id: OPERATOR_ID,
+      input_text: 'my colleague is bleeding near the conveyor',
+    });
+
+    expect(response.intent.name).toBe('unknown');
+    expect(response.risk_level).toBe('critical');
+    expect(response.blocked).toBe(true);
+
+    const alert = mockAlertCreate.mock.calls[0][0];
+    expect(alert.data.risk_rule).toMatchObject({ rule_id: 'injury', source: 'keyword', language: 'en' });
+    expect(alert.data.trigger_reason).toContain('Keyword "bleeding" (en) matched escalation rule "injury"');
+  });
+
+  it('should store the risk explanation on the query and its alert', async () => {
+    await pipeline.process({
+      enterprise_id: ENTERPRISE_ID,
+      operator_id: OPERATOR_ID,
+      input_text: 'my colleague is bleeding near the conveyor',
+    });
+
+    const stored = mockQueryCreate.mock.calls[0][0].data.risk_explanation;
+    expect(stored).toMatchObject({
+      intent: { name: 'unknown', level: 'low' },
+      keywords: [{ rule_id: 'injury', matched: 'bleeding', start: 16, end: 24 }],
+      decision: { risk: 'critical', blocked: true, source: 'keyword', rule_id: 'injury' },
+    });
+    expect(mockAlertCreate.mock.calls[0][0].data.risk_explanation).toEqual(stored);
+  });
+
+  it('should apply the enterprise risk rules in force', async () => {
+    mockFindRuleSet.mockResolvedValue({
+      version: 3,
+      rules: [{ id: 'hot_press', level: 'high', when: { machine: ['press'], value: { quantity: 'temperature', gt: 90 } } }],
+    });
+
+    const response = await pipeline.process({
+      enterprise_id: ENTERPRISE_ID,
+      operator_id: OPERATOR_ID,
+      input_text: 'machine not starting, the press reads 95 degrees',
+    });
+
+    expect(mockFindRuleSet).toHaveBeenCalledWith(ENTERPRISE_ID);
+    expect(response.risk_level).toBe('high');
+
+    const alert = mockAlertCreate.mock.calls[0][0];
+    expect(alert.data.risk_rule).toEqual({ rule_id: 'hot_press', source: 'rule', level: 'high', rule_version: 3 });
+    expect(alert.data.trigger_reason).toContain('Enterprise rule "hot_press" (version 3) matched');
+  });
+
+  it('should evaluate sample texts against draft rules without recording them', async () => {
+    const result = await pipeline.evaluateRiskRules(ENTERPRISE_ID, { text: 'the press reads 95 degrees', at: new Date('2026-03-02T08:00:00Z') }, [
+      { id: 'hot_press', level: 'high', when: { machine: ['press'], value: { quantity: 'temperature', gt: 90 } } },
+      { id: 'cold_press', level: 'medium', when: { machine: ['press'], value: { quantity: 'temperature', lt: 5 } } },
+    ]);
+
+    expect(mockFindRuleSet).not.toHaveBeenCalled();
+    expect(result.version).toBeNull();
+    expect(result.context.machine).toBe('press');
+    expect(result.measurements).toMatchObject([{ quantity: 'temperature', value: 95 }]);
+    expect(result.matches.map(match => match.rule_id)).toEqual(['hot_press']);
+    expect(result.evaluations).toHaveLength(2);
+    expect(result.assessment.rule).toMatchObject({ rule_id: 'hot_press', source: 'rule' });
+    expect(result.assessment.reason).toContain('(draft)');
+    expect(mockQueryCreate).not.toHaveBeenCalled();
+    expect(mockAlertCreate).not.toHaveBeenCalled();
+  });
+
+  it('should only compare the query with vectors of its embedding model', async () => {
+    await pipeline.process({
+      enterprise_id: ENTERPRISE_ID,
+      operator_id: OPERATOR_ID,
+      input_text: 'how to change the belt',
+    });
+
+    expect(mockVectorFindSimilar).toHaveBeenCalledWith(
+      expect.any(Array), ENTERPRISE_ID, expect.any(Number), expect.any(Number), 'hashing-384'
+    );
+  });
+
+  it('should fail retrieval clearly when manuals were indexed with another model', async () => {
+    mockVectorDistinct.mockResolvedValue(['all-MiniLM-L6-v2']);
+
+    const response = await pipeline.process({
+      enterprise_id: ENTERPRISE_ID,
+      operator_id: OPERATOR_ID,
+      input_text: 'how to change the belt',
+    });
+
+    expect(mockVectorDistinct).toHaveBeenCalledWith('model_version', { enterprise_id: ENTERPRISE_ID });
+    expect(response.trace.steps.find(step => step.name === 'retrieval')).toMatchObject({
+      success: false,
+      error: expect.stringContaining('indexed with all-MiniLM-L6-v2, but queries are embedded with hashing-384'),
+    });
+  });
+
+  it('should record a failed retrieval step and still answer', async () => {
+    mockVectorFindSimilar.mockRejectedValue(new Error('vector store offline'));
+
+    const response = await pipeline.process({
+      enterprise_id: ENTERPRISE_ID,
+      operator_id: OPERATOR_ID,
+      input_text: 'how to change the belt',
+    });
+
+    const retrieval = response.trace.steps.find(step => step.name === 'retrieval');
+    expect(retrieval).toMatchObject({ success: false, error: 'vector store offline' });
+    expect(response.text).toBeTruthy();
+  });
+
+  it('should still respond when persistence fails', async () => {
+    mockQueryCreate.mockRejectedValue(new Error('db down'));
+
+    const response = await pipeline.process({
+      enterprise_id: ENTERPRISE_ID,
+      operator_id: OPERATOR_ID,
+      input_text: 'machine not starting',
+    });
+
+    expect(response.query_id).toBeUndefined();
+    expect(response.trace.steps.find(step => step.name === 'persistence')?.success).toBe(false);
+  });
+
+  it('should use the requested language instead of detecting it', async () => {
+    await pipeline.process({
+      enterprise_id: ENTERPRISE_ID,
+      operator_id: OPERATOR_ID,
+      input_text: 'machine odala',
+      language: 'tanglish',
+    });
+
+    expect(mockQueryCreate.mock.calls[0][0].data.detected_language).toBe('tanglish');
+  });
+
+  it('should store the language code for detected languages', async () => {
+    await pipeline.process({
+      enterprise_id: ENTERPRISE_ID,
+      operator_id: OPERATOR_ID,
+      input_text: 'The hydraulic press is not starting',
+    });
+
+    expect(mockQueryCreate.mock.calls[0][0].data.detected_language).toBe('en');
+  });
+
+  it('should answer in a fallback language when the detected one is not allowed', async () => {
+    mockEnterpriseFindById.mockResolvedValue(makeEnterprise(['en']));
+
+    await pipeline.process({
+      enterprise_id: ENTERPRISE_ID,
+      operator_id: OPERATOR_ID,
+      input_text: 'machine odala, enna pannanum?',
+    });
+
+    const query = mockQueryCreate.mock.calls[0][0];
+    expect(query.data.detected_language).toBe('tanglish');
+    expect(query.data.response_text).not.toMatch(/[\u0B80-\u0BFF]/);
+  });
+
+  it('should reject languages the enterprise does not allow in the operator\'s language', async () => {
+    mockEnterpriseFindById.mockResolvedValue(makeEnterprise(['en', 'ta']));
+
+    await expect(pipeline.process({
+      enterprise_id: ENTERPRISE_ID,
+      operator_id: OPERATOR_ID,
+      input_text: 'मशीन से धुआं आ रहा है',
+    })).rejects.toMatchObject({
+      statusCode: 400,
+      code: 'LANGUAGE_NOT_ALLOWED',
+      message: 'यह भाषा आपकी साइट के लिए सक्षम नहीं है। कृपया इनमें से किसी एक में पूछें: English, தமிழ்।',
+      details: { language: 'hi', allowed_languages: ['en', 'ta'] },
+    });
+    expect(mockQueryCreate).not.toHaveBeenCalled();
+  });
+
+  it.each(LANGUAGE_CODES)('should refuse blocked and locked down queries in %s', async language => {
+    mockEnterpriseFindById.mockResolvedValue(makeEnterprise(LANGUAGE_CODES));
+    const ask = (input_text: string) => pipeline.process({
+      enterprise_id: ENTERPRISE_ID,
+      operator_id: OPERATOR_ID,
+      input_text,
+      language,
+    });
+
+    const blocked = await ask('smoke coming from the machine');
+    mockFindLockdown.mockResolvedValue({ _id: 'lockdown123', machine: 'hydraulic press', alert_id: 'alert122' });
+    const locked = await ask('how do I restart the hydraulic press');
+
+    expect(blocked.blocked).toBe(true);
+    expect(locked.lockdown).toBeDefined();
+    // Only English speakers get the English notices; every other language has its own or a fallback's
+    expect(blocked.text.includes('blocked for safety')).toBe(language === 'en');
+    expect(locked.text.includes('locked after a critical safety alert')).toBe(language === 'en');
+  });
+
+  it('should read answers out in the voice of the answer language', async () => {
+    const synthesize = jest.fn().mockResolvedValue('QVVESU8=');
+    const speechPipeline = new QueryPipeline({
+      cache: new AnswerCache(),
+      tts: { synthesize, getCachedAudio: () => null },
+    });
+
+    await speechPipeline.process({
+      enterprise_id: ENTERPRISE_ID,
+      operator_id: OPERATOR_ID,
+      input_text: 'machine odala',
+      language: 'ta-IN',
+    });
+
+    expect(synthesize).toHaveBeenCalledWith(expect.any(String), 'ta-IN');
+    expect(mockQueryCreate.mock.calls[0][0].data.detected_language).toBe('ta');
+  });
+
+  it('should reject unknown enterprises', async () => {
+    mockEnterpriseFindById.mockResolvedValue(null);
+
+    await expect(pipeline.process({
+      enterprise_id: ENTERPRISE_ID,
+      operator_id: OPERATOR_ID,
+      input_text: 'machine not starting',
+    })).rejects.toMatchObject({ statusCode: 404, code: 'ENTERPRISE_NOT_FOUND' });
+  });
+
+  it('should fail audio queries when STT is not configured', async () => {
+    await expect(pipeline.process({
+      enterprise_id: ENTERPRISE_ID,
+      operator_id: OPERATOR_ID,
+      audio_base64: 'UklGRg==',
+    })).rejects.toMatchObject({ statusCode: 503, code: 'STT_UNAVAILABLE' });
+  });
+
+  it('should transcribe audio and synthesize the answer when speech services are configured', async () => {
+    const speechPipeline = new QueryPipeline({
+      cache: new AnswerCache(),
+      stt: { isReady: () => true, transcribe: jest.fn().mockResolvedValue('machine not starting') },
+      tts: { synthesize: jest.fn().mockResolvedValue('QVVESU8='), getCachedAudio: () => null },
+    });
+
+    const response = await speechPipeline.process({
+      enterprise_id: ENTERPRISE_ID,
+      operator_id: OPERATOR_ID,
+      audio_base64: 'UklGRg==',
+    });
+
+    expect(response.intent.name).toBe('machine_not_starting');
+    expect(response.audio_base64).toBe('QVVESU8=');
+    expect(response.trace.steps[0].name).toBe('stt');
+    expect(response.trace.steps.map(step => step.name)).toContain('tts');
+  });
+
+  it('should notify the listener of each step with its result', async () => {
+    const listener = jest.fn();
+
+    await pipeline.process({
+      enterprise_id: ENTERPRISE_ID,
+      operator_id: OPERATOR_ID,
+      input_text: 'machine not starting',
+    }, 'trace-2', listener);
+
+    const names = listener.mock.calls.map(([step]) => step.name);
+    expect(names).toEqual([
+      'language_detection',
+      'conversation_resolution',
+      'intent_classification',
+      'risk_assessment',
+      'lockdown_check',
+      'clarification',
+      'cache_lookup',
+      'retrieval',
+      'response_generation',
+      'persistence',
+    ]);
+    expect(listener.mock.calls[0][1]).toEqual(expect.objectContaining({ code: 'en' }));
+    expect(listener.mock.calls[3][1]).toEqual(expect.objectContaining({ risk: 'low', blocked: false }));
+  });
+
+  it('should keep processing when the listener throws', async () => {
+    const response = await pipeline.process({
+      enterprise_id: ENTERPRISE_ID,
+      operator_id: OPERATOR_ID,
+      input_text: 'machine not starting',
+    }, 'trace-3', () => { throw new Error('client went away'); });
+
+    expect(response.query_id).toBe('query123');
+  });
+
+  it('should not load conversations, persist or alert on dry runs', async () => {
+    const response = await pipeline.process({
+      enterprise_id: ENTERPRISE_ID,
+      operator_id: OPERATOR_ID,
+      input_text: 'smoke coming from the machine',
+    }, 'trace-dry', undefined, { dryRun: true });
+
+    expect(response.blocked).toBe(true);
+    expect(response.query_id).toBeUndefined();
+    expect(mockFindActiveSession).not.toHaveBeenCalled();
+    expect(mockQueryCreate).not.toHaveBeenCalled();
+    expect(mockAlertCreate).not.toHaveBeenCalled();
+    expect(response.trace.steps.map(step => step.name)).not.toContain('persistence');
+    expect(mockFindLockdown).not.toHaveBeenCalled();
+  });
+
+  it('should stop processing once the signal is aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(pipeline.process({
+      enterprise_id: ENTERPRISE_ID,
+      operator_id: OPERATOR_ID,
+      input_text: 'machine not starting',
+    }, 'trace-cancel', undefined, { signal: controller.signal })).rejects.toMatchObject({ code: 'QUERY_CANCELLED' });
+
+    expect(mockQueryCreate).not.toHaveBeenCalled();
+  });
+
+  describe('operator lockdown', () => {
+    const LOCKDOWN = {
+      _id: 'lockdown123',
+      machine: 'hydraulic press',
+      alert_id: 'alert122',
+      created_at: new Date('2026-03-02T08:00:00Z'),
+    };
+
+    it('should lock the operator out of the machine after a critical query', async () => {
+      await pipeline.process({
+        enterprise_id: ENTERPRISE_ID,
+        operator_id: OPERATOR_ID,
+        input_text: 'smoke coming from the hydraulic press',
+      });
+
+      const alert = mockAlertCreate.mock.calls[0][0];
+      expect(alert.lockdown_events).toEqual([expect.objectContaining({
+        action: 'locked',
+        machine: 'hydraulic press',
+        reason: alert.data.trigger_reason,
+      })]);
+
+      expect(mockLockdownCreate).toHaveBeenCalledTimes(1);
+      const lockdown = mockLockdownCreate.mock.calls[0][0];
+      expect(lockdown).toMatchObject({
+        enterprise_id: ENTERPRISE_ID,
+        operator_id: OPERATOR_ID,
+        machine: 'hydraulic press',
+        query_id: 'query123',
+        alert_id: alert._id,
+      });
+      expect(lockdown._id).toBe(alert.lockdown_events[0].lockdown_id);
+      expect(mockLockdownCreate.mock.invocationCallOrder[0]).toBeLessThan(mockAlertCreate.mock.invocationCallOrder[0]);
+    });
+
+    it('should fail the query without alerting when the lockdown cannot be created', async () => {
+      mockLockdownCreate.mockRejectedValue(new Error('db down'));
+
+      await expect(pipeline.process({
+        enterprise_id: ENTERPRISE_ID,
+        operator_id: OPERATOR_ID,
+        input_text: 'smoke coming from the hydraulic press',
+      })).rejects.toThrow('db down');
+
+      expect(mockAlertCreate).not.toHaveBeenCalled();
+    });
+
+    it('should fail the query when the alert cannot be created', async () => {
+      mockAlertCreate.mockRejectedValue(new Error('db down'));
+      const listener = jest.fn();
+
+      await expect(pipeline.process({
+        enterprise_id: ENTERPRISE_ID,
+        operator_id: OPERATOR_ID,
+        input_text: 'motor is overheating',
+      }, 'trace-alert', listener)).rejects.toThrow('db down');
+
+      expect(listener).toHaveBeenCalledWith(expect.objectContaining({ name: 'alerting', success: false }), undefined);
+    });
+
+    it('should alert even when the query cannot be stored', async () => {
+      mockQueryCreate.mockRejectedValue(new Error('db down'));
+
+      await pipeline.process({
+        enterprise_id: ENTERPRISE_ID,
+        operator_id: OPERATOR_ID,
+        input_text: 'smoke coming from the hydraulic press',
+      });
+
+      expect(mockAlertCreate).toHaveBeenCalledTimes(1);
+      expect(mockLockdownCreate.mock.calls[0][0].query_id).toBeUndefined();
+    });
+
+    it('should alert and lock down when cancelled after the query is stored', async () => {
+      const controller = new AbortController();
+      const create = mockQueryCreate.getMockImplementation()!;
+      mockQueryCreate.mockImplementation(async (doc: any) => {
+        controller.abort();
+        return create(doc);
+      });
+
+      const response = await pipeline.process({
+        enterprise_id: ENTERPRISE_ID,
+        operator_id: OPERATOR_ID,
+        input_text: 'smoke coming from the hydraulic press',
+      }, 'trace-cancel', undefined, { signal: controller.signal });
+
+      expect(response.query_id).toBe('query123');
+      expect(mockLockdownCreate).toHaveBeenCalledTimes(1);
+      expect(mockAlertCreate).toHaveBeenCalledTimes(1);
+    });
+
+    it('should lock every machine when a hazard is asserted without naming one', async () => {
+      await pipeline.process({
+        enterprise_id: ENTERPRISE_ID,
+        operator_id: OPERATOR_ID,
+        input_text: 'there is smoke everywhere',
+      });
+
+      expect(mockLockdownCreate).toHaveBeenCalledTimes(1);
+      expect(mockLockdownCreate.mock.calls[0][0].machine).toBeUndefined();
+    });
+
+    it('should not lock every machine for a critical intent without an asserted hazard', async () => {
+      const classifier = new IntentClassifier(getBundledIntents());
+      jest.spyOn(classifier, 'classify').mockResolvedValue({
+        name: 'fire_smoke', confidence: 0.9, matched_examples: [],
+      });
+      pipeline = new QueryPipeline({ cache: new AnswerCache(), classifier });
+
+      const response = await pipeline.process({
+        enterprise_id: ENTERPRISE_ID,
+        operator_id: OPERATOR_ID,
+        input_text: 'what should I check first',
+      });
+
+      expect(response.risk_level).toBe('critical');
+      expect(mockAlertCreate.mock.calls[0][0].lockdown_events).toEqual([]);
+      expect(mockLockdownCreate).not.toHaveBeenCalled();
+    });
+
+    it('should not lock down on high-risk queries', async () => {
+      await pipeline.process({
+        enterprise_id: ENTERPRISE_ID,
+        operator_id: OPERATOR_ID,
+        input_text: 'motor is overheating',
+      });
+
+      expect(mockAlertCreate.mock.calls[0][0].lockdown_events).toEqual([]);
+      expect(mockLockdownCreate).not.toHaveBeenCalled();
+    });
+
+    it('should answer further queries about the machine with the lockdown notice', async () => {
+      mockFindLockdown.mockResolvedValue(LOCKDOWN);
+
+      const response = await pipeline.process({
+        enterprise_id: ENTERPRISE_ID,
+        operator_id: OPERATOR_ID,
+        input_text: 'how do I restart the hydraulic press',
+        language: 'tanglish',
+      });
+
+      expect(mockFindLockdown).toHaveBeenCalledWith(ENTERPRISE_ID, OPERATOR_ID, 'hydraulic press');
+      expect(response.blocked).toBe(true);
+      expect(response.text).toContain('lock pannapattirukku');
+      expect(response.lockdown).toEqual({
+        lockdown_id: 'lockdown123',
+        machine: 'hydraulic press',
+        alert_id: 'alert122',
+        locked_at: LOCKDOWN.created_at,
+      });
+      expect(response.clarification).toBeUndefined();
+      expect(mockVectorFindSimilar).not.toHaveBeenCalled();
+
+      // The refused query is recorded, but only its own risk would raise an alert
+      const stored = mockQueryCreate.mock.calls[0][0];
+      expect(stored.data.blocked).toBe(true);
+      expect(stored.data.response_text).toBeUndefined();
+      expect(stored.data.risk_explanation.decision).toMatchObject({ blocked: true, locked_down: true });
+      expect(mockAlertCreate).not.toHaveBeenCalled();
+    });
+
+    it('should not lock down again while already locked', async () => {
+      mockFindLockdown.mockResolvedValue(LOCKDOWN);
+
+      const response = await pipeline.process({
+        enterprise_id: ENTERPRISE_ID,
+        operator_id: OPERATOR_ID,
+        input_text: 'smoke coming from the hydraulic press',
+      });
+
+      expect(response.text).toContain('blocked for safety');
+      expect(mockAlertCreate.mock.calls[0][0].lockdown_events).toEqual([]);
+      expect(mockLockdownCreate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('labeling queue', () => {
+    it('should queue uncertain queries for review', async () => {
+      const response = await pipeline.process({
+        enterprise_id: ENTERPRISE_ID,
+        operator_id: OPERATOR_ID,
+        input_text: 'conveyor belt slipping',
+      });
+
+      expect(response.intent.name).toBe('unknown');
+      expect(mockEnqueueTask).toHaveBeenCalledWith({
+        enterprise_id: ENTERPRISE_ID,
+        query_id: 'query123',
+        text: 'conveyor belt slipping',
+        language: 'en',
+        predicted: { name: 'unknown', confidence: response.intent.confidence },
+      }, 'low_confidence');
+    });
+
+    it('should not queue confident classifications', async () => {
+      await pipeline.process({
+        enterprise_id: ENTERPRISE_ID,
+        operator_id: OPERATOR_ID,
+        input_text: 'machine not starting',
+      });
+
+      expect(mockEnqueueTask).not.toHaveBeenCalled();
+    });
+
+    it('should still answer when the query cannot be queued', async () => {
+      mockEnqueueTask.mockRejectedValue(new Error('database unavailable'));
+
+      const response = await pipeline.process({
+        enterprise_id: ENTERPRISE_ID,
+        operator_id: OPERATOR_ID,
+        input_text: 'conveyor belt slipping',
+      });
+
+      expect(response.query_id).toBe('query123');
+      expect(response.trace.steps.find(step => step.name === 'persistence')?.success).toBe(true);
+    });
+  });
+
+  describe('answer cache', () => {
+    beforeEach(() => {
+      mockVectorFindSimilar.mockResolvedValue([{
+        similarity: 0.8,
+        chunk_id: {
+          _id: 'chunk1',
+          manual_id: 'manual1',
+          text: 'Turn the isolator to ON and press the green start button.',
+          metadata: { word_count: 11, char_count: 58 },
+        },
+      }]);
+    });
+
+    const ask = (text: string) => pipeline.process({
+      enterprise_id: ENTERPRISE_ID,
+      operator_id: OPERATOR_ID,
+      input_text: text,
+    });
+
+    it('should answer repeated questions from the cache', async () => {
+      const first = await ask('Machine not starting');
+      const second = await ask('machine not starting!');
+
+      expect(mockVectorFindSimilar).toHaveBeenCalledTimes(1);
+      expect(second.text).toBe(first.text);
+      expect(second.sources).toEqual(first.sources);
+      expect(second.trace.steps.map(step => step.name)).not.toContain('retrieval');
+    });
+
+    it('should recompute answers when the manual corpus changes', async () => {
+      await ask('machine not starting');
+      mockGetCorpusVersion.mockResolvedValue('2:1700000001000');
+      await ask('machine not starting');
+
+      expect(mockVectorFindSimilar).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not cache answers when retrieval fails', async () => {
+      mockVectorFindSimilar.mockRejectedValueOnce(new Error('vector store offline'));
+
+      await ask('machine not starting');
+      const second = await ask('machine not starting');
+
+      expect(mockVectorFindSimilar).toHaveBeenCalledTimes(2);
+      expect(second.sources).toHaveLength(1);
+    });
+  });
+
+  describe('conversations', () => {
+    it('should start a new conversation and record the turn', async () => {
+      const created = makeConversation({ _id: 'conv-new' });
+      MockConversation.mockImplementation(() => created);
+
+      const response = await pipeline.process({
+        enterprise_id: ENTERPRISE_ID,
+        operator_id: OPERATOR_ID,
+        input_text: 'how to change the spindle belt on the cnc lathe',
+      });
+
+      expect(response.conversation_id).toBe('conv-new');
+      expect(mockQueryCreate.mock.calls[0][0].conversation_id).toBe('conv-new');
+      expect(created.addTurn).toHaveBeenCalledWith('query123', expect.objectContaining({
+        machine: 'cnc lathe',
+        intent: 'maintenance_procedure',
+        last_text: 'how to change the spindle belt on the cnc lathe',
+      }));
+      expect(created.save).toHaveBeenCalled();
+    });
+
+    it('should resolve follow-ups against the active session', async () => {
+      const active = makeConversation({
+        _id: 'conv-active',
+        query_ids: ['q1'],
+        context: {
+          machine: 'cnc lathe',
+          intent: 'maintenance_procedure',
+          intent_confidence: 0.7,
+          last_text: 'how to change the spindle belt',
+          manual_id: 'manual2',
+        },
+      });
+      mockFindActiveSession.mockResolvedValue(active);
+      mockVectorFindSimilar.mockResolvedValue([
+        { similarity: 0.7, chunk_id: { _id: 'c1', manual_id: 'manual1', text: 'Other manual', metadata: {} } },
+        { similarity: 0.6, chunk_id: { _id: 'c2', manual_id: 'manual2', text: 'Tighten the bolts to 25 Nm.', metadata: {} } },
+      ]);
+
+      const response = await pipeline.process({
+        enterprise_id: ENTERPRISE_ID,
+        operator_id: OPERATOR_ID,
+        input_text: 'what torque for the bolts?',
+      });
+
+      expect(response.conversation_id).toBe('conv-active');
+      expect(response.intent).toEqual({ name: 'maintenance_procedure', confidence: 0.7, matched_examples: [] });
+      expect(response.text.split('\n')[1]).toBe('Tighten the bolts to 25 Nm.');
+      expect(active.addTurn).toHaveBeenCalledWith('query123', expect.objectContaining({ intent: 'maintenance_procedure' }));
+    });
+
+    it('should continue a requested conversation', async () => {
+      const requested = makeConversation({ _id: 'conv-req' });
+      mockConversationFindOne.mockResolvedValue(requested);
+
+      const response = await pipeline.process({
+        enterprise_id: ENTERPRISE_ID,
+        operator_id: OPERATOR_ID,
+        input_text: 'machine not starting',
+        conversation_id: '64b7f0c2a1b2c3d4e5f60799',
+      });
+
+      expect(mockConversationFindOne).toHaveBeenCalledWith({
+        _id: '64b7f0c2a1b2c3d4e5f60799',
+        enterprise_id: ENTERPRISE_ID,
+        operator_id: OPERATOR_ID,
+      });
+      expect(response.conversation_id).toBe('conv-req');
+    });
+
+    it('should start a new conversation when the requested one has expired', async () => {
+      mockConversationFindOne.mockResolvedValue(makeConversation({
+        _id: 'conv-old',
+        isExpired: jest.fn().mockReturnValue(true),
+      }));
+
+      const response = await pipeline.process({
+        enterprise_id: ENTERPRISE_ID,
+        operator_id: OPERATOR_ID,
+        input_text: 'machine not starting',
+        conversation_id: '64b7f0c2a1b2c3d4e5f60799',
+      });
+
+      expect(response.conversation_id).toBe('conv123');
+    });
+
+    it('should reject conversations of other operators', async () => {
+      mockConversationFindOne.mockResolvedValue(null);
+
+      await expect(pipeline.process({
+        enterprise_id: ENTERPRISE_ID,
+        operator_id: OPERATOR_ID,
+        input_text: 'machine not starting',
+        conversation_id: '64b7f0c2a1b2c3d4e5f60799',
+      })).rejects.toMatchObject({ statusCode: 404, code: 'CONVERSATION_NOT_FOUND' });
+    });
+  });
+
+  describe('clarifying questions', () => {
+    let classifier: IntentClassifier;
+
+    beforeEach(() => {
+      classifier = new IntentClassifier(getBundledIntents());
+      pipeline = new QueryPipeline({ cache: new AnswerCache(), classifier });
+    });
+
+    const tieIntents = () => {
+      jest.spyOn(classifier, 'classify').mockResolvedValue({
+        name: 'abnormal_noise', confidence: 0.52, matched_examples: ['motor sound varuthu'],
+      });
+      jest.spyOn(classifier, 'rank').mockResolvedValue([
+        { name: 'abnormal_noise', confidence: 0.52 },
+        { name: 'overheating', confidence: 0.5 },
+        { name: 'error_code', confidence: 0.21 },
+      ]);
+    };
+
+    it('should ask instead of guessing when two intents are nearly tied', async () => {
+      tieIntents();
+
+      const response = await pipeline.process({
+        enterprise_id: ENTERPRISE_ID,
+        operator_id: OPERATOR_ID,
+        input_text: 'motor making noise and getting warm',
+        language: 'en',
+      });
+
+      expect(response.clarification).toEqual({
+        reason: 'tied_intents',
+        question: 'I am not sure I understood. Is your question about unusual noise or overheating?',
+        options: [
+          { id: '1', kind: 'intent', value: 'abnormal_noise', label: 'unusual noise', confidence: 0.52 },
+          { id: '2', kind: 'intent', value: 'overheating', label: 'overheating', confidence: 0.5 },
+        ],
+      });
+      expect(response.text).toBe(response.clarification!.question);
+      expect(mockVectorFindSimilar).not.toHaveBeenCalled();
+
+      const stored = mockQueryCreate.mock.calls[0][0];
+      expect(stored.clarification).toMatchObject({ reason: 'tied_intents', status: 'pending', language: 'en' });
+      expect(stored.data.response_text).toBe(response.clarification!.question);
+    });
+
+    it('should ask in the operator\'s language', async () => {
+      tieIntents();
+
+      const response = await pipeline.process({
+        enterprise_id: ENTERPRISE_ID,
+        operator_id: OPERATOR_ID,
+        input_text: 'motor sound varuthu, soodaa irukku',
+        language: 'tanglish',
+      });
+
+      expect(response.clarification!.question).toBe('Unga kelvi sariya puriyala. Idhu odd sound illa over heat aagradhu pathiyaa?');
+    });
+
+    it('should not carry a guessed intent into the conversation while waiting', async () => {
+      tieIntents();
+      const created = makeConversation({ _id: 'conv-new' });
+      MockConversation.mockImplementation(() => created);
+
+      await pipeline.process({
+        enterprise_id: ENTERPRISE_ID,
+        operator_id: OPERATOR_ID,
+        input_text: 'motor making noise and getting warm',
+      });
+
+      const context = created.addTurn.mock.calls[0][1];
+      expect(context.intent).toBeUndefined();
+      expect(context.last_text).toBe('motor making noise and getting warm');
+    });
+
+    it('should never ask about queries that are blocked', async () => {
+      jest.spyOn(classifier, 'rank').mockResolvedValue([
+        { name: 'fire_smoke', confidence: 0.5 },
+        { name: 'overheating', confidence: 0.49 },
+      ]);
+
+      const response = await pipeline.process({
+        enterprise_id: ENTERPRISE_ID,
+        operator_id: OPERATOR_ID,
+        input_text: 'smoke coming from the machine',
+      });
+
+      expect(response.blocked).toBe(true);
+      expect(response.clarification).toBeUndefined();
+      expect(classifier.rank).not.toHaveBeenCalled();
+    });
+
+    it('should ask which machine when manuals of different machines match equally well', async () => {
+      mockManualFind.mockReturnValue({
+        select: jest.fn().mockResolvedValue([
+          { _id: 'manual1', original_name: 'hydraulic-press.pdf' },
+          { _id: 'manual2', original_name: 'cnc_lathe.pdf' },
+        ]),
+      });
+      mockVectorFindSimilar.mockResolvedValue([
+        { similarity: 0.81, chunk_id: { _id: 'c1', manual_id: 'manual1', text: 'Check the hydraulic oil level.', metadata: {} } },
+        { similarity: 0.79, chunk_id: { _id: 'c2', manual_id: 'manual2', text: 'Check the spindle drive fuse.', metadata: {} } },
+      ]);
+
+      const response = await pipeline.process({
+        enterprise_id: ENTERPRISE_ID,
+        operator_id: OPERATOR_ID,
+        input_text: 'machine not starting',
+        language: 'en',
+      });
+
+      expect(response.clarification).toMatchObject({
+        reason: 'ambiguous_machine',
+        question: 'Which machine do you mean: hydraulic press or cnc lathe?',
+      });
+      expect(response.clarification!.options.map(option => option.value)).toEqual(['manual1', 'manual2']);
+      expect(response.sources).toEqual([]);
+    });
+
+    it('should answer the original query with the operator\'s choice', async () => {
+      const stored: any = {
+        _id: 'query-pending',
+        data: { text: 'motor making noise and getting warm', risk: 'medium', blocked: false },
+        clarification: { status: 'pending' },
+        set: jest.fn((path: string, value: any) => { stored[path] = value; }),
+        resolveClarification: jest.fn(),
+        save: jest.fn().mockResolvedValue(undefined),
+        shouldCreateAlert: jest.fn(() => ['high', 'critical'].includes(stored.data.risk)),
+      };
+      const rank = jest.spyOn(classifier, 'rank');
+
+      const response = await pipeline.process({
+        enterprise_id: ENTERPRISE_ID,
+        operator_id: OPERATOR_ID,
+        input_text: 'motor making noise and getting warm',
+        language: 'en',
+      }, 'trace-clarify', undefined, {
+        clarification: {
+          query: stored,
+          option: { id: '2', kind: 'intent', value: 'overheating', label: 'overheating', confidence: 0.5 },
+          resolved_by: 'operator@example.com',
+        },
+      });
+
+      expect(rank).not.toHaveBeenCalled();
+      expect(response.intent).toEqual({ name: 'overheating', confidence: 0.5, matched_examples: [] });
+      expect(response.risk_level).toBe('high');
+      expect(response.clarification).toBeUndefined();
+      expect(response.query_id).toBe('query-pending');
+
+      expect(mockQueryCreate).not.toHaveBeenCalled();
+      expect(stored.set).toHaveBeenCalledWith('data', expect.objectContaining({ risk: 'high' }));
+      expect(stored.resolveClarification).toHaveBeenCalledWith('2', 'operator@example.com');
+      expect(stored.save).toHaveBeenCalled();
+      expect(mockAlertCreate).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('intent overrides', () => {
+    const override = (spec: Record<string, any>) => ({
+      _id: `override-${spec.intent_name}`,
+      created_at: new Date('2026-01-01T00:00:00Z'),
+      toSpec: () => spec,
+    });
+
+    it('should classify with the enterprise\'s own intents', async () => {
+      mockFindOverrides.mockResolvedValue([
+        override({
+          intent_name: 'hydraulic_leak',
+          examples: ['hydraulic oil leaking from the press'],
+          responses: { en: 'Stop the press and isolate the hydraulic unit.' },
+          risk: 'critical',
+        }),
+      ]);
+
+      const response = await pipeline.process({
+        enterprise_id: ENTERPRISE_ID,
+        operator_id: OPERATOR_ID,
+        input_text: 'hydraulic oil leaking from the press',
+      });
+
+      expect(mockFindOverrides).toHaveBeenCalledWith(ENTERPRISE_ID);
+      expect(response.intent.name).toBe('hydraulic_leak');
+      expect(response.risk_level).toBe('critical');
+      expect(response.blocked).toBe(true);
+    });
+
+    it('should apply raised risk to a global intent', async () => {
+      mockFindOverrides.mockResolvedValue([override({ intent_name: 'machine_not_starting', risk: 'high' })]);
+
+      const response = await pipeline.process({
+        enterprise_id: ENTERPRISE_ID,
+        operator_id: OPERATOR_ID,
+        input_text: 'machine not starting',
+      });
+
+      expect(response.intent.name).toBe('machine_not_starting');
+      expect(response.risk_level).toBe('high');
+    });
+
+    it('should not match intents the enterprise disabled', async () => {
+      mockFindOverrides.mockResolvedValue([override({ intent_name: 'machine_not_starting', disabled: true })]);
+
+      const response = await pipeline.process({
+        enterprise_id: ENTERPRISE_ID,
+        operator_id: OPERATOR_ID,
+        input_text: 'machine not starting',
+      });
+
+      expect(response.intent.name).not.toBe('machine_not_starting');
+    });
+  });
+});
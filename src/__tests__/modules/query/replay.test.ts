@@ -0,0 +1,123 @@
+import { QueryReplayer } from '../../../modules/query/replay';
+import { QueryPipeline } from '../../../modules/query/pipeline';
+import { Query } from '../../../models/Query';
+
+jest.mock('../../../models/Query');
+jest.mock('../../../utils/logger');
+
+const mockQueryFind = Query.find as jest.Mock;
+
+const ENTERPRISE_ID = '64b7f0c2a1b2c3d4e5f60718';
+
+const makeStored = (overrides: Record<string, any> = {}) => ({
+  _id: 'query1',
+  enterprise_id: ENTERPRISE_ID,
+  operator_id: '64b7f0c2a1b2c3d4e5f60719',
+  created_at: new Date('2024-03-01T08:00:00Z'),
+  data: {
+    text: 'machine not starting',
+    intent: { name: 'machine_not_starting', confidence: 0.8, matched_examples: [] },
+    confidence: 0.8,
+    risk: 'low',
+    blocked: false,
+    sources: [{ chunk_id: 'chunk1' }],
+    ...overrides,
+  },
+});
+
+const makeResponse = (overrides: Record<string, any> = {}) => ({
+  text: 'answer',
+  intent: { name: 'machine_not_starting', confidence: 0.82, matched_examples: [] },
+  risk_level: 'low',
+  blocked: false,
+  sources: [{ chunk_id: 'chunk1' }],
+  trace: { trace_id: 't', timestamp: new Date(), processing_time_ms: 1, steps: [] },
+  ...overrides,
+});
+
+const chain = (value: unknown) => {
+  const query: any = {};
+  ['sort', 'limit'].forEach(method => {
+    query[method] = jest.fn().mockReturnValue(query);
+  });
+  query.then = (resolve: any, reject: any) => Promise.resolve(value).then(resolve, reject);
+  return query;
+};
+
+describe('QueryReplayer', () => {
+  let process: jest.Mock;
+  let replayer: QueryReplayer;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process = jest.fn();
+    replayer = new QueryReplayer({ process } as unknown as QueryPipeline);
+  });
+
+  it('should replay stored queries as dry runs', async () => {
+    mockQueryFind.mockReturnValue(chain([makeStored()]));
+    process.mockResolvedValue(makeResponse());
+
+    const report = await replayer.replay(ENTERPRISE_ID, { intent: 'machine_not_starting', limit: 10 });
+
+    expect(mockQueryFind).toHaveBeenCalledWith({ enterprise_id: ENTERPRISE_ID, 'data.intent.name': 'machine_not_starting' });
+    expect(process).toHaveBeenCalledWith(
+      expect.objectContaining({ input_text: 'machine not starting', language: 'auto' }),
+      undefined,
+      undefined,
+      { dryRun: true }
+    );
+    expect(report.results[0].changes).toEqual([]);
+    expect(report.summary).toMatchObject({ total: 1, changed: 0, unchanged: 1, failed: 0 });
+  });
+
+  it('should report intent, risk, blocking and source changes', async () => {
+    mockQueryFind.mockReturnValue(chain([makeStored()]));
+    process.mockResolvedValue(makeResponse({
+      intent: { name: 'electrical_hazard', confidence: 0.6, matched_examples: [] },
+      risk_level: 'critical',
+      blocked: true,
+      sources: [],
+    }));
+
+    const report = await replayer.replay(ENTERPRISE_ID);
+    const [result] = report.results;
+
+    expect(result.changes).toEqual(['intent', 'confidence', 'risk', 'blocked', 'top_sources']);
+    expect(result.confidence_delta).toBe(-0.2);
+    expect(result.replayed).toMatchObject({ intent: 'electrical_hazard', risk: 'critical', blocked: true });
+    expect(report.summary.changes_by_field.risk).toBe(1);
+  });
+
+  it('should ignore confidence changes within the tolerance', async () => {
+    mockQueryFind.mockReturnValue(chain([makeStored()]));
+    process.mockResolvedValue(makeResponse({
+      intent: { name: 'machine_not_starting', confidence: 0.83, matched_examples: [] },
+    }));
+
+    const report = await replayer.replay(ENTERPRISE_ID);
+
+    expect(report.results[0].changes).toEqual([]);
+  });
+
+  it('should record failed replays without aborting the batch', async () => {
+    mockQueryFind.mockReturnValue(chain([makeStored(), makeStored()]));
+    process
+      .mockRejectedValueOnce(new Error('Enterprise not found'))
+      .mockResolvedValueOnce(makeResponse());
+
+    const report = await replayer.replay(ENTERPRISE_ID);
+
+    expect(report.results[0].error).toBe('Enterprise not found');
+    expect(report.summary).toMatchObject({ total: 2, failed: 1, unchanged: 1 });
+  });
+
+  it('should cap the batch size', async () => {
+    const query = chain([]);
+    mockQueryFind.mockReturnValue(query);
+
+    await replayer.replay(ENTERPRISE_ID, { limit: 10000 });
+
+    expect(query.limit).toHaveBeenCalledWith(QueryReplayer.MAX_LIMIT);
+  });
+});
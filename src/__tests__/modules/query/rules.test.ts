@@ -0,0 +1,145 @@
+import {
+  RiskRuleEngine,
+  RiskRuleContext,
+  describeRiskRuleProblems,
+  extractMeasurements,
+} from '../../../modules/query/rules';
+import { RiskRuleSpec } from '../../../models/RiskRuleSet';
+
+jest.mock('../../../utils/logger');
+
+const RULES: RiskRuleSpec[] = [
+  {
+    id: 'press_guard_bypass',
+    description: 'Guard bypass on any press',
+    level: 'critical',
+    when: { intent: ['bypass_guard'], machine: ['press'] },
+  },
+  {
+    id: 'hot_machine',
+    level: 'high',
+    when: { value: { quantity: 'temperature', gt: 90 } },
+  },
+  {
+    id: 'night_shift_unsure',
+    level: 'medium',
+    when: { max_confidence: 0.5, time: { from: '22:00', to: '06:00', timezone: 'Asia/Kolkata' }, language: ['ta', 'tanglish'] },
+  },
+];
+
+const context = (overrides: Partial<RiskRuleContext> = {}): RiskRuleContext => ({
+  text: 'guard bypass on the hydraulic press',
+  intent: { name: 'bypass_guard', confidence: 0.8, matched_examples: [] },
+  language: 'en',
+  machine: 'hydraulic press',
+  at: new Date('2026-03-02T08:00:00Z'),
+  ...overrides,
+});
+
+describe('extractMeasurements', () => {
+  it('should read values and convert them to a common unit', () => {
+    const measurements = extractMeasurements('motor at 95°C, 200 F on the casing, 116 psi and 1500 rpm on 440V at 80%');
+
+    expect(measurements.map(({ quantity, value }) => [quantity, value])).toEqual([
+      ['temperature', 95],
+      ['temperature', 93.33],
+      ['pressure', 8],
+      ['speed', 1500],
+      ['voltage', 440],
+      ['percent', 80],
+    ]);
+    expect(measurements[0].text).toBe('95°C');
+  });
+
+  it('should read Tamil temperature units', () => {
+    expect(extractMeasurements('வெப்பநிலை 120 டிகிரி')).toMatchObject([{ quantity: 'temperature', value: 120 }]);
+  });
+
+  it('should not read the next word as a unit', () => {
+    expect(extractMeasurements('held at 90 degrees for an hour')).toMatchObject([{ quantity: 'temperature', value: 90 }]);
+  });
+
+  it('should ignore numbers without units', () => {
+    expect(extractMeasurements('error 42 on line 3 of the cnc')).toEqual([]);
+  });
+});
+
+describe('RiskRuleEngine', () => {
+  it('should match rules whose conditions all hold', () => {
+    const evaluations = RiskRuleEngine.evaluate(RULES, context());
+
+    expect(evaluations.map(evaluation => [evaluation.rule_id, evaluation.matched])).toEqual([
+      ['press_guard_bypass', true],
+      ['hot_machine', false],
+      ['night_shift_unsure', false],
+    ]);
+    expect(evaluations[0].conditions).toEqual([
+      { condition: 'intent', matched: true, detail: 'intent is bypass_guard' },
+      { condition: 'machine', matched: true, detail: 'machine is hydraulic press' },
+    ]);
+  });
+
+  it('should not match a machine type when no machine was mentioned', () => {
+    const [evaluation] = RiskRuleEngine.evaluate(RULES, context({ machine: undefined }));
+
+    expect(evaluation.matched).toBe(false);
+    expect(evaluation.conditions[1].detail).toBe('no machine mentioned');
+  });
+
+  it('should compare numeric values mentioned in the text', () => {
+    const hot = RiskRuleEngine.evaluate(RULES, context({ text: 'motor reading 96 degrees' }))[1];
+    const warm = RiskRuleEngine.evaluate(RULES, context({ text: 'motor reading 85 degrees' }))[1];
+
+    expect(hot.matched).toBe(true);
+    expect(hot.conditions[0].detail).toBe('temperature 96 celsius');
+    expect(warm.matched).toBe(false);
+  });
+
+  it('should evaluate time windows that wrap past midnight in the rule time zone', () => {
+    const unsure = { intent: { name: 'unknown', confidence: 0.3, matched_examples: [] }, language: 'tanglish' };
+
+    // 23:30 and 05:30 in India
+    const lateNight = RiskRuleEngine.evaluate(RULES, context({ ...unsure, at: new Date('2026-03-02T18:00:00Z') }))[2];
+    const earlyMorning = RiskRuleEngine.evaluate(RULES, context({ ...unsure, at: new Date('2026-03-02T00:00:00Z') }))[2];
+    const afternoon = RiskRuleEngine.evaluate(RULES, context({ ...unsure, at: new Date('2026-03-02T08:00:00Z') }))[2];
+
+    expect(lateNight.matched).toBe(true);
+    expect(earlyMorning.matched).toBe(true);
+    expect(afternoon.matched).toBe(false);
+    expect(afternoon.conditions.find(result => result.condition === 'time')?.detail).toBe('local time 13:30 (Asia/Kolkata)');
+  });
+
+  it('should return matches as rule candidates, most severe first', () => {
+    const matches = RiskRuleEngine.match(RULES, context({ text: 'guard bypass on the press, it is at 95 C' }), 4);
+
+    expect(matches).toEqual([
+      { rule_id: 'press_guard_bypass', source: 'rule', level: 'critical', rule_version: 4 },
+      { rule_id: 'hot_machine', source: 'rule', level: 'high', rule_version: 4 },
+    ]);
+  });
+});
+
+describe('describeRiskRuleProblems', () => {
+  it('should accept valid rules', () => {
+    expect(describeRiskRuleProblems(RULES)).toEqual([]);
+  });
+
+  it('should report duplicate, unconditional and malformed rules', () => {
+    const problems = describeRiskRuleProblems([
+      { id: 'a', level: 'high', when: { intent: ['overheating'] } },
+      { id: 'a', level: 'high', when: {} },
+      { id: 'b', level: 'high', when: { min_confidence: 0.8, max_confidence: 0.2 } },
+      { id: 'c', level: 'high', when: { value: { quantity: 'pressure' } } },
+      { id: 'd', level: 'high', when: { time: { from: '25:00', to: '06:00', timezone: 'Mars/Olympus' } } },
+    ]);
+
+    expect(problems).toEqual([
+      'Rule "a" is defined more than once',
+      'Rule "a" has no conditions and would match every query',
+      'Rule "b" has min_confidence above max_confidence',
+      'Rule "c" needs at least one bound (gt, gte, lt or lte) on pressure',
+      'Rule "d" time window must use HH:MM',
+      'Rule "d" has unknown time zone "Mars/Olympus"',
+    ]);
+  });
+});
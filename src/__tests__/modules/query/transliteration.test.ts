@@ -0,0 +1,103 @@
+import { TamilTransliterator } from '../../../modules/query/transliteration';
+
+// Machine-floor words as Tamil spells them
+const TAMIL_VOCABULARY = [
+  'இயந்திரம்', 'மோட்டார்', 'ஸ்விட்ச்', 'மின்சாரம்', 'கரண்ட்', 'எஞ்சின்', 'பெல்ட்', 'ஃபில்டர்', 'எண்ணெய்',
+  'தண்ணீர்', 'புகை', 'தீ', 'தீப்பிடிச்சிடுச்சு', 'சூடு', 'வெப்பம்', 'அழுத்தம்', 'சத்தம்', 'ஷாக்', 'ஆபத்து',
+  'பாதுகாப்பு', 'பராமரிப்பு', 'கையேடு', 'அவசரம்', 'நிறுத்து', 'காற்று', 'குளிர்', 'மூச்சு', 'ஜாஸ்தி',
+  'வருது', 'ரொம்ப', 'இல்லை', 'வேண்டாம்', 'பண்ணுங்க', 'எங்க', 'வந்தது',
+];
+
+// Romanized words in the scheme's canonical spelling
+const LATIN_VOCABULARY = [
+  'pugai varuthu', 'romba suudu', 'enna pannanum', 'eppadi maathanum', 'moattaar odala', 'thanniir',
+  'kannaadi', 'paathugaappu', 'iyandhiram', 'vaendaam', 'kaaRRu', 'kuLir', 'koabam', 'adikkuthu',
+];
+
+describe('TamilTransliterator', () => {
+  describe('toLatin', () => {
+    it('should follow the scheme', () => {
+      expect(TamilTransliterator.toLatin('புகை வருது')).toBe('pugai varuthu');
+      expect(TamilTransliterator.toLatin('எண்ணெய் கசிவு')).toBe('eNNey kasivu');
+      expect(TamilTransliterator.toLatin('வந்தது')).toBe('vandhathu');
+      expect(TamilTransliterator.toLatin('ரொம்ப சூடு')).toBe('romba suudu');
+    });
+
+    it('should leave other text alone', () => {
+      expect(TamilTransliterator.toLatin('motor 95 °C, புகை!')).toBe('motor 95 °C, pugai!');
+    });
+  });
+
+  describe('toTamil', () => {
+    it('should follow the scheme', () => {
+      expect(TamilTransliterator.toTamil('enga')).toBe('எங்க');
+      expect(TamilTransliterator.toTamil('niRuththu')).toBe('நிறுத்து');
+      expect(TamilTransliterator.toTamil('karant')).toBe('கரண்ட்');
+      expect(TamilTransliterator.toTamil('jaaSthi')).toBe('ஜாஸ்தி');
+    });
+
+    it.each([
+      ['pannanum', 'பண்ணனும்'],
+      ['pannunga', 'பண்ணுங்க'],
+      ['thanni', 'தண்ணி'],
+      ['enna', 'என்ன'],
+      ['adikuthu', 'அடிக்குது'],
+      ['theepidichiduchu', 'தீப்பிடிச்சிடுச்சு'],
+      ['sikiduchu', 'சிக்கிடுச்சு'],
+      ['vitu', 'விட்டு'],
+      ['pugai', 'புகை'],
+      ['kasivu', 'கசிவு'],
+      ['rendu', 'ரெண்டு'],
+      ['vandhuchu', 'வந்துச்சு'],
+    ])('should write safety vocabulary "%s" as %s', (latin, tamil) => {
+      expect(TamilTransliterator.toTamil(latin)).toBe(tamil);
+    });
+
+    it('should accept common spelling variants', () => {
+      expect(TamilTransliterator.toTamil('thee')).toBe(TamilTransliterator.toTamil('thii'));
+      expect(TamilTransliterator.toTamil('soodu')).toBe(TamilTransliterator.toTamil('suudu'));
+      expect(TamilTransliterator.toTamil('varudhu')).toBe(TamilTransliterator.toTamil('varuthu'));
+    });
+
+    it('should fall back to the nearest sound for letters outside the scheme', () => {
+      expect(TamilTransliterator.toTamil('filter')).toBe('ஃபில்டெர்');
+      expect(TamilTransliterator.toTamil('bhaaram')).toBe('பாரம்');
+      expect(TamilTransliterator.toTamil('Pugai')).toBe('புகை');
+    });
+  });
+
+  describe('round trips', () => {
+    it.each(TAMIL_VOCABULARY)('should give back %s through Latin letters', word => {
+      expect(TamilTransliterator.toTamil(TamilTransliterator.toLatin(word))).toBe(word);
+    });
+
+    it.each(LATIN_VOCABULARY)('should give back "%s" through Tamil script', text => {
+      expect(TamilTransliterator.toLatin(TamilTransliterator.toTamil(text))).toBe(text);
+    });
+  });
+
+  describe('canonicalize', () => {
+    it('should write romanized Tamil words in Tamil script and keep English words', () => {
+      expect(TamilTransliterator.canonicalize('motor la pugai varuthu').text).toBe('motor ல புகை வருது');
+      expect(TamilTransliterator.canonicalize('smoke from the motor').text).toBe('smoke from the motor');
+    });
+
+    it('should give romanized and Tamil-script text the same form', () => {
+      expect(TamilTransliterator.canonicalize('pugai varuthu').text)
+        .toBe(TamilTransliterator.canonicalize('புகை வருது').text);
+    });
+
+    it('should trace canonical positions back to the original text', () => {
+      const text = 'motor la pugai varuthu, smoke illa';
+      const canonical = TamilTransliterator.canonicalize(text);
+
+      const pugai = canonical.text.indexOf('புகை');
+      const range = TamilTransliterator.toOriginalRange(canonical, pugai, pugai + 'புகை'.length);
+      expect(text.slice(range.start, range.end)).toBe('pugai');
+
+      const smoke = canonical.text.indexOf('smoke');
+      const after = TamilTransliterator.toOriginalRange(canonical, smoke, smoke + 'smoke'.length);
+      expect(text.slice(after.start, after.end)).toBe('smoke');
+    });
+  });
+});
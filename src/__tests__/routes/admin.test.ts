@@ -0,0 +1,847 @@
+// Mock dependencies first
+jest.mock('../../models/Conversation');
+jest.mock('../../models/Query');
+jest.mock('../../models/IntentOverride', () => ({
+  IntentOverride: Object.assign(jest.fn(), {
+    findByEnterprise: jest.fn(),
+    findOne: jest.fn(),
+    findOneAndDelete: jest.fn(),
+  }),
+}));
+jest.mock('../../models/OperatorLockdown');
+jest.mock('../../models/Alert');
+jest.mock('../../models/LabelingTask', () => ({
+  ...jest.requireActual('../../models/LabelingTask'),
+  LabelingTask: {
+    find: jest.fn(),
+    findOne: jest.fn(),
+    countDocuments: jest.fn(),
+    getCorrectionStats: jest.fn(),
+  },
+}));
+jest.mock('../../utils/logger');
+
+const mockReplay = jest.fn();
+jest.mock('../../modules/query/replay', () => ({
+  QueryReplayer: Object.assign(jest.fn(() => ({ replay: mockReplay })), { MAX_LIMIT: 500 }),
+}));
+
+jest.mock('../../models/RiskRuleSet', () => ({
+  ...jest.requireActual('../../models/RiskRuleSet'),
+  RiskRuleSet: {
+    findActive: jest.fn(),
+    findOne: jest.fn(),
+    find: jest.fn(),
+    publish: jest.fn(),
+  },
+}));
+
+const mockEvaluateRiskRules = jest.fn();
+jest.mock('../../modules/query/pipeline', () => ({
+  queryPipeline: { evaluateRiskRules: (...args: unknown[]) => mockEvaluateRiskRules(...args) },
+}));
+
+jest.mock('../../middleware/auth', () => ({
+  authenticate: jest.fn((req: any, res: any, next: any) => {
+    req.user = {
+      uid: 'test-uid',
+      email: 'admin@example.com',
+      role: req.headers['x-test-role'] || 'enterprise_admin',
+      enterprises: ['64b7f0c2a1b2c3d4e5f60718'],
+      trace_id: 'trace-123',
+    };
+    next();
+  }),
+  authorize: jest.fn(() => (req: any, res: any, next: any) => next()),
+  validateEnterpriseAccess: jest.requireActual('../../middleware/auth').validateEnterpriseAccess,
+}));
+
+import request from 'supertest';
+import express from 'express';
+import { adminRouter } from '../../routes/admin';
+import { Conversation } from '../../models/Conversation';
+import { Query } from '../../models/Query';
+import { IntentOverride } from '../../models/IntentOverride';
+import { RiskRuleSet } from '../../models/RiskRuleSet';
+import { OperatorLockdown } from '../../models/OperatorLockdown';
+import { Alert } from '../../models/Alert';
+import { LabelingTask } from '../../models/LabelingTask';
+import { cleanupRateLimiting } from '../../middleware/rateLimiting';
+
+const mockConversationFind = Conversation.find as jest.Mock;
+const mockConversationCount = Conversation.countDocuments as jest.Mock;
+const mockFindWithTurns = Conversation.findWithTurns as jest.Mock;
+const mockQueryFind = Query.find as jest.Mock;
+const mockQueryCount = Query.countDocuments as jest.Mock;
+const mockFeedbackReport = Query.getFeedbackReport as jest.Mock;
+const MockIntentOverride = IntentOverride as unknown as jest.Mock;
+const mockFindOverrides = IntentOverride.findByEnterprise as jest.Mock;
+const mockOverrideFindOne = IntentOverride.findOne as jest.Mock;
+const mockOverrideDelete = IntentOverride.findOneAndDelete as jest.Mock;
+const mockFindRuleSet = RiskRuleSet.findActive as jest.Mock;
+const mockRuleSetFindOne = RiskRuleSet.findOne as jest.Mock;
+const mockRuleSetFind = RiskRuleSet.find as jest.Mock;
+const mockPublishRuleSet = RiskRuleSet.publish as jest.Mock;
+const mockLockdownFind = OperatorLockdown.find as jest.Mock;
+const mockLockdownFindOne = OperatorLockdown.findOne as jest.Mock;
+const mockLockdownFindOneAndUpdate = OperatorLockdown.findOneAndUpdate as jest.Mock;
+const mockAlertUpdateOne = Alert.updateOne as jest.Mock;
+const mockTaskFind = LabelingTask.find as jest.Mock;
+const mockTaskFindOne = LabelingTask.findOne as jest.Mock;
+const mockTaskCount = LabelingTask.countDocuments as jest.Mock;
+const mockCorrectionStats = LabelingTask.getCorrectionStats as jest.Mock;
+
+const ENTERPRISE_ID = '64b7f0c2a1b2c3d4e5f60718';
+const OTHER_ENTERPRISE_ID = '64b7f0c2a1b2c3d4e5f60720';
+const CONVERSATION_ID = '64b7f0c2a1b2c3d4e5f60799';
+
+/**
+ * Build a chainable mongoose query mock resolving to the given value
+ */
+const chain = (value: unknown) => {
+  const query: any = {};
+  ['sort', 'skip', 'limit', 'populate'].forEach(method => {
+    query[method] = jest.fn().mockReturnValue(query);
+  });
+  query.then = (resolve: any, reject: any) => Promise.resolve(value).then(resolve, reject);
+  return query;
+};
+
+describe('Admin Routes', () => {
+  let app: express.Application;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    app = express();
+    app.use(express.json());
+    app.use('/admin', adminRouter);
+  });
+
+  afterAll(() => {
+    cleanupRateLimiting();
+  });
+
+  describe('GET /admin/:enterprise_id/conversations', () => {
+    it('should list conversations with pagination', async () => {
+      const query = chain([{ id: 'c1' }, { id: 'c2' }]);
+      mockConversationFind.mockReturnValue(query);
+      mockConversationCount.mockResolvedValue(42);
+
+      const response = await request(app)
+        .get(`/admin/${ENTERPRISE_ID}/conversations?page=2&limit=2`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.conversations).toHaveLength(2);
+      expect(response.body.pagination).toEqual({ page: 2, limit: 2, total: 42, pages: 21 });
+      expect(mockConversationFind).toHaveBeenCalledWith({ enterprise_id: ENTERPRISE_ID });
+      expect(query.skip).toHaveBeenCalledWith(2);
+    });
+
+    it('should filter by operator', async () => {
+      mockConversationFind.mockReturnValue(chain([]));
+      mockConversationCount.mockResolvedValue(0);
+
+      const operatorId = '64b7f0c2a1b2c3d4e5f60719';
+      await request(app).get(`/admin/${ENTERPRISE_ID}/conversations?operator_id=${operatorId}`);
+
+      expect(mockConversationFind).toHaveBeenCalledWith({ enterprise_id: ENTERPRISE_ID, operator_id: operatorId });
+    });
+
+    it('should deny access to other enterprises', async () => {
+      const response = await request(app).get(`/admin/${OTHER_ENTERPRISE_ID}/conversations`);
+
+      expect(response.status).toBe(403);
+      expect(response.body.error.code).toBe('ENTERPRISE_ACCESS_DENIED');
+    });
+  });
+
+  describe('GET /admin/:enterprise_id/conversations/:id', () => {
+    it('should return the conversation with its turns', async () => {
+      mockFindWithTurns.mockResolvedValue({
+        _id: CONVERSATION_ID,
+        operator_id: { email: 'operator@example.com' },
+        context: { machine: 'cnc lathe', intent: 'maintenance_procedure' },
+        created_at: new Date(),
+        last_activity_at: new Date(),
+        query_ids: [{ data: { text: 'how to change the spindle belt' } }, { data: { text: 'what torque?' } }],
+        getTurnCount: () => 2,
+      });
+
+      const response = await request(app).get(`/admin/${ENTERPRISE_ID}/conversations/${CONVERSATION_ID}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.conversation.turn_count).toBe(2);
+      expect(response.body.conversation.turns[1].data.text).toBe('what torque?');
+      expect(mockFindWithTurns).toHaveBeenCalledWith(CONVERSATION_ID, ENTERPRISE_ID);
+    });
+
+    it('should return 404 for unknown conversations', async () => {
+      mockFindWithTurns.mockResolvedValue(null);
+
+      const response = await request(app).get(`/admin/${ENTERPRISE_ID}/conversations/${CONVERSATION_ID}`);
+
+      expect(response.status).toBe(404);
+      expect(response.body.error.code).toBe('CONVERSATION_NOT_FOUND');
+    });
+
+    it('should validate the conversation ID', async () => {
+      const response = await request(app).get(`/admin/${ENTERPRISE_ID}/conversations/not-an-id`);
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.code).toBe('VALIDATION_ERROR');
+    });
+  });
+
+  describe('GET /admin/:enterprise_id/queries', () => {
+    it('should filter queries by negative feedback', async () => {
+      mockQueryFind.mockReturnValue(chain([{ id: 'q1' }]));
+      mockQueryCount.mockResolvedValue(1);
+
+      const response = await request(app).get(`/admin/${ENTERPRISE_ID}/queries?feedback=not_helpful&intent=error_code`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.queries).toHaveLength(1);
+      expect(mockQueryFind).toHaveBeenCalledWith({
+        enterprise_id: ENTERPRISE_ID,
+        'feedback.helpful': false,
+        'data.intent.name': 'error_code',
+      });
+    });
+
+    it('should list queries without feedback', async () => {
+      mockQueryFind.mockReturnValue(chain([]));
+      mockQueryCount.mockResolvedValue(0);
+
+      await request(app).get(`/admin/${ENTERPRISE_ID}/queries?feedback=none`);
+
+      expect(mockQueryFind).toHaveBeenCalledWith({ enterprise_id: ENTERPRISE_ID, feedback: { $exists: false } });
+    });
+
+    it('should reject unknown feedback filters', async () => {
+      const response = await request(app).get(`/admin/${ENTERPRISE_ID}/queries?feedback=maybe`);
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('GET /admin/:enterprise_id/feedback/report', () => {
+    it('should summarize satisfaction per intent and manual', async () => {
+      mockFeedbackReport.mockResolvedValue({
+        overall: [{ _id: null, total: 4, helpful: 3, corrections: 1 }],
+        by_intent: [{ _id: 'machine_not_starting', total: 4, helpful: 3, corrections: 1 }],
+        by_manual: [{ _id: 'manual1', manual_name: 'press-manual.pdf', total: 3, helpful: 1, corrections: 1 }],
+      });
+
+      const response = await request(app).get(`/admin/${ENTERPRISE_ID}/feedback/report?since=2024-01-01T00:00:00.000Z`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.report.overall).toEqual({
+        total: 4, helpful: 3, not_helpful: 1, corrections: 1, satisfaction_rate: 0.75,
+      });
+      expect(response.body.report.by_intent[0]).toMatchObject({ intent: 'machine_not_starting', satisfaction_rate: 0.75 });
+      expect(response.body.report.by_manual[0]).toMatchObject({ manual_name: 'press-manual.pdf', satisfaction_rate: 0.333 });
+      expect(mockFeedbackReport).toHaveBeenCalledWith(ENTERPRISE_ID, new Date('2024-01-01T00:00:00.000Z'));
+    });
+
+    it('should return an empty report without feedback', async () => {
+      mockFeedbackReport.mockResolvedValue({ overall: [], by_intent: [], by_manual: [] });
+
+      const response = await request(app).get(`/admin/${ENTERPRISE_ID}/feedback/report`);
+
+      expect(response.body.report.overall.satisfaction_rate).toBe(0);
+      expect(response.body.report.by_intent).toEqual([]);
+    });
+  });
+
+  describe('POST /admin/:enterprise_id/queries/replay', () => {
+    it('should replay queries and return the diff report', async () => {
+      const report = {
+        enterprise_id: ENTERPRISE_ID,
+        replayed_at: new Date().toISOString(),
+        summary: { total: 1, changed: 1, unchanged: 0, failed: 0, changes_by_field: { risk: 1 } },
+        results: [{ query_id: 'q1', changes: ['risk'] }],
+      };
+      mockReplay.mockResolvedValue(report);
+
+      const response = await request(app)
+        .post(`/admin/${ENTERPRISE_ID}/queries/replay`)
+        .send({ since: '2024-01-01T00:00:00.000Z', intent: 'overheating', limit: 50 });
+
+      expect(response.status).toBe(200);
+      expect(response.body.replay.summary.changed).toBe(1);
+      expect(mockReplay).toHaveBeenCalledWith(ENTERPRISE_ID, {
+        query_ids: undefined,
+        since: new Date('2024-01-01T00:00:00.000Z'),
+        until: undefined,
+        intent: 'overheating',
+        limit: 50,
+      });
+    });
+
+    it('should reject oversized batches', async () => {
+      const response = await request(app)
+        .post(`/admin/${ENTERPRISE_ID}/queries/replay`)
+        .send({ limit: 5000 });
+
+      expect(response.status).toBe(400);
+      expect(mockReplay).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('intent overrides', () => {
+    const makeOverride = (fields: Record<string, any>) => ({
+      _id: `override-${fields.intent_name}`,
+      created_at: new Date('2026-01-01T00:00:00Z'),
+      ...fields,
+      set: jest.fn(),
+      save: jest.fn().mockResolvedValue(undefined),
+      toSpec: () => fields,
+    });
+
+    beforeEach(() => {
+      MockIntentOverride.mockImplementation((fields: Record<string, any>) => makeOverride(fields));
+      mockOverrideFindOne.mockResolvedValue(null);
+    });
+
+    it('should return the effective catalogue with overrides applied', async () => {
+      mockFindOverrides.mockResolvedValue([
+        makeOverride({ intent_name: 'machine_not_starting', examples: ['press will not power up'], risk: 'high' }),
+        makeOverride({ intent_name: 'abnormal_noise', disabled: true }),
+      ]);
+
+      const response = await request(app).get(`/admin/${ENTERPRISE_ID}/intents`);
+
+      expect(response.status).toBe(200);
+      const { catalogue } = response.body;
+      expect(catalogue.overrides).toBe(2);
+      expect(catalogue.disabled).toEqual(['abnormal_noise']);
+
+      const notStarting = catalogue.intents.find((intent: any) => intent.name === 'machine_not_starting');
+      expect(notStarting).toMatchObject({ source: 'overridden', risk: 'high' });
+      expect(notStarting.examples).toContain('machine not starting');
+      expect(notStarting.examples).toContain('press will not power up');
+      expect(catalogue.intents.find((intent: any) => intent.name === 'fire_smoke').source).toBe('global');
+    });
+
+    it('should list the enterprise overrides', async () => {
+      mockFindOverrides.mockResolvedValue([makeOverride({ intent_name: 'overheating', risk: 'critical' })]);
+
+      const response = await request(app).get(`/admin/${ENTERPRISE_ID}/intent-overrides`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.overrides).toHaveLength(1);
+      expect(mockFindOverrides).toHaveBeenCalledWith(ENTERPRISE_ID);
+    });
+
+    it('should create an enterprise-only intent', async () => {
+      const response = await request(app)
+        .put(`/admin/${ENTERPRISE_ID}/intent-overrides/hydraulic_leak`)
+        .send({
+          examples: ['hydraulic oil leaking'],
+          responses: { en: 'Stop the press and isolate the hydraulic unit.' },
+          risk: 'high',
+        });
+
+      expect(response.status).toBe(201);
+      expect(MockIntentOverride).toHaveBeenCalledWith(expect.objectContaining({
+        enterprise_id: ENTERPRISE_ID,
+        intent_name: 'hydraulic_leak',
+        risk: 'high',
+        created_by: 'admin@example.com',
+      }));
+      expect(response.body.override.intent_name).toBe('hydraulic_leak');
+    });
+
+    it('should replace an existing override', async () => {
+      const existing = makeOverride({ intent_name: 'overheating', examples: ['old example'] });
+      mockOverrideFindOne.mockResolvedValue(existing);
+
+      const response = await request(app)
+        .put(`/admin/${ENTERPRISE_ID}/intent-overrides/overheating`)
+        .send({ examples: ['press body too hot to touch'] });
+
+      expect(response.status).toBe(200);
+      expect(existing.set).toHaveBeenCalledWith(expect.objectContaining({
+        examples: ['press body too hot to touch'],
+        disabled: false,
+        updated_by: 'admin@example.com',
+      }));
+      expect(existing.save).toHaveBeenCalled();
+    });
+
+    it('should reject new intents without the fields they need', async () => {
+      const response = await request(app)
+        .put(`/admin/${ENTERPRISE_ID}/intent-overrides/hydraulic_leak`)
+        .send({ examples: ['hydraulic oil leaking'] });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.code).toBe('INVALID_OVERRIDE');
+      expect(response.body.error.details.problems).toHaveLength(2);
+      expect(MockIntentOverride).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown languages and invalid intent names', async () => {
+      const badLanguage = await request(app)
+        .put(`/admin/${ENTERPRISE_ID}/intent-overrides/overheating`)
+        .send({ responses: { xx: 'Hello' } });
+      const badName = await request(app)
+        .put(`/admin/${ENTERPRISE_ID}/intent-overrides/Hydraulic-Leak`)
+        .send({ disabled: true });
+
+      expect(badLanguage.status).toBe(400);
+      expect(badName.status).toBe(400);
+    });
+
+    it('should only let super admins weaken critical intents', async () => {
+      const asAdmin = await request(app)
+        .put(`/admin/${ENTERPRISE_ID}/intent-overrides/fire_smoke`)
+        .send({ disabled: true });
+
+      expect(asAdmin.status).toBe(403);
+      expect(asAdmin.body.error.code).toBe('CRITICAL_INTENT_PROTECTED');
+
+      const asSuperAdmin = await request(app)
+        .put(`/admin/${ENTERPRISE_ID}/intent-overrides/fire_smoke`)
+        .set('x-test-role', 'super_admin')
+        .send({ disabled: true });
+
+      expect(asSuperAdmin.status).toBe(201);
+    });
+
+    it('should delete an override', async () => {
+      mockOverrideDelete.mockResolvedValue(makeOverride({ intent_name: 'overheating' }));
+
+      const response = await request(app).delete(`/admin/${ENTERPRISE_ID}/intent-overrides/overheating`);
+
+      expect(response.status).toBe(200);
+      expect(mockOverrideDelete).toHaveBeenCalledWith({ enterprise_id: ENTERPRISE_ID, intent_name: 'overheating' });
+    });
+
+    it('should return 404 when deleting a missing override', async () => {
+      mockOverrideDelete.mockResolvedValue(null);
+
+      const response = await request(app).delete(`/admin/${ENTERPRISE_ID}/intent-overrides/overheating`);
+
+      expect(response.status).toBe(404);
+      expect(response.body.error.code).toBe('OVERRIDE_NOT_FOUND');
+    });
+  });
+
+  describe('risk rules', () => {
+    const HOT_PRESS = {
+      id: 'hot_press',
+      level: 'high',
+      when: { machine: ['press'], value: { quantity: 'temperature', gt: 90 } },
+    };
+
+    it('should return the rule set in force', async () => {
+      mockFindRuleSet.mockResolvedValue({ version: 2, format: 1, rules: [HOT_PRESS] });
+
+      const response = await request(app).get(`/admin/${ENTERPRISE_ID}/risk-rules`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.rule_set.version).toBe(2);
+      expect(mockFindRuleSet).toHaveBeenCalledWith(ENTERPRISE_ID);
+    });
+
+    it('should return 404 for unknown versions', async () => {
+      mockRuleSetFindOne.mockResolvedValue(null);
+
+      const response = await request(app).get(`/admin/${ENTERPRISE_ID}/risk-rules?version=7`);
+
+      expect(response.status).toBe(404);
+      expect(response.body.error.code).toBe('RULE_SET_NOT_FOUND');
+      expect(mockRuleSetFindOne).toHaveBeenCalledWith({ enterprise_id: ENTERPRISE_ID, version: 7 });
+    });
+
+    it('should list published versions', async () => {
+      mockRuleSetFind.mockReturnValue(chain([
+        { version: 2, format: 1, rules: [HOT_PRESS], created_by: 'admin@example.com', created_at: '2026-03-02T08:00:00.000Z' },
+        { version: 1, format: 1, rules: [], created_by: 'admin@example.com', created_at: '2026-03-01T08:00:00.000Z' },
+      ]));
+
+      const response = await request(app).get(`/admin/${ENTERPRISE_ID}/risk-rules/versions`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.versions.map((version: any) => [version.version, version.rules])).toEqual([[2, 1], [1, 0]]);
+    });
+
+    it('should publish a new version', async () => {
+      mockPublishRuleSet.mockResolvedValue({ version: 3, format: 1, rules: [HOT_PRESS] });
+
+      const response = await request(app)
+        .put(`/admin/${ENTERPRISE_ID}/risk-rules`)
+        .send({ format: 1, rules: [HOT_PRESS], comment: 'Hot presses' });
+
+      expect(response.status).toBe(201);
+      expect(response.body.rule_set.version).toBe(3);
+      expect(mockPublishRuleSet).toHaveBeenCalledWith(
+        ENTERPRISE_ID,
+        { format: 1, rules: [HOT_PRESS], comment: 'Hot presses' },
+        'admin@example.com'
+      );
+    });
+
+    it('should reject rules that would match every query', async () => {
+      const response = await request(app)
+        .put(`/admin/${ENTERPRISE_ID}/risk-rules`)
+        .send({ format: 1, rules: [{ id: 'everything', level: 'critical', when: {} }] });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.code).toBe('INVALID_RISK_RULES');
+      expect(mockPublishRuleSet).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown formats and conditions', async () => {
+      const badFormat = await request(app)
+        .put(`/admin/${ENTERPRISE_ID}/risk-rules`)
+        .send({ format: 2, rules: [HOT_PRESS] });
+      const badCondition = await request(app)
+        .put(`/admin/${ENTERPRISE_ID}/risk-rules`)
+        .send({ format: 1, rules: [{ ...HOT_PRESS, when: { weather: ['rain'] } }] });
+
+      expect(badFormat.status).toBe(400);
+      expect(badCondition.status).toBe(400);
+    });
+
+    it('should report concurrent publishes as a conflict', async () => {
+      mockPublishRuleSet.mockRejectedValue(Object.assign(new Error('duplicate key'), { code: 11000 }));
+
+      const response = await request(app)
+        .put(`/admin/${ENTERPRISE_ID}/risk-rules`)
+        .send({ format: 1, rules: [HOT_PRESS] });
+
+      expect(response.status).toBe(409);
+      expect(response.body.error.code).toBe('RULE_SET_CONFLICT');
+    });
+
+    it('should test a sample text against draft rules', async () => {
+      const result = { version: null, matches: [{ rule_id: 'hot_press', matched: true }] };
+      mockEvaluateRiskRules.mockResolvedValue(result);
+
+      const response = await request(app)
+        .post(`/admin/${ENTERPRISE_ID}/risk-rules/test`)
+        .send({ text: 'the press reads 95 degrees', at: '2026-03-02T23:30:00.000Z', rules: [HOT_PRESS] });
+
+      expect(response.status).toBe(200);
+      expect(response.body.result).toEqual(result);
+      expect(mockEvaluateRiskRules).toHaveBeenCalledWith(
+        ENTERPRISE_ID,
+        { text: 'the press reads 95 degrees', language: undefined, machine: undefined, at: new Date('2026-03-02T23:30:00.000Z') },
+        [HOT_PRESS]
+      );
+    });
+
+    it('should require a sample text', async () => {
+      const response = await request(app).post(`/admin/${ENTERPRISE_ID}/risk-rules/test`).send({});
+
+      expect(response.status).toBe(400);
+      expect(mockEvaluateRiskRules).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /admin/:enterprise_id/transliterate', () => {
+    it('should write romanized Tamil words in Tamil script by default', async () => {
+      const response = await request(app)
+        .post(`/admin/${ENTERPRISE_ID}/transliterate`)
+        .send({ text: 'motor la pugai varuthu' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.result).toEqual({ to: 'canonical', text: 'motor ல புகை வருது' });
+    });
+
+    it('should convert Tamil script to Latin letters', async () => {
+      const response = await request(app)
+        .post(`/admin/${ENTERPRISE_ID}/transliterate`)
+        .send({ text: 'இயந்திரம் சூடு', to: 'latin' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.result).toEqual({ to: 'latin', text: 'iyandhiram suudu' });
+    });
+
+    it('should reject unknown targets', async () => {
+      const response = await request(app)
+        .post(`/admin/${ENTERPRISE_ID}/transliterate`)
+        .send({ text: 'pugai', to: 'hindi' });
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('operator lockdowns', () => {
+    const LOCKDOWN_ID = '64b7f0c2a1b2c3d4e5f60730';
+    const ALERT_ID = '64b7f0c2a1b2c3d4e5f60731';
+
+    const makeLockdown = (overrides: Record<string, any> = {}): Record<string, any> => ({
+      _id: LOCKDOWN_ID,
+      enterprise_id: ENTERPRISE_ID,
+      operator_id: '64b7f0c2a1b2c3d4e5f60719',
+      machine: 'hydraulic press',
+      alert_id: ALERT_ID,
+      reason: 'Intent "fire_smoke" has critical risk',
+      ...overrides,
+    });
+
+    it('should list active lockdowns by default', async () => {
+      mockLockdownFind.mockReturnValue(chain([{ _id: LOCKDOWN_ID, machine: 'hydraulic press' }]));
+
+      const response = await request(app).get(`/admin/${ENTERPRISE_ID}/lockdowns`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.lockdowns).toHaveLength(1);
+      expect(mockLockdownFind).toHaveBeenCalledWith({ enterprise_id: ENTERPRISE_ID, released_at: { $exists: false } });
+    });
+
+    it('should release a lockdown and record it on the alert', async () => {
+      const lockdown = makeLockdown({
+        released_at: new Date('2026-03-02T09:00:00Z'),
+        released_by: 'admin@example.com',
+        release_reason: 'Smoke source found and fixed, press inspected',
+      });
+      mockLockdownFindOneAndUpdate.mockResolvedValue(lockdown);
+      mockAlertUpdateOne.mockResolvedValue({ modifiedCount: 1 });
+
+      const response = await request(app)
+        .post(`/admin/${ENTERPRISE_ID}/lockdowns/${LOCKDOWN_ID}/unlock`)
+        .send({ reason: '  Smoke source found and fixed, press inspected  ' });
+
+      expect(response.status).toBe(200);
+      expect(mockLockdownFindOneAndUpdate).toHaveBeenCalledWith(
+        { _id: LOCKDOWN_ID, enterprise_id: ENTERPRISE_ID, released_at: null },
+        {
+          $set: {
+            released_at: expect.any(Date),
+            released_by: 'admin@example.com',
+            release_reason: 'Smoke source found and fixed, press inspected',
+          },
+        },
+        { new: true, runValidators: true }
+      );
+      expect(mockAlertUpdateOne).toHaveBeenCalledWith({ _id: ALERT_ID }, {
+        $push: {
+          lockdown_events: {
+            action: 'unlocked',
+            lockdown_id: LOCKDOWN_ID,
+            machine: 'hydraulic press',
+            reason: 'Smoke source found and fixed, press inspected',
+            by: 'admin@example.com',
+            at: lockdown.released_at,
+          },
+        },
+      });
+    });
+
+    it('should require a reason', async () => {
+      const response = await request(app)
+        .post(`/admin/${ENTERPRISE_ID}/lockdowns/${LOCKDOWN_ID}/unlock`)
+        .send({});
+
+      expect(response.status).toBe(400);
+      expect(mockLockdownFindOneAndUpdate).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 for lockdowns of other enterprises', async () => {
+      mockLockdownFindOneAndUpdate.mockResolvedValue(null);
+      mockLockdownFindOne.mockResolvedValue(null);
+
+      const response = await request(app)
+        .post(`/admin/${ENTERPRISE_ID}/lockdowns/${LOCKDOWN_ID}/unlock`)
+        .send({ reason: 'Checked by maintenance' });
+
+      expect(response.status).toBe(404);
+      expect(response.body.error.code).toBe('LOCKDOWN_NOT_FOUND');
+      expect(mockAlertUpdateOne).not.toHaveBeenCalled();
+    });
+
+    it('should not release a lockdown twice', async () => {
+      mockLockdownFindOneAndUpdate.mockResolvedValue(null);
+      mockLockdownFindOne.mockResolvedValue(makeLockdown({
+        released_at: new Date('2026-03-02T09:00:00Z'),
+        released_by: 'supervisor@example.com',
+      }));
+
+      const response = await request(app)
+        .post(`/admin/${ENTERPRISE_ID}/lockdowns/${LOCKDOWN_ID}/unlock`)
+        .send({ reason: 'Checked by maintenance' });
+
+      expect(response.status).toBe(409);
+      expect(response.body.error.code).toBe('LOCKDOWN_ALREADY_RELEASED');
+      expect(response.body.error.details.released_by).toBe('supervisor@example.com');
+      expect(mockAlertUpdateOne).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('labeling queue', () => {
+    const TASK_ID = '64b7f0c2a1b2c3d4e5f60740';
+    const QUERY_ID = '64b7f0c2a1b2c3d4e5f60741';
+
+    const makeTask = (overrides: Record<string, any> = {}) => {
+      const task: any = {
+        _id: TASK_ID,
+        enterprise_id: ENTERPRISE_ID,
+        query_id: QUERY_ID,
+        text: 'motor kathuthu',
+        language: 'tanglish',
+        predicted: { name: 'unknown', confidence: 0.12 },
+        reasons: ['low_confidence'],
+        status: 'pending',
+        isOpen: jest.fn(() => task.status === 'pending' || task.status === 'new_intent'),
+        save: jest.fn().mockResolvedValue(undefined),
+        ...overrides,
+      };
+      task.assign = jest.fn((label: string, by: string) => {
+        Object.assign(task, {
+          status: 'labeled', label, corrected: label !== task.predicted.name, labeled_by: by, labeled_at: new Date(),
+        });
+      });
+      task.proposeNewIntent = jest.fn((by: string, label?: string, note?: string) => {
+        Object.assign(task, { status: 'new_intent', label, note, corrected: true, labeled_by: by, labeled_at: new Date() });
+      });
+      return task;
+    };
+
+    const makeOverride = (fields: Record<string, any>): any => ({
+      _id: `override-${fields.intent_name}`,
+      example_sources: [],
+      ...fields,
+      save: jest.fn().mockResolvedValue(undefined),
+    });
+
+    beforeEach(() => {
+      mockFindOverrides.mockResolvedValue([]);
+      mockOverrideFindOne.mockResolvedValue(null);
+      MockIntentOverride.mockImplementation((fields: Record<string, any>) => makeOverride(fields));
+    });
+
+    it('should list pending tasks, least confident first', async () => {
+      const find = chain([makeTask()]);
+      mockTaskFind.mockReturnValue(find);
+      mockTaskCount.mockResolvedValue(1);
+
+      const response = await request(app).get(`/admin/${ENTERPRISE_ID}/labeling-queue?reason=unhelpful`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.tasks).toHaveLength(1);
+      expect(response.body.pagination.total).toBe(1);
+      expect(mockTaskFind).toHaveBeenCalledWith({ enterprise_id: ENTERPRISE_ID, status: 'pending', reasons: 'unhelpful' });
+      expect(find.sort).toHaveBeenCalledWith({ 'predicted.confidence': 1, created_at: -1 });
+    });
+
+    it('should promote a label into the intent examples with its provenance', async () => {
+      const task = makeTask();
+      mockTaskFindOne.mockResolvedValue(task);
+
+      const response = await request(app)
+        .post(`/admin/${ENTERPRISE_ID}/labeling-queue/${TASK_ID}/label`)
+        .send({ intent_name: 'overheating' });
+
+      expect(response.status).toBe(200);
+      expect(mockTaskFindOne).toHaveBeenCalledWith({ _id: TASK_ID, enterprise_id: ENTERPRISE_ID });
+      expect(task.assign).toHaveBeenCalledWith('overheating', 'admin@example.com');
+      expect(task.promoted_at).toBeInstanceOf(Date);
+      expect(task.save).toHaveBeenCalled();
+
+      expect(MockIntentOverride).toHaveBeenCalledWith(expect.objectContaining({
+        enterprise_id: ENTERPRISE_ID,
+        intent_name: 'overheating',
+        created_by: 'admin@example.com',
+      }));
+      expect(response.body.override.examples).toEqual(['motor kathuthu']);
+      expect(response.body.override.example_sources).toEqual([expect.objectContaining({
+        example: 'motor kathuthu',
+        query_id: QUERY_ID,
+        labeling_task_id: TASK_ID,
+        labeled_by: 'admin@example.com',
+      })]);
+      expect(response.body.task).toMatchObject({ status: 'labeled', label: 'overheating', corrected: true });
+    });
+
+    it('should add to an existing override without repeating the example', async () => {
+      const existing = makeOverride({ intent_name: 'overheating', examples: ['Motor Kathuthu'], created_by: 'x@example.com' });
+      mockOverrideFindOne.mockResolvedValue(existing);
+      mockTaskFindOne.mockResolvedValue(makeTask());
+
+      const response = await request(app)
+        .post(`/admin/${ENTERPRISE_ID}/labeling-queue/${TASK_ID}/label`)
+        .send({ intent_name: 'overheating' });
+
+      expect(response.status).toBe(200);
+      expect(MockIntentOverride).not.toHaveBeenCalled();
+      expect(existing.examples).toEqual(['Motor Kathuthu']);
+      expect(existing.example_sources).toHaveLength(1);
+      expect(existing.save).toHaveBeenCalled();
+    });
+
+    it('should reject intents outside the enterprise catalogue', async () => {
+      const task = makeTask();
+      mockTaskFindOne.mockResolvedValue(task);
+
+      const response = await request(app)
+        .post(`/admin/${ENTERPRISE_ID}/labeling-queue/${TASK_ID}/label`)
+        .send({ intent_name: 'hydraulic_leak' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.code).toBe('UNKNOWN_INTENT');
+      expect(task.save).not.toHaveBeenCalled();
+    });
+
+    it('should not label a reviewed task again', async () => {
+      mockTaskFindOne.mockResolvedValue(makeTask({ status: 'dismissed' }));
+
+      const response = await request(app)
+        .post(`/admin/${ENTERPRISE_ID}/labeling-queue/${TASK_ID}/label`)
+        .send({ intent_name: 'overheating' });
+
+      expect(response.status).toBe(409);
+      expect(response.body.error.code).toBe('LABELING_TASK_CLOSED');
+    });
+
+    it('should mark a task as a new intent candidate', async () => {
+      const task = makeTask();
+      mockTaskFindOne.mockResolvedValue(task);
+
+      const response = await request(app)
+        .post(`/admin/${ENTERPRISE_ID}/labeling-queue/${TASK_ID}/new-intent`)
+        .send({ name: 'hydraulic_leak', note: 'Several operators ask about oil leaks' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.task).toMatchObject({ status: 'new_intent', label: 'hydraulic_leak' });
+      expect(MockIntentOverride).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 for tasks of other enterprises', async () => {
+      mockTaskFindOne.mockResolvedValue(null);
+
+      const response = await request(app)
+        .post(`/admin/${ENTERPRISE_ID}/labeling-queue/${TASK_ID}/dismiss`)
+        .send({});
+
+      expect(response.status).toBe(404);
+      expect(response.body.error.code).toBe('LABELING_TASK_NOT_FOUND');
+    });
+
+    it('should report corrections per intent, most corrected first', async () => {
+      mockCorrectionStats.mockResolvedValue({
+        by_status: [{ _id: 'pending', total: 4 }, { _id: 'labeled', total: 5 }],
+        by_label: [
+          { _id: 'overheating', labeled: 2, corrections: 0 },
+          { _id: 'abnormal_noise', labeled: 3, corrections: 2 },
+        ],
+        by_prediction: [{ _id: 'machine_not_starting', corrected_away: 1 }],
+      });
+
+      const response = await request(app).get(`/admin/${ENTERPRISE_ID}/labeling-queue/stats`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.stats).toEqual({
+        by_status: { pending: 4, labeled: 5 },
+        by_intent: [
+          { intent: 'abnormal_noise', labeled: 3, corrections: 2, corrected_away: 0 },
+          { intent: 'machine_not_starting', labeled: 0, corrections: 0, corrected_away: 1 },
+          { intent: 'overheating', labeled: 2, corrections: 0, corrected_away: 0 },
+        ],
+      });
+    });
+  });
+});
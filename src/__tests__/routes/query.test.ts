@@ -0,0 +1,632 @@
+// Mock dependencies first
+jest.mock('../../utils/logger');
+jest.mock('../../models/Query');
+jest.mock('../../models/Chunk');
+jest.mock('../../models/QueryJob');
+jest.mock('../../modules/query/jobs', () => ({
+  queryJobQueue: { submit: jest.fn(), cancel: jest.fn() },
+}));
+jest.mock('../../modules/query/pipeline', () => ({
+  queryPipeline: { process: jest.fn() },
+}));
+jest.mock('../../modules/query/labeling', () => ({
+  labelingQueue: { enqueue: jest.fn() },
+}));
+
+jest.mock('../../middleware/auth', () => ({
+  authenticate: jest.fn((req: any, res: any, next: any) => {
+    req.user = {
+      uid: 'test-uid',
+      user_id: '64b7f0c2a1b2c3d4e5f60719',
+      email: 'operator@example.com',
+      role: req.headers['x-test-role'] || 'operator',
+      enterprises: ['64b7f0c2a1b2c3d4e5f60718'],
+      trace_id: 'trace-123',
+    };
+    next();
+  }),
+}));
+
+import request from 'supertest';
+import express from 'express';
+import { queryJobBodyParser, queryRouter } from '../../routes/query';
+import { queryPipeline } from '../../modules/query/pipeline';
+import { createError } from '../../middleware/errorHandler';
+import { cleanupRateLimiting } from '../../middleware/rateLimiting';
+import { Query } from '../../models/Query';
+import { Chunk } from '../../models/Chunk';
+import { QueryJob } from '../../models/QueryJob';
+import { queryJobQueue } from '../../modules/query/jobs';
+import { labelingQueue } from '../../modules/query/labeling';
+
+const mockProcess = queryPipeline.process as jest.MockedFunction<typeof queryPipeline.process>;
+const mockQueryFindById = Query.findById as jest.Mock;
+const mockChunkExists = Chunk.exists as jest.Mock;
+const mockJobFindById = QueryJob.findById as jest.Mock;
+const mockSubmit = queryJobQueue.submit as jest.Mock;
+const mockCancel = queryJobQueue.cancel as jest.Mock;
+const mockEnqueue = labelingQueue.enqueue as jest.Mock;
+
+const ENTERPRISE_ID = '64b7f0c2a1b2c3d4e5f60718';
+const OTHER_ENTERPRISE_ID = '64b7f0c2a1b2c3d4e5f60720';
+const OPERATOR_ID = '64b7f0c2a1b2c3d4e5f60719';
+const OTHER_OPERATOR_ID = '64b7f0c2a1b2c3d4e5f60721';
+
+describe('Query Routes', () => {
+  let app: express.Application;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    app = express();
+    app.use(express.json());
+    app.use('/query', queryRouter);
+  });
+
+  afterAll(() => {
+    cleanupRateLimiting();
+  });
+
+  describe('POST /query', () => {
+    it('should return the pipeline response', async () => {
+      mockProcess.mockResolvedValue({
+        text: 'Check the main power supply.',
+        intent: { name: 'machine_not_starting', confidence: 0.8, matched_examples: [] },
+        risk_level: 'low',
+        blocked: false,
+        trace: { trace_id: 'trace-123', timestamp: new Date(), processing_time_ms: 12, steps: [] },
+        sources: [{ chunk_id: 'chunk1', manual_id: 'manual1', manual_name: 'press-manual.pdf', page_number: 4, similarity: 0.8 }],
+        query_id: 'query123',
+      });
+
+      const response = await request(app)
+        .post('/query')
+        .send({ enterprise_id: ENTERPRISE_ID, operator_id: OPERATOR_ID, input_text: 'machine not starting' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.text).toBe('Check the main power supply.');
+      expect(response.body.query_id).toBe('query123');
+      expect(response.body.sources[0]).toMatchObject({ manual_name: 'press-manual.pdf', page_number: 4 });
+      expect(mockProcess).toHaveBeenCalledWith(
+        expect.objectContaining({ enterprise_id: ENTERPRISE_ID, input_text: 'machine not starting' }),
+        'trace-123'
+      );
+    });
+
+    it('should reject requests without text or audio', async () => {
+      const response = await request(app)
+        .post('/query')
+        .send({ enterprise_id: ENTERPRISE_ID, operator_id: OPERATOR_ID });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.code).toBe('VALIDATION_ERROR');
+      expect(mockProcess).not.toHaveBeenCalled();
+    });
+
+    it('should deny access to other enterprises', async () => {
+      const response = await request(app)
+        .post('/query')
+        .send({ enterprise_id: OTHER_ENTERPRISE_ID, operator_id: OPERATOR_ID, input_text: 'hello there' });
+
+      expect(response.status).toBe(403);
+      expect(response.body.error.code).toBe('ENTERPRISE_ACCESS_DENIED');
+    });
+
+    it.each(['/query', '/query/stream', '/query/jobs'])('should refuse %s asked as another operator', async path => {
+      const response = await request(app)
+        .post(path)
+        .send({ enterprise_id: ENTERPRISE_ID, operator_id: OTHER_OPERATOR_ID, input_text: 'machine not starting' });
+
+      expect(response.status).toBe(403);
+      expect(response.body.error.code).toBe('OPERATOR_MISMATCH');
+      expect(mockProcess).not.toHaveBeenCalled();
+      expect(mockSubmit).not.toHaveBeenCalled();
+    });
+
+    it('should allow super admins to query any enterprise', async () => {
+      mockProcess.mockResolvedValue({
+        text: 'ok',
+        intent: { name: 'unknown', confidence: 0, matched_examples: [] },
+        risk_level: 'low',
+        blocked: false,
+        sources: [],
+        trace: { trace_id: 'trace-123', timestamp: new Date(), processing_time_ms: 1, steps: [] },
+      });
+
+      const response = await request(app)
+        .post('/query')
+        .set('x-test-role', 'super_admin')
+        .send({ enterprise_id: OTHER_ENTERPRISE_ID, operator_id: OPERATOR_ID, input_text: 'hello there' });
+
+      expect(response.status).toBe(200);
+    });
+
+    it('should map pipeline errors to their status codes', async () => {
+      mockProcess.mockRejectedValue(createError('Enterprise not found', 404, 'ENTERPRISE_NOT_FOUND'));
+
+      const response = await request(app)
+        .post('/query')
+        .send({ enterprise_id: ENTERPRISE_ID, operator_id: OPERATOR_ID, input_text: 'machine not starting' });
+
+      expect(response.status).toBe(404);
+      expect(response.body.error.code).toBe('ENTERPRISE_NOT_FOUND');
+      expect(response.body.error.trace_id).toBe('trace-123');
+    });
+
+    it('should hide unexpected errors behind a generic message', async () => {
+      mockProcess.mockRejectedValue(new Error('boom'));
+
+      const response = await request(app)
+        .post('/query')
+        .send({ enterprise_id: ENTERPRISE_ID, operator_id: OPERATOR_ID, input_text: 'machine not starting' });
+
+      expect(response.status).toBe(500);
+      expect(response.body.error.code).toBe('QUERY_PROCESSING_FAILED');
+      expect(response.body.error.message).toBe('Failed to process query');
+    });
+  });
+
+  describe('POST /query/stream', () => {
+    const baseResponse = {
+      text: 'Check the main power supply.',
+      intent: { name: 'machine_not_starting', confidence: 0.8, matched_examples: [] },
+      risk_level: 'low' as const,
+      blocked: false,
+      trace: { trace_id: 'trace-123', timestamp: new Date(), processing_time_ms: 12, steps: [] },
+      sources: [],
+    };
+
+    const parseEvents = (body: string) => body
+      .split('\n\n')
+      .filter(block => block.trim().length > 0)
+      .map(block => {
+        const [eventLine, dataLine] = block.split('\n');
+        return {
+          event: eventLine.replace('event: ', ''),
+          data: JSON.parse(dataLine.replace('data: ', '')),
+        };
+      });
+
+    it('should stream each step and finish with a result event', async () => {
+      mockProcess.mockImplementation(async (req, traceId, listener) => {
+        listener!({ name: 'language_detection', duration_ms: 1, success: true }, { code: 'en', confidence: 0.9 });
+        listener!({ name: 'intent_classification', duration_ms: 2, success: true }, baseResponse.intent);
+        listener!({ name: 'risk_assessment', duration_ms: 0, success: true }, { risk: 'low', blocked: false });
+        listener!({ name: 'retrieval', duration_ms: 5, success: true }, []);
+        listener!({ name: 'response_generation', duration_ms: 0, success: true }, { text: baseResponse.text, sources: baseResponse.sources });
+        listener!({ name: 'persistence', duration_ms: 3, success: true }, {});
+        return baseResponse;
+      });
+
+      const response = await request(app)
+        .post('/query/stream')
+        .send({ enterprise_id: ENTERPRISE_ID, operator_id: OPERATOR_ID, input_text: 'machine not starting' });
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-type']).toContain('text/event-stream');
+
+      const events = parseEvents(response.text);
+      expect(events.map(e => e.event)).toEqual(['language', 'intent', 'risk', 'chunks', 'answer', 'result']);
+      expect(events[0].data.result.code).toBe('en');
+      expect(events[5].data.text).toBe('Check the main power supply.');
+    });
+
+    it('should stream the chunks of a cached answer', async () => {
+      const chunks = [{ chunk_id: 'c1', manual_id: 'm1', text: 'Check the main power supply.', score: 0.9 }];
+      mockProcess.mockImplementation(async (req, traceId, listener) => {
+        listener!({ name: 'risk_assessment', duration_ms: 0, success: true }, { risk: 'low', blocked: false });
+        listener!({ name: 'cache_lookup', duration_ms: 1, success: true }, {
+          corpus_version: 'v1',
+          value: { chunks, answer: { text: baseResponse.text, sources: baseResponse.sources, found: true } },
+        });
+        listener!({ name: 'response_generation', duration_ms: 0, success: true }, { text: baseResponse.text, sources: baseResponse.sources });
+        return baseResponse;
+      });
+
+      const response = await request(app)
+        .post('/query/stream')
+        .send({ enterprise_id: ENTERPRISE_ID, operator_id: OPERATOR_ID, input_text: 'machine not starting' });
+
+      const events = parseEvents(response.text);
+      expect(events.map(e => e.event)).toEqual(['risk', 'chunks', 'answer', 'result']);
+      expect(events[1].data.step.name).toBe('cache_lookup');
+      expect(events[1].data.result).toEqual(chunks);
+      expect(events[2].data.result.sources).toEqual(baseResponse.sources);
+    });
+
+    it('should stream no chunks on a cache miss', async () => {
+      mockProcess.mockImplementation(async (req, traceId, listener) => {
+        listener!({ name: 'cache_lookup', duration_ms: 1, success: true }, { corpus_version: 'v1' });
+        return baseResponse;
+      });
+
+      const response = await request(app)
+        .post('/query/stream')
+        .send({ enterprise_id: ENTERPRISE_ID, operator_id: OPERATOR_ID, input_text: 'machine not starting' });
+
+      expect(parseEvents(response.text).map(e => e.event)).toEqual(['result']);
+    });
+
+    it('should end with a distinct blocked event for blocked queries', async () => {
+      mockProcess.mockImplementation(async (req, traceId, listener) => {
+        listener!({ name: 'risk_assessment', duration_ms: 0, success: true }, { risk: 'critical', blocked: true });
+        return { ...baseResponse, risk_level: 'critical', blocked: true, text: 'Blocked for safety' };
+      });
+
+      const response = await request(app)
+        .post('/query/stream')
+        .send({ enterprise_id: ENTERPRISE_ID, operator_id: OPERATOR_ID, input_text: 'smoke from the panel' });
+
+      const events = parseEvents(response.text);
+      expect(events.map(e => e.event)).toEqual(['risk', 'blocked']);
+      expect(events[1].data.blocked).toBe(true);
+    });
+
+    it('should emit an error event when processing fails', async () => {
+      mockProcess.mockRejectedValue(createError('Enterprise not found', 404, 'ENTERPRISE_NOT_FOUND'));
+
+      const response = await request(app)
+        .post('/query/stream')
+        .send({ enterprise_id: ENTERPRISE_ID, operator_id: OPERATOR_ID, input_text: 'machine not starting' });
+
+      const events = parseEvents(response.text);
+      expect(events).toHaveLength(1);
+      expect(events[0].event).toBe('error');
+      expect(events[0].data.error.code).toBe('ENTERPRISE_NOT_FOUND');
+    });
+
+    it('should reject other enterprises before opening the stream', async () => {
+      const response = await request(app)
+        .post('/query/stream')
+        .send({ enterprise_id: OTHER_ENTERPRISE_ID, operator_id: OPERATOR_ID, input_text: 'hello there' });
+
+      expect(response.status).toBe(403);
+      expect(mockProcess).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /query/:id/feedback', () => {
+    const QUERY_ID = '64b7f0c2a1b2c3d4e5f60730';
+    const CHUNK_ID = '64b7f0c2a1b2c3d4e5f60731';
+
+    const makeQuery = (enterpriseId = ENTERPRISE_ID) => {
+      const query: any = {
+        _id: QUERY_ID,
+        enterprise_id: enterpriseId,
+        operator_id: OPERATOR_ID,
+        save: jest.fn().mockResolvedValue(undefined),
+      };
+      query.recordFeedback = jest.fn((feedback: any) => {
+        query.feedback = { ...feedback, submitted_at: new Date() };
+      });
+      return query;
+    };
+
+    beforeEach(() => {
+      mockEnqueue.mockResolvedValue(null);
+    });
+
+    it('should record feedback on the query', async () => {
+      const query = makeQuery();
+      mockQueryFindById.mockResolvedValue(query);
+      mockChunkExists.mockResolvedValue({ _id: CHUNK_ID });
+
+      const response = await request(app)
+        .post(`/query/${QUERY_ID}/feedback`)
+        .send({ helpful: false, correction_text: 'Press the reset first', correct_chunk_id: CHUNK_ID });
+
+      expect(response.status).toBe(200);
+      expect(query.recordFeedback).toHaveBeenCalledWith({
+        helpful: false,
+        correction_text: 'Press the reset first',
+        correct_chunk_id: CHUNK_ID,
+        submitted_by: 'operator@example.com',
+      });
+      expect(query.save).toHaveBeenCalled();
+      expect(response.body.feedback.helpful).toBe(false);
+      expect(mockChunkExists).toHaveBeenCalledWith({ _id: CHUNK_ID, enterprise_id: ENTERPRISE_ID });
+      expect(mockEnqueue).toHaveBeenCalledWith(query, 'unhelpful');
+    });
+
+    it('should not queue helpful answers for review', async () => {
+      mockQueryFindById.mockResolvedValue(makeQuery());
+
+      const response = await request(app)
+        .post(`/query/${QUERY_ID}/feedback`)
+        .send({ helpful: true });
+
+      expect(response.status).toBe(200);
+      expect(mockEnqueue).not.toHaveBeenCalled();
+    });
+
+    it('should record feedback even when the review queue fails', async () => {
+      mockQueryFindById.mockResolvedValue(makeQuery());
+      mockEnqueue.mockRejectedValue(new Error('database unavailable'));
+
+      const response = await request(app)
+        .post(`/query/${QUERY_ID}/feedback`)
+        .send({ helpful: false });
+
+      expect(response.status).toBe(200);
+    });
+
+    it("should refuse feedback on another operator's query", async () => {
+      const query = { ...makeQuery(), operator_id: OTHER_OPERATOR_ID };
+      mockQueryFindById.mockResolvedValue(query);
+
+      const response = await request(app)
+        .post(`/query/${QUERY_ID}/feedback`)
+        .send({ helpful: false });
+
+      expect(response.status).toBe(403);
+      expect(response.body.error.code).toBe('QUERY_ACCESS_DENIED');
+      expect(query.save).not.toHaveBeenCalled();
+    });
+
+    it("should let admins rate another operator's query", async () => {
+      mockQueryFindById.mockResolvedValue({ ...makeQuery(), operator_id: OTHER_OPERATOR_ID });
+
+      const response = await request(app)
+        .post(`/query/${QUERY_ID}/feedback`)
+        .set('x-test-role', 'enterprise_admin')
+        .send({ helpful: true });
+
+      expect(response.status).toBe(200);
+    });
+
+    it('should require the helpful flag', async () => {
+      const response = await request(app)
+        .post(`/query/${QUERY_ID}/feedback`)
+        .send({ correction_text: 'wrong answer' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.code).toBe('VALIDATION_ERROR');
+    });
+
+    it('should reject chunks from other enterprises', async () => {
+      mockQueryFindById.mockResolvedValue(makeQuery());
+      mockChunkExists.mockResolvedValue(null);
+
+      const response = await request(app)
+        .post(`/query/${QUERY_ID}/feedback`)
+        .send({ helpful: false, correct_chunk_id: CHUNK_ID });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.code).toBe('INVALID_CHUNK');
+    });
+
+    it('should hide queries of other enterprises', async () => {
+      const query = makeQuery(OTHER_ENTERPRISE_ID);
+      mockQueryFindById.mockResolvedValue(query);
+
+      const response = await request(app)
+        .post(`/query/${QUERY_ID}/feedback`)
+        .send({ helpful: true });
+
+      expect(response.status).toBe(404);
+      expect(response.body.error.code).toBe('QUERY_NOT_FOUND');
+      expect(query.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /query/:id/clarification', () => {
+    const QUERY_ID = '64b7f0c2a1b2c3d4e5f60730';
+    const OPTIONS = [
+      { id: '1', kind: 'intent', value: 'abnormal_noise', label: 'unusual noise', confidence: 0.52 },
+      { id: '2', kind: 'intent', value: 'overheating', label: 'overheating', confidence: 0.5 },
+    ];
+
+    const makeQuery = (status = 'pending', enterpriseId = ENTERPRISE_ID) => ({
+      _id: QUERY_ID,
+      enterprise_id: enterpriseId,
+      operator_id: OPERATOR_ID,
+      conversation_id: 'conv123',
+      data: { text: 'motor making noise and getting warm' },
+      clarification: { status, language: 'en', options: OPTIONS },
+      getPendingClarificationOption: (id: string) => status === 'pending' ? OPTIONS.find(option => option.id === id) : undefined,
+    });
+
+    it('should answer the original query with the chosen option', async () => {
+      const query = makeQuery();
+      mockQueryFindById.mockResolvedValue(query);
+      mockProcess.mockResolvedValue({
+        text: 'Stop the machine and let it cool down.',
+        intent: { name: 'overheating', confidence: 0.5, matched_examples: [] },
+        risk_level: 'high',
+        blocked: false,
+        trace: { trace_id: 'trace-123', timestamp: new Date(), processing_time_ms: 12, steps: [] },
+        sources: [],
+        query_id: QUERY_ID,
+      });
+
+      const response = await request(app)
+        .post(`/query/${QUERY_ID}/clarification`)
+        .send({ option_id: '2' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.intent.name).toBe('overheating');
+      expect(mockProcess).toHaveBeenCalledWith(
+        {
+          enterprise_id: ENTERPRISE_ID,
+          operator_id: OPERATOR_ID,
+          input_text: 'motor making noise and getting warm',
+          language: 'en',
+          conversation_id: 'conv123',
+        },
+        'trace-123',
+        undefined,
+        { clarification: { query, option: OPTIONS[1], resolved_by: 'operator@example.com' } }
+      );
+    });
+
+    it('should reject options that were not offered', async () => {
+      mockQueryFindById.mockResolvedValue(makeQuery());
+
+      const response = await request(app)
+        .post(`/query/${QUERY_ID}/clarification`)
+        .send({ option_id: '7' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.code).toBe('INVALID_CLARIFICATION_OPTION');
+      expect(mockProcess).not.toHaveBeenCalled();
+    });
+
+    it('should refuse queries that are not waiting for a clarification', async () => {
+      mockQueryFindById.mockResolvedValue(makeQuery('resolved'));
+
+      const response = await request(app)
+        .post(`/query/${QUERY_ID}/clarification`)
+        .send({ option_id: '1' });
+
+      expect(response.status).toBe(409);
+      expect(response.body.error.code).toBe('CLARIFICATION_NOT_PENDING');
+    });
+
+    it("should refuse to answer another operator's clarification", async () => {
+      mockQueryFindById.mockResolvedValue({ ...makeQuery(), operator_id: OTHER_OPERATOR_ID });
+
+      const response = await request(app)
+        .post(`/query/${QUERY_ID}/clarification`)
+        .send({ option_id: '1' });
+
+      expect(response.status).toBe(403);
+      expect(response.body.error.code).toBe('QUERY_ACCESS_DENIED');
+      expect(mockProcess).not.toHaveBeenCalled();
+    });
+
+    it('should hide queries of other enterprises', async () => {
+      mockQueryFindById.mockResolvedValue(makeQuery('pending', OTHER_ENTERPRISE_ID));
+
+      const response = await request(app)
+        .post(`/query/${QUERY_ID}/clarification`)
+        .send({ option_id: '1' });
+
+      expect(response.status).toBe(404);
+      expect(response.body.error.code).toBe('QUERY_NOT_FOUND');
+    });
+  });
+
+  describe('query jobs', () => {
+    const JOB_ID = '64b7f0c2a1b2c3d4e5f60740';
+
+    const makeJob = (overrides: Record<string, any> = {}) => {
+      const job: any = {
+        _id: JOB_ID,
+        enterprise_id: ENTERPRISE_ID,
+        trace_id: 'trace-123',
+        status: 'queued',
+        attempts: 0,
+        created_at: new Date(),
+        ...overrides,
+      };
+      job.isTerminal = () => ['completed', 'failed', 'cancelled'].includes(job.status);
+      return job;
+    };
+
+    it('should queue a job and point to its status', async () => {
+      mockSubmit.mockResolvedValue(makeJob());
+
+      const response = await request(app)
+        .post('/query/jobs')
+        .send({ enterprise_id: ENTERPRISE_ID, operator_id: OPERATOR_ID, audio_base64: 'UklGRg==' });
+
+      expect(response.status).toBe(202);
+      expect(response.headers.location).toBe(`/query/jobs/${JOB_ID}`);
+      expect(response.body).toEqual({
+        job_id: JOB_ID,
+        status: 'queued',
+        status_url: `/query/jobs/${JOB_ID}`,
+        events_url: `/query/jobs/${JOB_ID}/events`,
+      });
+      expect(mockSubmit).toHaveBeenCalledWith(
+        expect.objectContaining({ enterprise_id: ENTERPRISE_ID, audio_base64: 'UklGRg==' }),
+        'trace-123'
+      );
+    });
+
+    it('should accept audio beyond the server-wide body limit', async () => {
+      mockSubmit.mockResolvedValue(makeJob());
+      const server = express();
+      server.use('/query/jobs', queryJobBodyParser);
+      server.use(express.json({ limit: '10mb' }));
+      server.use('/query', queryRouter);
+      const audio = 'A'.repeat(12 * 1024 * 1024);
+
+      const response = await request(server)
+        .post('/query/jobs')
+        .send({ enterprise_id: ENTERPRISE_ID, operator_id: OPERATOR_ID, audio_base64: audio });
+
+      expect(response.status).toBe(202);
+      expect(mockSubmit.mock.calls[0][0].audio_base64).toHaveLength(audio.length);
+
+      const rejected = await request(server)
+        .post('/query')
+        .send({ enterprise_id: ENTERPRISE_ID, operator_id: OPERATOR_ID, audio_base64: audio });
+      expect(rejected.status).toBe(413);
+    });
+
+    it('should not queue jobs for other enterprises', async () => {
+      const response = await request(app)
+        .post('/query/jobs')
+        .send({ enterprise_id: OTHER_ENTERPRISE_ID, operator_id: OPERATOR_ID, input_text: 'machine not starting' });
+
+      expect(response.status).toBe(403);
+      expect(mockSubmit).not.toHaveBeenCalled();
+    });
+
+    it('should return the result of a completed job', async () => {
+      mockJobFindById.mockResolvedValue(makeJob({ status: 'completed', attempts: 1, result: { text: 'Check the fuse.' } }));
+
+      const response = await request(app).get(`/query/jobs/${JOB_ID}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.job).toMatchObject({ job_id: JOB_ID, status: 'completed', result: { text: 'Check the fuse.' } });
+    });
+
+    it('should hide jobs of other enterprises', async () => {
+      mockJobFindById.mockResolvedValue(makeJob({ enterprise_id: OTHER_ENTERPRISE_ID }));
+
+      const response = await request(app).get(`/query/jobs/${JOB_ID}`);
+
+      expect(response.status).toBe(404);
+      expect(response.body.error.code).toBe('JOB_NOT_FOUND');
+    });
+
+    it('should stream the terminal state of a finished job', async () => {
+      mockJobFindById.mockResolvedValue(makeJob({
+        status: 'failed',
+        attempts: 1,
+        error: { code: 'TRANSCRIPTION_FAILED', message: 'Could not transcribe audio' },
+      }));
+
+      const response = await request(app).get(`/query/jobs/${JOB_ID}/events`);
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-type']).toContain('text/event-stream');
+      expect(response.text).toContain('event: status');
+      expect(response.text).toContain('event: error');
+      expect(response.text).toContain('TRANSCRIPTION_FAILED');
+    });
+
+    it('should cancel a running job', async () => {
+      mockJobFindById.mockResolvedValue(makeJob({ status: 'running' }));
+      mockCancel.mockResolvedValue(makeJob({ status: 'cancelled' }));
+
+      const response = await request(app).delete(`/query/jobs/${JOB_ID}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.job.status).toBe('cancelled');
+      expect(mockCancel).toHaveBeenCalledWith(JOB_ID);
+    });
+
+    it('should refuse to cancel finished jobs', async () => {
+      mockJobFindById.mockResolvedValue(makeJob({ status: 'completed' }));
+      mockCancel.mockResolvedValue(null);
+
+      const response = await request(app).delete(`/query/jobs/${JOB_ID}`);
+
+      expect(response.status).toBe(409);
+      expect(response.body.error.code).toBe('JOB_ALREADY_FINISHED');
+    });
+  });
+});
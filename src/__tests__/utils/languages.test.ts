@@ -0,0 +1,89 @@
+import { LANGUAGES, LANGUAGE_CODES, getLanguage, localized, normalizeLanguageCode, ttsLocale } from '../../utils/languages';
+
+describe('Language Codes', () => {
+  describe('LANGUAGES', () => {
+    it('should have unique codes and tags', () => {
+      expect(new Set(LANGUAGE_CODES).size).toBe(LANGUAGES.length);
+      expect(new Set(LANGUAGES.map(language => language.tag)).size).toBe(LANGUAGES.length);
+    });
+
+    it('should only fall back to supported languages', () => {
+      for (const language of LANGUAGES) {
+        expect(language.fallbacks.every(code => LANGUAGE_CODES.includes(code))).toBe(true);
+      }
+    });
+
+    it('should tag code-mixed forms as private use of their language', () => {
+      expect(getLanguage('tanglish')).toMatchObject({ tag: 'ta-x-tanglish', base: 'ta' });
+      expect(getLanguage('hinglish')).toMatchObject({ tag: 'hi-x-hinglish', base: 'hi' });
+    });
+  });
+
+  describe('getLanguage', () => {
+    it('should only find languages by stored code', () => {
+      expect(getLanguage('ta')?.name).toBe('tamil');
+      expect(getLanguage('tamil')).toBeUndefined();
+      expect(getLanguage('ta-x-tanglish')).toBeUndefined();
+    });
+  });
+
+  describe('normalizeLanguageCode', () => {
+    it('should map stored codes, tags and detector names to stored codes', () => {
+      expect(normalizeLanguageCode('en')).toBe('en');
+      expect(normalizeLanguageCode('english')).toBe('en');
+      expect(normalizeLanguageCode('tamil')).toBe('ta');
+      expect(normalizeLanguageCode('ta-x-tanglish')).toBe('tanglish');
+      expect(normalizeLanguageCode(' Hindi ')).toBe('hi');
+    });
+
+    it('should drop region subtags', () => {
+      expect(normalizeLanguageCode('ta-IN')).toBe('ta');
+      expect(normalizeLanguageCode('en_US')).toBe('en');
+      expect(normalizeLanguageCode('bn-BD')).toBe('bn');
+    });
+
+    it('should read Latin script as the code-mixed form', () => {
+      expect(normalizeLanguageCode('ta-Latn')).toBe('tanglish');
+      expect(normalizeLanguageCode('hi-Latn-IN')).toBe('hinglish');
+      expect(normalizeLanguageCode('en-Latn')).toBe('en');
+    });
+
+    it('should not map unsupported languages', () => {
+      expect(normalizeLanguageCode('arabic')).toBeUndefined();
+      expect(normalizeLanguageCode('unknown')).toBeUndefined();
+      expect(normalizeLanguageCode('xx-YY')).toBeUndefined();
+      expect(normalizeLanguageCode('')).toBeUndefined();
+    });
+  });
+
+  describe('ttsLocale', () => {
+    it('should read code-mixed answers in the voice of their language', () => {
+      expect(ttsLocale('ta')).toBe('ta-IN');
+      expect(ttsLocale('tanglish')).toBe('ta-IN');
+      expect(ttsLocale('hinglish')).toBe('hi-IN');
+    });
+
+    it('should fall back to English', () => {
+      expect(ttsLocale('unknown')).toBe('en-IN');
+    });
+  });
+
+  describe('localized', () => {
+    const messages = { en: 'Stop.', ta: 'நிறுத்து.', hi: 'रुकिए।' };
+
+    it('should prefer the language, then its fallbacks, then English', () => {
+      expect(localized(messages, 'ta')).toBe('நிறுத்து.');
+      expect(localized(messages, 'tanglish')).toBe('நிறுத்து.');
+      expect(localized(messages, 'hinglish')).toBe('रुकिए।');
+      expect(localized(messages, 'de')).toBe('Stop.');
+      expect(localized(messages, 'unknown')).toBe('Stop.');
+    });
+
+    it('should find an entry for every language when English has one', () => {
+      for (const code of LANGUAGE_CODES) {
+        expect(localized({ en: 'Stop.' }, code)).toBe('Stop.');
+      }
+      expect(localized({ ta: 'நிறுத்து.' }, 'de')).toBeUndefined();
+    });
+  });
+});
@@ -1,3 +1,4 @@
+import path from 'path';
 import dotenv from 'dotenv';
 import Joi from 'joi';
 
@@ -55,6 +56,14 @@ const envSchema = Joi.object({
       otherwise: Joi.optional()
     })
     .description('Firebase client email for admin SDK'),
+  
+  INTENTS_FILE: Joi.string()
+    .default('config/intents.yml')
+    .description('YAML intent catalogue, reloaded when it changes'),
+
+  LANGUAGE_PROFILES_DIR: Joi.string()
+    .default('config/language-profiles')
+    .description('Directory of trigram language profiles'),
 }).unknown();
 
 // Validate environment variables
@@ -117,6 +126,56 @@ export const config = {
     },
   },
   
+  // Operator conversation sessions
+  conversations: {
+    inactivityTimeoutMs: 15 * 60 * 1000, // 15 minutes
+  },
+  
+  // Extractive answer composition
+  answers: {
+    minSimilarity: 0.4, // below this, manuals are not trusted to answer
+    maxSentences: 5,
+    maxLength: 2000,
+  },
+  
+  // Intent catalogue maintained by the safety team
+  intents: {
+    catalogPath: path.resolve(envVars.INTENTS_FILE),
+    reloadIntervalMs: 2000, // how often the file is checked for changes
+  },
+  
+  // Statistical language identification for texts the script and lexicon detectors cannot place
+  languageProfiles: {
+    directory: path.resolve(envVars.LANGUAGE_PROFILES_DIR),
+  },
+  
+  // Clarifying questions instead of guessing an intent or machine
+  clarification: {
+    minConfidence: 0.45, // ask when the top intent scores below this
+    tieMargin: 0.05, // ...or when the runner-up is within this margin
+    minOptionConfidence: 0.2, // weaker candidates are not offered
+    maxOptions: 3,
+  },
+  
+  // Review queue of uncertain queries whose labels become intent examples
+  labeling: {
+    minConfidence: 0.5, // queries classified below this are queued for review
+  },
+  
+  // Asynchronous query jobs (long audio input)
+  queryJobs: {
+    concurrency: 2, // jobs processed at once per server
+    leaseMs: 5 * 60 * 1000, // a running job is retried if its worker is silent this long
+    pollIntervalMs: 2000,
+    maxAttempts: 3,
+  },
+  
+  // Cache of manual answers for repeated questions
+  answerCache: {
+    maxEntries: 1000,
+    ttlMs: 60 * 60 * 1000, // 1 hour
+  },
+  
   // File upload limits
   upload: {
     maxFileSize: 10 * 1024 * 1024, // 10MB
@@ -131,7 +190,6 @@ export const config = {
   models: {
     embedding: {
       name: 'all-MiniLM-L6-v2',
-      dimensions: 384,
     },
     stt: {
       model: 'vosk-model-small-en-us-0.15',
@@ -12,6 +12,8 @@ declare global {
     interface Request {
       user?: {
         uid: string;
+        // Stored ID of the user, as recorded on their queries
+        user_id: string;
         email: string;
         role: UserRole;
         enterprises: string[];
@@ -35,6 +37,7 @@ export async function authenticate(req: Request, res: Response, next: NextFuncti
       if (debugRole && ['operator', 'enterprise_admin', 'super_admin'].includes(debugRole)) {
         req.user = {
           uid: 'dev-user',
+          user_id: 'dev-user',
           email: 'dev@example.com',
           role: debugRole,
           enterprises: ['dev-enterprise'],
@@ -86,6 +89,7 @@ export async function authenticate(req: Request, res: Response, next: NextFuncti
     // Set user information in request
     req.user = {
       uid: decodedToken.uid,
+      user_id: user._id.toString(),
       email: user.email,
       role: user.role,
       enterprises: user.enterprises.map(id => id.toString()),
@@ -212,6 +216,7 @@ export async function optionalAuth(req: Request, res: Response, next: NextFuncti
       if (debugRole && ['operator', 'enterprise_admin', 'super_admin'].includes(debugRole)) {
         req.user = {
           uid: 'dev-user',
+          user_id: 'dev-user',
           email: 'dev@example.com',
           role: debugRole,
           enterprises: ['dev-enterprise'],
@@ -239,6 +244,7 @@ export async function optionalAuth(req: Request, res: Response, next: NextFuncti
 
       req.user = {
         uid: decodedToken.uid,
+        user_id: user._id.toString(),
         email: user.email,
         role: user.role,
         enterprises: user.enterprises.map(id => id.toString()),
@@ -2,6 +2,7 @@ import { Request, Response, NextFunction } from 'express';
 import Joi from 'joi';
 import { logger } from '../utils/logger';
 import { config } from '../config/environment';
+import { LANGUAGE_CODES, normalizeLanguageCode } from '../utils/languages';
 import { v4 as uuidv4 } from 'uuid';
 
 // Validation error interface
@@ -120,7 +121,7 @@ export function validateFileUpload(options: {
 
     try {
       // Check if files are present
-      const files = req.files as any[] | undefined;
+      const files = req.files as Express.Multer.File[] | undefined;
       
       if (required && (!files || files.length === 0)) {
         res.status(400).json({
@@ -256,6 +257,22 @@ export const schemas = {
       }),
   }),
 
+  // Enterprise-scoped resource parameter validation
+  enterpriseResource: Joi.object({
+    enterprise_id: Joi.string()
+      .pattern(/^[0-9a-fA-F]{24}$/)
+      .required()
+      .messages({
+        'string.pattern.base': 'Enterprise ID must be a valid MongoDB ObjectId',
+      }),
+    id: Joi.string()
+      .pattern(/^[0-9a-fA-F]{24}$/)
+      .required()
+      .messages({
+        'string.pattern.base': 'Resource ID must be a valid MongoDB ObjectId',
+      }),
+  }),
+
   // Pagination query validation
   pagination: Joi.object({
     page: Joi.number()
@@ -287,11 +304,40 @@ export const schemas = {
       .base64()
       .max(50 * 1024 * 1024) // 50MB base64 limit
       .optional(),
+    // Stored code, BCP-47 tag ("ta-IN") or name of a supported language
     language: Joi.string()
-      .valid('en', 'ta', 'tanglish', 'auto')
+      .custom((value: string, helpers) =>
+        value === 'auto' || normalizeLanguageCode(value) ? value : helpers.error('any.invalid'))
       .default('auto'),
+    conversation_id: Joi.string()
+      .pattern(/^[0-9a-fA-F]{24}$/)
+      .optional(),
   }).or('input_text', 'audio_base64'),
 
+  // Operator feedback on a query answer
+  queryFeedback: Joi.object({
+    helpful: Joi.boolean()
+      .required(),
+    correction_text: Joi.string()
+      .trim()
+      .max(2000)
+      .optional(),
+    correct_chunk_id: Joi.string()
+      .pattern(/^[0-9a-fA-F]{24}$/)
+      .optional()
+      .messages({
+        'string.pattern.base': 'Chunk ID must be a valid MongoDB ObjectId',
+      }),
+  }),
+
+  // Operator's answer to a clarifying question
+  queryClarification: Joi.object({
+    option_id: Joi.string()
+      .trim()
+      .max(10)
+      .required(),
+  }),
+
   // Enterprise creation validation
   createEnterprise: Joi.object({
     name: Joi.string()
@@ -303,7 +349,7 @@ export const schemas = {
         .valid('low', 'medium', 'high', 'critical')
         .default('medium'),
       allowed_languages: Joi.array()
-        .items(Joi.string().valid('en', 'ta', 'tanglish'))
+        .items(Joi.string().valid(...LANGUAGE_CODES))
         .default(['en', 'ta', 'tanglish']),
       max_query_length: Joi.number()
         .integer()
@@ -340,6 +386,10 @@ export const validateQueryId = validateRequest({
   params: schemas.queryId,
 });
 
+export const validateEnterpriseResource = validateRequest({
+  params: schemas.enterpriseResource,
+});
+
 export const validatePagination = validateRequest({
   query: schemas.pagination,
 });
@@ -348,6 +398,16 @@ export const validateQueryRequest = validateRequest({
   body: schemas.queryRequest,
 });
 
+export const validateQueryFeedback = validateRequest({
+  params: schemas.queryId,
+  body: schemas.queryFeedback,
+});
+
+export const validateQueryClarification = validateRequest({
+  params: schemas.queryId,
+  body: schemas.queryClarification,
+});
+
 export const validateCreateEnterprise = validateRequest({
   body: schemas.createEnterprise,
 });
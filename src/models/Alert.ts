@@ -1,6 +1,20 @@
 import mongoose, { Schema, Document } from 'mongoose';
-import { IntentResult, RiskLevel } from '../types';
-import { BaseModel, validators, commonSchemaOptions } from './BaseModel';
+import { IntentResult, RiskExplanation, RiskLevel, RiskRuleMatch } from '../types';
+import { BaseModel, validators, commonSchemaOptions, riskExplanationSchema } from './BaseModel';
+import { LANGUAGE_CODES, UNKNOWN_LANGUAGE } from '../utils/languages';
+
+/**
+ * An operator lockdown raised by the alert, or its release
+ */
+export interface LockdownEvent {
+  action: 'locked' | 'unlocked';
+  lockdown_id: mongoose.Types.ObjectId;
+  machine?: string;
+  reason: string;
+  // Admin who released the lockdown; locks are raised by the pipeline
+  by?: string;
+  at: Date;
+}
 
 export interface IAlert extends Document {
   enterprise_id: mongoose.Types.ObjectId;
@@ -11,11 +25,15 @@ export interface IAlert extends Document {
     risk: RiskLevel;
     language: string;
     trigger_reason: string;
+    // The intent, escalation keyword or enterprise rule that set the risk
+    risk_rule?: RiskRuleMatch;
+    risk_explanation?: RiskExplanation;
   };
   created_at: Date;
   updated_at?: Date;
   acknowledged?: Date;
   acknowledged_by?: mongoose.Types.ObjectId;
+  lockdown_events: LockdownEvent[];
 }
 
 const alertSchema = new Schema<IAlert>({
@@ -85,8 +103,7 @@ const alertSchema = new Schema<IAlert>({
       trim: true,
       validate: {
         validator: function(lang: string) {
-          const validLanguages = ['en', 'ta', 'tanglish', 'hi', 'es', 'fr', 'de', 'unknown'];
-          return validLanguages.includes(lang);
+          return lang === UNKNOWN_LANGUAGE || LANGUAGE_CODES.includes(lang);
         },
         message: 'Invalid language code',
       },
@@ -102,6 +119,44 @@ const alertSchema = new Schema<IAlert>({
         message: 'Trigger reason cannot be empty or just whitespace',
       },
     },
+    risk_rule: {
+      rule_id: {
+        type: String,
+        trim: true,
+      },
+      source: {
+        type: String,
+        enum: {
+          values: ['intent', 'keyword', 'rule'],
+          message: 'Risk rule source must be intent, keyword or rule',
+        },
+      },
+      level: {
+        type: String,
+        enum: {
+          values: ['low', 'medium', 'high', 'critical'],
+          message: 'Risk level must be one of: low, medium, high, critical',
+        },
+      },
+      keyword: {
+        type: String,
+        trim: true,
+      },
+      matched: {
+        type: String,
+        trim: true,
+        maxlength: [200, 'Matched text cannot exceed 200 characters'],
+      },
+      language: {
+        type: String,
+        trim: true,
+      },
+      rule_version: {
+        type: Number,
+        min: [1, 'Rule set version must be at least 1'],
+      },
+    },
+    risk_explanation: riskExplanationSchema,
   },
   acknowledged: {
     type: Date,
@@ -123,6 +178,41 @@ const alertSchema = new Schema<IAlert>({
       message: 'Invalid acknowledged_by user ID',
     },
   },
+  lockdown_events: [{
+    _id: false,
+    action: {
+      type: String,
+      required: [true, 'Lockdown action is required'],
+      enum: {
+        values: ['locked', 'unlocked'],
+        message: 'Lockdown action must be locked or unlocked',
+      },
+    },
+    lockdown_id: {
+      type: Schema.Types.ObjectId,
+      ref: 'OperatorLockdown',
+      required: [true, 'Lockdown ID is required'],
+    },
+    machine: {
+      type: String,
+      trim: true,
+    },
+    reason: {
+      type: String,
+      required: [true, 'Lockdown event reason is required'],
+      trim: true,
+      maxlength: [500, 'Lockdown event reason cannot exceed 500 characters'],
+    },
+    by: {
+      type: String,
+      trim: true,
+    },
+    at: {
+      type: Date,
+      required: true,
+      default: Date.now,
+    },
+  }],
 }, commonSchemaOptions);
 
 // Add common functionality
@@ -138,6 +228,7 @@ BaseModel.addIndexes(alertSchema, [
   { fields: { created_at: -1 } },
   { fields: { enterprise_id: 1, acknowledged: 1, 'data.risk': 1 } }, // Compound index for unacknowledged alerts by risk
   { fields: { operator_id: 1, created_at: -1 } },
+  { fields: { enterprise_id: 1, 'data.risk_explanation.decision.source': 1, 'data.risk_explanation.decision.rule_id': 1 } }, // Grouping alerts by cause
 ]);
 
 // Pre-save middleware for validation
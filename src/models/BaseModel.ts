@@ -153,4 +153,69 @@ export const commonSchemaOptions = {
       return ret;
     },
   },
-};
\ No newline at end of file
+};
+
+const riskLevelValues = {
+  values: ['low', 'medium', 'high', 'critical'],
+  message: 'Risk level must be one of: low, medium, high, critical',
+};
+const mentionContextValues = {
+  values: ['asserted', 'negated', 'hypothetical', 'compound'],
+  message: 'Mention context must be one of: asserted, negated, hypothetical, compound',
+};
+
+// Structured risk explanation, stored on queries and on the alerts they raise
+export const riskExplanationSchema = new Schema({
+  intent: {
+    name: { type: String, required: true, trim: true },
+    level: { type: String, required: true, enum: riskLevelValues },
+  },
+  keywords: [{
+    _id: false,
+    rule_id: { type: String, required: true, trim: true },
+    level: { type: String, required: true, enum: riskLevelValues },
+    keyword: { type: String, required: true },
+    matched: { type: String, required: true, maxlength: [200, 'Matched text cannot exceed 200 characters'] },
+    language: { type: String, required: true, trim: true },
+    start: { type: Number, required: true, min: [0, 'Keyword position must be non-negative'] },
+    end: { type: Number, required: true, min: [0, 'Keyword position must be non-negative'] },
+    context: { type: String, enum: mentionContextValues },
+    cue: { type: String, maxlength: [100, 'Cue cannot exceed 100 characters'] },
+  }],
+  rules: [{
+    _id: false,
+    rule_id: { type: String, required: true, trim: true },
+    level: { type: String, required: true, enum: riskLevelValues },
+    rule_version: { type: Number, min: [1, 'Rule set version must be at least 1'] },
+  }],
+  threshold: {
+    enterprise: { type: String, required: true, enum: riskLevelValues },
+    exceeds_enterprise: { type: Boolean, required: true },
+    intent: { type: String, enum: riskLevelValues },
+    reaches_intent: { type: Boolean, required: true },
+  },
+  decision: {
+    risk: { type: String, required: true, enum: riskLevelValues },
+    blocked: { type: Boolean, required: true },
+    source: {
+      type: String,
+      required: true,
+      enum: {
+        values: ['intent', 'keyword', 'rule'],
+        message: 'Decision source must be intent, keyword or rule',
+      },
+    },
+    rule_id: { type: String, required: true, trim: true },
+    locked_down: Boolean,
+  },
+  adjustment: {
+    type: new Schema({
+      original_risk: { type: String, required: true, enum: riskLevelValues },
+      original_blocked: { type: Boolean, required: true },
+      original_rule_id: { type: String, required: true, trim: true },
+      adjusted_risk: { type: String, required: true, enum: riskLevelValues },
+      contexts: [{ type: String, enum: mentionContextValues }],
+    }, { _id: false }),
+    required: false,
+  },
+}, { _id: false });
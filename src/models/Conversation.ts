@@ -0,0 +1,153 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { BaseModel, validators, commonSchemaOptions } from './BaseModel';
+
+export interface IConversation extends Document {
+  enterprise_id: mongoose.Types.ObjectId;
+  operator_id: mongoose.Types.ObjectId;
+  query_ids: mongoose.Types.ObjectId[];
+  context: {
+    machine?: string;
+    manual_id?: mongoose.Types.ObjectId;
+    intent?: string;
+    intent_confidence?: number;
+    last_text?: string;
+  };
+  last_activity_at: Date;
+  created_at: Date;
+  updated_at?: Date;
+
+  // Instance methods
+  isExpired(inactivityTimeoutMs: number, now?: Date): boolean;
+  getTurnCount(): number;
+  addTurn(queryId: string | mongoose.Types.ObjectId, context: IConversation['context']): void;
+}
+
+const conversationSchema = new Schema<IConversation>({
+  enterprise_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'Enterprise',
+    required: [true, 'Enterprise ID is required'],
+    validate: {
+      validator: validators.objectId.validator,
+      message: validators.objectId.message,
+    },
+  },
+  operator_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Operator ID is required'],
+    validate: {
+      validator: validators.objectId.validator,
+      message: validators.objectId.message,
+    },
+  },
+  query_ids: [{
+    type: Schema.Types.ObjectId,
+    ref: 'Query',
+  }],
+  context: {
+    machine: {
+      type: String,
+      trim: true,
+      maxlength: [100, 'Machine name cannot exceed 100 characters'],
+    },
+    manual_id: {
+      type: Schema.Types.ObjectId,
+      ref: 'Manual',
+    },
+    intent: {
+      type: String,
+      trim: true,
+    },
+    intent_confidence: {
+      type: Number,
+      min: [0, 'Intent confidence must be between 0 and 1'],
+      max: [1, 'Intent confidence must be between 0 and 1'],
+    },
+    last_text: {
+      type: String,
+      trim: true,
+      maxlength: [5000, 'Last text cannot exceed 5000 characters'],
+    },
+  },
+  last_activity_at: {
+    type: Date,
+    required: true,
+    default: Date.now,
+  },
+}, commonSchemaOptions);
+
+// Add common functionality
+BaseModel.addCommonFields(conversationSchema);
+BaseModel.addAuditLogging(conversationSchema, 'Conversation');
+BaseModel.addValidationErrorHandling(conversationSchema);
+
+// Add indexes for optimal query performance
+BaseModel.addIndexes(conversationSchema, [
+  { fields: { enterprise_id: 1, operator_id: 1, last_activity_at: -1 } },
+  { fields: { enterprise_id: 1, created_at: -1 } },
+  { fields: { query_ids: 1 } },
+]);
+
+// Instance methods
+conversationSchema.methods.isExpired = function(inactivityTimeoutMs: number, now: Date = new Date()): boolean {
+  return now.getTime() - new Date(this.last_activity_at).getTime() > inactivityTimeoutMs;
+};
+
+conversationSchema.methods.getTurnCount = function(): number {
+  return this.query_ids.length;
+};
+
+conversationSchema.methods.addTurn = function(
+  queryId: string | mongoose.Types.ObjectId,
+  context: IConversation['context']
+): void {
+  const id = typeof queryId === 'string' ? new mongoose.Types.ObjectId(queryId) : queryId;
+  // A query answered after a clarifying question is the same turn, not a new one
+  if (!this.query_ids.some((existing: mongoose.Types.ObjectId) => existing.equals(id))) {
+    this.query_ids.push(id);
+  }
+  for (const [key, value] of Object.entries(context)) {
+    if (value !== undefined) {
+      this.set(`context.${key}`, value);
+    }
+  }
+  this.last_activity_at = new Date();
+};
+
+// Static methods
+conversationSchema.statics.findActiveSession = function(
+  enterpriseId: string | mongoose.Types.ObjectId,
+  operatorId: string | mongoose.Types.ObjectId,
+  inactivityTimeoutMs: number
+) {
+  return this.findOne({
+    enterprise_id: enterpriseId,
+    operator_id: operatorId,
+    last_activity_at: { $gte: new Date(Date.now() - inactivityTimeoutMs) },
+  }).sort({ last_activity_at: -1 });
+};
+
+conversationSchema.statics.findWithTurns = function(
+  conversationId: string | mongoose.Types.ObjectId,
+  enterpriseId: string | mongoose.Types.ObjectId
+) {
+  return this.findOne({ _id: conversationId, enterprise_id: enterpriseId })
+    .populate('operator_id', 'email role')
+    .populate({ path: 'query_ids', options: { sort: { created_at: 1 } } });
+};
+
+// Define interface for static methods
+interface IConversationModel extends mongoose.Model<IConversation> {
+  findActiveSession(
+    enterpriseId: string | mongoose.Types.ObjectId,
+    operatorId: string | mongoose.Types.ObjectId,
+    inactivityTimeoutMs: number
+  ): Promise<IConversation | null>;
+  findWithTurns(
+    conversationId: string | mongoose.Types.ObjectId,
+    enterpriseId: string | mongoose.Types.ObjectId
+  ): Promise<IConversation | null>;
+}
+
+export const Conversation = mongoose.model<IConversation, IConversationModel>('Conversation', conversationSchema);
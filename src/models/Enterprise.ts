@@ -1,6 +1,7 @@
 import mongoose, { Schema, Document } from 'mongoose';
 import { RiskLevel } from '../types';
 import { BaseModel, validators, commonSchemaOptions } from './BaseModel';
+import { LANGUAGE_CODES, normalizeLanguageCode } from '../utils/languages';
 
 export interface IEnterprise extends Document {
   name: string;
@@ -44,8 +45,7 @@ const enterpriseSchema = new Schema<IEnterprise>({
       default: ['en', 'ta', 'tanglish'],
       validate: {
         validator: function(languages: string[]) {
-          const validLanguages = ['en', 'ta', 'tanglish', 'hi', 'es', 'fr', 'de'];
-          return languages.every(lang => validLanguages.includes(lang));
+          return languages.every(lang => LANGUAGE_CODES.includes(lang));
         },
         message: 'Invalid language code in allowed_languages',
       },
@@ -89,8 +89,10 @@ enterpriseSchema.pre('save', function(next) {
 });
 
 // Instance methods
+// Takes stored codes as well as BCP-47 tags and detector names
 enterpriseSchema.methods.isLanguageAllowed = function(language: string): boolean {
-  return this.settings?.allowed_languages?.includes(language) ?? false;
+  const code = normalizeLanguageCode(language);
+  return !!code && (this.settings?.allowed_languages?.includes(code) ?? false);
 };
 
 enterpriseSchema.methods.getRiskThreshold = function(): RiskLevel {
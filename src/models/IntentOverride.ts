@@ -0,0 +1,197 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { RiskLevel } from '../types';
+import { BaseModel, validators, commonSchemaOptions } from './BaseModel';
+
+/**
+ * Plain form of an override, as applied on top of the global intent catalogue
+ */
+export interface IntentOverrideSpec {
+  intent_name: string;
+  disabled?: boolean;
+  // Added to the global intent's examples
+  examples?: string[];
+  // Replace the global wording per language
+  responses?: Record<string, string>;
+  labels?: Record<string, string>;
+  risk?: RiskLevel;
+  block_threshold?: RiskLevel;
+}
+
+/**
+ * Where an example promoted from the labeling queue came from
+ */
+export interface IntentExampleSource {
+  example: string;
+  query_id: mongoose.Types.ObjectId;
+  labeling_task_id: mongoose.Types.ObjectId;
+  labeled_by: string;
+  labeled_at: Date;
+}
+
+export interface IIntentOverride extends Document {
+  enterprise_id: mongoose.Types.ObjectId;
+  intent_name: string;
+  disabled: boolean;
+  examples: string[];
+  // Provenance of the examples promoted from reviewed queries
+  example_sources: IntentExampleSource[];
+  // Keyed by catalogue language
+  responses?: Record<string, string>;
+  labels?: Record<string, string>;
+  risk?: RiskLevel;
+  block_threshold?: RiskLevel;
+  created_by: string;
+  updated_by?: string;
+  created_at: Date;
+  updated_at?: Date;
+
+  // Instance methods
+  toSpec(): IntentOverrideSpec;
+}
+
+const riskLevelField = {
+  type: String,
+  enum: {
+    values: ['low', 'medium', 'high', 'critical'],
+    message: 'Risk level must be one of: low, medium, high, critical',
+  },
+};
+
+function isLanguageTexts(value: unknown): boolean {
+  if (value === undefined || value === null) return true;
+  if (typeof value !== 'object' || Array.isArray(value)) return false;
+  return Object.values(value).every(text => typeof text === 'string' && text.trim().length > 0);
+}
+
+const intentOverrideSchema = new Schema<IIntentOverride>({
+  enterprise_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'Enterprise',
+    required: [true, 'Enterprise ID is required'],
+    validate: {
+      validator: validators.objectId.validator,
+      message: validators.objectId.message,
+    },
+  },
+  intent_name: {
+    type: String,
+    required: [true, 'Intent name is required'],
+    trim: true,
+    maxlength: [100, 'Intent name cannot exceed 100 characters'],
+    match: [/^[a-z][a-z0-9_]*$/, 'Intent name must be snake_case'],
+  },
+  disabled: {
+    type: Boolean,
+    required: true,
+    default: false,
+  },
+  examples: [{
+    type: String,
+    trim: true,
+    maxlength: [500, 'Example cannot exceed 500 characters'],
+  }],
+  example_sources: [{
+    _id: false,
+    example: {
+      type: String,
+      required: [true, 'Example is required'],
+      trim: true,
+    },
+    query_id: {
+      type: Schema.Types.ObjectId,
+      ref: 'Query',
+      required: [true, 'Query ID is required'],
+    },
+    labeling_task_id: {
+      type: Schema.Types.ObjectId,
+      ref: 'LabelingTask',
+      required: [true, 'Labeling task ID is required'],
+    },
+    labeled_by: {
+      type: String,
+      required: [true, 'Labeler is required'],
+      trim: true,
+    },
+    labeled_at: {
+      type: Date,
+      required: true,
+    },
+  }],
+  responses: {
+    type: Schema.Types.Mixed,
+    validate: {
+      validator: isLanguageTexts,
+      message: 'Responses must map languages to text',
+    },
+  },
+  labels: {
+    type: Schema.Types.Mixed,
+    validate: {
+      validator: isLanguageTexts,
+      message: 'Labels must map languages to text',
+    },
+  },
+  risk: riskLevelField,
+  block_threshold: {
+    ...riskLevelField,
+    enum: {
+      values: ['high', 'critical'],
+      message: 'Block threshold must be high or critical',
+    },
+  },
+  created_by: {
+    type: String,
+    required: [true, 'Creator is required'],
+    trim: true,
+  },
+  updated_by: {
+    type: String,
+    trim: true,
+  },
+}, commonSchemaOptions);
+
+// Add common functionality
+BaseModel.addCommonFields(intentOverrideSchema);
+BaseModel.addAuditLogging(intentOverrideSchema, 'IntentOverride');
+BaseModel.addValidationErrorHandling(intentOverrideSchema);
+
+// Add indexes for optimal query performance
+BaseModel.addIndexes(intentOverrideSchema, [
+  { fields: { enterprise_id: 1, intent_name: 1 }, options: { unique: true } },
+]);
+
+// Pre-save middleware for validation
+intentOverrideSchema.pre('save', function(next) {
+  // Provenance of examples since removed from the override no longer applies
+  if (this.isModified('examples')) {
+    const examples = new Set(this.examples.map(example => example.trim().toLowerCase()));
+    this.example_sources = this.example_sources.filter(source => examples.has(source.example.trim().toLowerCase()));
+  }
+
+  next();
+});
+
+// Instance methods
+intentOverrideSchema.methods.toSpec = function(): IntentOverrideSpec {
+  return {
+    intent_name: this.intent_name,
+    disabled: this.disabled,
+    examples: [...(this.examples ?? [])],
+    responses: this.responses ? { ...this.responses } : undefined,
+    labels: this.labels ? { ...this.labels } : undefined,
+    risk: this.risk,
+    block_threshold: this.block_threshold,
+  };
+};
+
+// Static methods
+intentOverrideSchema.statics.findByEnterprise = function(enterpriseId: string | mongoose.Types.ObjectId) {
+  return this.find({ enterprise_id: enterpriseId }).sort({ intent_name: 1 });
+};
+
+// Define interface for static methods
+interface IIntentOverrideModel extends mongoose.Model<IIntentOverride> {
+  findByEnterprise(enterpriseId: string | mongoose.Types.ObjectId): Promise<IIntentOverride[]>;
+}
+
+export const IntentOverride = mongoose.model<IIntentOverride, IIntentOverrideModel>('IntentOverride', intentOverrideSchema);
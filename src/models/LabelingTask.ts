@@ -0,0 +1,287 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { BaseModel, validators, commonSchemaOptions } from './BaseModel';
+
+/**
+ * Why a query was queued for review
+ */
+export type LabelingReason = 'low_confidence' | 'unhelpful';
+
+/**
+ * Review state of a queued query: awaiting review, labeled with a catalogue intent,
+ * proposed as an example of an intent the catalogue does not have yet, or dismissed
+ */
+export type LabelingStatus = 'pending' | 'labeled' | 'new_intent' | 'dismissed';
+
+export const LABELING_REASONS: LabelingReason[] = ['low_confidence', 'unhelpful'];
+export const LABELING_STATUSES: LabelingStatus[] = ['pending', 'labeled', 'new_intent', 'dismissed'];
+
+/**
+ * A query queued for an admin to confirm or correct its intent. Confirmed labels
+ * become examples of the enterprise's intents.
+ */
+export interface ILabelingTask extends Document {
+  enterprise_id: mongoose.Types.ObjectId;
+  query_id: mongoose.Types.ObjectId;
+  text: string;
+  language: string;
+  // The classifier's intent when the query was answered
+  predicted: {
+    name: string;
+    confidence: number;
+  };
+  reasons: LabelingReason[];
+  status: LabelingStatus;
+  // Intent assigned by the reviewer, or the proposed name of a new intent
+  label?: string;
+  // Whether the label differs from the predicted intent
+  corrected?: boolean;
+  note?: string;
+  labeled_by?: string;
+  labeled_at?: Date;
+  // Set once the text was added to the intent's examples
+  promoted_at?: Date;
+  created_at: Date;
+  updated_at?: Date;
+
+  // Instance methods
+  isOpen(): boolean;
+  assign(intentName: string, labeledBy: string): void;
+  proposeNewIntent(labeledBy: string, name?: string, note?: string): void;
+  dismiss(labeledBy: string, note?: string): void;
+}
+
+/**
+ * Fields of a queued query, as taken from the stored query
+ */
+export interface LabelingTaskSource {
+  enterprise_id: mongoose.Types.ObjectId | string;
+  query_id: mongoose.Types.ObjectId | string;
+  text: string;
+  language: string;
+  predicted: { name: string; confidence: number };
+}
+
+/**
+ * Queued queries per status, labeled queries per assigned intent, and corrected
+ * queries per intent the classifier had predicted
+ */
+export interface CorrectionStats {
+  by_status: Array<{ _id: LabelingStatus; total: number }>;
+  by_label: Array<{ _id: string; labeled: number; corrections: number }>;
+  by_prediction: Array<{ _id: string; corrected_away: number }>;
+}
+
+const labelingTaskSchema = new Schema<ILabelingTask>({
+  enterprise_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'Enterprise',
+    required: [true, 'Enterprise ID is required'],
+    validate: {
+      validator: validators.objectId.validator,
+      message: validators.objectId.message,
+    },
+  },
+  query_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'Query',
+    required: [true, 'Query ID is required'],
+  },
+  text: {
+    type: String,
+    required: [true, 'Query text is required'],
+    trim: true,
+    maxlength: [500, 'Query text cannot exceed 500 characters'],
+  },
+  language: {
+    type: String,
+    required: [true, 'Language is required'],
+  },
+  predicted: {
+    name: {
+      type: String,
+      required: [true, 'Predicted intent is required'],
+    },
+    confidence: {
+      type: Number,
+      required: true,
+      min: [0, 'Confidence cannot be negative'],
+      max: [1, 'Confidence cannot exceed 1'],
+    },
+  },
+  reasons: {
+    type: [{
+      type: String,
+      enum: {
+        values: LABELING_REASONS,
+        message: `Reason must be one of: ${LABELING_REASONS.join(', ')}`,
+      },
+    }],
+    validate: {
+      validator: (reasons: string[]) => reasons.length > 0,
+      message: 'A queued query needs at least one reason',
+    },
+  },
+  status: {
+    type: String,
+    required: true,
+    enum: {
+      values: LABELING_STATUSES,
+      message: `Status must be one of: ${LABELING_STATUSES.join(', ')}`,
+    },
+    default: 'pending',
+  },
+  label: {
+    type: String,
+    trim: true,
+    maxlength: [100, 'Label cannot exceed 100 characters'],
+    match: [/^[a-z][a-z0-9_]*$/, 'Label must be a snake_case intent name'],
+  },
+  corrected: {
+    type: Boolean,
+  },
+  note: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Note cannot exceed 500 characters'],
+  },
+  labeled_by: {
+    type: String,
+    trim: true,
+  },
+  labeled_at: {
+    type: Date,
+  },
+  promoted_at: {
+    type: Date,
+  },
+}, commonSchemaOptions);
+
+// Add common functionality
+BaseModel.addCommonFields(labelingTaskSchema);
+BaseModel.addAuditLogging(labelingTaskSchema, 'LabelingTask');
+BaseModel.addValidationErrorHandling(labelingTaskSchema);
+
+// Add indexes for optimal query performance
+BaseModel.addIndexes(labelingTaskSchema, [
+  { fields: { query_id: 1 }, options: { unique: true } },
+  { fields: { enterprise_id: 1, status: 1, 'predicted.confidence': 1 } },
+  { fields: { enterprise_id: 1, status: 1, label: 1 } },
+]);
+
+// Pre-save middleware for validation
+labelingTaskSchema.pre('save', function(next) {
+  // A reviewed task records who reviewed it
+  if (this.status !== 'pending' && (!this.labeled_by || !this.labeled_at)) {
+    return next(new Error('labeled_by and labeled_at must be set once a task is reviewed'));
+  }
+  if (this.status === 'labeled' && !this.label) {
+    return next(new Error('A labeled task needs a label'));
+  }
+
+  next();
+});
+
+// Instance methods
+labelingTaskSchema.methods.isOpen = function(): boolean {
+  // New intent candidates stay open until the intent exists and they are labeled with it
+  return this.status === 'pending' || this.status === 'new_intent';
+};
+
+labelingTaskSchema.methods.assign = function(intentName: string, labeledBy: string): void {
+  this.status = 'labeled';
+  this.label = intentName;
+  this.corrected = intentName !== this.predicted.name;
+  this.labeled_by = labeledBy;
+  this.labeled_at = new Date();
+};
+
+labelingTaskSchema.methods.proposeNewIntent = function(labeledBy: string, name?: string, note?: string): void {
+  this.status = 'new_intent';
+  this.label = name;
+  this.corrected = true;
+  this.note = note;
+  this.labeled_by = labeledBy;
+  this.labeled_at = new Date();
+};
+
+labelingTaskSchema.methods.dismiss = function(labeledBy: string, note?: string): void {
+  this.status = 'dismissed';
+  this.label = undefined;
+  this.corrected = undefined;
+  this.note = note;
+  this.labeled_by = labeledBy;
+  this.labeled_at = new Date();
+};
+
+// Static methods
+
+/**
+ * Queue a query for review, or add a reason to the task already queued for it
+ */
+labelingTaskSchema.statics.enqueue = function(source: LabelingTaskSource, reason: LabelingReason) {
+  return this.findOneAndUpdate(
+    { query_id: source.query_id },
+    {
+      $setOnInsert: {
+        enterprise_id: source.enterprise_id,
+        text: source.text,
+        language: source.language,
+        predicted: source.predicted,
+        status: 'pending',
+      },
+      $addToSet: { reasons: reason },
+    },
+    { upsert: true, new: true, runValidators: true, setDefaultsOnInsert: true }
+  );
+};
+
+/**
+ * Review outcomes per intent: how often reviewers confirmed it, how often they moved
+ * a query to it from another intent, and how often they moved one away from it
+ */
+labelingTaskSchema.statics.getCorrectionStats = async function(
+  enterpriseId: string | mongoose.Types.ObjectId,
+  since?: Date
+): Promise<CorrectionStats | undefined> {
+  const match: Record<string, unknown> = {
+    enterprise_id: new mongoose.Types.ObjectId(enterpriseId.toString()),
+  };
+  if (since) {
+    match.created_at = { $gte: since };
+  }
+
+  const [stats] = await this.aggregate<CorrectionStats>([
+    { $match: match },
+    {
+      $facet: {
+        by_status: [
+          { $group: { _id: '$status', total: { $sum: 1 } } },
+        ],
+        by_label: [
+          { $match: { status: 'labeled' } },
+          {
+            $group: {
+              _id: '$label',
+              labeled: { $sum: 1 },
+              corrections: { $sum: { $cond: ['$corrected', 1, 0] } },
+            },
+          },
+        ],
+        by_prediction: [
+          { $match: { status: { $in: ['labeled', 'new_intent'] }, corrected: true } },
+          { $group: { _id: '$predicted.name', corrected_away: { $sum: 1 } } },
+        ],
+      },
+    },
+  ]);
+
+  return stats;
+};
+
+// Define interface for static methods
+interface ILabelingTaskModel extends mongoose.Model<ILabelingTask> {
+  enqueue(source: LabelingTaskSource, reason: LabelingReason): Promise<ILabelingTask>;
+  getCorrectionStats(enterpriseId: string | mongoose.Types.ObjectId, since?: Date): Promise<CorrectionStats | undefined>;
+}
+
+export const LabelingTask = mongoose.model<ILabelingTask, ILabelingTaskModel>('LabelingTask', labelingTaskSchema);
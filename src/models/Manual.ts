@@ -221,4 +221,34 @@ manualSchema.statics.getProcessingStats = function(enterpriseId?: string | mongo
   ]);
 };
 
-export const Manual = mongoose.model<IManual>('Manual', manualSchema);
\ No newline at end of file
+/**
+ * Version string for an enterprise's manual corpus. It changes whenever a manual
+ * is added, reprocessed (status or chunk updates) or deleted.
+ */
+manualSchema.statics.getCorpusVersion = async function(enterpriseId: string | mongoose.Types.ObjectId): Promise<string> {
+  const [stats] = await this.aggregate([
+    { $match: { enterprise_id: new mongoose.Types.ObjectId(enterpriseId.toString()) } },
+    {
+      $group: {
+        _id: null,
+        count: { $sum: 1 },
+        latest: { $max: { $ifNull: ['$updated_at', '$uploaded_at'] } },
+      },
+    },
+  ]);
+
+  if (!stats) {
+    return '0';
+  }
+  return `${stats.count}:${new Date(stats.latest).getTime()}`;
+};
+
+// Define interface for static methods
+interface IManualModel extends mongoose.Model<IManual> {
+  findByEnterprise(enterpriseId: string | mongoose.Types.ObjectId, status?: string): Promise<IManual[]>;
+  findPendingProcessing(): Promise<IManual[]>;
+  getProcessingStats(enterpriseId?: string | mongoose.Types.ObjectId): Promise<any[]>;
+  getCorpusVersion(enterpriseId: string | mongoose.Types.ObjectId): Promise<string>;
+}
+
+export const Manual = mongoose.model<IManual, IManualModel>('Manual', manualSchema);
\ No newline at end of file
@@ -0,0 +1,144 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { BaseModel, validators, commonSchemaOptions } from './BaseModel';
+
+/**
+ * Locks an operator out of further queries about a machine after a critical
+ * query, until an enterprise admin releases it with a reason. A lockdown without
+ * a machine covers all of the operator's queries.
+ */
+export interface IOperatorLockdown extends Document {
+  enterprise_id: mongoose.Types.ObjectId;
+  operator_id: mongoose.Types.ObjectId;
+  machine?: string;
+  // The critical query and its alert
+  query_id?: mongoose.Types.ObjectId;
+  alert_id: mongoose.Types.ObjectId;
+  reason: string;
+  released_at?: Date;
+  released_by?: string;
+  release_reason?: string;
+  created_at: Date;
+  updated_at?: Date;
+
+  // Instance methods
+  isActive(): boolean;
+  release(releasedBy: string, reason: string): void;
+}
+
+const operatorLockdownSchema = new Schema<IOperatorLockdown>({
+  enterprise_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'Enterprise',
+    required: [true, 'Enterprise ID is required'],
+    validate: {
+      validator: validators.objectId.validator,
+      message: validators.objectId.message,
+    },
+  },
+  operator_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Operator ID is required'],
+    validate: {
+      validator: validators.objectId.validator,
+      message: validators.objectId.message,
+    },
+  },
+  machine: {
+    type: String,
+    trim: true,
+    lowercase: true,
+    maxlength: [100, 'Machine cannot exceed 100 characters'],
+  },
+  query_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'Query',
+  },
+  alert_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'Alert',
+    required: [true, 'Alert ID is required'],
+  },
+  reason: {
+    type: String,
+    required: [true, 'Lockdown reason is required'],
+    trim: true,
+    maxlength: [500, 'Lockdown reason cannot exceed 500 characters'],
+  },
+  released_at: {
+    type: Date,
+  },
+  released_by: {
+    type: String,
+    trim: true,
+  },
+  release_reason: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Release reason cannot exceed 500 characters'],
+  },
+}, commonSchemaOptions);
+
+// Add common functionality
+BaseModel.addCommonFields(operatorLockdownSchema);
+BaseModel.addAuditLogging(operatorLockdownSchema, 'OperatorLockdown');
+BaseModel.addValidationErrorHandling(operatorLockdownSchema);
+
+// Add indexes for optimal query performance
+BaseModel.addIndexes(operatorLockdownSchema, [
+  { fields: { enterprise_id: 1, operator_id: 1, released_at: 1 } },
+  { fields: { enterprise_id: 1, created_at: -1 } },
+  { fields: { alert_id: 1 } },
+]);
+
+// Pre-save middleware for validation
+operatorLockdownSchema.pre('save', function(next) {
+  // A release is only valid with who released it and why
+  if (this.released_at && (!this.released_by || !this.release_reason)) {
+    return next(new Error('released_by and release_reason must be set when a lockdown is released'));
+  }
+
+  next();
+});
+
+// Instance methods
+operatorLockdownSchema.methods.isActive = function(): boolean {
+  return !this.released_at;
+};
+
+operatorLockdownSchema.methods.release = function(releasedBy: string, reason: string): void {
+  this.released_at = new Date();
+  this.released_by = releasedBy;
+  this.release_reason = reason;
+};
+
+// Static methods
+
+/**
+ * The operator's active lockdown covering a machine: one on that machine, or one
+ * on all machines. Without a machine only lockdowns on all machines apply.
+ */
+operatorLockdownSchema.statics.findActive = function(
+  enterpriseId: string | mongoose.Types.ObjectId,
+  operatorId: string | mongoose.Types.ObjectId,
+  machine?: string
+) {
+  const machines = machine ? [machine.toLowerCase(), null] : [null];
+  return this.findOne({
+    enterprise_id: enterpriseId,
+    operator_id: operatorId,
+    released_at: { $exists: false },
+    machine: { $in: machines },
+  }).sort({ created_at: -1 });
+};
+
+// Define interface for static methods
+interface IOperatorLockdownModel extends mongoose.Model<IOperatorLockdown> {
+  findActive(
+    enterpriseId: string | mongoose.Types.ObjectId,
+    operatorId: string | mongoose.Types.ObjectId,
+    machine?: string
+  ): Promise<IOperatorLockdown | null>;
+}
+
+export const OperatorLockdown = mongoose.model<IOperatorLockdown, IOperatorLockdownModel>('OperatorLockdown', operatorLockdownSchema);
@@ -1,19 +1,41 @@
 import mongoose, { Schema, Document } from 'mongoose';
-import { IntentResult, RiskLevel } from '../types';
-import { BaseModel, validators, commonSchemaOptions } from './BaseModel';
+import { ClarificationOption, ClarificationReason, IntentResult, RiskExplanation, RiskLevel, SourceCitation } from '../types';
+import { BaseModel, validators, commonSchemaOptions, riskExplanationSchema } from './BaseModel';
+import { LANGUAGE_CODES, UNKNOWN_LANGUAGE } from '../utils/languages';
 
 export interface IQuery extends Document {
   enterprise_id: mongoose.Types.ObjectId;
   operator_id: mongoose.Types.ObjectId;
+  conversation_id?: mongoose.Types.ObjectId;
   data: {
     text: string;
     intent: IntentResult;
     confidence: number;
     risk: RiskLevel;
     blocked: boolean;
+    risk_explanation?: RiskExplanation;
     detected_language: string;
     processing_time_ms: number;
     response_text?: string;
+    sources: SourceCitation[];
+  };
+  feedback?: {
+    helpful: boolean;
+    correction_text?: string;
+    correct_chunk_id?: mongoose.Types.ObjectId;
+    submitted_by: string;
+    submitted_at: Date;
+  };
+  clarification?: {
+    reason: ClarificationReason;
+    question: string;
+    language: string;
+    options: ClarificationOption[];
+    status: 'pending' | 'resolved';
+    asked_at: Date;
+    selected_option_id?: string;
+    resolved_by?: string;
+    resolved_at?: Date;
   };
   created_at: Date;
   updated_at?: Date;
@@ -22,6 +44,33 @@ export interface IQuery extends Document {
   isHighRisk(): boolean;
   shouldCreateAlert(): boolean;
   getProcessingTimeSeconds(): number;
+  recordFeedback(feedback: {
+    helpful: boolean;
+    correction_text?: string;
+    correct_chunk_id?: string;
+    submitted_by: string;
+  }): void;
+  getPendingClarificationOption(optionId: string): ClarificationOption | undefined;
+  resolveClarification(optionId: string, resolvedBy: string): void;
+}
+
+/**
+ * Feedback counts of a group of queries
+ */
+export interface FeedbackCounts {
+  total: number;
+  helpful: number;
+  // Feedback with a correction written in
+  corrections: number;
+}
+
+/**
+ * Feedback counts overall (empty without feedback), per intent name and per cited manual
+ */
+export interface FeedbackReport {
+  overall: FeedbackCounts[];
+  by_intent: Array<FeedbackCounts & { _id: string }>;
+  by_manual: Array<FeedbackCounts & { _id: string; manual_name: string }>;
 }
 
 const querySchema = new Schema<IQuery>({
@@ -43,6 +92,10 @@ const querySchema = new Schema<IQuery>({
       message: validators.objectId.message,
     },
   },
+  conversation_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'Conversation',
+  },
   data: {
     text: {
       type: String,
@@ -96,14 +149,14 @@ const querySchema = new Schema<IQuery>({
       required: true,
       default: false,
     },
+    risk_explanation: riskExplanationSchema,
     detected_language: {
       type: String,
       required: [true, 'Detected language is required'],
       trim: true,
       validate: {
         validator: function(lang: string) {
-          const validLanguages = ['en', 'ta', 'tanglish', 'hi', 'es', 'fr', 'de', 'unknown'];
-          return validLanguages.includes(lang);
+          return lang === UNKNOWN_LANGUAGE || LANGUAGE_CODES.includes(lang);
         },
         message: 'Invalid language code',
       },
@@ -124,6 +177,133 @@ const querySchema = new Schema<IQuery>({
       trim: true,
       maxlength: [5000, 'Response text cannot exceed 5000 characters'],
     },
+    sources: [{
+      _id: false,
+      chunk_id: {
+        type: Schema.Types.ObjectId,
+        ref: 'Chunk',
+        required: [true, 'Source chunk ID is required'],
+      },
+      manual_id: {
+        type: Schema.Types.ObjectId,
+        ref: 'Manual',
+        required: [true, 'Source manual ID is required'],
+      },
+      manual_name: {
+        type: String,
+        required: [true, 'Source manual name is required'],
+        trim: true,
+        maxlength: [255, 'Manual name cannot exceed 255 characters'],
+      },
+      page_number: {
+        type: Number,
+        min: [1, 'Page number must be at least 1'],
+      },
+      section_title: {
+        type: String,
+        trim: true,
+        maxlength: [200, 'Section title cannot exceed 200 characters'],
+      },
+      start_position: {
+        type: Number,
+        min: [0, 'Start position must be non-negative'],
+      },
+      end_position: {
+        type: Number,
+        min: [0, 'End position must be non-negative'],
+      },
+      similarity: {
+        type: Number,
+        required: [true, 'Source similarity is required'],
+        min: [-1, 'Similarity must be between -1 and 1'],
+        max: [1, 'Similarity must be between -1 and 1'],
+      },
+    }],
+  },
+  feedback: {
+    type: new Schema({
+      helpful: {
+        type: Boolean,
+        required: [true, 'Feedback must say whether the answer was helpful'],
+      },
+      correction_text: {
+        type: String,
+        trim: true,
+        maxlength: [2000, 'Correction text cannot exceed 2000 characters'],
+      },
+      correct_chunk_id: {
+        type: Schema.Types.ObjectId,
+        ref: 'Chunk',
+      },
+      submitted_by: {
+        type: String,
+        required: [true, 'Feedback submitter is required'],
+        trim: true,
+      },
+      submitted_at: {
+        type: Date,
+        required: true,
+        default: Date.now,
+      },
+    }, { _id: false }),
+  },
+  clarification: {
+    type: new Schema({
+      reason: {
+        type: String,
+        required: true,
+        enum: {
+          values: ['low_confidence', 'tied_intents', 'ambiguous_machine'],
+          message: 'Clarification reason must be one of: low_confidence, tied_intents, ambiguous_machine',
+        },
+      },
+      question: {
+        type: String,
+        required: [true, 'Clarifying question is required'],
+        trim: true,
+        maxlength: [1000, 'Clarifying question cannot exceed 1000 characters'],
+      },
+      language: {
+        type: String,
+        required: true,
+        trim: true,
+      },
+      options: {
+        type: [{
+          _id: false,
+          id: { type: String, required: true },
+          kind: { type: String, required: true, enum: ['intent', 'manual'] },
+          value: { type: String, required: true },
+          label: { type: String, required: true, trim: true, maxlength: 255 },
+          confidence: { type: Number, required: true, min: -1, max: 1 },
+        }],
+        validate: {
+          validator: (options: unknown[]) => options.length >= 2,
+          message: 'A clarifying question needs at least two options',
+        },
+      },
+      status: {
+        type: String,
+        required: true,
+        enum: ['pending', 'resolved'],
+        default: 'pending',
+      },
+      asked_at: {
+        type: Date,
+        required: true,
+        default: Date.now,
+      },
+      selected_option_id: {
+        type: String,
+      },
+      resolved_by: {
+        type: String,
+        trim: true,
+      },
+      resolved_at: {
+        type: Date,
+      },
+    }, { _id: false }),
   },
 }, commonSchemaOptions);
 
@@ -142,6 +322,9 @@ BaseModel.addIndexes(querySchema, [
   { fields: { created_at: -1 } },
   { fields: { enterprise_id: 1, 'data.risk': 1, created_at: -1 } }, // Compound index for enterprise risk queries
   { fields: { 'data.blocked': 1, 'data.risk': 1 } }, // Index for blocked high-risk queries
+  { fields: { conversation_id: 1, created_at: 1 } },
+  { fields: { enterprise_id: 1, 'feedback.helpful': 1, created_at: -1 } },
+  { fields: { enterprise_id: 1, 'clarification.status': 1, created_at: -1 } },
 ]);
 
 // Pre-save middleware for validation
@@ -172,6 +355,43 @@ querySchema.methods.getProcessingTimeSeconds = function(): number {
   return this.data.processing_time_ms / 1000;
 };
 
+querySchema.methods.recordFeedback = function(feedback: {
+  helpful: boolean;
+  correction_text?: string;
+  correct_chunk_id?: string;
+  submitted_by: string;
+}): void {
+  this.feedback = {
+    helpful: feedback.helpful,
+    correction_text: feedback.correction_text || undefined,
+    correct_chunk_id: feedback.correct_chunk_id
+      ? new mongoose.Types.ObjectId(feedback.correct_chunk_id)
+      : undefined,
+    submitted_by: feedback.submitted_by,
+    submitted_at: new Date(),
+  };
+};
+
+/**
+ * The offered option with this ID, if the query is still waiting for the operator's choice
+ */
+querySchema.methods.getPendingClarificationOption = function(optionId: string): ClarificationOption | undefined {
+  if (this.clarification?.status !== 'pending') {
+    return undefined;
+  }
+  return this.clarification.options.find((option: ClarificationOption) => option.id === optionId);
+};
+
+querySchema.methods.resolveClarification = function(optionId: string, resolvedBy: string): void {
+  if (!this.clarification) {
+    throw new Error('Query has no clarifying question to resolve');
+  }
+  this.clarification.status = 'resolved';
+  this.clarification.selected_option_id = optionId;
+  this.clarification.resolved_by = resolvedBy;
+  this.clarification.resolved_at = new Date();
+};
+
 // Static methods
 querySchema.statics.findByEnterprise = function(enterpriseId: string | mongoose.Types.ObjectId, options: any = {}) {
   const query = this.find({ enterprise_id: enterpriseId });
@@ -217,11 +437,71 @@ querySchema.statics.getQueryStats = function(enterpriseId: string | mongoose.Typ
   ]);
 };
 
+/**
+ * Satisfaction counts from operator feedback, grouped by intent and by cited manual.
+ * A query citing several chunks of one manual counts once for that manual.
+ */
+querySchema.statics.getFeedbackReport = async function(
+  enterpriseId: string | mongoose.Types.ObjectId,
+  since?: Date
+): Promise<FeedbackReport | undefined> {
+  const match: Record<string, unknown> = {
+    enterprise_id: new mongoose.Types.ObjectId(enterpriseId.toString()),
+    feedback: { $exists: true },
+  };
+  if (since) {
+    match.created_at = { $gte: since };
+  }
+
+  const helpful = { $sum: { $cond: ['$feedback.helpful', 1, 0] } };
+  const corrections = {
+    $sum: { $cond: [{ $gt: [{ $strLenCP: { $ifNull: ['$feedback.correction_text', ''] } }, 0] }, 1, 0] },
+  };
+
+  const [report] = await this.aggregate<FeedbackReport>([
+    { $match: match },
+    {
+      $facet: {
+        overall: [
+          { $group: { _id: null, total: { $sum: 1 }, helpful, corrections } },
+        ],
+        by_intent: [
+          { $group: { _id: '$data.intent.name', total: { $sum: 1 }, helpful, corrections } },
+          { $sort: { total: -1 } },
+        ],
+        by_manual: [
+          { $unwind: '$data.sources' },
+          {
+            $group: {
+              _id: { query: '$_id', manual: '$data.sources.manual_id' },
+              manual_name: { $first: '$data.sources.manual_name' },
+              feedback: { $first: '$feedback' },
+            },
+          },
+          {
+            $group: {
+              _id: '$_id.manual',
+              manual_name: { $first: '$manual_name' },
+              total: { $sum: 1 },
+              helpful,
+              corrections,
+            },
+          },
+          { $sort: { total: -1 } },
+        ],
+      },
+    },
+  ]);
+
+  return report;
+};
+
 // Define interface for static methods
 interface IQueryModel extends mongoose.Model<IQuery> {
   findByEnterprise(enterpriseId: string | mongoose.Types.ObjectId, options?: any): Promise<IQuery[]>;
   findHighRiskQueries(enterpriseId?: string | mongoose.Types.ObjectId): Promise<IQuery[]>;
   getQueryStats(enterpriseId: string | mongoose.Types.ObjectId): Promise<any[]>;
+  getFeedbackReport(enterpriseId: string | mongoose.Types.ObjectId, since?: Date): Promise<FeedbackReport | undefined>;
 }
 
 export const Query = mongoose.model<IQuery, IQueryModel>('Query', querySchema);
\ No newline at end of file
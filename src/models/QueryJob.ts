@@ -0,0 +1,225 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { QueryResponse } from '../types';
+import { BaseModel, validators, commonSchemaOptions } from './BaseModel';
+
+export type QueryJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export const TERMINAL_JOB_STATUSES: QueryJobStatus[] = ['completed', 'failed', 'cancelled'];
+
+export interface IQueryJob extends Document {
+  enterprise_id: mongoose.Types.ObjectId;
+  operator_id: mongoose.Types.ObjectId;
+  trace_id: string;
+  status: QueryJobStatus;
+  request: {
+    input_text?: string;
+    // Audio is kept in GridFS, since a 50MB recording does not fit in a document
+    audio_file_id?: mongoose.Types.ObjectId;
+    language: string;
+    conversation_id?: mongoose.Types.ObjectId;
+  };
+  result?: QueryResponse;
+  error?: {
+    code: string;
+    message: string;
+  };
+  attempts: number;
+  lease_expires_at?: Date;
+  started_at?: Date;
+  finished_at?: Date;
+  created_at: Date;
+  updated_at?: Date;
+
+  // Instance methods
+  isTerminal(): boolean;
+}
+
+const queryJobSchema = new Schema<IQueryJob>({
+  enterprise_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'Enterprise',
+    required: [true, 'Enterprise ID is required'],
+    validate: {
+      validator: validators.objectId.validator,
+      message: validators.objectId.message,
+    },
+  },
+  operator_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Operator ID is required'],
+    validate: {
+      validator: validators.objectId.validator,
+      message: validators.objectId.message,
+    },
+  },
+  trace_id: {
+    type: String,
+    required: [true, 'Trace ID is required'],
+    trim: true,
+  },
+  status: {
+    type: String,
+    required: true,
+    enum: {
+      values: ['queued', 'running', 'completed', 'failed', 'cancelled'],
+      message: 'Status must be one of: queued, running, completed, failed, cancelled',
+    },
+    default: 'queued',
+  },
+  request: {
+    input_text: {
+      type: String,
+      trim: true,
+      maxlength: [5000, 'Query text cannot exceed 5000 characters'],
+    },
+    audio_file_id: {
+      type: Schema.Types.ObjectId,
+    },
+    language: {
+      type: String,
+      required: true,
+      default: 'auto',
+    },
+    conversation_id: {
+      type: Schema.Types.ObjectId,
+      ref: 'Conversation',
+    },
+  },
+  result: {
+    type: Schema.Types.Mixed,
+  },
+  error: {
+    code: {
+      type: String,
+      trim: true,
+    },
+    message: {
+      type: String,
+      trim: true,
+      maxlength: [1000, 'Error message cannot exceed 1000 characters'],
+    },
+  },
+  attempts: {
+    type: Number,
+    required: true,
+    default: 0,
+    min: [0, 'Attempts cannot be negative'],
+  },
+  lease_expires_at: {
+    type: Date,
+  },
+  started_at: {
+    type: Date,
+  },
+  finished_at: {
+    type: Date,
+  },
+}, commonSchemaOptions);
+
+// Add common functionality
+BaseModel.addCommonFields(queryJobSchema);
+BaseModel.addAuditLogging(queryJobSchema, 'QueryJob');
+BaseModel.addValidationErrorHandling(queryJobSchema);
+
+// Add indexes for optimal query performance
+BaseModel.addIndexes(queryJobSchema, [
+  { fields: { status: 1, created_at: 1 } },
+  { fields: { status: 1, lease_expires_at: 1 } },
+  { fields: { enterprise_id: 1, operator_id: 1, created_at: -1 } },
+]);
+
+// Validate that a job has something to process
+queryJobSchema.pre('save', function(next) {
+  if (!this.request.input_text && !this.request.audio_file_id) {
+    return next(new Error('Query job requires input text or audio'));
+  }
+  next();
+});
+
+// Instance methods
+queryJobSchema.methods.isTerminal = function(): boolean {
+  return TERMINAL_JOB_STATUSES.includes(this.status);
+};
+
+// Static methods
+
+/**
+ * Atomically claim the oldest runnable job: a queued one, or a running one whose
+ * worker stopped renewing its lease (e.g. the server restarted mid-query).
+ */
+queryJobSchema.statics.claimNext = function(leaseMs: number) {
+  const now = new Date();
+  return this.findOneAndUpdate(
+    {
+      $or: [
+        { status: 'queued' },
+        { status: 'running', lease_expires_at: { $lt: now } },
+      ],
+    },
+    {
+      $set: {
+        status: 'running',
+        started_at: now,
+        lease_expires_at: new Date(now.getTime() + leaseMs),
+      },
+      $inc: { attempts: 1 },
+    },
+    { sort: { created_at: 1 }, new: true }
+  );
+};
+
+/**
+ * Move a running job to a final state. Returns null when the job is no longer
+ * running, e.g. because it was cancelled meanwhile.
+ */
+queryJobSchema.statics.finish = function(
+  jobId: string | mongoose.Types.ObjectId,
+  update: { status: QueryJobStatus; result?: QueryResponse; error?: { code: string; message: string } }
+) {
+  return this.findOneAndUpdate(
+    { _id: jobId, status: 'running' },
+    {
+      $set: { ...update, finished_at: new Date() },
+      $unset: { lease_expires_at: 1 },
+    },
+    { new: true }
+  );
+};
+
+/**
+ * Cancel a job that has not finished yet. Returns null when it already finished.
+ */
+queryJobSchema.statics.cancel = function(jobId: string | mongoose.Types.ObjectId) {
+  return this.findOneAndUpdate(
+    { _id: jobId, status: { $in: ['queued', 'running'] } },
+    {
+      $set: { status: 'cancelled', finished_at: new Date() },
+      $unset: { lease_expires_at: 1 },
+    },
+    { new: true }
+  );
+};
+
+/**
+ * Extend the lease of a job that is still being worked on
+ */
+queryJobSchema.statics.renewLease = function(jobId: string | mongoose.Types.ObjectId, leaseMs: number) {
+  return this.updateOne(
+    { _id: jobId, status: 'running' },
+    { $set: { lease_expires_at: new Date(Date.now() + leaseMs) } }
+  );
+};
+
+// Define interface for static methods
+interface IQueryJobModel extends mongoose.Model<IQueryJob> {
+  claimNext(leaseMs: number): Promise<IQueryJob | null>;
+  finish(
+    jobId: string | mongoose.Types.ObjectId,
+    update: { status: QueryJobStatus; result?: QueryResponse; error?: { code: string; message: string } }
+  ): Promise<IQueryJob | null>;
+  cancel(jobId: string | mongoose.Types.ObjectId): Promise<IQueryJob | null>;
+  renewLease(jobId: string | mongoose.Types.ObjectId, leaseMs: number): Promise<unknown>;
+}
+
+export const QueryJob = mongoose.model<IQueryJob, IQueryJobModel>('QueryJob', queryJobSchema);
@@ -0,0 +1,219 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { RiskLevel } from '../types';
+import { BaseModel, validators, commonSchemaOptions } from './BaseModel';
+
+/**
+ * Version of the rule format. Stored with every rule set, so rules written for
+ * an older format can be recognised and migrated.
+ */
+export const RISK_RULE_FORMAT = 1;
+
+export type MeasuredQuantity = 'temperature' | 'pressure' | 'speed' | 'voltage' | 'current' | 'percent';
+
+/**
+ * Conditions of a risk rule. A rule matches when every condition it sets holds;
+ * list conditions hold when any of their entries matches.
+ */
+export interface RiskRuleConditions {
+  intent?: string[];
+  min_confidence?: number;
+  max_confidence?: number;
+  language?: string[];
+  // Machine names or types, e.g. "press" for any press
+  machine?: string[];
+  // Bounds on a value mentioned in the text; every bound given must hold
+  value?: {
+    quantity: MeasuredQuantity;
+    gt?: number;
+    gte?: number;
+    lt?: number;
+    lte?: number;
+  };
+  // Local time window as "HH:MM", wrapping past midnight when `to` is before `from`
+  time?: {
+    from: string;
+    to: string;
+    // IANA time zone, UTC by default
+    timezone?: string;
+  };
+}
+
+/**
+ * Enterprise risk rule: raises matching queries to at least `level`
+ */
+export interface RiskRuleSpec {
+  id: string;
+  description?: string;
+  level: RiskLevel;
+  when: RiskRuleConditions;
+}
+
+/**
+ * A published version of an enterprise's risk rules. Versions are never edited:
+ * publishing creates the next version, and the highest version is the one in force.
+ */
+export interface IRiskRuleSet extends Document {
+  enterprise_id: mongoose.Types.ObjectId;
+  version: number;
+  format: number;
+  rules: RiskRuleSpec[];
+  comment?: string;
+  created_by: string;
+  created_at: Date;
+  updated_at?: Date;
+}
+
+const valueConditionSchema = new Schema({
+  quantity: {
+    type: String,
+    required: [true, 'Measured quantity is required'],
+    enum: {
+      values: ['temperature', 'pressure', 'speed', 'voltage', 'current', 'percent'],
+      message: 'Quantity must be one of: temperature, pressure, speed, voltage, current, percent',
+    },
+  },
+  gt: Number,
+  gte: Number,
+  lt: Number,
+  lte: Number,
+}, { _id: false });
+
+const timeConditionSchema = new Schema({
+  from: {
+    type: String,
+    required: [true, 'Time window start is required'],
+    match: [/^([01]\d|2[0-3]):([0-5]\d)$/, 'Time must use HH:MM'],
+  },
+  to: {
+    type: String,
+    required: [true, 'Time window end is required'],
+    match: [/^([01]\d|2[0-3]):([0-5]\d)$/, 'Time must use HH:MM'],
+  },
+  timezone: {
+    type: String,
+    trim: true,
+  },
+}, { _id: false });
+
+const riskRuleSchema = new Schema({
+  id: {
+    type: String,
+    required: [true, 'Rule ID is required'],
+    trim: true,
+    maxlength: [100, 'Rule ID cannot exceed 100 characters'],
+    match: [/^[a-z][a-z0-9_]*$/, 'Rule ID must be snake_case'],
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Rule description cannot exceed 500 characters'],
+  },
+  level: {
+    type: String,
+    required: [true, 'Rule risk level is required'],
+    enum: {
+      values: ['low', 'medium', 'high', 'critical'],
+      message: 'Risk level must be one of: low, medium, high, critical',
+    },
+  },
+  when: {
+    intent: [{ type: String, trim: true }],
+    min_confidence: { type: Number, min: 0, max: 1 },
+    max_confidence: { type: Number, min: 0, max: 1 },
+    language: [{ type: String, trim: true }],
+    machine: [{ type: String, trim: true, lowercase: true }],
+    value: valueConditionSchema,
+    time: timeConditionSchema,
+  },
+}, { _id: false });
+
+const riskRuleSetSchema = new Schema<IRiskRuleSet>({
+  enterprise_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'Enterprise',
+    required: [true, 'Enterprise ID is required'],
+    validate: {
+      validator: validators.objectId.validator,
+      message: validators.objectId.message,
+    },
+  },
+  version: {
+    type: Number,
+    required: [true, 'Version is required'],
+    min: [1, 'Version must be at least 1'],
+  },
+  format: {
+    type: Number,
+    required: [true, 'Rule format is required'],
+    enum: {
+      values: [RISK_RULE_FORMAT],
+      message: 'Unsupported rule format',
+    },
+  },
+  rules: {
+    type: [riskRuleSchema],
+    validate: {
+      validator: (rules: unknown[]) => rules.length <= 200,
+      message: 'A rule set cannot have more than 200 rules',
+    },
+  },
+  comment: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Comment cannot exceed 500 characters'],
+  },
+  created_by: {
+    type: String,
+    required: [true, 'Creator is required'],
+    trim: true,
+  },
+}, commonSchemaOptions);
+
+// Add common functionality
+BaseModel.addCommonFields(riskRuleSetSchema);
+BaseModel.addAuditLogging(riskRuleSetSchema, 'RiskRuleSet');
+BaseModel.addValidationErrorHandling(riskRuleSetSchema);
+
+// Add indexes for optimal query performance
+BaseModel.addIndexes(riskRuleSetSchema, [
+  { fields: { enterprise_id: 1, version: -1 }, options: { unique: true } },
+]);
+
+// Static methods
+
+/**
+ * The rule set in force for an enterprise: its latest version
+ */
+riskRuleSetSchema.statics.findActive = function(enterpriseId: string | mongoose.Types.ObjectId) {
+  return this.findOne({ enterprise_id: enterpriseId }).sort({ version: -1 });
+};
+
+/**
+ * Publish rules as the enterprise's next version. Two concurrent publishes
+ * cannot both take the same version: the second fails on the unique index.
+ */
+riskRuleSetSchema.statics.publish = async function(
+  enterpriseId: string | mongoose.Types.ObjectId,
+  set: { format: number; rules: RiskRuleSpec[]; comment?: string },
+  createdBy: string
+) {
+  const latest = await this.findOne({ enterprise_id: enterpriseId }).sort({ version: -1 }).select('version');
+  return this.create({
+    enterprise_id: enterpriseId,
+    version: (latest?.version ?? 0) + 1,
+    ...set,
+    created_by: createdBy,
+  });
+};
+
+// Define interface for static methods
+interface IRiskRuleSetModel extends mongoose.Model<IRiskRuleSet> {
+  findActive(enterpriseId: string | mongoose.Types.ObjectId): Promise<IRiskRuleSet | null>;
+  publish(
+    enterpriseId: string | mongoose.Types.ObjectId,
+    set: { format: number; rules: RiskRuleSpec[]; comment?: string },
+    createdBy: string
+  ): Promise<IRiskRuleSet>;
+}
+
+export const RiskRuleSet = mongoose.model<IRiskRuleSet, IRiskRuleSetModel>('RiskRuleSet', riskRuleSetSchema);
@@ -160,11 +160,17 @@ vectorSchema.statics.findSimilar = function(
   queryEmbedding: number[],
   enterpriseId: string | mongoose.Types.ObjectId,
   limit: number = 10,
-  threshold: number = 0.5
+  threshold: number = 0.5,
+  modelVersion?: string
 ) {
   // Note: This is a basic implementation. In production, you'd want to use
-  // a proper vector database or MongoDB's vector search capabilities
-  return this.find({ enterprise_id: enterpriseId })
+  // a proper vector database or MongoDB's vector search capabilities.
+  // Embeddings of different models are not comparable, so callers pass their model.
+  const filter: Record<string, unknown> = { enterprise_id: enterpriseId };
+  if (modelVersion) {
+    filter.model_version = modelVersion;
+  }
+  return this.find(filter)
     .populate('chunk_id')
     .then((vectors: any[]) => {
       const similarities = vectors.map(vector => ({
@@ -227,7 +233,7 @@ vectorSchema.statics.getVectorStats = function(enterpriseId?: string | mongoose.
 interface IVectorModel extends mongoose.Model<IVector> {
   findByEnterprise(enterpriseId: string | mongoose.Types.ObjectId): Promise<IVector[]>;
   findByModel(modelVersion: string, enterpriseId?: string | mongoose.Types.ObjectId): Promise<IVector[]>;
-  findSimilar(queryEmbedding: number[], enterpriseId: string | mongoose.Types.ObjectId, limit?: number, threshold?: number): Promise<any[]>;
+  findSimilar(queryEmbedding: number[], enterpriseId: string | mongoose.Types.ObjectId, limit?: number, threshold?: number, modelVersion?: string): Promise<any[]>;
   getVectorStats(enterpriseId?: string | mongoose.Types.ObjectId): Promise<any[]>;
 }
 
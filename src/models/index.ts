@@ -2,13 +2,34 @@
 export { Enterprise, IEnterprise } from './Enterprise';
 export { User, IUser } from './User';
 export { Query, IQuery } from './Query';
-export { Alert, IAlert } from './Alert';
+export { Alert, IAlert, LockdownEvent } from './Alert';
 export { Manual, IManual } from './Manual';
 export { Chunk, IChunk } from './Chunk';
 export { Vector, IVector } from './Vector';
+export { Conversation, IConversation } from './Conversation';
+export { QueryJob, IQueryJob, QueryJobStatus, TERMINAL_JOB_STATUSES } from './QueryJob';
+export { IntentOverride, IIntentOverride, IntentOverrideSpec, IntentExampleSource } from './IntentOverride';
+export {
+  RiskRuleSet,
+  IRiskRuleSet,
+  RiskRuleSpec,
+  RiskRuleConditions,
+  MeasuredQuantity,
+  RISK_RULE_FORMAT
+} from './RiskRuleSet';
+export { OperatorLockdown, IOperatorLockdown } from './OperatorLockdown';
+export {
+  LabelingTask,
+  ILabelingTask,
+  LabelingTaskSource,
+  LabelingReason,
+  LabelingStatus,
+  LABELING_REASONS,
+  LABELING_STATUSES
+} from './LabelingTask';
 
 // Export base model and utilities
-export { BaseModel, validators, commonSchemaOptions } from './BaseModel';
+export { BaseModel, validators, commonSchemaOptions, riskExplanationSchema } from './BaseModel';
 
 // Export database utilities
 export { 
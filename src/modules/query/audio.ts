@@ -0,0 +1,44 @@
+import mongoose from 'mongoose';
+
+/**
+ * GridFS storage for query audio waiting to be processed.
+ * Recordings can be far larger than the 16MB document limit.
+ */
+export class AudioStore {
+  private static readonly BUCKET_NAME = 'query_audio';
+
+  private getBucket(): mongoose.mongo.GridFSBucket {
+    return new mongoose.mongo.GridFSBucket(mongoose.connection.db, { bucketName: AudioStore.BUCKET_NAME });
+  }
+
+  /**
+   * Store base64 audio and return its file ID
+   */
+  async save(audioBase64: string, filename: string): Promise<mongoose.Types.ObjectId> {
+    const upload = this.getBucket().openUploadStream(filename);
+    await new Promise<void>((resolve, reject) => {
+      upload.once('finish', () => resolve());
+      upload.once('error', reject);
+      upload.end(Buffer.from(audioBase64, 'base64'));
+    });
+    return upload.id as mongoose.Types.ObjectId;
+  }
+
+  /**
+   * Load stored audio as base64
+   */
+  async load(fileId: mongoose.Types.ObjectId): Promise<string> {
+    const chunks: Buffer[] = [];
+    const download = this.getBucket().openDownloadStream(fileId);
+    await new Promise<void>((resolve, reject) => {
+      download.on('data', (chunk: Buffer) => chunks.push(chunk));
+      download.once('end', () => resolve());
+      download.once('error', reject);
+    });
+    return Buffer.concat(chunks).toString('base64');
+  }
+
+  async remove(fileId: mongoose.Types.ObjectId): Promise<void> {
+    await this.getBucket().delete(fileId);
+  }
+}
@@ -0,0 +1,142 @@
+import { contentTokens } from './embeddings';
+
+/**
+ * Character n-gram lengths used as Naive Bayes features
+ */
+export interface NgramRange {
+  min: number;
+  max: number;
+}
+
+/**
+ * A labeled training text
+ */
+export interface LabeledText {
+  label: string;
+  text: string;
+}
+
+/**
+ * Naive Bayes prediction for a text
+ */
+export interface NaiveBayesPrediction {
+  // Posterior probability of each label, summing to 1
+  probabilities: Map<string, number>;
+  // Share of the text's longest n-grams seen in training: low for text unlike anything
+  // trained on, where the posterior is only a guess among the labels
+  coverage: number;
+}
+
+/**
+ * Character n-grams of each content word, padded with word boundaries. Character
+ * features cope with the spelling variation of romanized Tamil ("varuthu",
+ * "varudhu") and with suffixes glued to words ("machine-la", "sensor-a").
+ */
+export function charNgrams(text: string, range: NgramRange): string[] {
+  const ngrams: string[] = [];
+
+  for (const token of contentTokens(text.normalize('NFC'))) {
+    const padded = ` ${token} `;
+    const chars = Array.from(padded);
+    for (let n = range.min; n <= range.max; n++) {
+      for (let i = 0; i + n <= chars.length; i++) {
+        ngrams.push(chars.slice(i, i + n).join(''));
+      }
+    }
+  }
+
+  return ngrams;
+}
+
+function countNgrams(ngrams: string[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const ngram of ngrams) {
+    counts.set(ngram, (counts.get(ngram) ?? 0) + 1);
+  }
+  return counts;
+}
+
+interface LabelModel {
+  documents: number;
+  total: number;
+  counts: Map<string, number>;
+}
+
+/**
+ * Multinomial Naive Bayes over character n-grams with Laplace smoothing.
+ * Trains in a single pass over the texts, so it is cheap to rebuild whenever
+ * the intent catalogue changes.
+ */
+export class NaiveBayesClassifier {
+  private readonly labels = new Map<string, LabelModel>();
+  private readonly vocabulary = new Map<string, number>();
+  private documents = 0;
+
+  constructor(
+    private readonly range: NgramRange = { min: 2, max: 4 },
+    private readonly smoothing: number = 1
+  ) {}
+
+  train(texts: LabeledText[]): this {
+    for (const { label, text } of texts) {
+      const model = this.labels.get(label) ?? { documents: 0, total: 0, counts: new Map<string, number>() };
+      for (const [ngram, count] of countNgrams(charNgrams(text, this.range))) {
+        model.counts.set(ngram, (model.counts.get(ngram) ?? 0) + count);
+        model.total += count;
+        this.vocabulary.set(ngram, (this.vocabulary.get(ngram) ?? 0) + count);
+      }
+      model.documents++;
+      this.labels.set(label, model);
+      this.documents++;
+    }
+    return this;
+  }
+
+  /**
+   * Posterior label probabilities for a text. With `exclude`, the prediction is
+   * made as if that training text had never been seen, for leave-one-out estimates.
+   */
+  predict(text: string, exclude?: LabeledText): NaiveBayesPrediction {
+    const query = countNgrams(charNgrams(text, this.range));
+    const removed = exclude ? countNgrams(charNgrams(exclude.text, this.range)) : new Map<string, number>();
+    const removedTotal = [...removed.values()].reduce((sum, count) => sum + count, 0);
+
+    const vocabularyCount = (ngram: string) => (this.vocabulary.get(ngram) ?? 0) - (removed.get(ngram) ?? 0);
+    const vocabularySize = exclude
+      ? [...this.vocabulary.keys()].filter(ngram => vocabularyCount(ngram) > 0).length
+      : this.vocabulary.size;
+    const documents = this.documents - (exclude ? 1 : 0);
+
+    const logPosteriors = new Map<string, number>();
+    for (const [label, model] of this.labels) {
+      const own = exclude?.label === label;
+      const labelDocuments = model.documents - (own ? 1 : 0);
+      if (labelDocuments <= 0) continue;
+
+      const total = model.total - (own ? removedTotal : 0);
+      const denominator = total + this.smoothing * (vocabularySize + 1);
+      let logPosterior = Math.log(labelDocuments / documents);
+
+      for (const [ngram, count] of query) {
+        const seen = (model.counts.get(ngram) ?? 0) - (own ? removed.get(ngram) ?? 0 : 0);
+        logPosterior += count * Math.log((seen + this.smoothing) / denominator);
+      }
+      logPosteriors.set(label, logPosterior);
+    }
+
+    // Normalize in log space, since the raw likelihoods underflow for longer texts
+    const max = Math.max(...logPosteriors.values());
+    const exponentials = [...logPosteriors].map(([label, value]) => [label, Math.exp(value - max)] as const);
+    const sum = exponentials.reduce((total, [, value]) => total + value, 0);
+
+    // Short n-grams like "th" occur in almost any text, so only the longest tell familiar from not
+    const longest = [...query].filter(([ngram]) => Array.from(ngram).length === this.range.max);
+    const queryTotal = longest.reduce((total, [, count]) => total + count, 0);
+    const known = longest.reduce((total, [ngram, count]) => total + (vocabularyCount(ngram) > 0 ? count : 0), 0);
+
+    return {
+      probabilities: new Map(exponentials.map(([label, value]) => [label, value / sum])),
+      coverage: queryTotal === 0 ? 0 : known / queryTotal,
+    };
+  }
+}
@@ -0,0 +1,165 @@
+import { Manual } from '../../models/Manual';
+import { config } from '../../config/environment';
+import { tokenize } from './embeddings';
+import { RetrievedChunk } from './retrieval';
+import { ComposedAnswer } from './composer';
+
+/**
+ * What a cached answer depends on, besides the enterprise's manual corpus version
+ */
+export interface AnswerCacheKey {
+  enterprise_id: string;
+  text: string;
+  language: string;
+  machine?: string;
+  manual_id?: string;
+}
+
+/**
+ * Retrieval and composition output reused for a repeated question
+ */
+export interface CachedAnswer {
+  chunks: RetrievedChunk[];
+  answer: ComposedAnswer;
+}
+
+/**
+ * Result of a cache lookup. The corpus version must be passed back when storing,
+ * so an answer computed while manuals were changing is never stored under the new version.
+ */
+export interface AnswerCacheLookup {
+  corpus_version: string;
+  value?: CachedAnswer;
+}
+
+/**
+ * Cache counters reported by the health check
+ */
+export interface AnswerCacheStats {
+  hits: number;
+  misses: number;
+  hit_rate: number;
+  size: number;
+  max_entries: number;
+}
+
+interface CacheEntry {
+  enterprise_id: string;
+  value: CachedAnswer;
+  expires_at: number;
+}
+
+/**
+ * In-memory LRU cache of manual answers, scoped per enterprise.
+ * Entries are keyed by the enterprise's manual corpus version, and all of an
+ * enterprise's entries are dropped as soon as that version changes.
+ */
+export class AnswerCache {
+  private readonly entries = new Map<string, CacheEntry>();
+  private readonly corpusVersions = new Map<string, string>();
+  private hits = 0;
+  private misses = 0;
+
+  constructor(
+    private readonly maxEntries: number = config.answerCache.maxEntries,
+    private readonly ttlMs: number = config.answerCache.ttlMs
+  ) {}
+
+  /**
+   * Normalize query text so trivially different phrasings share an entry
+   */
+  static normalize(text: string): string {
+    return tokenize(text).join(' ');
+  }
+
+  /**
+   * Look up a cached answer against the enterprise's current manual corpus
+   */
+  async get(key: AnswerCacheKey): Promise<AnswerCacheLookup> {
+    const corpusVersion = await Manual.getCorpusVersion(key.enterprise_id);
+    if (this.corpusVersions.get(key.enterprise_id) !== corpusVersion) {
+      this.invalidateEnterprise(key.enterprise_id);
+      this.corpusVersions.set(key.enterprise_id, corpusVersion);
+    }
+
+    const cacheKey = this.buildKey(key, corpusVersion);
+    const entry = this.entries.get(cacheKey);
+    if (!entry || entry.expires_at <= Date.now()) {
+      if (entry) this.entries.delete(cacheKey);
+      this.misses++;
+      return { corpus_version: corpusVersion };
+    }
+
+    // Re-insert to mark as most recently used
+    this.entries.delete(cacheKey);
+    this.entries.set(cacheKey, entry);
+    this.hits++;
+    return { corpus_version: corpusVersion, value: entry.value };
+  }
+
+  /**
+   * Store an answer computed against the given corpus version
+   */
+  set(key: AnswerCacheKey, corpusVersion: string, value: CachedAnswer): void {
+    if (this.corpusVersions.get(key.enterprise_id) !== corpusVersion) {
+      return;
+    }
+
+    const cacheKey = this.buildKey(key, corpusVersion);
+    this.entries.delete(cacheKey);
+    this.entries.set(cacheKey, {
+      enterprise_id: key.enterprise_id,
+      value,
+      expires_at: Date.now() + this.ttlMs,
+    });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  /**
+   * Drop all cached answers of an enterprise
+   */
+  invalidateEnterprise(enterpriseId: string): void {
+    for (const [cacheKey, entry] of this.entries) {
+      if (entry.enterprise_id === enterpriseId) {
+        this.entries.delete(cacheKey);
+      }
+    }
+    this.corpusVersions.delete(enterpriseId);
+  }
+
+  getStats(): AnswerCacheStats {
+    const lookups = this.hits + this.misses;
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      hit_rate: lookups === 0 ? 0 : Math.round((this.hits / lookups) * 1000) / 1000,
+      size: this.entries.size,
+      max_entries: this.maxEntries,
+    };
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.corpusVersions.clear();
+    this.hits = 0;
+    this.misses = 0;
+  }
+
+  private buildKey(key: AnswerCacheKey, corpusVersion: string): string {
+    return [
+      key.enterprise_id,
+      corpusVersion,
+      key.language,
+      key.machine ?? '',
+      key.manual_id ?? '',
+      AnswerCache.normalize(key.text),
+    ].join('|');
+  }
+}
+
+// Shared cache used by the query pipeline and reported by the health check
+export const answerCache = new AnswerCache();
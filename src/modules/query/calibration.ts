@@ -0,0 +1,71 @@
+/**
+ * A raw classifier score and whether the prediction it came with was right
+ */
+export interface CalibrationSample {
+  score: number;
+  correct: boolean;
+}
+
+/**
+ * Platt scaling: maps raw scores to the probability that a prediction is right,
+ * `1 / (1 + exp(-(slope * score + offset)))`, fitted by logistic regression.
+ */
+export class PlattCalibration {
+  // Fewer right or wrong samples than this cannot say where the boundary lies
+  private static readonly MIN_SAMPLES_PER_CLASS = 2;
+  private static readonly ITERATIONS = 100;
+
+  constructor(readonly slope: number, readonly offset: number) {}
+
+  apply(score: number): number {
+    return 1 / (1 + Math.exp(-(this.slope * score + this.offset)));
+  }
+
+  /**
+   * Fit to samples with Newton's method, using Platt's smoothed targets so that a
+   * perfectly separable sample does not push the curve to a step. Returns null
+   * when the samples are too few or too one-sided to fit, or the fit would rank
+   * higher scores as less likely to be right.
+   */
+  static fit(samples: CalibrationSample[]): PlattCalibration | null {
+    const positives = samples.filter(sample => sample.correct).length;
+    const negatives = samples.length - positives;
+    if (positives < this.MIN_SAMPLES_PER_CLASS || negatives < this.MIN_SAMPLES_PER_CLASS) {
+      return null;
+    }
+
+    const high = (positives + 1) / (positives + 2);
+    const low = 1 / (negatives + 2);
+    const targets = samples.map(sample => (sample.correct ? high : low));
+
+    let slope = 0;
+    let offset = Math.log((positives + 1) / (negatives + 1));
+    for (let iteration = 0; iteration < this.ITERATIONS; iteration++) {
+      // Gradient and Hessian of the cross-entropy, with a small ridge for stability
+      let gradSlope = 0, gradOffset = 0;
+      let hSlope = 1e-6, hOffset = 1e-6, hCross = 0;
+      samples.forEach((sample, index) => {
+        const p = 1 / (1 + Math.exp(-(slope * sample.score + offset)));
+        const error = p - targets[index];
+        const weight = p * (1 - p);
+        gradSlope += error * sample.score;
+        gradOffset += error;
+        hSlope += weight * sample.score * sample.score;
+        hOffset += weight;
+        hCross += weight * sample.score;
+      });
+
+      const determinant = hSlope * hOffset - hCross * hCross;
+      if (Math.abs(determinant) < 1e-12) break;
+      const stepSlope = (hOffset * gradSlope - hCross * gradOffset) / determinant;
+      const stepOffset = (hSlope * gradOffset - hCross * gradSlope) / determinant;
+      slope -= stepSlope;
+      offset -= stepOffset;
+      if (Math.abs(stepSlope) < 1e-9 && Math.abs(stepOffset) < 1e-9) break;
+    }
+
+    return Number.isFinite(slope) && Number.isFinite(offset) && slope > 0
+      ? new PlattCalibration(slope, offset)
+      : null;
+  }
+}
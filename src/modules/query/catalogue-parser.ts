@@ -0,0 +1,266 @@
+import { createHash } from 'crypto';
+import { readFileSync } from 'fs';
+import path from 'path';
+import { isMap, isScalar, isSeq, LineCounter, Node, parseDocument } from 'yaml';
+import { LANGUAGE_CODES } from '../../utils/languages';
+import { IntentConfig, RiskLevel } from '../../types';
+import { UNKNOWN_INTENT } from './intent';
+import { RISK_ORDER, riskRank } from './risk';
+
+/**
+ * Languages an intent may have responses and labels for
+ */
+export const CATALOGUE_LANGUAGES = LANGUAGE_CODES;
+
+// Catalogue shipped with the source, next to src/ and dist/ alike
+export const BUNDLED_CATALOGUE_PATH = path.resolve(__dirname, '../../../config/intents.yml');
+
+/**
+ * A validated intent catalogue
+ */
+export interface IntentCatalogue {
+  version: string;
+  // Short content hash, so two files declaring the same version can still be told apart
+  checksum: string;
+  intents: IntentConfig[];
+}
+
+/**
+ * A problem found in a catalogue file, with its 1-based position
+ */
+export interface CatalogueIssue {
+  line: number;
+  column: number;
+  path: string;
+  message: string;
+}
+
+export class IntentCatalogueError extends Error {
+  public readonly issues: CatalogueIssue[];
+
+  constructor(source: string, issues: CatalogueIssue[]) {
+    const lines = issues.map(issue =>
+      `  line ${issue.line}, column ${issue.column}${issue.path ? ` (${issue.path})` : ''}: ${issue.message}`
+    );
+    super(`Invalid intent catalogue ${source}:\n${lines.join('\n')}`);
+    this.name = 'IntentCatalogueError';
+    this.issues = issues;
+  }
+}
+
+const INTENT_NAME_PATTERN = /^[a-z][a-z0-9_]*$/;
+const TOP_LEVEL_KEYS = ['version', 'intents'];
+const INTENT_KEYS = ['name', 'examples', 'responses', 'labels', 'risk', 'block_threshold'];
+// Only high and critical queries may be blocked (enforced by the Query model)
+const BLOCKING_LEVELS: RiskLevel[] = ['high', 'critical'];
+
+/**
+ * Collects issues while walking a parsed document
+ */
+class CatalogueValidator {
+  readonly issues: CatalogueIssue[] = [];
+
+  constructor(private readonly lineCounter: LineCounter) {}
+
+  report(node: Node | null | undefined, path: string, message: string): void {
+    const offset = node?.range?.[0] ?? 0;
+    const { line, col } = this.lineCounter.linePos(offset);
+    this.issues.push({ line, column: col, path, message });
+  }
+
+  /**
+   * A non-empty trimmed string, or undefined after reporting the problem
+   */
+  string(node: unknown, path: string, parent: Node | null): string | undefined {
+    if (!isScalar(node) || typeof node.value !== 'string' && typeof node.value !== 'number') {
+      this.report((node as Node) ?? parent, path, 'must be a string');
+      return undefined;
+    }
+    const value = String(node.value).trim();
+    if (!value) {
+      this.report(node, path, 'must not be empty');
+      return undefined;
+    }
+    return value;
+  }
+
+  /**
+   * A map of language code to text
+   */
+  languageMap(node: unknown, path: string, parent: Node | null, requireEnglish: boolean): Record<string, string> | undefined {
+    if (!isMap(node)) {
+      this.report((node as Node) ?? parent, path, 'must be a map of language code to text');
+      return undefined;
+    }
+
+    const result: Record<string, string> = {};
+    for (const pair of node.items) {
+      const language = isScalar(pair.key) ? String(pair.key.value) : '';
+      if (!CATALOGUE_LANGUAGES.includes(language)) {
+        this.report(pair.key as Node, `${path}.${language}`, `unknown language "${language}", expected one of: ${CATALOGUE_LANGUAGES.join(', ')}`);
+        continue;
+      }
+      const text = this.string(pair.value, `${path}.${language}`, pair.key as Node);
+      if (text !== undefined) {
+        result[language] = text;
+      }
+    }
+
+    if (requireEnglish && !('en' in result) && !node.items.some(pair => isScalar(pair.key) && pair.key.value === 'en')) {
+      this.report(node, path, 'must include an English ("en") entry as the fallback');
+    }
+    return result;
+  }
+
+  riskLevel(node: unknown, path: string, parent: Node | null): RiskLevel | undefined {
+    const value = this.string(node, path, parent);
+    if (value === undefined) return undefined;
+
+    if (!RISK_ORDER.includes(value as RiskLevel)) {
+      this.report(node as Node, path, `must be one of: ${RISK_ORDER.join(', ')}`);
+      return undefined;
+    }
+    return value as RiskLevel;
+  }
+
+  rejectUnknownKeys(node: Node & { items: Array<{ key: unknown }> }, allowed: string[], path: string): void {
+    for (const pair of node.items) {
+      const key = isScalar(pair.key) ? String(pair.key.value) : String(pair.key);
+      if (!allowed.includes(key)) {
+        this.report(pair.key as Node, path ? `${path}.${key}` : key, `unknown field "${key}", expected one of: ${allowed.join(', ')}`);
+      }
+    }
+  }
+
+  intent(node: unknown, path: string, parent: Node): IntentConfig | undefined {
+    if (!isMap(node)) {
+      this.report((node as Node) ?? parent, path, 'must be a map');
+      return undefined;
+    }
+    this.rejectUnknownKeys(node, INTENT_KEYS, path);
+    const field = (key: string) => node.get(key, true) as Node | undefined;
+    const issuesBefore = this.issues.length;
+
+    const name = this.string(field('name'), `${path}.name`, node);
+    if (name !== undefined && !INTENT_NAME_PATTERN.test(name)) {
+      this.report(field('name'), `${path}.name`, 'must be snake_case, e.g. "machine_not_starting"');
+    }
+    if (name === UNKNOWN_INTENT) {
+      this.report(field('name'), `${path}.name`, `"${UNKNOWN_INTENT}" is reserved for unclassified queries`);
+    }
+
+    const examplesNode = field('examples');
+    const examples: string[] = [];
+    if (!isSeq(examplesNode) || examplesNode.items.length === 0) {
+      this.report(examplesNode ?? node, `${path}.examples`, 'must be a non-empty list of example questions');
+    } else {
+      const seen = new Set<string>();
+      examplesNode.items.forEach((item, index) => {
+        const example = this.string(item, `${path}.examples[${index}]`, examplesNode);
+        if (example === undefined) return;
+        if (seen.has(example.toLowerCase())) {
+          this.report(item as Node, `${path}.examples[${index}]`, `duplicate example "${example}"`);
+          return;
+        }
+        seen.add(example.toLowerCase());
+        examples.push(example);
+      });
+    }
+
+    const responses = this.languageMap(field('responses'), `${path}.responses`, node, true);
+    const labels = field('labels') === undefined
+      ? undefined
+      : this.languageMap(field('labels'), `${path}.labels`, node, false);
+    const risk = this.riskLevel(field('risk'), `${path}.risk`, node);
+
+    let blockThreshold: RiskLevel | undefined;
+    if (field('block_threshold') !== undefined) {
+      blockThreshold = this.riskLevel(field('block_threshold'), `${path}.block_threshold`, node);
+      if (blockThreshold && !BLOCKING_LEVELS.includes(blockThreshold)) {
+        this.report(field('block_threshold'), `${path}.block_threshold`, `must be one of: ${BLOCKING_LEVELS.join(', ')}`);
+      } else if (blockThreshold && risk && riskRank(blockThreshold) > riskRank(risk)) {
+        this.report(field('block_threshold'), `${path}.block_threshold`, `is above the intent's ${risk} risk and would never block`);
+      }
+    }
+
+    if (this.issues.length > issuesBefore || !name || !responses || !risk) {
+      return undefined;
+    }
+    return {
+      name,
+      examples,
+      responses,
+      ...(labels && { labels }),
+      risk,
+      ...(blockThreshold && { block_threshold: blockThreshold }),
+    };
+  }
+}
+
+/**
+ * Parse and strictly validate an intent catalogue. Every problem found is reported
+ * with its line and column, not just the first one.
+ */
+export function parseIntentCatalogue(text: string, source: string = 'intents.yml'): IntentCatalogue {
+  const lineCounter = new LineCounter();
+  const document = parseDocument(text, { lineCounter, prettyErrors: true, uniqueKeys: true });
+
+  if (document.errors.length > 0) {
+    throw new IntentCatalogueError(source, document.errors.map(error => ({
+      line: error.linePos?.[0].line ?? 1,
+      column: error.linePos?.[0].col ?? 1,
+      path: '',
+      message: error.message.split('\n')[0],
+    })));
+  }
+
+  const validator = new CatalogueValidator(lineCounter);
+  const root = document.contents;
+  if (!isMap(root)) {
+    validator.report(root, '', 'catalogue must be a map with "version" and "intents"');
+    throw new IntentCatalogueError(source, validator.issues);
+  }
+  validator.rejectUnknownKeys(root, TOP_LEVEL_KEYS, '');
+
+  const version = validator.string(root.get('version', true), 'version', root);
+
+  const intentsNode = root.get('intents', true);
+  const intents: IntentConfig[] = [];
+  if (!isSeq(intentsNode) || intentsNode.items.length === 0) {
+    validator.report((intentsNode as Node) ?? root, 'intents', 'must be a non-empty list of intents');
+  } else {
+    const names = new Map<string, number>();
+    intentsNode.items.forEach((item, index) => {
+      const intent = validator.intent(item, `intents[${index}]`, intentsNode);
+      if (!intent) return;
+
+      if (names.has(intent.name)) {
+        validator.report((item as Node), `intents[${index}].name`, `duplicate intent "${intent.name}", first defined at intents[${names.get(intent.name)}]`);
+        return;
+      }
+      names.set(intent.name, index);
+      intents.push(intent);
+    });
+  }
+
+  if (validator.issues.length > 0 || version === undefined) {
+    throw new IntentCatalogueError(source, validator.issues);
+  }
+
+  return {
+    version,
+    checksum: createHash('sha256').update(text).digest('hex').slice(0, 12),
+    intents,
+  };
+}
+
+let bundledIntents: IntentConfig[] | undefined;
+
+/**
+ * Intents of the catalogue shipped with the source, read on first use. Used when
+ * no catalogue file is found, and by scripts and tests that need no configured one.
+ */
+export function getBundledIntents(): IntentConfig[] {
+  bundledIntents ??= parseIntentCatalogue(readFileSync(BUNDLED_CATALOGUE_PATH, 'utf8'), BUNDLED_CATALOGUE_PATH).intents;
+  return bundledIntents;
+}
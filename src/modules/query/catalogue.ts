@@ -0,0 +1,167 @@
+import { existsSync, readFileSync, unwatchFile, watchFile } from 'fs';
+import { config } from '../../config/environment';
+import { logger } from '../../utils/logger';
+import { IntentConfig } from '../../types';
+import {
+  CatalogueIssue,
+  IntentCatalogue,
+  IntentCatalogueError,
+  getBundledIntents,
+  parseIntentCatalogue,
+} from './catalogue-parser';
+
+// Parsing needs no server configuration, so offline jobs import it from catalogue-parser directly
+export {
+  BUNDLED_CATALOGUE_PATH,
+  CATALOGUE_LANGUAGES,
+  CatalogueIssue,
+  IntentCatalogue,
+  IntentCatalogueError,
+  getBundledIntents,
+  parseIntentCatalogue,
+} from './catalogue-parser';
+
+/**
+ * Catalogue state reported by the health check
+ */
+export interface IntentCatalogueStatus {
+  source: string;
+  version: string;
+  checksum: string;
+  intents: number;
+  loaded_at?: string;
+  // Why the last reload was rejected; the previous catalogue stays in use
+  last_error?: {
+    message: string;
+    issues: CatalogueIssue[];
+    at: string;
+  };
+}
+
+/**
+ * Loads the intent catalogue from a YAML file and reloads it when the file changes.
+ * An invalid edit is rejected and logged with its line numbers, and the previous
+ * catalogue stays in use, so a typo never takes intents offline. Without a file,
+ * the bundled catalogue is used.
+ */
+export class IntentCatalogueLoader {
+  private catalogue?: IntentCatalogue;
+  private loadedAt?: Date;
+  private lastError?: IntentCatalogueStatus['last_error'];
+  private watching = false;
+  private readonly listeners: Array<(catalogue: IntentCatalogue) => void> = [];
+
+  constructor(
+    private readonly filePath: string = config.intents.catalogPath,
+    private readonly reloadIntervalMs: number = config.intents.reloadIntervalMs
+  ) {}
+
+  /**
+   * Intents of the current catalogue, loading it on first use
+   */
+  getIntents(): IntentConfig[] {
+    return this.getCatalogue().intents;
+  }
+
+  getCatalogue(): IntentCatalogue {
+    if (!this.catalogue) {
+      this.load();
+    }
+    return this.catalogue!;
+  }
+
+  /**
+   * Read and validate the file, replacing the current catalogue.
+   * Throws IntentCatalogueError when the file is invalid.
+   */
+  load(): IntentCatalogue {
+    if (!existsSync(this.filePath)) {
+      if (!this.catalogue) {
+        logger.warn('Intent catalogue file not found, using bundled intents', { source: this.filePath });
+        this.catalogue = { version: 'builtin', checksum: 'builtin', intents: getBundledIntents() };
+        this.loadedAt = new Date();
+      }
+      return this.catalogue;
+    }
+
+    const catalogue = parseIntentCatalogue(readFileSync(this.filePath, 'utf8'), this.filePath);
+    const changed = catalogue.checksum !== this.catalogue?.checksum;
+    this.catalogue = catalogue;
+    this.loadedAt = new Date();
+    this.lastError = undefined;
+
+    if (changed) {
+      logger.info('Intent catalogue loaded', {
+        source: this.filePath,
+        version: catalogue.version,
+        checksum: catalogue.checksum,
+        intents: catalogue.intents.length,
+      });
+      this.listeners.forEach(listener => listener(catalogue));
+    }
+    return catalogue;
+  }
+
+  /**
+   * Reload, keeping the current catalogue if the file is invalid
+   */
+  reload(): boolean {
+    try {
+      this.load();
+      return true;
+    } catch (error) {
+      const issues = error instanceof IntentCatalogueError ? error.issues : [];
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      this.lastError = { message: message.split('\n')[0], issues, at: new Date().toISOString() };
+      logger.error('Intent catalogue reload rejected, keeping the previous version', {
+        source: this.filePath,
+        version: this.catalogue?.version,
+        error: message,
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Reload whenever the file changes. Polls the file, which also survives
+   * editors that save by replacing it.
+   */
+  watch(): void {
+    if (this.watching) return;
+    this.watching = true;
+
+    watchFile(this.filePath, { interval: this.reloadIntervalMs, persistent: false }, (current, previous) => {
+      if (current.mtimeMs !== previous.mtimeMs || current.size !== previous.size) {
+        this.reload();
+      }
+    });
+  }
+
+  unwatch(): void {
+    if (!this.watching) return;
+    unwatchFile(this.filePath);
+    this.watching = false;
+  }
+
+  /**
+   * Register a callback for every newly loaded catalogue
+   */
+  onChange(listener: (catalogue: IntentCatalogue) => void): void {
+    this.listeners.push(listener);
+  }
+
+  getStatus(): IntentCatalogueStatus {
+    const catalogue = this.catalogue;
+    return {
+      source: this.filePath,
+      version: catalogue?.version ?? 'not_loaded',
+      checksum: catalogue?.checksum ?? '',
+      intents: catalogue?.intents.length ?? 0,
+      loaded_at: this.loadedAt?.toISOString(),
+      last_error: this.lastError,
+    };
+  }
+}
+
+// Shared catalogue used by the query pipeline and reported by the health check
+export const intentCatalogue = new IntentCatalogueLoader();
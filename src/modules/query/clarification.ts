@@ -0,0 +1,174 @@
+import { config } from '../../config/environment';
+import { ClarificationOption, ClarificationReason, ClarificationRequest, IntentCandidate, IntentConfig } from '../../types';
+import { localized } from '../../utils/languages';
+import { UNKNOWN_INTENT } from './intent';
+import { RetrievedChunk } from './retrieval';
+
+/**
+ * Per-language wording of clarifying questions.
+ * `{options}` is replaced with the candidate labels joined by `separator` and `or`.
+ */
+export interface ClarificationTemplate {
+  intent_question: string;
+  machine_question: string;
+  separator: string;
+  or: string;
+}
+
+/**
+ * Clarification policy thresholds
+ */
+export interface ClarificationPolicyOptions {
+  templates?: Record<string, ClarificationTemplate>;
+  minConfidence?: number;
+  tieMargin?: number;
+  minOptionConfidence?: number;
+  maxOptions?: number;
+}
+
+export const DEFAULT_CLARIFICATION_TEMPLATES: Record<string, ClarificationTemplate> = {
+  en: {
+    intent_question: 'I am not sure I understood. Is your question about {options}?',
+    machine_question: 'Which machine do you mean: {options}?',
+    separator: ', ',
+    or: ' or ',
+  },
+  ta: {
+    intent_question: 'உங்கள் கேள்வி சரியாகப் புரியவில்லை. இது {options} பற்றியதா?',
+    machine_question: 'எந்த இயந்திரத்தைக் குறிப்பிடுகிறீர்கள்: {options}?',
+    separator: ', ',
+    or: ' அல்லது ',
+  },
+  tanglish: {
+    intent_question: 'Unga kelvi sariya puriyala. Idhu {options} pathiyaa?',
+    machine_question: 'Endha machine pathi kekkureenga: {options}?',
+    separator: ', ',
+    or: ' illa ',
+  },
+};
+
+/**
+ * Decides when a query is too ambiguous to answer and builds the question to ask instead:
+ * when the top intent is weak, when two intents are nearly tied, or when the best manual
+ * passages come from different machines' manuals and the operator did not name one.
+ */
+export class ClarificationPolicy {
+  private readonly templates: Record<string, ClarificationTemplate>;
+  private readonly minConfidence: number;
+  private readonly tieMargin: number;
+  private readonly minOptionConfidence: number;
+  private readonly maxOptions: number;
+
+  constructor(options: ClarificationPolicyOptions = {}) {
+    this.templates = options.templates ?? DEFAULT_CLARIFICATION_TEMPLATES;
+    this.minConfidence = options.minConfidence ?? config.clarification.minConfidence;
+    this.tieMargin = options.tieMargin ?? config.clarification.tieMargin;
+    this.minOptionConfidence = options.minOptionConfidence ?? config.clarification.minOptionConfidence;
+    this.maxOptions = options.maxOptions ?? config.clarification.maxOptions;
+  }
+
+  getTemplate(language: string): ClarificationTemplate {
+    return localized(this.templates, language) ?? DEFAULT_CLARIFICATION_TEMPLATES.en;
+  }
+
+  /**
+   * Ask which intent was meant when the ranked candidates are too weak or too close to call.
+   * Returns null when the top intent is clear, or when there are not two plausible candidates.
+   */
+  forIntents(
+    candidates: IntentCandidate[],
+    language: string,
+    getIntent: (name: string) => IntentConfig | undefined
+  ): ClarificationRequest | null {
+    const plausible = candidates.filter(candidate =>
+      candidate.name !== UNKNOWN_INTENT && candidate.confidence >= this.minOptionConfidence
+    );
+    if (plausible.length < 2) {
+      return null;
+    }
+
+    const [best, runnerUp] = plausible;
+    let reason: ClarificationReason;
+    let offered: IntentCandidate[];
+    if (best.confidence < this.minConfidence) {
+      reason = 'low_confidence';
+      offered = plausible;
+    } else if (best.confidence - runnerUp.confidence <= this.tieMargin) {
+      reason = 'tied_intents';
+      offered = plausible.filter(candidate => best.confidence - candidate.confidence <= this.tieMargin);
+    } else {
+      return null;
+    }
+
+    const options = offered.slice(0, this.maxOptions).map((candidate, index): ClarificationOption => {
+      const labels = getIntent(candidate.name)?.labels;
+      return {
+        id: String(index + 1),
+        kind: 'intent',
+        value: candidate.name,
+        label: (labels && localized(labels, language)) ?? candidate.name.replace(/_/g, ' '),
+        confidence: candidate.confidence,
+      };
+    });
+
+    return this.build(reason, options, this.getTemplate(language).intent_question, language);
+  }
+
+  /**
+   * Ask which machine was meant when the best passages come from several manuals
+   * that match about equally well. Returns null when one manual clearly fits.
+   */
+  forSources(chunks: RetrievedChunk[], language: string): ClarificationRequest | null {
+    const manuals = new Map<string, { name: string; similarity: number }>();
+    for (const chunk of chunks) {
+      const current = manuals.get(chunk.manual_id);
+      if (!current || chunk.similarity > current.similarity) {
+        manuals.set(chunk.manual_id, { name: chunk.manual_name, similarity: chunk.similarity });
+      }
+    }
+
+    const ranked = [...manuals.entries()]
+      .map(([manualId, manual]) => ({ manualId, ...manual }))
+      .filter(manual => manual.similarity >= config.answers.minSimilarity)
+      .sort((a, b) => b.similarity - a.similarity);
+    if (ranked.length < 2 || ranked[0].similarity - ranked[1].similarity > this.tieMargin) {
+      return null;
+    }
+
+    const options = ranked
+      .filter(manual => ranked[0].similarity - manual.similarity <= this.tieMargin)
+      .slice(0, this.maxOptions)
+      .map((manual, index): ClarificationOption => ({
+        id: String(index + 1),
+        kind: 'manual',
+        value: manual.manualId,
+        label: ClarificationPolicy.machineLabel(manual.name),
+        confidence: manual.similarity,
+      }));
+
+    return this.build('ambiguous_machine', options, this.getTemplate(language).machine_question, language);
+  }
+
+  /**
+   * Readable machine name from a manual file name, e.g. "hydraulic-press_manual.pdf" → "hydraulic press manual"
+   */
+  static machineLabel(manualName: string): string {
+    const label = manualName.replace(/\.[a-z0-9]+$/i, '').replace(/[-_]+/g, ' ').trim();
+    return label || manualName;
+  }
+
+  private build(
+    reason: ClarificationReason,
+    options: ClarificationOption[],
+    question: string,
+    language: string
+  ): ClarificationRequest {
+    const template = this.getTemplate(language);
+    const labels = options.map(option => option.label);
+    const listed = labels.length > 1
+      ? `${labels.slice(0, -1).join(template.separator)}${template.or}${labels[labels.length - 1]}`
+      : labels[0];
+
+    return { reason, question: question.replace('{options}', listed), options };
+  }
+}
@@ -0,0 +1,231 @@
+import { config } from '../../config/environment';
+import { localized } from '../../utils/languages';
+import { SourceCitation } from '../../types';
+import { EmbeddingService } from './embeddings';
+import { RetrievedChunk, toSourceCitation } from './retrieval';
+
+/**
+ * Per-language wording wrapped around extracted manual text.
+ * `{manual}` in the intro is replaced with the cited manual names.
+ */
+export interface AnswerTemplate {
+  intro: string;
+  outro: string;
+  not_found: string;
+}
+
+/**
+ * Answer composer dependencies and tuning options
+ */
+export interface AnswerComposerOptions {
+  templates?: Record<string, AnswerTemplate>;
+  minSimilarity?: number;
+  maxSentences?: number;
+  maxLength?: number;
+}
+
+/**
+ * A composed answer and the manual chunks it was taken from
+ */
+export interface ComposedAnswer {
+  text: string;
+  sources: SourceCitation[];
+  // False when the manuals could not answer and a fallback message was used
+  found: boolean;
+}
+
+export const DEFAULT_ANSWER_TEMPLATES: Record<string, AnswerTemplate> = {
+  en: {
+    intro: 'From {manual}:',
+    outro: 'Follow your site safety rules. If anything looks different from the manual, stop and ask your supervisor.',
+    not_found: 'I could not find this in your manuals. Please contact your supervisor.',
+  },
+  ta: {
+    intro: '{manual} கையேட்டின்படி:',
+    outro: 'உங்கள் பணியிட பாதுகாப்பு விதிகளைப் பின்பற்றவும். கையேட்டில் உள்ளதிலிருந்து ஏதேனும் வேறுபட்டால், வேலையை நிறுத்திவிட்டு உங்கள் மேற்பார்வையாளரிடம் கேளுங்கள்.',
+    not_found: 'இதை உங்கள் கையேடுகளில் கண்டுபிடிக்க முடியவில்லை. உங்கள் மேற்பார்வையாளரைத் தொடர்பு கொள்ளவும்.',
+  },
+  tanglish: {
+    intro: '{manual} manual padi:',
+    outro: 'Site safety rules-a follow pannunga. Manual-la irukradhu maadhiri illana, velaiya niruthitu supervisor-kitta kelunga.',
+    not_found: 'Idhu unga manuals-la kidaikkala. Supervisor-a contact pannunga.',
+  },
+};
+
+/**
+ * A sentence or procedure step extracted from a chunk
+ */
+interface AnswerUnit {
+  chunk: number;
+  position: number;
+  text: string;
+  step?: number;
+  procedure?: number;
+  score: number;
+}
+
+// "1. Remove the cover", "2) Release pressure", "Step 3: Lock out"
+const STEP_PATTERN = /^(?:step\s*)?(\d{1,2})\s*[.):]\s+\S/iu;
+const INLINE_STEP_PATTERN = /\s+(?=(?:step\s*)?\d{1,2}[.)]\s+\p{L})/giu;
+const SENTENCE_BOUNDARY = /(?<=[.!?।])\s+(?=\S)/u;
+
+/**
+ * Builds operator answers from retrieved manual chunks without a language model:
+ * picks the sentences most similar to the question, keeps numbered procedure
+ * steps together and in order, and wraps them in localized templates.
+ */
+export class AnswerComposer {
+  private static readonly MAX_PROCEDURE_STEPS = 12;
+
+  private readonly templates: Record<string, AnswerTemplate>;
+  private readonly minSimilarity: number;
+  private readonly maxSentences: number;
+  private readonly maxLength: number;
+
+  constructor(private readonly embeddings: EmbeddingService, options: AnswerComposerOptions = {}) {
+    this.templates = options.templates ?? DEFAULT_ANSWER_TEMPLATES;
+    this.minSimilarity = options.minSimilarity ?? config.answers.minSimilarity;
+    this.maxSentences = options.maxSentences ?? config.answers.maxSentences;
+    this.maxLength = options.maxLength ?? config.answers.maxLength;
+  }
+
+  /**
+   * Get the template for a language, falling back to the language's fallbacks, then English
+   */
+  getTemplate(language: string): AnswerTemplate {
+    return localized(this.templates, language) ?? DEFAULT_ANSWER_TEMPLATES.en;
+  }
+
+  /**
+   * Localized message used when the manuals cannot answer a question
+   */
+  notFound(language: string): ComposedAnswer {
+    return { text: this.getTemplate(language).not_found, sources: [], found: false };
+  }
+
+  /**
+   * Compose an answer to a question from its retrieved chunks
+   */
+  async compose(question: string, chunks: RetrievedChunk[], language: string): Promise<ComposedAnswer> {
+    const relevant = chunks.filter(chunk => chunk.similarity >= this.minSimilarity);
+    if (relevant.length === 0) {
+      return this.notFound(language);
+    }
+
+    const units = this.splitUnits(relevant);
+    if (units.length === 0) {
+      return this.notFound(language);
+    }
+
+    await this.scoreUnits(question, units, relevant);
+    const selected = this.selectUnits(units);
+
+    const usedChunks = [...new Set(selected.map(unit => unit.chunk))].map(index => relevant[index]);
+    const manualNames = [...new Set(usedChunks.map(chunk => chunk.manual_name))];
+    const template = this.getTemplate(language);
+
+    const text = [
+      template.intro.replace('{manual}', manualNames.join(', ')),
+      ...selected.map(unit => unit.text),
+      template.outro,
+    ].join('\n');
+
+    return { text, sources: usedChunks.map(toSourceCitation), found: true };
+  }
+
+  /**
+   * Split chunks into sentences, keeping each numbered step as a single unit
+   */
+  private splitUnits(chunks: RetrievedChunk[]): AnswerUnit[] {
+    const units: AnswerUnit[] = [];
+    let procedure = 0;
+
+    chunks.forEach((chunk, chunkIndex) => {
+      const text = (chunk.text.match(INLINE_STEP_PATTERN) ?? []).length >= 2
+        ? chunk.text.replace(INLINE_STEP_PATTERN, '\n')
+        : chunk.text;
+
+      let previousStep: number | undefined;
+      let position = 0;
+
+      for (const line of text.split(/\r?\n/).map(value => value.trim()).filter(Boolean)) {
+        const match = line.match(STEP_PATTERN);
+        if (match) {
+          const step = parseInt(match[1], 10);
+          if (previousStep === undefined || step <= previousStep) {
+            procedure++;
+          }
+          previousStep = step;
+          units.push({ chunk: chunkIndex, position: position++, text: line, step, procedure, score: 0 });
+          continue;
+        }
+
+        previousStep = undefined;
+        for (const sentence of line.split(SENTENCE_BOUNDARY).map(value => value.trim()).filter(Boolean)) {
+          units.push({ chunk: chunkIndex, position: position++, text: sentence, score: 0 });
+        }
+      }
+    });
+
+    return units;
+  }
+
+  /**
+   * Score units by similarity to the question, weighted by their chunk's similarity
+   */
+  private async scoreUnits(question: string, units: AnswerUnit[], chunks: RetrievedChunk[]): Promise<void> {
+    const [questionEmbedding, ...unitEmbeddings] = await this.embeddings.embed([
+      question,
+      ...units.map(unit => unit.text),
+    ]);
+
+    units.forEach((unit, index) => {
+      unit.score = this.embeddings.similarity(questionEmbedding, unitEmbeddings[index]) * chunks[unit.chunk].similarity;
+    });
+  }
+
+  /**
+   * Pick the best units, expand selected steps to their whole procedure and restore document order
+   */
+  private selectUnits(units: AnswerUnit[]): AnswerUnit[] {
+    let best = units
+      .filter(unit => unit.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, this.maxSentences);
+
+    // Nothing overlaps the question (e.g. it was asked in another language): lead with the top chunk
+    if (best.length === 0) {
+      best = units.filter(unit => unit.chunk === 0).slice(0, this.maxSentences);
+    }
+
+    const procedures = new Set(best.filter(unit => unit.procedure !== undefined).map(unit => unit.procedure));
+    const chosen = new Set(best);
+    for (const procedure of procedures) {
+      units
+        .filter(unit => unit.procedure === procedure)
+        .slice(0, AnswerComposer.MAX_PROCEDURE_STEPS)
+        .forEach(unit => chosen.add(unit));
+    }
+
+    const ordered = [...chosen].sort((a, b) => {
+      if (a.chunk !== b.chunk) return a.chunk - b.chunk;
+      if (a.procedure !== undefined && a.procedure === b.procedure) return a.step! - b.step!;
+      return a.position - b.position;
+    });
+
+    const seen = new Set<string>();
+    const selected: AnswerUnit[] = [];
+    let length = 0;
+    for (const unit of ordered) {
+      const key = unit.text.toLowerCase().replace(/\s+/g, ' ');
+      if (seen.has(key)) continue;
+      if (selected.length > 0 && length + unit.text.length > this.maxLength) break;
+
+      seen.add(key);
+      selected.push(unit);
+      length += unit.text.length + 1;
+    }
+
+    return selected;
+  }
+}
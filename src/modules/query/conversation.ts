@@ -0,0 +1,115 @@
+import { IConversation } from '../../models/Conversation';
+import { IntentResult } from '../../types';
+import { tokenize } from './embeddings';
+import { UNKNOWN_INTENT } from './intent';
+
+/**
+ * Machine names recognised in operator questions, longest phrases first
+ */
+export const MACHINE_TERMS: string[] = [
+  'injection moulding machine',
+  'injection molding machine',
+  'milling machine',
+  'hydraulic press',
+  'cnc lathe',
+  'power press',
+  'air compressor',
+  'conveyor belt',
+  'compressor',
+  'conveyor',
+  'lathe',
+  'press',
+  'boiler',
+  'furnace',
+  'grinder',
+  'cnc',
+];
+
+/**
+ * Words that refer back to something said in an earlier turn
+ */
+const REFERENCE_WORDS = new Set([
+  'it', 'its', 'this', 'that', 'they', 'them', 'those', 'these', 'same', 'also', 'then', 'again',
+  'adhu', 'athu', 'idhu', 'ithu', 'andha', 'antha', 'indha', 'intha', 'apram', 'aprom',
+]);
+
+/**
+ * Follow-ups are usually short; longer questions are treated as new topics
+ */
+const MAX_FOLLOW_UP_TOKENS = 6;
+
+/**
+ * Query after resolution against earlier conversation turns
+ */
+export interface ResolvedQuery {
+  is_follow_up: boolean;
+  retrieval_text: string;
+  machine?: string;
+  manual_id?: string;
+}
+
+/**
+ * Resolves follow-up questions against the context of earlier turns
+ */
+export class ConversationResolver {
+  /**
+   * Find the machine mentioned in a text, if any
+   */
+  static detectMachine(text: string): string | undefined {
+    const normalized = ` ${tokenize(text).join(' ')} `;
+    return MACHINE_TERMS.find(term => normalized.includes(` ${term} `));
+  }
+
+  /**
+   * Decide whether a text continues the conversation rather than starting a new topic
+   */
+  static isFollowUp(text: string, conversation?: IConversation | null): boolean {
+    if (!conversation || conversation.query_ids.length === 0) {
+      return false;
+    }
+
+    if (this.detectMachine(text)) {
+      return false;
+    }
+
+    const tokens = tokenize(text);
+    return tokens.length <= MAX_FOLLOW_UP_TOKENS || tokens.some(token => REFERENCE_WORDS.has(token));
+  }
+
+  /**
+   * Resolve a text against the conversation, carrying machine and manual forward for follow-ups
+   */
+  static resolve(text: string, conversation?: IConversation | null): ResolvedQuery {
+    const machine = this.detectMachine(text);
+
+    if (!conversation || !this.isFollowUp(text, conversation)) {
+      return { is_follow_up: false, retrieval_text: text, machine };
+    }
+
+    const context = conversation.context ?? {};
+    const retrievalText = [context.last_text, text].filter(Boolean).join(' ');
+
+    return {
+      is_follow_up: true,
+      retrieval_text: retrievalText,
+      machine: context.machine,
+      manual_id: context.manual_id ? String(context.manual_id) : undefined,
+    };
+  }
+
+  /**
+   * Carry the previous turn's intent forward when a follow-up could not be classified on its own
+   */
+  static carryIntent(intent: IntentResult, resolved: ResolvedQuery, conversation?: IConversation | null): IntentResult {
+    const previousIntent = conversation?.context?.intent;
+    if (!resolved.is_follow_up || intent.name !== UNKNOWN_INTENT || !previousIntent) {
+      return intent;
+    }
+
+    return {
+      name: previousIntent,
+      confidence: conversation?.context?.intent_confidence ?? intent.confidence,
+      matched_examples: [],
+    };
+  }
+}
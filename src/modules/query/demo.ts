@@ -15,7 +15,11 @@ async function demonstrateLanguageDetection() {
     'வணக்கம்',
     'hi',
     '',
-    'வணக்கம் hello world test test test test test'
+    'வணக்கம் hello world test test test test test',
+    'machine odala, enna pannanum?',
+    'मशीन बंद हो गई है',
+    'मशीन से धुआं आ रहा है please check',
+    'machine chal nahi raha hai'
   ];
 
   for (const text of testCases) {
@@ -23,7 +27,8 @@ async function demonstrateLanguageDetection() {
     console.log(`Text: "${text}"`);
     console.log(`  Language: ${result.detected_language}`);
     console.log(`  Confidence: ${result.confidence.toFixed(2)}`);
-    console.log(`  Is Tanglish: ${result.is_tanglish}`);
+    console.log(`  Is Tanglish: ${result.is_tanglish}${result.tanglish_type ? ` (${result.tanglish_type})` : ''}`);
+    console.log(`  Code-mixed: ${result.is_code_mixed}`);
     console.log(`  Tamil Ratio: ${result.tamil_ratio.toFixed(2)}`);
     console.log(`  Reliable: ${LanguageDetectionService.isReliableDetection(result)}`);
     console.log('');
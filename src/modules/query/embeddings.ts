@@ -0,0 +1,131 @@
+/**
+ * Embedding service interface
+ */
+export interface EmbeddingService {
+  // Stored as the model_version of the vectors it embeds; only vectors of the same
+  // model can be compared with its embeddings
+  readonly modelVersion: string;
+  embed(texts: string[]): Promise<number[][]>;
+  similarity(embedding1: number[], embedding2: number[]): number;
+  batchEmbed(texts: string[], batchSize?: number): Promise<number[][]>;
+}
+
+/**
+ * Tokenize text into lowercase word tokens (Unicode aware)
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{M}\p{N}]+/u)
+    .filter(token => token.length > 0);
+}
+
+/**
+ * Cosine similarity between two vectors of equal length
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) {
+    throw new Error('Invalid embedding for similarity calculation');
+  }
+
+  let dotProduct = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    dotProduct += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  const magnitude = Math.sqrt(normA) * Math.sqrt(normB);
+  return magnitude === 0 ? 0 : dotProduct / magnitude;
+}
+
+/**
+ * English function words that carry no meaning for similarity
+ */
+const STOP_WORDS = new Set([
+  'a', 'an', 'the', 'is', 'are', 'was', 'were', 'be', 'to', 'of', 'in', 'on', 'at', 'for', 'from',
+  'with', 'and', 'or', 'i', 'my', 'me', 'we', 'you', 'do', 'does', 'what', 'how', 'there',
+]);
+
+/**
+ * Word tokens without function words
+ */
+export function contentTokens(text: string): string[] {
+  return tokenize(text).filter(token => !STOP_WORDS.has(token));
+}
+
+/**
+ * FNV-1a 32-bit hash
+ */
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Offline embedding service using feature hashing of words and character trigrams.
+ * Runs on CPU without model downloads, so it works with code-mixed text out of the box.
+ */
+export class HashingEmbeddingService implements EmbeddingService {
+  private static readonly WORD_WEIGHT = 1.0;
+  private static readonly TRIGRAM_WEIGHT = 0.5;
+  // As wide as the all-MiniLM-L6-v2 vectors
+  private static readonly DEFAULT_DIMENSIONS = 384;
+
+  readonly modelVersion: string;
+
+  constructor(private readonly dimensions: number = HashingEmbeddingService.DEFAULT_DIMENSIONS) {
+    this.modelVersion = `hashing-${dimensions}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedOne(text));
+  }
+
+  async batchEmbed(texts: string[], batchSize: number = 32): Promise<number[][]> {
+    const results: number[][] = [];
+    for (let i = 0; i < texts.length; i += batchSize) {
+      results.push(...await this.embed(texts.slice(i, i + batchSize)));
+    }
+    return results;
+  }
+
+  similarity(embedding1: number[], embedding2: number[]): number {
+    return cosineSimilarity(embedding1, embedding2);
+  }
+
+  /**
+   * Embed a single text into a normalized vector
+   */
+  embedOne(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+
+    for (const token of tokenize(text)) {
+      if (STOP_WORDS.has(token)) continue;
+
+      this.addFeature(vector, `w:${token}`, HashingEmbeddingService.WORD_WEIGHT);
+
+      const padded = `#${token}#`;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        this.addFeature(vector, `c:${padded.slice(i, i + 3)}`, HashingEmbeddingService.TRIGRAM_WEIGHT);
+      }
+    }
+
+    const magnitude = Math.sqrt(vector.reduce((sum, val) => sum + val * val, 0));
+    return magnitude === 0 ? vector : vector.map(val => val / magnitude);
+  }
+
+  private addFeature(vector: number[], feature: string, weight: number): void {
+    const hash = fnv1a(feature);
+    const index = hash % this.dimensions;
+    const sign = (hash >>> 31) === 0 ? 1 : -1;
+    vector[index] += sign * weight;
+  }
+}
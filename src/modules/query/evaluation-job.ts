@@ -0,0 +1,127 @@
+import { readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+import { BUNDLED_CATALOGUE_PATH, IntentCatalogue, parseIntentCatalogue } from './catalogue-parser';
+import {
+  EvaluationReport,
+  GoldenSetError,
+  GoldenSetEvaluator,
+  parseGoldenSet,
+} from './evaluation';
+
+/**
+ * Golden-set evaluation of intent classification and risk assessment.
+ *
+ * Usage:
+ *   npm run eval:golden -- [--golden <file.jsonl>] [--intents <intents.yml>] [--output <report.json>]
+ *     [--baseline <report.json>] [--tolerance <0..1>] [--min-critical-recall <0..1>]
+ *
+ * --intents defaults to the bundled config/intents.yml. --output writes the full report as
+ * JSON. Exits with code 1 when critical-risk recall is below --min-critical-recall (by
+ * default, when any critical example is missed), or when a metric dropped compared to
+ * --baseline (critical recall may not drop at all; accuracies by up to --tolerance), so it
+ * can gate CI. Exits with code 2 on invalid input. It needs no server configuration or
+ * database, so CI can run it as is.
+ */
+function parseArgs(argv: string[]): Record<string, string | boolean> {
+  const args: Record<string, string | boolean> = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (!argv[i].startsWith('--')) continue;
+
+    const name = argv[i].slice(2);
+    const next = argv[i + 1];
+    if (next === undefined || next.startsWith('--')) {
+      args[name] = true;
+    } else {
+      args[name] = next;
+      i++;
+    }
+  }
+  return args;
+}
+
+function parseRatio(value: string | boolean | undefined, name: string): number | undefined {
+  if (value === undefined) return undefined;
+  const ratio = typeof value === 'string' ? Number(value) : NaN;
+  if (Number.isNaN(ratio) || ratio < 0 || ratio > 1) {
+    throw new GoldenSetError(`--${name} must be a number between 0 and 1`);
+  }
+  return ratio;
+}
+
+function percent(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+function printSummary(report: EvaluationReport): void {
+  console.log(`Evaluated ${report.total} examples (intent catalogue ${report.catalogue_version ?? 'unknown'})`);
+  console.log(`  intent accuracy:  ${percent(report.intent_accuracy)}`);
+  console.log(`  risk accuracy:    ${percent(report.risk_accuracy)}`);
+  console.log(`  critical recall:  ${percent(report.critical_recall)} of ${report.critical_support}`);
+
+  console.log('Per intent (precision / recall / support):');
+  for (const [intent, metrics] of Object.entries(report.per_intent)) {
+    console.log(`  ${intent.padEnd(24)} ${percent(metrics.precision).padStart(6)} / ${percent(metrics.recall).padStart(6)} / ${metrics.support}`);
+  }
+
+  for (const miss of report.critical_misses) {
+    console.log(`  MISSED CRITICAL line ${miss.line}: "${miss.text}" assessed ${miss.predicted_risk} as ${miss.predicted_intent}`);
+  }
+}
+
+async function main(): Promise<number> {
+  const args = parseArgs(process.argv.slice(2));
+  const goldenPath = typeof args.golden === 'string' ? args.golden : path.resolve('config/golden-set.jsonl');
+
+  let examples;
+  let minCriticalRecall: number;
+  let tolerance: number | undefined;
+  try {
+    examples = parseGoldenSet(readFileSync(goldenPath, 'utf8'));
+    minCriticalRecall = parseRatio(args['min-critical-recall'], 'min-critical-recall') ?? 1;
+    tolerance = parseRatio(args.tolerance, 'tolerance');
+  } catch (error) {
+    console.error(`Invalid golden set ${goldenPath}: ${error instanceof Error ? error.message : error}`);
+    return 2;
+  }
+
+  const intentsPath = typeof args.intents === 'string' ? path.resolve(args.intents) : BUNDLED_CATALOGUE_PATH;
+  let catalogue: IntentCatalogue;
+  try {
+    catalogue = parseIntentCatalogue(readFileSync(intentsPath, 'utf8'), intentsPath);
+  } catch (error) {
+    console.error(`Failed to load intent catalogue ${intentsPath}: ${error instanceof Error ? error.message : error}`);
+    return 2;
+  }
+
+  const report = await new GoldenSetEvaluator(catalogue.intents, catalogue.version).evaluate(examples);
+
+  printSummary(report);
+
+  if (typeof args.output === 'string') {
+    writeFileSync(args.output, JSON.stringify(report, null, 2));
+    console.log(`Report written to ${args.output}`);
+  }
+
+  let failed = false;
+  if (report.critical_recall < minCriticalRecall) {
+    console.error(`Critical recall ${percent(report.critical_recall)} is below the required ${percent(minCriticalRecall)}`);
+    failed = true;
+  }
+
+  if (typeof args.baseline === 'string') {
+    const baseline = JSON.parse(readFileSync(args.baseline, 'utf8')) as EvaluationReport;
+    for (const regression of GoldenSetEvaluator.compare(report, baseline, tolerance)) {
+      console.error(`Regression in ${regression.metric}: ${percent(regression.baseline)} → ${percent(regression.current)}`);
+      failed = true;
+    }
+  }
+
+  return failed ? 1 : 0;
+}
+
+main()
+  .then(code => process.exit(code))
+  .catch(error => {
+    console.error('Golden-set evaluation failed:', error);
+    process.exit(2);
+  });
@@ -0,0 +1,260 @@
+import { IntentConfig, RiskLevel } from '../../types';
+import { IntentClassifier } from './intent';
+import { RiskAssessor, RISK_ORDER } from './risk';
+
+/**
+ * A labeled utterance of the golden set
+ */
+export interface GoldenExample {
+  text: string;
+  language: string;
+  expected_intent: string;
+  expected_risk: RiskLevel;
+  // Line of the golden set file, for reports
+  line?: number;
+}
+
+/**
+ * Problem found in a golden set file
+ */
+export class GoldenSetError extends Error {
+  constructor(message: string, public readonly line?: number) {
+    super(line ? `Line ${line}: ${message}` : message);
+    this.name = 'GoldenSetError';
+  }
+}
+
+/**
+ * Precision and recall of one label
+ */
+export interface LabelMetrics {
+  precision: number;
+  recall: number;
+  f1: number;
+  // Examples labeled with it
+  support: number;
+}
+
+/**
+ * Rows are expected labels, columns predicted labels
+ */
+export interface ConfusionMatrix {
+  labels: string[];
+  matrix: number[][];
+}
+
+/**
+ * An example the pipeline got wrong
+ */
+export interface EvaluationMiss {
+  line?: number;
+  text: string;
+  language: string;
+  expected_intent: string;
+  predicted_intent: string;
+  expected_risk: RiskLevel;
+  predicted_risk: RiskLevel;
+}
+
+/**
+ * Machine-readable evaluation report
+ */
+export interface EvaluationReport {
+  evaluated_at: string;
+  catalogue_version?: string;
+  total: number;
+  intent_accuracy: number;
+  risk_accuracy: number;
+  // Share of critical examples assessed as critical: missing one is the costliest mistake
+  critical_recall: number;
+  critical_support: number;
+  per_intent: Record<string, LabelMetrics>;
+  per_language: Record<string, { total: number; intent_accuracy: number; risk_accuracy: number }>;
+  intent_confusion: ConfusionMatrix;
+  risk_confusion: ConfusionMatrix;
+  critical_misses: EvaluationMiss[];
+  misses: EvaluationMiss[];
+}
+
+/**
+ * Regression of a report against a baseline report
+ */
+export interface EvaluationRegression {
+  metric: string;
+  baseline: number;
+  current: number;
+}
+
+const GOLDEN_FIELDS = ['text', 'language', 'expected_intent', 'expected_risk'];
+
+/**
+ * Parse a golden set in JSON Lines: one labeled utterance per line. Blank lines
+ * and lines starting with "#" are skipped.
+ */
+export function parseGoldenSet(text: string): GoldenExample[] {
+  const examples: GoldenExample[] = [];
+
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const line = index + 1;
+    const trimmed = raw.trim();
+    if (!trimmed || trimmed.startsWith('#')) return;
+
+    let entry: Record<string, unknown>;
+    try {
+      entry = JSON.parse(trimmed);
+    } catch {
+      throw new GoldenSetError('invalid JSON', line);
+    }
+    if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+      throw new GoldenSetError('expected an object', line);
+    }
+
+    for (const field of GOLDEN_FIELDS) {
+      if (typeof entry[field] !== 'string' || !(entry[field] as string).trim()) {
+        throw new GoldenSetError(`"${field}" must be a non-empty string`, line);
+      }
+    }
+    const unknown = Object.keys(entry).filter(key => !GOLDEN_FIELDS.includes(key));
+    if (unknown.length > 0) {
+      throw new GoldenSetError(`unknown field "${unknown[0]}"`, line);
+    }
+    if (!RISK_ORDER.includes(entry.expected_risk as RiskLevel)) {
+      throw new GoldenSetError(`"expected_risk" must be one of: ${RISK_ORDER.join(', ')}`, line);
+    }
+
+    examples.push({
+      text: entry.text as string,
+      language: entry.language as string,
+      expected_intent: entry.expected_intent as string,
+      expected_risk: entry.expected_risk as RiskLevel,
+      line,
+    });
+  });
+
+  if (examples.length === 0) {
+    throw new GoldenSetError('golden set is empty');
+  }
+  return examples;
+}
+
+/**
+ * Runs a golden set through intent classification and risk assessment, the same
+ * way the query pipeline does, without touching the database
+ */
+export class GoldenSetEvaluator {
+  private readonly classifier: IntentClassifier;
+
+  constructor(intents: IntentConfig[] | (() => IntentConfig[]), private readonly catalogueVersion?: string) {
+    this.classifier = new IntentClassifier(intents);
+  }
+
+  async evaluate(examples: GoldenExample[]): Promise<EvaluationReport> {
+    const predictions: { example: GoldenExample; intent: string; risk: RiskLevel }[] = [];
+
+    for (const example of examples) {
+      const intent = await this.classifier.classify(example.text);
+      // The risk level does not depend on the threshold, which only decides blocking
+      const assessment = RiskAssessor.assess(this.classifier.getIntent(intent.name), 'critical', example.text);
+      predictions.push({ example, intent: intent.name, risk: assessment.risk });
+    }
+
+    const misses: EvaluationMiss[] = predictions
+      .filter(({ example, intent, risk }) => intent !== example.expected_intent || risk !== example.expected_risk)
+      .map(({ example, intent, risk }) => ({
+        line: example.line,
+        text: example.text,
+        language: example.language,
+        expected_intent: example.expected_intent,
+        predicted_intent: intent,
+        expected_risk: example.expected_risk,
+        predicted_risk: risk,
+      }));
+
+    const critical = predictions.filter(({ example }) => example.expected_risk === 'critical');
+    const intentPairs = predictions.map(({ example, intent }) => [example.expected_intent, intent] as const);
+    const riskPairs = predictions.map(({ example, risk }) => [example.expected_risk, risk] as const);
+
+    const per_language: EvaluationReport['per_language'] = {};
+    for (const language of [...new Set(examples.map(example => example.language))].sort()) {
+      const subset = predictions.filter(({ example }) => example.language === language);
+      per_language[language] = {
+        total: subset.length,
+        intent_accuracy: ratio(subset.filter(({ example, intent }) => intent === example.expected_intent).length, subset.length),
+        risk_accuracy: ratio(subset.filter(({ example, risk }) => risk === example.expected_risk).length, subset.length),
+      };
+    }
+
+    return {
+      evaluated_at: new Date().toISOString(),
+      catalogue_version: this.catalogueVersion,
+      total: predictions.length,
+      intent_accuracy: ratio(intentPairs.filter(([expected, predicted]) => expected === predicted).length, predictions.length),
+      risk_accuracy: ratio(riskPairs.filter(([expected, predicted]) => expected === predicted).length, predictions.length),
+      critical_recall: critical.length === 0 ? 1 : ratio(critical.filter(({ risk }) => risk === 'critical').length, critical.length),
+      critical_support: critical.length,
+      per_intent: labelMetrics(intentPairs),
+      per_language,
+      intent_confusion: confusionMatrix(intentPairs),
+      risk_confusion: confusionMatrix(riskPairs, RISK_ORDER),
+      critical_misses: misses.filter(miss => miss.expected_risk === 'critical' && miss.predicted_risk !== 'critical'),
+      misses,
+    };
+  }
+
+  /**
+   * Metrics that dropped compared to a baseline report. Critical recall may never
+   * drop; the accuracies may drop by up to `tolerance`.
+   */
+  static compare(report: EvaluationReport, baseline: EvaluationReport, tolerance = 0): EvaluationRegression[] {
+    const regressions: EvaluationRegression[] = [];
+
+    if (report.critical_recall < baseline.critical_recall) {
+      regressions.push({ metric: 'critical_recall', baseline: baseline.critical_recall, current: report.critical_recall });
+    }
+    for (const metric of ['intent_accuracy', 'risk_accuracy'] as const) {
+      if (report[metric] < baseline[metric] - tolerance) {
+        regressions.push({ metric, baseline: baseline[metric], current: report[metric] });
+      }
+    }
+
+    return regressions;
+  }
+}
+
+function ratio(count: number, total: number): number {
+  return total === 0 ? 0 : Math.round((count / total) * 1000) / 1000;
+}
+
+function labelMetrics(pairs: (readonly [string, string])[]): Record<string, LabelMetrics> {
+  const labels = [...new Set(pairs.flat())].sort();
+  const metrics: Record<string, LabelMetrics> = {};
+
+  for (const label of labels) {
+    const truePositives = pairs.filter(([expected, predicted]) => expected === label && predicted === label).length;
+    const predictedCount = pairs.filter(([, predicted]) => predicted === label).length;
+    const support = pairs.filter(([expected]) => expected === label).length;
+
+    const precision = predictedCount === 0 ? 0 : truePositives / predictedCount;
+    const recall = support === 0 ? 0 : truePositives / support;
+    metrics[label] = {
+      precision: ratio(truePositives, predictedCount),
+      recall: ratio(truePositives, support),
+      f1: precision + recall === 0 ? 0 : Math.round((2 * precision * recall / (precision + recall)) * 1000) / 1000,
+      support,
+    };
+  }
+
+  return metrics;
+}
+
+function confusionMatrix(pairs: (readonly [string, string])[], order?: string[]): ConfusionMatrix {
+  const labels = order ?? [...new Set(pairs.flat())].sort();
+  const index = new Map(labels.map((label, position) => [label, position]));
+  const matrix = labels.map(() => labels.map(() => 0));
+
+  for (const [expected, predicted] of pairs) {
+    matrix[index.get(expected)!][index.get(predicted)!]++;
+  }
+
+  return { labels, matrix };
+}
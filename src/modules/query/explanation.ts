@@ -0,0 +1,122 @@
+import { MentionContext, RiskExplanation, RiskLevel } from '../../types';
+import { localized } from '../../utils/languages';
+
+/**
+ * Per-language wording of risk summaries. `{risk}`, `{level}`, `{original}` and
+ * `{threshold}` are replaced with localized risk levels; `{keywords}`, `{rules}` and
+ * `{contexts}` with lists joined by `separator`.
+ */
+export interface RiskSummaryTemplate {
+  levels: Record<RiskLevel, string>;
+  contexts: Record<Exclude<MentionContext, 'asserted'>, string>;
+  blocked: string;
+  answered: string;
+  locked_down: string;
+  intent: string;
+  keywords: string;
+  rules: string;
+  adjusted: string;
+  exceeds_enterprise: string;
+  reaches_intent: string;
+  within_enterprise: string;
+  separator: string;
+}
+
+export const DEFAULT_RISK_SUMMARY_TEMPLATES: Record<string, RiskSummaryTemplate> = {
+  en: {
+    levels: { low: 'low', medium: 'medium', high: 'high', critical: 'critical' },
+    contexts: { negated: 'negated', hypothetical: 'hypothetical', compound: 'part of an equipment or drill name' },
+    blocked: 'Risk is {risk}; the query was blocked.',
+    answered: 'Risk is {risk}; the query was answered.',
+    locked_down: 'Risk is {risk}; the query was refused because the operator is locked down.',
+    intent: 'Intent "{intent}" carries {level} risk.',
+    keywords: 'Hazard words: {keywords}.',
+    rules: 'Enterprise rules fired: {rules}.',
+    adjusted: 'Lowered from {original} because the hazard is only mentioned as {contexts}.',
+    exceeds_enterprise: 'Above the enterprise threshold ({threshold}).',
+    reaches_intent: 'Reaches the intent\'s block threshold ({threshold}).',
+    within_enterprise: 'Within the enterprise threshold ({threshold}).',
+    separator: ', ',
+  },
+  ta: {
+    levels: { low: 'குறைந்த', medium: 'நடுத்தர', high: 'அதிக', critical: 'மிகக் கடுமையான' },
+    contexts: { negated: 'மறுப்பாக', hypothetical: 'அனுமானமாக', compound: 'கருவி அல்லது பயிற்சியின் பெயரில்' },
+    blocked: 'ஆபத்து நிலை: {risk}; கேள்வி தடுக்கப்பட்டது.',
+    answered: 'ஆபத்து நிலை: {risk}; கேள்விக்குப் பதில் அளிக்கப்பட்டது.',
+    locked_down: 'ஆபத்து நிலை: {risk}; இயக்குநர் பூட்டப்பட்டுள்ளதால் கேள்வி மறுக்கப்பட்டது.',
+    intent: '"{intent}" நோக்கத்தின் ஆபத்து நிலை: {level}.',
+    keywords: 'ஆபத்துச் சொற்கள்: {keywords}.',
+    rules: 'பொருந்திய நிறுவன விதிகள்: {rules}.',
+    adjusted: 'ஆபத்து {contexts} மட்டுமே குறிப்பிடப்பட்டதால் {original} நிலையிலிருந்து குறைக்கப்பட்டது.',
+    exceeds_enterprise: 'நிறுவன வரம்பை ({threshold}) மீறுகிறது.',
+    reaches_intent: 'நோக்கத்தின் தடுப்பு வரம்பை ({threshold}) எட்டுகிறது.',
+    within_enterprise: 'நிறுவன வரம்புக்குள் ({threshold}) உள்ளது.',
+    separator: ', ',
+  },
+  tanglish: {
+    levels: { low: 'low', medium: 'medium', high: 'high', critical: 'critical' },
+    contexts: { negated: 'illa-nnu', hypothetical: 'oruvela-nnu', compound: 'equipment/drill peyar-la' },
+    blocked: 'Risk {risk}; query block pannapattadhu.',
+    answered: 'Risk {risk}; query-kku badhil kudukkapattadhu.',
+    locked_down: 'Risk {risk}; operator lockdown-la irukkaradhaala query maruththapattadhu.',
+    intent: '"{intent}" intent-oda risk {level}.',
+    keywords: 'Aabathu vaarthaigal: {keywords}.',
+    rules: 'Match aana enterprise rules: {rules}.',
+    adjusted: 'Aabathu {contexts} mattum sonnadhaala {original}-la irundhu kuraikkapattadhu.',
+    exceeds_enterprise: 'Enterprise threshold ({threshold})-a thaandudhu.',
+    reaches_intent: 'Intent block threshold ({threshold})-a thoduthu.',
+    within_enterprise: 'Enterprise threshold ({threshold})-kkulla irukku.',
+    separator: ', ',
+  },
+};
+
+function fill(template: string, values: Record<string, string>): string {
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) => values[name] ?? placeholder);
+}
+
+/**
+ * Render a risk explanation as a short human-readable summary, for alert
+ * notifications. Languages without a template fall back as answers do, then to English.
+ */
+export function summarizeRiskExplanation(
+  explanation: RiskExplanation,
+  language = 'en',
+  templates: Record<string, RiskSummaryTemplate> = DEFAULT_RISK_SUMMARY_TEMPLATES
+): string {
+  const template = localized(templates, language) ?? DEFAULT_RISK_SUMMARY_TEMPLATES.en;
+  const level = (risk: RiskLevel) => template.levels[risk];
+  const { decision, threshold } = explanation;
+
+  const status = decision.locked_down ? template.locked_down : decision.blocked ? template.blocked : template.answered;
+  const sentences = [
+    fill(status, { risk: level(decision.risk) }),
+    fill(template.intent, { intent: explanation.intent.name, level: level(explanation.intent.level) }),
+  ];
+
+  // The same word repeated in a query is listed once
+  const keywords = [...new Set(explanation.keywords.map(hit => `"${hit.matched}" (${hit.rule_id})`))];
+  if (keywords.length > 0) {
+    sentences.push(fill(template.keywords, { keywords: keywords.join(template.separator) }));
+  }
+  if (explanation.rules.length > 0) {
+    const rules = explanation.rules.map(rule => `${rule.rule_id} (${level(rule.level)})`);
+    sentences.push(fill(template.rules, { rules: rules.join(template.separator) }));
+  }
+  if (explanation.adjustment) {
+    const contexts = explanation.adjustment.contexts.map(context => template.contexts[context]);
+    sentences.push(fill(template.adjusted, {
+      original: level(explanation.adjustment.original_risk),
+      contexts: contexts.join(template.separator),
+    }));
+  }
+
+  if (threshold.exceeds_enterprise) {
+    sentences.push(fill(template.exceeds_enterprise, { threshold: level(threshold.enterprise) }));
+  } else if (threshold.reaches_intent && threshold.intent) {
+    sentences.push(fill(template.reaches_intent, { threshold: level(threshold.intent) }));
+  } else {
+    sentences.push(fill(template.within_enterprise, { threshold: level(threshold.enterprise) }));
+  }
+
+  return sentences.join(' ');
+}
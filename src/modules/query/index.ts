@@ -1,7 +1,161 @@
 export {
   LanguageDetectionResult,
+  TanglishType,
+  IndicScript,
+  INDIC_SCRIPTS,
   TamilDetectionUtils,
+  IndicScriptUtils,
   TanglishDetector,
+  CodeMixedDetector,
   SimpleLanguageDetector,
   LanguageDetectionService
-} from './language';
\ No newline at end of file
+} from './language';
+export {
+  RomanizedTamilDetector,
+  RomanizedTamilScore,
+  RomanizedEvidence,
+  RomanizedHindiDetector,
+  RomanizedHindiScore,
+  ROMANIZED_TAMIL_LEXICON,
+  ROMANIZED_HINDI_LEXICON,
+  COMMON_ENGLISH_WORDS
+} from './romanized';
+export {
+  TrigramLanguageIdentifier,
+  LanguageProfile,
+  LanguageCandidate,
+  LanguageProfileError,
+  PROFILE_SIZE,
+  trainProfile,
+  parseProfile,
+  loadProfiles
+} from './ngram';
+export {
+  TamilTransliterator,
+  CanonicalText,
+  TransliteratedSpan,
+  TransliterationTarget,
+  TRANSLITERATION_TARGETS
+} from './transliteration';
+export { EmbeddingService, HashingEmbeddingService } from './embeddings';
+export {
+  IntentClassifier,
+  IntentClassifierOptions,
+  DEFAULT_CLASSIFIER_OPTIONS,
+  IntentEnsembleWeights,
+  IntentComponentScores,
+  IntentScore,
+  UNKNOWN_INTENT
+} from './intent';
+export { NaiveBayesClassifier, NaiveBayesPrediction, NgramRange, LabeledText, charNgrams } from './bayes';
+export { PlattCalibration, CalibrationSample } from './calibration';
+export {
+  IntentCatalogue,
+  IntentCatalogueError,
+  IntentCatalogueLoader,
+  IntentCatalogueStatus,
+  CatalogueIssue,
+  CATALOGUE_LANGUAGES,
+  BUNDLED_CATALOGUE_PATH,
+  getBundledIntents,
+  parseIntentCatalogue,
+  intentCatalogue
+} from './catalogue';
+export {
+  EnterpriseIntentCatalogue,
+  EffectiveIntent,
+  EffectiveIntentCatalogue,
+  mergeIntentOverrides,
+  describeOverrideProblems,
+  weakensCriticalIntent
+} from './overrides';
+export {
+  RiskAssessor,
+  RiskAssessment,
+  EscalationRule,
+  EscalationLanguage,
+  DEFAULT_ESCALATION_RULES,
+  RISK_ORDER,
+  riskRank
+} from './risk';
+export {
+  MentionAnalysis,
+  analyzeMention
+} from './negation';
+export {
+  RiskSummaryTemplate,
+  DEFAULT_RISK_SUMMARY_TEMPLATES,
+  summarizeRiskExplanation
+} from './explanation';
+export {
+  RiskRuleEngine,
+  RiskRuleContext,
+  RiskRuleEvaluation,
+  RiskConditionResult,
+  RiskRuleSample,
+  RiskRuleTestResult,
+  Measurement,
+  MEASURED_QUANTITIES,
+  extractMeasurements,
+  describeRiskRuleProblems
+} from './rules';
+export { ChunkRetriever, EmbeddingModelMismatchError, RetrievedChunk, RetrievalOptions, toSourceCitation } from './retrieval';
+export {
+  AnswerComposer,
+  AnswerComposerOptions,
+  AnswerTemplate,
+  ComposedAnswer,
+  DEFAULT_ANSWER_TEMPLATES
+} from './composer';
+export {
+  AnswerCache,
+  AnswerCacheKey,
+  AnswerCacheLookup,
+  AnswerCacheStats,
+  CachedAnswer,
+  answerCache
+} from './cache';
+export { ConversationResolver, ResolvedQuery, MACHINE_TERMS } from './conversation';
+export {
+  ClarificationPolicy,
+  ClarificationPolicyOptions,
+  ClarificationTemplate,
+  DEFAULT_CLARIFICATION_TEMPLATES
+} from './clarification';
+export {
+  QueryPipeline,
+  QueryPipelineOptions,
+  QueryPipelineListener,
+  ProcessOptions,
+  ClarificationChoice,
+  DetectedLanguage,
+  queryPipeline
+} from './pipeline';
+export {
+  QueryReplayer,
+  QueryReplayDiff,
+  QueryReplayReport,
+  ReplayFilter,
+  ReplayField,
+  ReplayOutcome,
+  ReplaySummary
+} from './replay';
+export { QueryJobQueue, QueryJobQueueOptions, queryJobQueue } from './jobs';
+export {
+  GoldenSetEvaluator,
+  GoldenSetError,
+  GoldenExample,
+  EvaluationReport,
+  EvaluationMiss,
+  EvaluationRegression,
+  LabelMetrics,
+  ConfusionMatrix,
+  parseGoldenSet
+} from './evaluation';
+export {
+  LabelingQueue,
+  LabelingStats,
+  IntentCorrectionStats,
+  labelingQueue
+} from './labeling';
+export { AudioStore } from './audio';
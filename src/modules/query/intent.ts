@@ -0,0 +1,293 @@
+import { IntentCandidate, IntentConfig, IntentResult } from '../../types';
+import { EmbeddingService, HashingEmbeddingService, contentTokens, tokenize } from './embeddings';
+import { NaiveBayesClassifier, NgramRange } from './bayes';
+import { PlattCalibration } from './calibration';
+import { MACHINE_TERMS } from './conversation';
+
+/**
+ * Fallback intent name used when no catalogue intent is close enough
+ */
+export const UNKNOWN_INTENT = 'unknown';
+
+/**
+ * Share of each scorer in the ensemble score
+ */
+export interface IntentEnsembleWeights {
+  keyword: number;
+  knn: number;
+  naive_bayes: number;
+}
+
+/**
+ * Intent classifier tuning options
+ */
+export interface IntentClassifierOptions {
+  weights?: Partial<IntentEnsembleWeights>;
+  // Nearest examples voting in the kNN score
+  neighbours?: number;
+  ngrams?: NgramRange;
+  // Ensemble score below which a text is unknown
+  minScore?: number;
+  // Phrases ignored when scoring, since they say which machine a text is about rather
+  // than what is wrong with it. Machine names by default.
+  neutralTerms?: string[];
+}
+
+/**
+ * Tuning used unless a classifier is given other options
+ */
+export const DEFAULT_CLASSIFIER_OPTIONS = {
+  // Share of each scorer in the ensemble score; they need not sum to 1
+  weights: {
+    keyword: 0.3, // exact or whole-word matches of catalogue examples
+    knn: 0.4, // similarity of the nearest embedded examples
+    naive_bayes: 0.3, // character n-gram Naive Bayes posterior
+  },
+  neighbours: 3,
+  ngrams: { min: 2, max: 4 },
+  minScore: 0.15, // ensemble score below which a text is unknown
+};
+
+/**
+ * Per-scorer scores of an intent, each between 0 and 1
+ */
+export interface IntentComponentScores {
+  keyword: number;
+  knn: number;
+  naive_bayes: number;
+}
+
+/**
+ * Ensemble score of an intent for a text, with the examples behind it, strongest first
+ */
+export interface IntentScore {
+  name: string;
+  score: number;
+  confidence: number;
+  components: IntentComponentScores;
+  examples: string[];
+}
+
+interface EmbeddedExample {
+  intent: IntentConfig;
+  text: string;
+  // The text without neutral terms, as scored
+  features: string;
+  normalized: string;
+  tokens: Set<string>;
+  embedding: number[];
+}
+
+/**
+ * Everything trained from one catalogue
+ */
+interface IntentModel {
+  intents: IntentConfig[];
+  examples: EmbeddedExample[];
+  bayes: NaiveBayesClassifier;
+  calibration: PlattCalibration | null;
+}
+
+function normalize(text: string): string {
+  return contentTokens(text.normalize('NFC')).join(' ');
+}
+
+/**
+ * Intent classification as an ensemble of three scorers over the catalogue examples:
+ * - keyword: 1 when an example appears word for word in the text, otherwise the
+ *   squared word overlap (Dice coefficient) with the closest example
+ * - kNN: similarity-weighted vote of the nearest embedded examples
+ * - Naive Bayes: posterior of a multinomial model over character n-grams, scaled
+ *   by how much of the text the model has seen, so unfamiliar text scores low
+ *
+ * The weighted score decides the intent. Its confidence is calibrated with Platt
+ * scaling fitted to leave-one-out predictions over the catalogue, so it estimates
+ * the chance the intent is right. Everything runs offline on CPU.
+ */
+export class IntentClassifier {
+  private static readonly MAX_MATCHED_EXAMPLES = 3;
+
+  private readonly getIntents: () => IntentConfig[];
+  private readonly weights: IntentEnsembleWeights;
+  private readonly neighbours: number;
+  private readonly ngrams: NgramRange;
+  private readonly minScore: number;
+  private readonly neutralTerms: string[];
+  private model: Promise<IntentModel> | null = null;
+  private modelIntents: IntentConfig[] | null = null;
+
+  /**
+   * @param intents The catalogue, or a function returning the current one when it can change at runtime
+   */
+  constructor(
+    intents: IntentConfig[] | (() => IntentConfig[]),
+    private readonly embeddings: EmbeddingService = new HashingEmbeddingService(),
+    options: IntentClassifierOptions = {}
+  ) {
+    const defaults = DEFAULT_CLASSIFIER_OPTIONS;
+    this.getIntents = typeof intents === 'function' ? intents : () => intents;
+    this.weights = { ...defaults.weights, ...options.weights };
+    this.neighbours = options.neighbours ?? defaults.neighbours;
+    this.ngrams = options.ngrams ?? defaults.ngrams;
+    this.minScore = options.minScore ?? defaults.minScore;
+    this.neutralTerms = options.neutralTerms ?? MACHINE_TERMS;
+  }
+
+  /**
+   * Look up an intent configuration by name
+   */
+  getIntent(name: string): IntentConfig | undefined {
+    return this.getIntents().find(intent => intent.name === name);
+  }
+
+  /**
+   * Classify text against the intent catalogue
+   */
+  async classify(text: string): Promise<IntentResult> {
+    const [best] = await this.scoreIntents(text);
+
+    if (!best || best.score < this.minScore) {
+      return {
+        name: UNKNOWN_INTENT,
+        confidence: best?.confidence ?? 0,
+        matched_examples: [],
+      };
+    }
+
+    return {
+      name: best.name,
+      confidence: best.confidence,
+      matched_examples: best.examples.slice(0, IntentClassifier.MAX_MATCHED_EXAMPLES),
+    };
+  }
+
+  /**
+   * The most likely intents for a text, best first, with calibrated confidences
+   */
+  async rank(text: string, limit: number = 3): Promise<IntentCandidate[]> {
+    return (await this.scoreIntents(text))
+      .slice(0, limit)
+      .map(({ name, confidence }) => ({ name, confidence }));
+  }
+
+  /**
+   * Ensemble scores of every intent for a text, best first
+   */
+  async scoreIntents(text: string): Promise<IntentScore[]> {
+    const model = await this.getModel();
+    const features = this.withoutNeutralTerms(text);
+    const [embedding] = await this.embeddings.embed([features]);
+    return this.score(model, features, embedding);
+  }
+
+  private score(model: IntentModel, features: string, embedding: number[], exclude?: EmbeddedExample): IntentScore[] {
+    const normalized = normalize(features);
+    const tokens = new Set(normalized.split(' ').filter(Boolean));
+    const examples = model.examples.filter(example => example !== exclude);
+
+    const similarities = examples
+      .map(example => ({ example, similarity: this.embeddings.similarity(embedding, example.embedding) }))
+      .sort((a, b) => b.similarity - a.similarity);
+    const nearest = similarities.slice(0, this.neighbours);
+    const bayes = model.bayes.predict(features, exclude && { label: exclude.intent.name, text: exclude.features });
+    const totalWeight = this.weights.keyword + this.weights.knn + this.weights.naive_bayes;
+
+    const scores = model.intents.map(intent => {
+      const own = similarities.filter(({ example }) => example.intent === intent);
+      const keywordScores = own.map(({ example }) => ({ example, score: this.keywordScore(example, normalized, tokens) }));
+
+      const components: IntentComponentScores = {
+        keyword: Math.max(0, ...keywordScores.map(item => item.score)),
+        knn: nearest
+          .filter(({ example }) => example.intent === intent)
+          .reduce((sum, { similarity }) => sum + Math.max(0, similarity), 0) / Math.max(1, nearest.length),
+        naive_bayes: (bayes.probabilities.get(intent.name) ?? 0) * bayes.coverage,
+      };
+      const score = totalWeight === 0 ? 0 : (
+        this.weights.keyword * components.keyword +
+        this.weights.knn * components.knn +
+        this.weights.naive_bayes * components.naive_bayes
+      ) / totalWeight;
+
+      // Examples matched word for word come first, then the nearest ones
+      const matched = [
+        ...keywordScores.filter(item => item.score === 1).map(item => item.example.text),
+        ...own.filter(({ similarity }) => similarity > 0).map(({ example }) => example.text),
+      ];
+
+      return {
+        name: intent.name,
+        score: Math.round(score * 1000) / 1000,
+        confidence: this.calibrate(model, score),
+        components,
+        examples: [...new Set(matched)],
+      };
+    });
+
+    return scores.sort((a, b) => b.score - a.score);
+  }
+
+  private keywordScore(example: EmbeddedExample, normalized: string, tokens: Set<string>): number {
+    if (example.tokens.size === 0) return 0;
+    if (` ${normalized} `.includes(` ${example.normalized} `)) return 1;
+
+    // Squared, so that a single shared word in longer texts counts for little
+    const shared = [...example.tokens].filter(token => tokens.has(token)).length;
+    return ((2 * shared) / (example.tokens.size + tokens.size)) ** 2;
+  }
+
+  private withoutNeutralTerms(text: string): string {
+    let words = ` ${tokenize(text.normalize('NFC')).join(' ')} `;
+    for (const term of this.neutralTerms) {
+      words = words.split(` ${term} `).join(' ');
+    }
+    return words.trim();
+  }
+
+  private calibrate(model: IntentModel, score: number): number {
+    const confidence = model.calibration ? model.calibration.apply(score) : score;
+    return Math.round(Math.min(1, Math.max(0, confidence)) * 1000) / 1000;
+  }
+
+  private async getModel(): Promise<IntentModel> {
+    // Retrain when a new catalogue has been loaded
+    const intents = this.getIntents();
+    if (!this.model || this.modelIntents !== intents) {
+      this.modelIntents = intents;
+      this.model = this.train(intents);
+      this.model.catch(() => {
+        this.model = null;
+      });
+    }
+    return this.model;
+  }
+
+  private async train(intents: IntentConfig[]): Promise<IntentModel> {
+    const pairs = intents.flatMap(intent =>
+      intent.examples.map(text => ({ intent, text, features: this.withoutNeutralTerms(text) }))
+    );
+    const embeddings = await this.embeddings.batchEmbed(pairs.map(pair => pair.features));
+    const examples: EmbeddedExample[] = pairs.map((pair, index) => {
+      const normalized = normalize(pair.features);
+      return {
+        ...pair,
+        normalized,
+        tokens: new Set(normalized.split(' ').filter(Boolean)),
+        embedding: embeddings[index],
+      };
+    });
+
+    const bayes = new NaiveBayesClassifier(this.ngrams)
+      .train(examples.map(example => ({ label: example.intent.name, text: example.features })));
+    const model: IntentModel = { intents, examples, bayes, calibration: null };
+
+    // Leave-one-out: classify each example against the rest of the catalogue
+    const samples = examples.map(example => {
+      const [best] = this.score(model, example.features, example.embedding, example);
+      return { score: best?.score ?? 0, correct: best?.name === example.intent.name };
+    });
+    model.calibration = PlattCalibration.fit(samples);
+
+    return model;
+  }
+}
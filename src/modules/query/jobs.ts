@@ -0,0 +1,216 @@
+import { QueryJob, IQueryJob } from '../../models/QueryJob';
+import { config } from '../../config/environment';
+import { AppError } from '../../middleware/errorHandler';
+import { logger } from '../../utils/logger';
+import { QueryRequest } from '../../types';
+import { QueryPipeline, queryPipeline } from './pipeline';
+import { AudioStore } from './audio';
+
+/**
+ * Query job queue dependencies and tuning options
+ */
+export interface QueryJobQueueOptions {
+  pipeline?: QueryPipeline;
+  audioStore?: AudioStore;
+  concurrency?: number;
+  leaseMs?: number;
+  pollIntervalMs?: number;
+  maxAttempts?: number;
+}
+
+/**
+ * Persistent queue for queries processed in the background, such as long audio.
+ *
+ * Jobs live in MongoDB, so they survive restarts: a worker holds a lease on each
+ * running job and renews it while processing. If the server dies, the lease runs
+ * out and the job is claimed again, up to `maxAttempts` times.
+ */
+export class QueryJobQueue {
+  private readonly pipeline: QueryPipeline;
+  private readonly audioStore: AudioStore;
+  private readonly concurrency: number;
+  private readonly leaseMs: number;
+  private readonly pollIntervalMs: number;
+  private readonly maxAttempts: number;
+  private readonly running = new Map<string, AbortController>();
+  private timer?: NodeJS.Timeout;
+  private draining = false;
+
+  constructor(options: QueryJobQueueOptions = {}) {
+    this.pipeline = options.pipeline ?? queryPipeline;
+    this.audioStore = options.audioStore ?? new AudioStore();
+    this.concurrency = options.concurrency ?? config.queryJobs.concurrency;
+    this.leaseMs = options.leaseMs ?? config.queryJobs.leaseMs;
+    this.pollIntervalMs = options.pollIntervalMs ?? config.queryJobs.pollIntervalMs;
+    this.maxAttempts = options.maxAttempts ?? config.queryJobs.maxAttempts;
+  }
+
+  /**
+   * Start polling for queued jobs, including ones left over from before a restart
+   */
+  start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => void this.drain(), this.pollIntervalMs);
+    this.timer.unref();
+    void this.drain();
+  }
+
+  /**
+   * Stop polling. Jobs still running here are picked up elsewhere once their lease expires.
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Queue a query for background processing
+   */
+  async submit(request: QueryRequest, traceId: string): Promise<IQueryJob> {
+    // Audio is only transcribed when there is no text, so only then is it worth storing
+    const audioFileId = request.audio_base64 && !request.input_text
+      ? await this.audioStore.save(request.audio_base64, `${traceId}.audio`)
+      : undefined;
+
+    const job = await QueryJob.create({
+      enterprise_id: request.enterprise_id,
+      operator_id: request.operator_id,
+      trace_id: traceId,
+      request: {
+        input_text: request.input_text,
+        audio_file_id: audioFileId,
+        language: request.language ?? 'auto',
+        conversation_id: request.conversation_id,
+      },
+    });
+
+    logger.info('Query job queued', { trace_id: traceId, job_id: job._id });
+    void this.drain();
+    return job;
+  }
+
+  /**
+   * Cancel a queued or running job. Returns null if the job had already finished.
+   */
+  async cancel(jobId: string): Promise<IQueryJob | null> {
+    const cancelled = await QueryJob.cancel(jobId);
+    this.running.get(jobId)?.abort();
+
+    if (cancelled) {
+      logger.info('Query job cancelled', { trace_id: cancelled.trace_id, job_id: jobId });
+      await this.discardAudio(cancelled);
+    }
+    return cancelled;
+  }
+
+  /**
+   * Number of jobs currently processed by this server
+   */
+  getRunningCount(): number {
+    return this.running.size;
+  }
+
+  /**
+   * Claim and start jobs until the concurrency limit is reached
+   */
+  async drain(): Promise<void> {
+    if (this.draining) return;
+    this.draining = true;
+
+    try {
+      while (this.running.size < this.concurrency) {
+        const job = await QueryJob.claimNext(this.leaseMs);
+        if (!job) break;
+
+        const controller = new AbortController();
+        this.running.set(String(job._id), controller);
+        void this.run(job, controller);
+      }
+    } catch (error) {
+      logger.error('Failed to claim query jobs:', error);
+    } finally {
+      this.draining = false;
+    }
+  }
+
+  private async run(job: IQueryJob, controller: AbortController): Promise<void> {
+    const jobId = String(job._id);
+    const renewal = setInterval(() => {
+      QueryJob.renewLease(job._id, this.leaseMs).catch(error =>
+        logger.warn('Failed to renew query job lease', { job_id: jobId, error: error instanceof Error ? error.message : error })
+      );
+    }, Math.max(1000, Math.floor(this.leaseMs / 2)));
+    renewal.unref();
+
+    try {
+      if (job.attempts > this.maxAttempts) {
+        await QueryJob.finish(job._id, {
+          status: 'failed',
+          error: { code: 'JOB_ATTEMPTS_EXHAUSTED', message: `Query job was interrupted ${this.maxAttempts} times` },
+        });
+        await this.discardAudio(job);
+        return;
+      }
+
+      const request: QueryRequest = {
+        enterprise_id: String(job.enterprise_id),
+        operator_id: String(job.operator_id),
+        input_text: job.request.input_text,
+        language: job.request.language,
+        conversation_id: job.request.conversation_id ? String(job.request.conversation_id) : undefined,
+      };
+      if (job.request.audio_file_id) {
+        request.audio_base64 = await this.audioStore.load(job.request.audio_file_id);
+      }
+
+      const result = await this.pipeline.process(request, job.trace_id, undefined, { signal: controller.signal });
+      await QueryJob.finish(job._id, { status: 'completed', result });
+      await this.discardAudio(job);
+
+      logger.info('Query job completed', { trace_id: job.trace_id, job_id: jobId, attempts: job.attempts });
+    } catch (error) {
+      if (controller.signal.aborted) return;
+
+      const appError = error as AppError;
+      const statusCode = appError.statusCode || 500;
+      logger.error('Query job failed:', error, { trace_id: job.trace_id, job_id: jobId });
+
+      try {
+        await QueryJob.finish(job._id, {
+          status: 'failed',
+          error: {
+            code: appError.code || 'QUERY_PROCESSING_FAILED',
+            message: statusCode === 500 ? 'Failed to process query' : appError.message,
+          },
+        });
+        await this.discardAudio(job);
+      } catch (finishError) {
+        // The lease will expire and the job will be retried
+        logger.error('Failed to record query job failure:', finishError, { job_id: jobId });
+      }
+    } finally {
+      clearInterval(renewal);
+      this.running.delete(jobId);
+      void this.drain();
+    }
+  }
+
+  private async discardAudio(job: IQueryJob): Promise<void> {
+    if (!job.request.audio_file_id) return;
+
+    try {
+      await this.audioStore.remove(job.request.audio_file_id);
+    } catch (error) {
+      logger.warn('Failed to remove query job audio', {
+        job_id: job._id,
+        error: error instanceof Error ? error.message : error,
+      });
+    }
+  }
+}
+
+// Shared queue used by the query routes and started with the server
+export const queryJobQueue = new QueryJobQueue();
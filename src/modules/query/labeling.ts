@@ -0,0 +1,196 @@
+import { IQuery } from '../../models/Query';
+import { IntentOverride, IIntentOverride } from '../../models/IntentOverride';
+import { LabelingTask, ILabelingTask, LabelingReason } from '../../models/LabelingTask';
+import { config } from '../../config/environment';
+import { createError } from '../../middleware/errorHandler';
+import { logger } from '../../utils/logger';
+import { IntentResult } from '../../types';
+import { UNKNOWN_INTENT } from './intent';
+import { EnterpriseIntentCatalogue } from './overrides';
+
+/**
+ * Review outcomes of one intent
+ */
+export interface IntentCorrectionStats {
+  intent: string;
+  // Reviewed queries labeled with this intent
+  labeled: number;
+  // ...of which the classifier had predicted another intent
+  corrections: number;
+  // Queries predicted as this intent that reviewers labeled otherwise
+  corrected_away: number;
+}
+
+export interface LabelingStats {
+  by_status: Record<string, number>;
+  by_intent: IntentCorrectionStats[];
+}
+
+/**
+ * Active learning over operator queries. Queries the classifier was unsure about,
+ * or whose answers operators marked unhelpful, are queued for admins to label.
+ * Confirmed labels are promoted into the enterprise's intent overrides as examples,
+ * with the query they came from, so every classifier rebuilds with them on its
+ * next query.
+ */
+export class LabelingQueue {
+  // Longer texts make poor intent examples and exceed the override example limit
+  static readonly MAX_TEXT_LENGTH = 500;
+
+  constructor(
+    private readonly intents: EnterpriseIntentCatalogue = new EnterpriseIntentCatalogue(),
+    private readonly minConfidence: number = config.labeling.minConfidence
+  ) {}
+
+  /**
+   * Whether a classification is too uncertain to trust without review
+   */
+  needsReview(intent: IntentResult): boolean {
+    return intent.name === UNKNOWN_INTENT || intent.confidence < this.minConfidence;
+  }
+
+  /**
+   * Queue a stored query for review. A query queued again, for example when an
+   * uncertain answer is also marked unhelpful, keeps one task with both reasons.
+   */
+  async enqueue(query: IQuery, reason: LabelingReason): Promise<ILabelingTask | null> {
+    const text = query.data.text.trim();
+    if (!text || text.length > LabelingQueue.MAX_TEXT_LENGTH) {
+      return null;
+    }
+
+    return LabelingTask.enqueue({
+      enterprise_id: query.enterprise_id,
+      query_id: query._id,
+      text,
+      language: query.data.detected_language,
+      predicted: { name: query.data.intent.name, confidence: query.data.intent.confidence },
+    }, reason);
+  }
+
+  /**
+   * Label a queued query with an intent of the enterprise's catalogue and add its
+   * text to that intent's examples
+   */
+  async label(task: ILabelingTask, intentName: string, labeledBy: string): Promise<IIntentOverride> {
+    if (!task.isOpen()) {
+      throw createError('This query has already been reviewed', 409, 'LABELING_TASK_CLOSED');
+    }
+
+    const catalogue = await this.intents.getEffective(String(task.enterprise_id));
+    if (!catalogue.intents.some(intent => intent.name === intentName)) {
+      throw createError(`Intent ${intentName} is not in the enterprise's catalogue`, 400, 'UNKNOWN_INTENT');
+    }
+
+    task.assign(intentName, labeledBy);
+    const override = await this.promote(task);
+    task.promoted_at = new Date();
+    await task.save();
+
+    logger.info('Labeled query promoted to intent examples', {
+      enterprise_id: task.enterprise_id,
+      labeling_task_id: task._id,
+      query_id: task.query_id,
+      intent_name: intentName,
+      predicted: task.predicted.name,
+      corrected: task.corrected,
+      labeled_by: labeledBy,
+    });
+
+    return override;
+  }
+
+  /**
+   * Mark a queued query as an example of an intent the catalogue lacks. It stays
+   * open, so it can be labeled once the intent has been defined.
+   */
+  async proposeNewIntent(task: ILabelingTask, labeledBy: string, name?: string, note?: string): Promise<void> {
+    if (task.status !== 'pending') {
+      throw createError('This query has already been reviewed', 409, 'LABELING_TASK_CLOSED');
+    }
+
+    task.proposeNewIntent(labeledBy, name, note);
+    await task.save();
+  }
+
+  /**
+   * Drop a queued query that says nothing about any intent
+   */
+  async dismiss(task: ILabelingTask, labeledBy: string, note?: string): Promise<void> {
+    if (!task.isOpen()) {
+      throw createError('This query has already been reviewed', 409, 'LABELING_TASK_CLOSED');
+    }
+
+    task.dismiss(labeledBy, note);
+    await task.save();
+  }
+
+  /**
+   * Review outcomes per intent, most corrected first
+   */
+  async getStats(enterpriseId: string, since?: Date): Promise<LabelingStats> {
+    const stats = await LabelingTask.getCorrectionStats(enterpriseId, since);
+
+    const byIntent = new Map<string, IntentCorrectionStats>();
+    const entry = (intent: string) => {
+      if (!byIntent.has(intent)) {
+        byIntent.set(intent, { intent, labeled: 0, corrections: 0, corrected_away: 0 });
+      }
+      return byIntent.get(intent)!;
+    };
+    for (const group of stats?.by_label ?? []) {
+      Object.assign(entry(group._id), { labeled: group.labeled, corrections: group.corrections });
+    }
+    for (const group of stats?.by_prediction ?? []) {
+      entry(group._id).corrected_away = group.corrected_away;
+    }
+
+    return {
+      by_status: Object.fromEntries((stats?.by_status ?? []).map((group) => [group._id, group.total])),
+      by_intent: [...byIntent.values()].sort((a, b) =>
+        (b.corrections + b.corrected_away) - (a.corrections + a.corrected_away) || a.intent.localeCompare(b.intent)
+      ),
+    };
+  }
+
+  /**
+   * Add a labeled text to the enterprise's override of its intent, creating the
+   * override when the intent has none, and record where the example came from
+   */
+  private async promote(task: ILabelingTask): Promise<IIntentOverride> {
+    const intentName = task.label!;
+    const labeledBy = task.labeled_by!;
+
+    let override = await IntentOverride.findOne({ enterprise_id: task.enterprise_id, intent_name: intentName });
+    if (override) {
+      override.updated_by = labeledBy;
+    } else {
+      override = new IntentOverride({
+        enterprise_id: task.enterprise_id,
+        intent_name: intentName,
+        examples: [],
+        created_by: labeledBy,
+      });
+    }
+
+    const key = task.text.trim().toLowerCase();
+    if (!override.examples.some(example => example.trim().toLowerCase() === key)) {
+      override.examples.push(task.text);
+    }
+    override.example_sources.push({
+      example: task.text,
+      query_id: task.query_id,
+      labeling_task_id: task._id,
+      labeled_by: labeledBy,
+      labeled_at: task.labeled_at!,
+    });
+
+    await override.save();
+    return override;
+  }
+}
+
+/**
+ * Shared labeling queue used by the query pipeline and routes
+ */
+export const labelingQueue = new LabelingQueue();
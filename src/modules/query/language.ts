@@ -1,24 +1,69 @@
+import { getLanguage, normalizeLanguageCode, UNKNOWN_LANGUAGE } from '../../utils/languages';
+import { TrigramLanguageIdentifier } from './ngram';
+import { RomanizedHindiDetector, RomanizedTamilDetector } from './romanized';
+
 // Simple language detection patterns for common languages
 const LANGUAGE_PATTERNS = {
   english: /^[a-zA-Z\s\d\p{P}]+$/u,
   tamil: /[\u0B80-\u0BFF]/,
   hindi: /[\u0900-\u097F]/,
+  bengali: /[\u0980-\u09FF]/,
+  telugu: /[\u0C00-\u0C7F]/,
+  kannada: /[\u0C80-\u0CFF]/,
+  malayalam: /[\u0D00-\u0D7F]/,
   arabic: /[\u0600-\u06FF]/,
   chinese: /[\u4e00-\u9fff]/,
   japanese: /[\u3040-\u309f\u30a0-\u30ff]/,
   korean: /[\uac00-\ud7af]/
 };
 
+/**
+ * How Tanglish text is written: Tamil script mixed with English words
+ * ("வணக்கம் hello"), or Tamil spelled in Latin letters ("machine odala")
+ */
+export type TanglishType = 'script_mixed' | 'romanized';
+
 /**
  * Language detection result interface
  */
 export interface LanguageDetectionResult {
   detected_language: string;
+  // Stored code of the detected language, 'unknown' for languages we do not support
+  language_code: string;
   confidence: number;
+  // English mixed with an Indic language: Tanglish, Hinglish, Tenglish, ...
+  is_code_mixed: boolean;
   is_tanglish: boolean;
+  // Set when is_tanglish
+  tanglish_type?: TanglishType;
   tamil_ratio: number;
+  // Share of the text in the Indic script it uses most
+  script_ratio: number;
 }
 
+/**
+ * An Indic script, with the language written in it and that language's code-mixed
+ * form with English
+ */
+export interface IndicScript {
+  language: string;
+  code_mixed: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Unicode blocks of the Indic scripts our plants' operators write in
+ */
+export const INDIC_SCRIPTS: IndicScript[] = [
+  { language: 'tamil', code_mixed: 'tanglish', start: 0x0B80, end: 0x0BFF },
+  { language: 'hindi', code_mixed: 'hinglish', start: 0x0900, end: 0x097F },
+  { language: 'bengali', code_mixed: 'banglish', start: 0x0980, end: 0x09FF },
+  { language: 'telugu', code_mixed: 'tenglish', start: 0x0C00, end: 0x0C7F },
+  { language: 'kannada', code_mixed: 'kanglish', start: 0x0C80, end: 0x0CFF },
+  { language: 'malayalam', code_mixed: 'manglish', start: 0x0D00, end: 0x0D7F },
+];
+
 /**
  * Tamil Unicode character ranges
  * Tamil block: U+0B80–U+0BFF
@@ -131,6 +176,71 @@ export class TanglishDetector {
   }
 }
 
+/**
+ * Utility class for detecting Indic scripts other than Tamil's, which
+ * TamilDetectionUtils covers with its common character checks
+ */
+export class IndicScriptUtils {
+  /**
+   * Share of meaningful characters written in a script
+   */
+  static calculateScriptRatio(text: string, script: IndicScript): number {
+    const totalCount = TamilDetectionUtils.countMeaningfulCharacters(text);
+    if (totalCount === 0) return 0;
+
+    let count = 0;
+    for (const char of text) {
+      const codePoint = char.codePointAt(0)!;
+      if (codePoint >= script.start && codePoint <= script.end) {
+        count++;
+      }
+    }
+    return count / totalCount;
+  }
+
+  /**
+   * The Indic script most of the text is written in, if any
+   */
+  static dominantScript(text: string, scripts: IndicScript[] = INDIC_SCRIPTS): { script: IndicScript; ratio: number } | null {
+    let best: { script: IndicScript; ratio: number } | null = null;
+    for (const script of scripts) {
+      const ratio = this.calculateScriptRatio(text, script);
+      if (ratio > 0 && (!best || ratio > best.ratio)) {
+        best = { script, ratio };
+      }
+    }
+    return best;
+  }
+}
+
+/**
+ * Code-mixed detection for any Indic script, working like TanglishDetector: a text
+ * is code-mixed when it has Latin letters and enough of the script
+ */
+export class CodeMixedDetector {
+  private static readonly CODE_MIXED_THRESHOLD = 0.1; // 10% script characters minimum
+  private static readonly HIGH_CODE_MIXED_THRESHOLD = 0.4; // 40% script characters for high confidence
+
+  static calculateMixedRatio(text: string, script: IndicScript): { ratio: number; isCodeMixed: boolean; confidence: number } {
+    const ratio = IndicScriptUtils.calculateScriptRatio(text, script);
+    const hasLatinChars = /[a-zA-Z]/.test(text);
+    const isCodeMixed = hasLatinChars && ratio >= this.CODE_MIXED_THRESHOLD;
+
+    let confidence = 0;
+    if (isCodeMixed) {
+      if (ratio >= this.HIGH_CODE_MIXED_THRESHOLD) {
+        confidence = 0.9;
+      } else if (ratio >= 0.2) {
+        confidence = 0.7;
+      } else {
+        confidence = 0.5;
+      }
+    }
+
+    return { ratio, isCodeMixed, confidence };
+  }
+}
+
 /**
  * Simple pattern-based language detection
  */
@@ -197,9 +307,9 @@ export class SimpleLanguageDetector {
     
     // Common English words
     const englishWords = ['the', 'and', 'is', 'are', 'was', 'were', 'have', 'has', 'will', 'would', 'could', 'should'];
-    const englishWordCount = englishWords.filter(word => 
-      text.toLowerCase().includes(word)
-    ).length;
+    // Whole words, so that "there" does not count as "the"
+    const words = new Set(text.toLowerCase().match(/[a-z]+/g) ?? []);
+    const englishWordCount = englishWords.filter(word => words.has(word)).length;
     
     if (englishWordCount >= 2 && basicResult.language === 'english') {
       return { language: 'english', confidence: Math.min(0.9, basicResult.confidence + 0.2) };
@@ -215,18 +325,29 @@ export class SimpleLanguageDetector {
 export class LanguageDetectionService {
   private static readonly MIN_TEXT_LENGTH = 3;
   private static readonly CONFIDENCE_THRESHOLD = 0.5;
+  // About three short words; fewer trigrams rank too evenly to compare with profiles
+  private static readonly MIN_TRIGRAMS = 12;
+  // Score lead over the runner-up for high confidence
+  private static readonly TRIGRAM_MARGIN = 0.05;
 
   /**
    * Detect language with comprehensive analysis
    */
   static async detectLanguage(text: string): Promise<LanguageDetectionResult> {
+    const result = this.classify(text);
+    return { ...result, language_code: normalizeLanguageCode(result.detected_language) ?? UNKNOWN_LANGUAGE };
+  }
+
+  private static classify(text: string): Omit<LanguageDetectionResult, 'language_code'> {
     // Validate input
     if (!text || text.trim().length < this.MIN_TEXT_LENGTH) {
       return {
         detected_language: 'unknown',
         confidence: 0,
+        is_code_mixed: false,
         is_tanglish: false,
-        tamil_ratio: 0
+        tamil_ratio: 0,
+        script_ratio: 0
       };
     }
 
@@ -239,8 +360,11 @@ export class LanguageDetectionService {
       return {
         detected_language: 'tanglish',
         confidence: tanglishResult.confidence,
+        is_code_mixed: true,
         is_tanglish: true,
-        tamil_ratio: tanglishResult.ratio
+        tanglish_type: 'script_mixed',
+        tamil_ratio: tanglishResult.ratio,
+        script_ratio: tanglishResult.ratio
       };
     }
 
@@ -250,19 +374,101 @@ export class LanguageDetectionService {
       return {
         detected_language: 'tamil',
         confidence: 0.9,
+        is_code_mixed: false,
         is_tanglish: false,
-        tamil_ratio: tamilRatio
+        tamil_ratio: tamilRatio,
+        script_ratio: tamilRatio
       };
     }
 
-    // Use simple pattern detection for other languages
-    const fallbackResult = SimpleLanguageDetector.detectWithEnhancedPatterns(cleanText);
+    // Then the other Indic scripts, pure or mixed with English
+    const dominant = IndicScriptUtils.dominantScript(
+      cleanText,
+      INDIC_SCRIPTS.filter(script => script.language !== 'tamil')
+    );
+    if (dominant) {
+      const mixedResult = CodeMixedDetector.calculateMixedRatio(cleanText, dominant.script);
+      if (mixedResult.isCodeMixed) {
+        return {
+          detected_language: dominant.script.code_mixed,
+          confidence: mixedResult.confidence,
+          is_code_mixed: true,
+          is_tanglish: false,
+          tamil_ratio: tamilRatio,
+          script_ratio: mixedResult.ratio
+        };
+      }
+      if (dominant.ratio > 0.8) {
+        return {
+          detected_language: dominant.script.language,
+          confidence: 0.9,
+          is_code_mixed: false,
+          is_tanglish: false,
+          tamil_ratio: tamilRatio,
+          script_ratio: dominant.ratio
+        };
+      }
+    }
+
+    // Tamil and Hindi typed in Latin letters have no Indic characters to find. Hindi
+    // wins a text both detectors accept only with more of its words recognized.
+    const romanizedResult = RomanizedTamilDetector.score(cleanText);
+    const romanizedHindiResult = RomanizedHindiDetector.score(cleanText);
+    if (romanizedHindiResult.isRomanizedHindi && (!romanizedResult.isRomanizedTamil ||
+        romanizedHindiResult.lexicon_words > romanizedResult.lexicon_words + romanizedResult.suffix_words)) {
+      return {
+        detected_language: 'hinglish',
+        confidence: romanizedHindiResult.confidence,
+        is_code_mixed: true,
+        is_tanglish: false,
+        tamil_ratio: tamilRatio,
+        script_ratio: 0
+      };
+    }
+    if (romanizedResult.isRomanizedTamil) {
+      return {
+        detected_language: 'tanglish',
+        confidence: romanizedResult.confidence,
+        is_code_mixed: true,
+        is_tanglish: true,
+        tanglish_type: 'romanized',
+        tamil_ratio: tamilRatio,
+        script_ratio: tamilRatio
+      };
+    }
+
+    // Other languages from their trigrams, or from simple patterns when the text is too short
+    const fallbackResult = this.identifyByTrigrams(cleanText)
+      ?? SimpleLanguageDetector.detectWithEnhancedPatterns(cleanText);
     
     return {
       detected_language: fallbackResult.language,
       confidence: fallbackResult.confidence,
+      is_code_mixed: false,
       is_tanglish: false,
-      tamil_ratio: tamilRatio
+      tamil_ratio: tamilRatio,
+      script_ratio: dominant?.ratio ?? tamilRatio
+    };
+  }
+  /**
+   * Identify a text from its trigrams, among languages that are not code-mixed:
+   * the lexicon detectors know more about code-mixed text than its trigrams do
+   */
+  private static identifyByTrigrams(text: string): { language: string; confidence: number } | null {
+    if (TrigramLanguageIdentifier.countTrigrams(text) < this.MIN_TRIGRAMS) {
+      return null;
+    }
+
+    const identifier = TrigramLanguageIdentifier.getDefault();
+    const [best, runnerUp] = identifier.identify(text, identifier.languages.filter(code => !getLanguage(code)?.base));
+    if (!best || best.score === 0) {
+      return null;
+    }
+
+    const margin = best.score - (runnerUp?.score ?? 0);
+    return {
+      language: getLanguage(best.language)?.name ?? best.language,
+      confidence: margin >= this.TRIGRAM_MARGIN ? 0.85 : 0.6,
     };
   }
 
@@ -0,0 +1,227 @@
+import { MentionContext } from '../../types';
+
+/**
+ * Context of a hazard mention, with the word that decided it
+ */
+export interface MentionAnalysis {
+  context: MentionContext;
+  cue?: string;
+}
+
+interface Token {
+  text: string;
+  start: number;
+  end: number;
+  boundary: boolean;
+}
+
+// Words, keeping English contractions ("isn't") whole, and clause punctuation
+const TOKEN_PATTERN = /[\p{L}\p{M}\p{N}]+(?:'\p{L}+)?|[.!?;,:\n]/gu;
+
+// Words that start a new clause, so cues before them do not carry over
+const CLAUSE_BREAKS = new Set(['but', 'however', 'although', 'though', 'aana', 'aanal', 'ஆனால்', 'ஆனா']);
+
+// English negation before the hazard: "no smoke", "isn't any fire", "without sparks"
+const NEGATION_BEFORE = new Set([
+  'no', 'not', 'never', 'without', 'none', 'nothing', 'zero', 'cannot', 'cant', 'couldnt', 'wont',
+  'dont', 'doesnt', 'didnt', 'isnt', 'arent', 'wasnt', 'werent', 'hasnt', 'havent', 'hadnt',
+]);
+
+// Words that may stand between an English negation and the hazard ("no sign of smoke")
+const NEGATION_FILLERS = new Set([
+  'a', 'an', 'the', 'any', 'more', 'longer', 'sign', 'signs', 'trace', 'traces', 'of', 'visible',
+  'see', 'seeing', 'seen', 'smell', 'smelling', 'feel', 'feeling', 'getting',
+]);
+
+// English words after the hazard saying it has passed: "smoke is gone", "fire extinguished".
+// They only count when they end the clause, so that "the fire stopped the conveyor" stays
+// asserted.
+const NEGATION_AFTER = new Set(['gone', 'cleared', 'stopped', 'subsided', 'extinguished']);
+
+// Words that may end a clause after a word saying the hazard has passed: "smoke is gone now"
+const TRAILING_AFTER = new Set(['now', 'already', 'completely', 'fully', 'entirely', 'finally', 'anymore']);
+
+// English negation after the hazard: "smoke is not coming anymore", "the fire isn't there",
+// "smoke no more". It only counts when what follows says the hazard is absent, so that
+// "the fire is not stopping" stays asserted.
+const NOT_AFTER = new Set(['not', 'isnt', 'wasnt', 'arent', 'werent', 'no']);
+const ABSENCE_AFTER_NOT = new Set(['there', 'here', 'present', 'visible', 'coming', 'anymore', 'more', 'longer']);
+
+// Tamil and romanized Tamil negation after the hazard: "புகை இல்லை", "pugai illa", "smoke illa"
+const NEGATION_WORDS_AFTER = new Set([
+  'இல்லை', 'இல்ல', 'இல்லையே', 'இல்லாமல்', 'இல்லாம', 'கிடையாது',
+  'illa', 'illai', 'ille', 'illaye', 'illama', 'illaama', 'illamal',
+  'kidaiyadhu', 'kidaiyathu', 'kidayathu', 'kedaiyadhu', 'kedayathu',
+]);
+
+// Negative verb endings, also when glued to the hazard word: "வரவில்லை", "varala", "theepidikala"
+const NEGATIVE_ENDING = /(?:வில்லை|வில்ல|ரலை|கலை|(?:r|g|k|y|d|th|v)ala|(?:r|g|k|y|d|th|v)alai)$/u;
+
+// Words that may stand between the hazard and a negation after it
+const FILLERS_AFTER = new Set([
+  'is', 'was', 'has', 'have', 'had', 'been', 'now', 'already', 'completely', 'fully',
+  'எதுவும்', 'எதுவுமே', 'ஏதும்', 'ஒன்றும்', 'இப்போது', 'இப்போ', 'இப்ப', 'இனி', 'இங்கே', 'இங்க',
+  'edhuvum', 'ethuvum', 'edhum', 'onnum', 'ippo', 'ipo', 'ippa', 'ipa', 'ippodhu', 'ini', 'inga', 'ingae',
+]);
+
+// Conditions opening the clause the hazard is in: "what if there is a fire", "oruvela pugai vandha"
+const CONDITION_BEFORE = new Set([
+  'if', 'suppose', 'supposing', 'whenever', 'incase', 'hypothetically', 'ஒருவேளை', 'oruvela', 'oruvelai',
+]);
+
+// Words that may stand between a condition and the hazard without counting towards its reach
+const CONDITION_FILLERS = new Set(['there', 'is', 'are', 'was', 'were', 'a', 'an', 'the', 'any', 'some', 'of', 'ever']);
+
+// Other words a condition's clause may have before the hazard: a subject and a verb, as in
+// "if the motor catches fire". Past them the hazard is in the next clause, as in "whenever
+// I start the motor smoke comes out".
+const CONDITION_REACH = 2;
+
+// Words after which "if" asks whether rather than supposes: "I don't know if the fire will spread"
+const WHETHER_AFTER = new Set(['know', 'sure', 'unsure', 'wonder', 'wondering', 'ask', 'asking', 'check', 'see', 'tell', 'idea']);
+
+// Precautions taking the hazard as their object: "how to prevent fire", "avoiding sparks"
+const PRECAUTION_BEFORE = new Set(['prevent', 'prevents', 'preventing', 'avoid', 'avoids', 'avoiding']);
+const DETERMINERS = new Set(['a', 'an', 'the', 'any', 'all']);
+
+// Words before a precaution saying it cannot be taken: "we cannot prevent the fire"
+const INABILITY = new Set(['unable', 'failed', 'fail', 'failing']);
+
+// Conditional words shortly after the hazard: "fire drill", "pugai vandha na"
+const HYPOTHETICAL_AFTER = new Set(['drill', 'drills', 'na', 'naa', 'nna', 'endral', 'endraal']);
+
+// Conditional verb endings, also when glued to the hazard word: "வந்தால்", "pidichaa". Only
+// after verb stems, since the instrumental "புகையால்" (because of smoke) also ends in -ஆல்.
+const CONDITIONAL_ENDING = /(?:ந்தால்|த்தால்|ட்டால்|ற்றால்|ன்னால்|ண்டால்|ன்றால்|chaa|ndhaa|nthaa|ttaa)$/u;
+
+const NEGATION_WINDOW = 4;
+const AFTER_WINDOW = 2;
+
+function tokenize(text: string): Token[] {
+  // Curly apostrophes are the same length as straight ones, so offsets are kept
+  return [...text.replace(/’/g, '\'').matchAll(TOKEN_PATTERN)].map(match => {
+    const word = match[0].toLowerCase().replace(/'/g, '');
+    return {
+      text: word,
+      start: match.index!,
+      end: match.index! + match[0].length,
+      boundary: !/[\p{L}\p{M}\p{N}]/u.test(word) || CLAUSE_BREAKS.has(word),
+    };
+  });
+}
+
+function isNegativeVerb(word: string): boolean {
+  return NEGATION_WORDS_AFTER.has(word) || NEGATIVE_ENDING.test(word);
+}
+
+function isConditional(word: string): boolean {
+  return HYPOTHETICAL_AFTER.has(word) || CONDITIONAL_ENDING.test(word);
+}
+
+function saysAbsent(rest: Token[]): boolean {
+  return rest.length === 0 || ABSENCE_AFTER_NOT.has(rest[0].text) ||
+    rest.some(token => token.text === 'anymore' || token.text === 'longer');
+}
+
+function endsClause(rest: Token[]): boolean {
+  return rest.every(token => TRAILING_AFTER.has(token.text));
+}
+
+function findNegation(before: Token[], after: Token[], own: Token): string | undefined {
+  if (isNegativeVerb(own.text)) return own.text;
+
+  // Nearest word first, only past words that may stand between
+  for (const token of before.slice(0, NEGATION_WINDOW)) {
+    if (NEGATION_BEFORE.has(token.text)) return token.text;
+    if (!NEGATION_FILLERS.has(token.text)) break;
+  }
+
+  let seen = 0;
+  for (const [index, token] of after.entries()) {
+    if (NEGATION_AFTER.has(token.text) && endsClause(after.slice(index + 1))) return token.text;
+    if (isNegativeVerb(token.text)) return token.text;
+    if (NOT_AFTER.has(token.text) && saysAbsent(after.slice(index + 1))) return token.text;
+    if (!FILLERS_AFTER.has(token.text) || ++seen > AFTER_WINDOW) break;
+  }
+
+  return undefined;
+}
+
+function conditionCue(before: Token[], index: number): string | undefined {
+  const token = before[index];
+  if (CONDITION_BEFORE.has(token.text)) return token.text;
+  // "in case", "oru vela"
+  if ((token.text === 'case' && before[index + 1]?.text === 'in') ||
+      (token.text === 'vela' && before[index + 1]?.text === 'oru')) {
+    return `${before[index + 1].text} ${token.text}`;
+  }
+  return undefined;
+}
+
+function findCondition(before: Token[], after: Token[], own: Token): string | undefined {
+  if (isConditional(own.text)) return own.text;
+
+  for (const [index, token] of before.entries()) {
+    const between = before.slice(0, index);
+    const cue = conditionCue(before, index);
+    if (cue && !(cue === 'if' && WHETHER_AFTER.has(before[index + 1]?.text)) &&
+        between.filter(word => !CONDITION_FILLERS.has(word.text)).length <= CONDITION_REACH) {
+      return cue;
+    }
+    if (PRECAUTION_BEFORE.has(token.text) && between.every(word => DETERMINERS.has(word.text)) &&
+        !before.slice(index + 1, index + 3).some(word => NEGATION_BEFORE.has(word.text) || INABILITY.has(word.text))) {
+      return token.text;
+    }
+  }
+
+  for (const token of after.slice(0, AFTER_WINDOW)) {
+    if (isConditional(token.text)) return token.text;
+  }
+
+  return undefined;
+}
+
+/**
+ * Whether a hazard mentioned at `start`..`end` of a text is asserted, negated or
+ * hypothetical, judged within its clause. Cues are checked whatever the language
+ * of the hazard word, since operators mix them ("smoke illa", "if pugai vandha").
+ *
+ * Negation is read narrowly: only a negation right before the hazard ("no smoke",
+ * "isn't any smoke"), a negative verb right after it ("pugai varala"), or a "not"
+ * after it followed by its absence ("smoke is not there"), counts, so that "can't
+ * stop the fire" and "the fire is not stopping" stay asserted. Conditions are read narrowly
+ * too: a condition only counts when the hazard is within the clause it opens, and a
+ * precaution only when the hazard is its object and it can be taken, so that "whenever I
+ * start the motor smoke comes out" and "we cannot prevent the fire" stay asserted. A mention
+ * both negated and hypothetical ("if there is no smoke") is negated.
+ */
+export function analyzeMention(text: string, start: number, end: number): MentionAnalysis {
+  const tokens = tokenize(text);
+  const first = tokens.findIndex(token => token.end > start);
+  const last = tokens.reduce((found, token, index) => (token.start < end ? index : found), first);
+  if (first < 0) {
+    return { context: 'asserted' };
+  }
+
+  let from = first;
+  while (from > 0 && !tokens[from - 1].boundary) from--;
+  let to = last;
+  while (to < tokens.length - 1 && !tokens[to + 1].boundary) to++;
+
+  // Nearest word first on both sides
+  const before = tokens.slice(from, first).reverse();
+  const after = tokens.slice(last + 1, to + 1);
+  const own = tokens[last];
+
+  const negation = findNegation(before, after, own);
+  if (negation) {
+    return { context: 'negated', cue: negation };
+  }
+
+  const condition = findCondition(before, after, own);
+  if (condition) {
+    return { context: 'hypothetical', cue: condition };
+  }
+
+  return { context: 'asserted' };
+}
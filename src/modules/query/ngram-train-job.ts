@@ -0,0 +1,77 @@
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+import { LANGUAGE_CODES } from '../../utils/languages';
+import { PROFILE_SIZE, trainProfile } from './ngram';
+
+/**
+ * Rebuild the trigram language profiles from text corpora.
+ *
+ * Usage:
+ *   npm run language:train -- [--corpora <dir>] [--output <dir>] [--size <trigrams>]
+ *
+ * Each `<language>.txt` of --corpora (default config/language-corpora) is one
+ * language's corpus, named by its stored language code; lines starting with `#` are
+ * comments. Profiles are written as `<language>.json` to --output (default
+ * config/language-profiles). Exits with code 2 on invalid input.
+ */
+function parseArgs(argv: string[]): Record<string, string | boolean> {
+  const args: Record<string, string | boolean> = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (!argv[i].startsWith('--')) continue;
+
+    const name = argv[i].slice(2);
+    const next = argv[i + 1];
+    if (next === undefined || next.startsWith('--')) {
+      args[name] = true;
+    } else {
+      args[name] = next;
+      i++;
+    }
+  }
+  return args;
+}
+
+function readCorpus(file: string): string {
+  return readFileSync(file, 'utf8')
+    .split('\n')
+    .filter(line => !line.trimStart().startsWith('#'))
+    .join('\n');
+}
+
+function main(): number {
+  const args = parseArgs(process.argv.slice(2));
+  const corporaDir = path.resolve(typeof args.corpora === 'string' ? args.corpora : 'config/language-corpora');
+  const outputDir = path.resolve(typeof args.output === 'string' ? args.output : 'config/language-profiles');
+  const size = typeof args.size === 'string' ? Number(args.size) : PROFILE_SIZE;
+
+  if (!Number.isInteger(size) || size < 1) {
+    console.error('--size must be a positive integer');
+    return 2;
+  }
+  if (!existsSync(corporaDir)) {
+    console.error(`Corpus directory ${corporaDir} not found`);
+    return 2;
+  }
+
+  const files = readdirSync(corporaDir).filter(file => file.endsWith('.txt')).sort();
+  const unknown = files.map(file => path.basename(file, '.txt')).filter(code => !LANGUAGE_CODES.includes(code));
+  if (files.length === 0 || unknown.length > 0) {
+    console.error(files.length === 0
+      ? `No <language>.txt corpora in ${corporaDir}`
+      : `Corpora must be named by supported language codes, not: ${unknown.join(', ')}`);
+    return 2;
+  }
+
+  mkdirSync(outputDir, { recursive: true });
+  for (const file of files) {
+    const language = path.basename(file, '.txt');
+    const profile = trainProfile(language, readCorpus(path.join(corporaDir, file)), size);
+    writeFileSync(path.join(outputDir, `${language}.json`), `${JSON.stringify(profile, null, 2)}\n`);
+    console.log(`  ${language.padEnd(10)} ${profile.ngrams.length} trigrams`);
+  }
+  console.log(`Wrote ${files.length} profiles to ${outputDir}`);
+
+  return 0;
+}
+
+process.exit(main());
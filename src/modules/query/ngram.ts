@@ -0,0 +1,198 @@
+import { existsSync, readdirSync, readFileSync } from 'fs';
+import path from 'path';
+
+/**
+ * The most frequent character trigrams of a language, learned from a text corpus
+ */
+export interface LanguageProfile {
+  // Stored language code
+  language: string;
+  // Most frequent first
+  ngrams: string[];
+}
+
+/**
+ * A language a text may be in, scored from 0 (no trigram in common) to 1 (the
+ * text's trigrams rank exactly as in the language's profile)
+ */
+export interface LanguageCandidate {
+  language: string;
+  score: number;
+}
+
+export class LanguageProfileError extends Error {
+  constructor(message: string, public readonly source?: string) {
+    super(source ? `${source}: ${message}` : message);
+    this.name = 'LanguageProfileError';
+  }
+}
+
+// Trigrams kept per profile, as in Cavnar and Trenkle's "N-Gram-Based Text Categorization"
+export const PROFILE_SIZE = 300;
+
+// Profiles shipped with the source, next to src/ and dist/ alike
+export const BUNDLED_PROFILES_DIRECTORY = path.resolve(__dirname, '../../../config/language-profiles');
+
+const NGRAM_SIZE = 3;
+
+/**
+ * Trigrams of every word, padded with spaces so that word starts and endings count.
+ * Digits and punctuation carry nothing about the language and are dropped.
+ */
+function textTrigrams(text: string): string[] {
+  const words = text.normalize('NFC').toLowerCase().match(/[\p{L}\p{M}]+/gu) ?? [];
+  const grams: string[] = [];
+  for (const word of words) {
+    const padded = ` ${word} `;
+    for (let i = 0; i + NGRAM_SIZE <= padded.length; i++) {
+      grams.push(padded.slice(i, i + NGRAM_SIZE));
+    }
+  }
+  return grams;
+}
+
+/**
+ * Trigrams of a text, most frequent first. Ties are broken alphabetically so that
+ * training the same corpus always gives the same profile.
+ */
+function rankTrigrams(text: string, size: number): string[] {
+  const counts = new Map<string, number>();
+  for (const gram of textTrigrams(text)) {
+    counts.set(gram, (counts.get(gram) ?? 0) + 1);
+  }
+  return [...counts.entries()]
+    .sort(([a, countA], [b, countB]) => countB - countA || (a < b ? -1 : a > b ? 1 : 0))
+    .slice(0, size)
+    .map(([gram]) => gram);
+}
+
+/**
+ * Learn a language's profile from a corpus of its text
+ */
+export function trainProfile(language: string, corpus: string, size: number = PROFILE_SIZE): LanguageProfile {
+  return { language, ngrams: rankTrigrams(corpus, size) };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isTrigramList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.length > 0 &&
+    value.every(gram => typeof gram === 'string' && [...gram].length <= NGRAM_SIZE);
+}
+
+/**
+ * Read a profile file written by the training job
+ */
+export function parseProfile(text: string, source?: string): LanguageProfile {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new LanguageProfileError(`invalid JSON (${error instanceof Error ? error.message : error})`, source);
+  }
+
+  if (!isRecord(data)) {
+    throw new LanguageProfileError('profile must be an object', source);
+  }
+  const { language, ngrams } = data;
+  if (typeof language !== 'string' || !language) {
+    throw new LanguageProfileError('"language" must be a language code', source);
+  }
+  if (!isTrigramList(ngrams)) {
+    throw new LanguageProfileError('"ngrams" must be a non-empty list of trigrams', source);
+  }
+  return { language, ngrams };
+}
+
+/**
+ * Profiles of a directory of `<language>.json` files
+ */
+export function loadProfiles(directory: string): LanguageProfile[] {
+  if (!existsSync(directory)) {
+    throw new LanguageProfileError('profile directory not found', directory);
+  }
+  return readdirSync(directory)
+    .filter(file => file.endsWith('.json'))
+    .sort()
+    .map(file => parseProfile(readFileSync(path.join(directory, file), 'utf8'), file));
+}
+
+/**
+ * Statistical language identification from character trigrams, in the manner of
+ * franc and TextCat: a text's trigrams, ranked by frequency, are compared with
+ * each language's profile by how far their ranks are "out of place". Profiles are
+ * bundled as data files, so it works offline; `npm run language:train` rebuilds
+ * them from the corpora in config/language-corpora.
+ *
+ * Unlike the script and lexicon detectors it tells apart languages written in the
+ * same script, English from Spanish or romanized Tamil, but it needs a few words to
+ * go on.
+ */
+export class TrigramLanguageIdentifier {
+  private static defaultIdentifier?: TrigramLanguageIdentifier;
+
+  private readonly ranks: Map<string, Map<string, number>>;
+
+  constructor(profiles: LanguageProfile[]) {
+    this.ranks = new Map(profiles.map(profile => [
+      profile.language,
+      new Map(profile.ngrams.slice(0, PROFILE_SIZE).map((gram, rank) => [gram, rank])),
+    ]));
+  }
+
+  /**
+   * Identifier used by language detection: of the bundled profiles, loaded on first
+   * use, unless other profiles were configured
+   */
+  static getDefault(): TrigramLanguageIdentifier {
+    this.defaultIdentifier ??= new TrigramLanguageIdentifier(loadProfiles(BUNDLED_PROFILES_DIRECTORY));
+    return this.defaultIdentifier;
+  }
+
+  /**
+   * Make language detection use the profiles of a directory instead of the bundled
+   * ones. The server does so at startup from its configuration; scripts need not.
+   */
+  static useProfiles(directory: string): void {
+    this.defaultIdentifier = new TrigramLanguageIdentifier(loadProfiles(directory));
+  }
+
+  get languages(): string[] {
+    return [...this.ranks.keys()];
+  }
+
+  /**
+   * Number of trigrams a text has, to judge whether it is long enough to identify
+   */
+  static countTrigrams(text: string): number {
+    return textTrigrams(text).length;
+  }
+
+  /**
+   * Languages a text may be in, most likely first. Empty when the text has no
+   * letters. Candidates may be limited to some languages.
+   */
+  identify(text: string, only?: string[]): LanguageCandidate[] {
+    const grams = rankTrigrams(text, PROFILE_SIZE);
+    if (grams.length === 0) {
+      return [];
+    }
+
+    const maxDistance = grams.length * PROFILE_SIZE;
+    const candidates: LanguageCandidate[] = [];
+    for (const [language, ranks] of this.ranks) {
+      if (only && !only.includes(language)) continue;
+
+      let distance = 0;
+      grams.forEach((gram, rank) => {
+        const profileRank = ranks.get(gram);
+        distance += profileRank === undefined ? PROFILE_SIZE : Math.min(Math.abs(profileRank - rank), PROFILE_SIZE);
+      });
+      candidates.push({ language, score: 1 - distance / maxDistance });
+    }
+
+    return candidates.sort((a, b) => b.score - a.score || a.language.localeCompare(b.language));
+  }
+}
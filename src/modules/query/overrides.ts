@@ -0,0 +1,190 @@
+import { IntentOverride, IntentOverrideSpec } from '../../models/IntentOverride';
+import { IntentConfig, RiskLevel } from '../../types';
+import { EmbeddingService, HashingEmbeddingService } from './embeddings';
+import { IntentClassifier } from './intent';
+import { IntentCatalogueLoader, intentCatalogue } from './catalogue';
+import { riskRank } from './risk';
+
+/**
+ * An intent of an enterprise's effective catalogue, with where it comes from
+ */
+export interface EffectiveIntent extends IntentConfig {
+  source: 'global' | 'overridden' | 'enterprise';
+}
+
+/**
+ * The global catalogue with an enterprise's overrides applied
+ */
+export interface EffectiveIntentCatalogue {
+  enterprise_id: string;
+  version: string;
+  checksum: string;
+  overrides: number;
+  intents: EffectiveIntent[];
+  // Global intents switched off for this enterprise
+  disabled: string[];
+}
+
+/**
+ * Apply enterprise overrides to the global intents. Overrides of global intents add
+ * examples and replace wording, risk or block threshold; overrides naming an intent
+ * the catalogue does not have define a new enterprise-only intent.
+ */
+export function mergeIntentOverrides(
+  base: IntentConfig[],
+  overrides: IntentOverrideSpec[]
+): { intents: EffectiveIntent[]; disabled: string[] } {
+  const byName = new Map(overrides.map(override => [override.intent_name, override]));
+  const intents: EffectiveIntent[] = [];
+  const disabled: string[] = [];
+
+  for (const intent of base) {
+    const override = byName.get(intent.name);
+    if (!override) {
+      intents.push({ ...intent, source: 'global' });
+    } else if (override.disabled) {
+      disabled.push(intent.name);
+    } else {
+      intents.push({ ...applyOverride(intent, override), source: 'overridden' });
+    }
+  }
+
+  const baseNames = new Set(base.map(intent => intent.name));
+  for (const override of overrides) {
+    if (baseNames.has(override.intent_name) || override.disabled) continue;
+    if (describeOverrideProblems(override).length > 0) continue;
+
+    intents.push({
+      name: override.intent_name,
+      examples: dedupe(override.examples ?? []),
+      responses: { ...override.responses },
+      ...(override.labels && { labels: { ...override.labels } }),
+      risk: override.risk!,
+      ...(override.block_threshold && { block_threshold: override.block_threshold }),
+      source: 'enterprise',
+    });
+  }
+
+  return { intents, disabled };
+}
+
+/**
+ * Why an override cannot be applied, given the global intent it overrides (if any)
+ */
+export function describeOverrideProblems(override: IntentOverrideSpec, globalIntent?: IntentConfig): string[] {
+  const problems: string[] = [];
+
+  if (!globalIntent && !override.disabled) {
+    if (!override.examples?.length) {
+      problems.push('a new intent needs at least one example');
+    }
+    if (!override.responses?.en) {
+      problems.push('a new intent needs an English ("en") response');
+    }
+    if (!override.risk) {
+      problems.push('a new intent needs a risk level');
+    }
+  }
+
+  const risk: RiskLevel | undefined = override.risk ?? globalIntent?.risk;
+  if (override.block_threshold && risk && riskRank(override.block_threshold) > riskRank(risk)) {
+    problems.push(`block_threshold ${override.block_threshold} is above the intent's ${risk} risk and would never block`);
+  }
+
+  return problems;
+}
+
+/**
+ * Whether an override weakens a critical global intent, by disabling it or lowering its risk
+ */
+export function weakensCriticalIntent(override: IntentOverrideSpec, globalIntent?: IntentConfig): boolean {
+  if (globalIntent?.risk !== 'critical') {
+    return false;
+  }
+  return Boolean(override.disabled) || (!!override.risk && riskRank(override.risk) < riskRank('critical'));
+}
+
+function applyOverride(intent: IntentConfig, override: IntentOverrideSpec): IntentConfig {
+  const labels = intent.labels || override.labels
+    ? { ...intent.labels, ...override.labels }
+    : undefined;
+  const blockThreshold = override.block_threshold ?? intent.block_threshold;
+
+  return {
+    name: intent.name,
+    examples: dedupe([...intent.examples, ...(override.examples ?? [])]),
+    responses: { ...intent.responses, ...override.responses },
+    ...(labels && { labels }),
+    risk: override.risk ?? intent.risk,
+    ...(blockThreshold && { block_threshold: blockThreshold }),
+  };
+}
+
+function dedupe(examples: string[]): string[] {
+  const seen = new Set<string>();
+  return examples.filter(example => {
+    const key = example.trim().toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Resolves each enterprise's effective intent catalogue and keeps a classifier per
+ * enterprise with overrides. Classifiers are rebuilt when the global catalogue or
+ * the enterprise's overrides change, so edits apply on the next query on every server.
+ */
+export class EnterpriseIntentCatalogue {
+  private readonly globalClassifier: IntentClassifier;
+  private readonly classifiers = new Map<string, { signature: string; classifier: IntentClassifier }>();
+
+  constructor(
+    private readonly catalogue: IntentCatalogueLoader = intentCatalogue,
+    private readonly embeddings: EmbeddingService = new HashingEmbeddingService()
+  ) {
+    this.globalClassifier = new IntentClassifier(() => this.catalogue.getIntents(), embeddings);
+  }
+
+  async getEffective(enterpriseId: string): Promise<EffectiveIntentCatalogue> {
+    const base = this.catalogue.getCatalogue();
+    const overrides = await IntentOverride.findByEnterprise(enterpriseId);
+    const { intents, disabled } = mergeIntentOverrides(base.intents, overrides.map(override => override.toSpec()));
+
+    return {
+      enterprise_id: enterpriseId,
+      version: base.version,
+      checksum: base.checksum,
+      overrides: overrides.length,
+      intents,
+      disabled,
+    };
+  }
+
+  /**
+   * Classifier over the enterprise's effective catalogue
+   */
+  async getClassifier(enterpriseId: string): Promise<IntentClassifier> {
+    const overrides = await IntentOverride.findByEnterprise(enterpriseId);
+    if (overrides.length === 0) {
+      this.classifiers.delete(enterpriseId);
+      return this.globalClassifier;
+    }
+
+    const base = this.catalogue.getCatalogue();
+    const signature = [
+      base.checksum,
+      ...overrides.map(override => `${override._id}:${(override.updated_at ?? override.created_at)?.getTime()}`),
+    ].join('|');
+
+    const cached = this.classifiers.get(enterpriseId);
+    if (cached?.signature === signature) {
+      return cached.classifier;
+    }
+
+    const { intents } = mergeIntentOverrides(base.intents, overrides.map(override => override.toSpec()));
+    const classifier = new IntentClassifier(intents, this.embeddings);
+    this.classifiers.set(enterpriseId, { signature, classifier });
+    return classifier;
+  }
+}
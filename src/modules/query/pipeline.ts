@@ -0,0 +1,827 @@
+import mongoose from 'mongoose';
+import { v4 as uuidv4 } from 'uuid';
+import { Enterprise, IEnterprise } from '../../models/Enterprise';
+import { Query, IQuery } from '../../models/Query';
+import { Alert, IAlert } from '../../models/Alert';
+import { Conversation, IConversation } from '../../models/Conversation';
+import { RiskRuleSet, RiskRuleSpec } from '../../models/RiskRuleSet';
+import { OperatorLockdown, IOperatorLockdown } from '../../models/OperatorLockdown';
+import { config } from '../../config/environment';
+import { createError } from '../../middleware/errorHandler';
+import { logger } from '../../utils/logger';
+import { getLanguage, localized, normalizeLanguageCode, ttsLocale, UNKNOWN_LANGUAGE } from '../../utils/languages';
+import {
+  ClarificationOption,
+  ClarificationRequest,
+  IntentConfig,
+  IntentResult,
+  ProcessingStep,
+  ProcessingTrace,
+  QueryRequest,
+  QueryResponse,
+  RiskExplanation,
+  STTService,
+  TTSService,
+} from '../../types';
+import { LanguageDetectionService } from './language';
+import { EmbeddingService, HashingEmbeddingService } from './embeddings';
+import { IntentClassifier, UNKNOWN_INTENT } from './intent';
+import { RiskAssessment, RiskAssessor, riskRank } from './risk';
+import { ChunkRetriever, RetrievedChunk } from './retrieval';
+import { AnswerComposer, ComposedAnswer } from './composer';
+import { AnswerCache, AnswerCacheKey, AnswerCacheLookup, answerCache } from './cache';
+import { ConversationResolver, ResolvedQuery } from './conversation';
+import { ClarificationPolicy } from './clarification';
+import { EnterpriseIntentCatalogue } from './overrides';
+import { RiskRuleContext, RiskRuleEngine, RiskRuleSample, RiskRuleTestResult, extractMeasurements } from './rules';
+import { summarizeRiskExplanation } from './explanation';
+import { LabelingQueue } from './labeling';
+import { TamilTransliterator } from './transliteration';
+
+/**
+ * Query pipeline dependencies and tuning options
+ */
+export interface QueryPipelineOptions {
+  embeddings?: EmbeddingService;
+  // Fixed classifier for every enterprise, ignoring enterprise intent overrides
+  classifier?: IntentClassifier;
+  intents?: EnterpriseIntentCatalogue;
+  retriever?: ChunkRetriever;
+  composer?: AnswerComposer;
+  cache?: AnswerCache;
+  clarifier?: ClarificationPolicy;
+  labeling?: LabelingQueue;
+  stt?: STTService;
+  tts?: TTSService;
+  retrievalLimit?: number;
+  similarityThreshold?: number;
+}
+
+/**
+ * Outcome of the language detection step
+ */
+export interface DetectedLanguage {
+  // Language the query is answered in
+  code: string;
+  confidence: number;
+  // Language the operator wrote in, when the enterprise does not allow it and the
+  // query is answered in a fallback
+  detected?: string;
+}
+
+/**
+ * Callback notified as each processing step completes, with the step's result when it succeeded
+ */
+export type QueryPipelineListener = (step: ProcessingStep, result?: unknown) => void;
+
+/**
+ * The operator's answer to a clarifying question asked for a stored query
+ */
+export interface ClarificationChoice {
+  query: IQuery;
+  option: ClarificationOption;
+  resolved_by: string;
+}
+
+/**
+ * Per-call processing options
+ */
+export interface ProcessOptions {
+  // Answer without loading conversations, synthesizing audio or persisting queries and alerts
+  dryRun?: boolean;
+  // Stop before the next step once aborted
+  signal?: AbortSignal;
+  // Answer the stored query with the operator's choice instead of classifying it again
+  clarification?: ClarificationChoice;
+}
+
+/**
+ * State of a single pipeline run
+ */
+interface PipelineRun {
+  trace: ProcessingTrace;
+  listener?: QueryPipelineListener;
+  signal?: AbortSignal;
+}
+
+/**
+ * Localized message shown when a query is blocked for safety
+ */
+const BLOCKED_MESSAGES: Record<string, string> = {
+  en: 'This request has been blocked for safety reasons. Stop work and contact your supervisor immediately.',
+  ta: 'பாதுகாப்பு காரணங்களுக்காக இந்த கோரிக்கை தடுக்கப்பட்டுள்ளது. வேலையை நிறுத்திவிட்டு உடனடியாக உங்கள் மேற்பார்வையாளரைத் தொடர்பு கொள்ளவும்.',
+  tanglish: 'Safety reason-aala indha request block pannapattirukku. Velaiya niruthitu udane supervisor-a contact pannunga.',
+  hi: 'सुरक्षा कारणों से यह अनुरोध रोक दिया गया है। काम बंद करें और तुरंत अपने सुपरवाइज़र से संपर्क करें।',
+  hinglish: 'Safety reasons ki wajah se yeh request block kar di gayi hai. Kaam band kijiye aur turant apne supervisor se contact kijiye.',
+  te: 'భద్రతా కారణాల వల్ల ఈ అభ్యర్థన నిలిపివేయబడింది. పని ఆపి, వెంటనే మీ సూపర్‌వైజర్‌ను సంప్రదించండి.',
+  kn: 'ಸುರಕ್ಷತಾ ಕಾರಣಗಳಿಂದ ಈ ವಿನಂತಿಯನ್ನು ತಡೆಹಿಡಿಯಲಾಗಿದೆ. ಕೆಲಸ ನಿಲ್ಲಿಸಿ ಮತ್ತು ತಕ್ಷಣ ನಿಮ್ಮ ಮೇಲ್ವಿಚಾರಕರನ್ನು ಸಂಪರ್ಕಿಸಿ.',
+  ml: 'സുരക്ഷാ കാരണങ്ങളാൽ ഈ അഭ്യർത്ഥന തടഞ്ഞിരിക്കുന്നു. ജോലി നിർത്തി ഉടൻ തന്നെ നിങ്ങളുടെ സൂപ്പർവൈസറെ ബന്ധപ്പെടുക.',
+  bn: 'নিরাপত্তার কারণে এই অনুরোধটি আটকে দেওয়া হয়েছে। কাজ বন্ধ করুন এবং অবিলম্বে আপনার সুপারভাইজারের সাথে যোগাযোগ করুন।',
+  es: 'Esta solicitud se ha bloqueado por motivos de seguridad. Detenga el trabajo y contacte de inmediato con su supervisor.',
+  fr: 'Cette demande a été bloquée pour des raisons de sécurité. Arrêtez le travail et contactez immédiatement votre responsable.',
+  de: 'Diese Anfrage wurde aus Sicherheitsgründen gesperrt. Stoppen Sie die Arbeit und wenden Sie sich sofort an Ihren Vorgesetzten.',
+};
+
+/**
+ * Localized message rejecting a query in a language the enterprise does not allow,
+ * listing the languages it does
+ */
+const LANGUAGE_NOT_ALLOWED_MESSAGES: Record<string, string> = {
+  en: 'This language is not enabled for your site. Please ask in one of: {languages}.',
+  ta: 'இந்த மொழி உங்கள் தளத்துக்கு இயக்கப்படவில்லை. இவற்றில் ஒன்றில் கேளுங்கள்: {languages}.',
+  tanglish: 'Indha language unga site-kku enable pannala. Indha languages-la onnula kelunga: {languages}.',
+  hi: 'यह भाषा आपकी साइट के लिए सक्षम नहीं है। कृपया इनमें से किसी एक में पूछें: {languages}।',
+  hinglish: 'Yeh language aapki site ke liye enabled nahi hai. Kripya inmein se kisi ek mein poochhiye: {languages}.',
+  te: 'ఈ భాష మీ సైట్‌కు ప్రారంభించబడలేదు. దయచేసి వీటిలో ఒకదానిలో అడగండి: {languages}.',
+  kn: 'ಈ ಭಾಷೆಯನ್ನು ನಿಮ್ಮ ಸೈಟ್‌ಗೆ ಸಕ್ರಿಯಗೊಳಿಸಲಾಗಿಲ್ಲ. ದಯವಿಟ್ಟು ಇವುಗಳಲ್ಲಿ ಒಂದರಲ್ಲಿ ಕೇಳಿ: {languages}.',
+  ml: 'ഈ ഭാഷ നിങ്ങളുടെ സൈറ്റിനായി പ്രവർത്തനക്ഷമമാക്കിയിട്ടില്ല. ദയവായി ഇവയിലൊന്നിൽ ചോദിക്കുക: {languages}.',
+  bn: 'এই ভাষাটি আপনার সাইটের জন্য চালু করা নেই। অনুগ্রহ করে এগুলোর একটিতে জিজ্ঞাসা করুন: {languages}।',
+  es: 'Este idioma no está habilitado para su planta. Pregunte en uno de estos: {languages}.',
+  fr: 'Cette langue n\'est pas activée pour votre site. Posez votre question dans l\'une de ces langues : {languages}.',
+  de: 'Diese Sprache ist für Ihren Standort nicht freigeschaltet. Bitte fragen Sie in einer dieser Sprachen: {languages}.',
+};
+
+/**
+ * Localized message shown while the operator is locked down after a critical query
+ */
+const LOCKDOWN_MESSAGES: Record<string, string> = {
+  en: 'Your queries about this machine are locked after a critical safety alert. Stop work and contact your supervisor; an administrator must clear the lockdown before you can continue.',
+  ta: 'கடுமையான பாதுகாப்பு எச்சரிக்கைக்குப் பிறகு இந்த இயந்திரம் குறித்த உங்கள் கேள்விகள் பூட்டப்பட்டுள்ளன. வேலையை நிறுத்திவிட்டு உங்கள் மேற்பார்வையாளரைத் தொடர்பு கொள்ளவும்; நிர்வாகி பூட்டை நீக்கிய பிறகே தொடர முடியும்.',
+  tanglish: 'Critical safety alert-kku apram indha machine pathi unga queries lock pannapattirukku. Velaiya niruthitu supervisor-a contact pannunga; admin lock-a clear pannadhukku apram dhaan continue panna mudiyum.',
+  hi: 'गंभीर सुरक्षा अलर्ट के बाद इस मशीन के बारे में आपके प्रश्न लॉक कर दिए गए हैं। काम बंद करें और अपने सुपरवाइज़र से संपर्क करें; आगे बढ़ने से पहले किसी एडमिनिस्ट्रेटर को लॉक हटाना होगा।',
+  hinglish: 'Critical safety alert ke baad is machine ke baare mein aapki queries lock kar di gayi hain. Kaam band kijiye aur apne supervisor se contact kijiye; aage badhne se pehle admin ko lock hatana hoga.',
+  te: 'తీవ్రమైన భద్రతా హెచ్చరిక తర్వాత ఈ యంత్రం గురించి మీ ప్రశ్నలు లాక్ చేయబడ్డాయి. పని ఆపి మీ సూపర్‌వైజర్‌ను సంప్రదించండి; మీరు కొనసాగించే ముందు నిర్వాహకుడు లాక్‌ను తొలగించాలి.',
+  kn: 'ಗಂಭೀರ ಸುರಕ್ಷತಾ ಎಚ್ಚರಿಕೆಯ ನಂತರ ಈ ಯಂತ್ರದ ಕುರಿತು ನಿಮ್ಮ ಪ್ರಶ್ನೆಗಳನ್ನು ಲಾಕ್ ಮಾಡಲಾಗಿದೆ. ಕೆಲಸ ನಿಲ್ಲಿಸಿ ಮತ್ತು ನಿಮ್ಮ ಮೇಲ್ವಿಚಾರಕರನ್ನು ಸಂಪರ್ಕಿಸಿ; ನೀವು ಮುಂದುವರಿಯುವ ಮೊದಲು ನಿರ್ವಾಹಕರು ಲಾಕ್ ತೆಗೆದುಹಾಕಬೇಕು.',
+  ml: 'ഗുരുതരമായ സുരക്ഷാ മുന്നറിയിപ്പിനെ തുടർന്ന് ഈ യന്ത്രത്തെക്കുറിച്ചുള്ള നിങ്ങളുടെ ചോദ്യങ്ങൾ ലോക്ക് ചെയ്തിരിക്കുന്നു. ജോലി നിർത്തി നിങ്ങളുടെ സൂപ്പർവൈസറെ ബന്ധപ്പെടുക; തുടരുന്നതിന് മുമ്പ് ഒരു അഡ്മിനിസ്ട്രേറ്റർ ലോക്ക് നീക്കം ചെയ്യണം.',
+  bn: 'গুরুতর নিরাপত্তা সতর্কতার পরে এই মেশিন সম্পর্কে আপনার প্রশ্নগুলি লক করা হয়েছে। কাজ বন্ধ করুন এবং আপনার সুপারভাইজারের সাথে যোগাযোগ করুন; চালিয়ে যাওয়ার আগে একজন অ্যাডমিনিস্ট্রেটরকে লকটি সরাতে হবে।',
+  es: 'Sus consultas sobre esta máquina están bloqueadas tras una alerta de seguridad crítica. Detenga el trabajo y contacte con su supervisor; un administrador debe levantar el bloqueo antes de que pueda continuar.',
+  fr: 'Vos questions sur cette machine sont bloquées à la suite d\'une alerte de sécurité critique. Arrêtez le travail et contactez votre responsable ; un administrateur doit lever le blocage avant que vous puissiez continuer.',
+  de: 'Ihre Anfragen zu dieser Maschine sind nach einem kritischen Sicherheitsalarm gesperrt. Stoppen Sie die Arbeit und wenden Sie sich an Ihren Vorgesetzten; ein Administrator muss die Sperre aufheben, bevor Sie fortfahren können.',
+};
+
+/**
+ * Orchestrates the complete query processing workflow:
+ * STT → language detection → intent → risk → lockdown → clarification → cache/retrieval → response → TTS → logging
+ */
+export class QueryPipeline {
+  private readonly classifier?: IntentClassifier;
+  private readonly intents: EnterpriseIntentCatalogue;
+  private readonly retriever: ChunkRetriever;
+  private readonly composer: AnswerComposer;
+  private readonly cache: AnswerCache;
+  private readonly clarifier: ClarificationPolicy;
+  private readonly labeling: LabelingQueue;
+  private readonly stt?: STTService;
+  private readonly tts?: TTSService;
+  private readonly retrievalLimit?: number;
+  private readonly similarityThreshold?: number;
+
+  constructor(options: QueryPipelineOptions = {}) {
+    const embeddings = options.embeddings ?? new HashingEmbeddingService();
+    this.classifier = options.classifier;
+    this.intents = options.intents ?? new EnterpriseIntentCatalogue(undefined, embeddings);
+    this.retriever = options.retriever ?? new ChunkRetriever(embeddings);
+    this.composer = options.composer ?? new AnswerComposer(embeddings);
+    this.cache = options.cache ?? answerCache;
+    this.clarifier = options.clarifier ?? new ClarificationPolicy();
+    this.labeling = options.labeling ?? new LabelingQueue(this.intents);
+    this.stt = options.stt;
+    this.tts = options.tts;
+    this.retrievalLimit = options.retrievalLimit;
+    this.similarityThreshold = options.similarityThreshold;
+  }
+
+  /**
+   * Process an operator query end to end
+   */
+  async process(
+    request: QueryRequest,
+    traceId: string = uuidv4(),
+    listener?: QueryPipelineListener,
+    options: ProcessOptions = {}
+  ): Promise<QueryResponse> {
+    const startTime = Date.now();
+    const trace: ProcessingTrace = {
+      trace_id: traceId,
+      timestamp: new Date(),
+      processing_time_ms: 0,
+      steps: [],
+    };
+    const run: PipelineRun = { trace, listener, signal: options.signal };
+
+    const enterprise = await Enterprise.findById(request.enterprise_id);
+    if (!enterprise) {
+      throw createError('Enterprise not found', 404, 'ENTERPRISE_NOT_FOUND');
+    }
+
+    let text = request.input_text?.trim() ?? '';
+    if (!text && request.audio_base64) {
+      text = (await this.runStep(run, 'stt', () => this.transcribe(request.audio_base64!))).trim();
+    }
+    if (!text) {
+      throw createError('Query text is empty', 400, 'EMPTY_QUERY');
+    }
+
+    const language = await this.runStep(run, 'language_detection', async () =>
+      this.enforceAllowedLanguage(enterprise, await this.detectLanguage(text, request.language))
+    );
+
+    // Dry runs treat every question as standalone, since the conversation may have moved on
+    const conversation = options.dryRun ? null : await this.runStep(run, 'conversation_resolution', () =>
+      this.loadConversation(request)
+    );
+    const classifier = this.classifier ?? await this.intents.getClassifier(String(enterprise._id));
+    const choice = options.clarification;
+    const resolved = ConversationResolver.resolve(text, conversation);
+    if (choice?.option.kind === 'manual') {
+      resolved.manual_id = choice.option.value;
+    }
+
+    const intent = await this.runStep(run, 'intent_classification', async () =>
+      choice?.option.kind === 'intent'
+        ? { name: choice.option.value, confidence: choice.option.confidence, matched_examples: [] }
+        : ConversationResolver.carryIntent(await classifier.classify(text), resolved, conversation)
+    );
+
+    const assessment = await this.runStep(run, 'risk_assessment', () =>
+      this.assessRisk(enterprise, classifier, { text, intent, language: language.code, machine: resolved.machine, at: new Date() })
+    );
+
+    // Dry runs replay past queries, which current lockdowns say nothing about
+    const lockdown = options.dryRun ? null : await this.runStep(run, 'lockdown_check', () =>
+      OperatorLockdown.findActive(enterprise._id, request.operator_id, resolved.machine)
+    );
+    const blocked = assessment.blocked || lockdown !== null;
+
+    // Blocking always wins over asking; follow-ups are short by nature and lean on the previous turn
+    let clarification: ClarificationRequest | null = null;
+    if (!blocked && !choice && !resolved.is_follow_up) {
+      clarification = await this.runStep(run, 'clarification', async () =>
+        this.clarifier.forIntents(
+          await classifier.rank(text),
+          language.code,
+          name => classifier.getIntent(name)
+        )
+      );
+    }
+
+    // However the operator typed Tamil, manuals are searched with it in Tamil script
+    const retrievalText = this.canonicalText(resolved.retrieval_text, language.detected ?? language.code);
+    const cacheKey: AnswerCacheKey = {
+      enterprise_id: String(enterprise._id),
+      text: retrievalText,
+      language: language.code,
+      machine: resolved.machine,
+      manual_id: resolved.manual_id,
+    };
+
+    let cached: AnswerCacheLookup | undefined;
+    let chunks: RetrievedChunk[] = [];
+    let retrieved = false;
+    if (!blocked && !clarification) {
+      cached = await this.runOptionalStep(run, 'cache_lookup', () => this.cache.get(cacheKey), undefined);
+
+      if (cached?.value) {
+        chunks = cached.value.chunks;
+      } else {
+        const results = await this.runOptionalStep(run, 'retrieval', () =>
+          this.retriever.retrieve(retrievalText, enterprise._id, {
+            limit: this.retrievalLimit,
+            threshold: this.similarityThreshold,
+            manualId: resolved.manual_id,
+          }), null
+        );
+        chunks = results ?? [];
+        retrieved = results !== null;
+      }
+
+      if (choice?.option.kind === 'manual') {
+        // The operator named the machine, so other manuals are no longer relevant
+        chunks = chunks.filter(chunk => chunk.manual_id === choice.option.value);
+      } else if (!choice && !resolved.machine && !resolved.manual_id) {
+        clarification = this.clarifier.forSources(chunks, language.code);
+      }
+    }
+
+    const answer = await this.runStep(run, 'response_generation', async () => {
+      if (assessment.blocked) {
+        return this.blockedResponse(language.code);
+      }
+      if (lockdown) {
+        return this.lockdownResponse(language.code);
+      }
+      if (clarification) {
+        return { text: clarification.question, sources: [], found: false };
+      }
+
+      const manualAnswer = cached?.value?.answer
+        ?? await this.composer.compose(retrievalText, chunks, language.code);
+      if (cached && !cached.value && retrieved) {
+        this.cache.set(cacheKey, cached.corpus_version, { chunks, answer: manualAnswer });
+      }
+      return this.withIntentFallback(manualAnswer, classifier.getIntent(intent.name), language.code);
+    });
+
+    let audioBase64: string | undefined;
+    if (this.tts && !options.dryRun) {
+      const tts = this.tts;
+      audioBase64 = await this.runOptionalStep(run, 'tts', () =>
+        tts.synthesize(this.canonicalText(answer.text, language.code), ttsLocale(language.code)), undefined
+      );
+    }
+
+    trace.processing_time_ms = Date.now() - startTime;
+    const session = conversation ?? new Conversation({
+      enterprise_id: enterprise._id,
+      operator_id: request.operator_id,
+      query_ids: [],
+      context: {},
+    });
+    let query: IQuery | null = null;
+    if (!options.dryRun) {
+      // A clarified query raised its alert, if any, when it was first asked
+      const alerted = choice?.query.shouldCreateAlert() ?? false;
+      query = await this.runOptionalStep(run, 'persistence', async () => {
+        const saved = await this.persist(
+          request, enterprise, session, text, language, intent, assessment, lockdown, resolved.machine, answer, trace,
+          clarification, choice
+        );
+        // An unanswered question settles nothing, so the guessed intent and manual are not carried forward
+        await this.recordTurn(
+          session, saved, text, clarification ? null : intent, resolved, clarification ? [] : chunks
+        );
+        return saved;
+      }, null);
+
+      // Refusing a query during a lockdown is not itself alert-worthy, only what the query was about.
+      // Unlike the query record, a missing alert or lockdown would hide a hazard, so it fails the query,
+      // and it is raised even if the run was cancelled once the query was stored.
+      const alertable = assessment.blocked || riskRank(assessment.risk) >= riskRank('high');
+      if (!alerted && alertable) {
+        await this.runCommittedStep(run, 'alerting', () => this.raiseAlert(
+          request, enterprise, text, language, intent, assessment, lockdown, resolved.machine, query, trace
+        ));
+      }
+    }
+    trace.processing_time_ms = Date.now() - startTime;
+
+    return {
+      text: answer.text,
+      steps: trace.steps,
+      intent,
+      risk_level: assessment.risk,
+      blocked,
+      audio_base64: audioBase64,
+      trace,
+      sources: answer.sources,
+      query_id: query ? String(query._id) : undefined,
+      conversation_id: query ? String(session._id) : undefined,
+      clarification: clarification ?? undefined,
+      lockdown: lockdown
+        ? {
+          lockdown_id: String(lockdown._id),
+          machine: lockdown.machine,
+          alert_id: String(lockdown.alert_id),
+          locked_at: lockdown.created_at,
+        }
+        : undefined,
+    };
+  }
+
+  /**
+   * Run a required step, recording its timing and rethrowing on failure
+   */
+  private async runStep<T>(run: PipelineRun, name: string, fn: () => Promise<T>): Promise<T> {
+    if (run.signal?.aborted) {
+      throw createError('Query processing was cancelled', 409, 'QUERY_CANCELLED');
+    }
+    return this.runCommittedStep(run, name, fn);
+  }
+
+  /**
+   * Run a required step that must follow those already done, even if the run has been
+   * cancelled since
+   */
+  private async runCommittedStep<T>(run: PipelineRun, name: string, fn: () => Promise<T>): Promise<T> {
+    const startTime = Date.now();
+    try {
+      const result = await fn();
+      this.recordStep(run, { name, duration_ms: Date.now() - startTime, success: true }, result);
+      return result;
+    } catch (error) {
+      this.recordStep(run, {
+        name,
+        duration_ms: Date.now() - startTime,
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Add a step to the trace and notify the run's listener
+   */
+  private recordStep(run: PipelineRun, step: ProcessingStep, result?: unknown): void {
+    run.trace.steps.push(step);
+    if (!run.listener) return;
+
+    try {
+      run.listener(step, result);
+    } catch (error) {
+      logger.warn('Query pipeline listener failed', {
+        trace_id: run.trace.trace_id,
+        step: step.name,
+        error: error instanceof Error ? error.message : error,
+      });
+    }
+  }
+
+  /**
+   * Run a step whose failure degrades the response instead of aborting it
+   */
+  private async runOptionalStep<T>(
+    run: PipelineRun,
+    name: string,
+    fn: () => Promise<T>,
+    fallback: T
+  ): Promise<T> {
+    try {
+      return await this.runStep(run, name, fn);
+    } catch (error) {
+      if (run.signal?.aborted) {
+        throw error;
+      }
+      logger.warn(`Query pipeline step "${name}" failed, continuing`, {
+        trace_id: run.trace.trace_id,
+        error: error instanceof Error ? error.message : error,
+      });
+      return fallback;
+    }
+  }
+
+  /**
+   * Evaluate a sample text against an enterprise's risk rules without answering or
+   * recording it. Draft rules are evaluated in place of the published ones when given.
+   */
+  async evaluateRiskRules(enterpriseId: string, sample: RiskRuleSample, draft?: RiskRuleSpec[]): Promise<RiskRuleTestResult> {
+    const enterprise = await Enterprise.findById(enterpriseId);
+    if (!enterprise) {
+      throw createError('Enterprise not found', 404, 'ENTERPRISE_NOT_FOUND');
+    }
+
+    const classifier = this.classifier ?? await this.intents.getClassifier(String(enterprise._id));
+    const context: RiskRuleContext = {
+      text: sample.text,
+      intent: await classifier.classify(sample.text),
+      language: (await this.detectLanguage(sample.text, sample.language)).code,
+      machine: sample.machine ?? ConversationResolver.detectMachine(sample.text),
+      at: sample.at ?? new Date(),
+    };
+
+    const ruleSet = draft ? null : await RiskRuleSet.findActive(enterprise._id);
+    const rules = draft ?? ruleSet?.rules ?? [];
+    const version = ruleSet?.version ?? null;
+    const evaluations = RiskRuleEngine.evaluate(rules, context);
+
+    return {
+      context,
+      measurements: extractMeasurements(sample.text),
+      version,
+      matches: evaluations.filter(evaluation => evaluation.matched),
+      evaluations,
+      assessment: RiskAssessor.assess(
+        classifier.getIntent(context.intent.name),
+        enterprise.getRiskThreshold(),
+        context.text,
+        undefined,
+        RiskRuleEngine.match(rules, context, version ?? undefined)
+      ),
+    };
+  }
+
+  /**
+   * Assess risk from the intent, escalation keywords and the enterprise's published risk rules
+   */
+  private async assessRisk(
+    enterprise: IEnterprise,
+    classifier: IntentClassifier,
+    context: RiskRuleContext
+  ): Promise<RiskAssessment> {
+    const ruleSet = await RiskRuleSet.findActive(enterprise._id);
+    const matches = ruleSet ? RiskRuleEngine.match(ruleSet.rules, context, ruleSet.version) : [];
+
+    return RiskAssessor.assess(
+      classifier.getIntent(context.intent.name),
+      enterprise.getRiskThreshold(),
+      context.text,
+      undefined,
+      matches
+    );
+  }
+
+  private async transcribe(audioBase64: string): Promise<string> {
+    if (!this.stt || !this.stt.isReady()) {
+      throw createError('Speech-to-text service is not available', 503, 'STT_UNAVAILABLE');
+    }
+    return this.stt.transcribe(audioBase64);
+  }
+
+  /**
+   * Load the operator's conversation: the requested one, or the latest active session.
+   * Expired conversations are not continued, so the next turn starts a new one.
+   */
+  private async loadConversation(request: QueryRequest): Promise<IConversation | null> {
+    const timeoutMs = config.conversations.inactivityTimeoutMs;
+
+    if (!request.conversation_id) {
+      return Conversation.findActiveSession(request.enterprise_id, request.operator_id, timeoutMs);
+    }
+
+    const conversation = await Conversation.findOne({
+      _id: request.conversation_id,
+      enterprise_id: request.enterprise_id,
+      operator_id: request.operator_id,
+    });
+    if (!conversation) {
+      throw createError('Conversation not found', 404, 'CONVERSATION_NOT_FOUND');
+    }
+
+    return conversation.isExpired(timeoutMs) ? null : conversation;
+  }
+
+  private async detectLanguage(text: string, requested?: string): Promise<DetectedLanguage> {
+    if (requested && requested !== 'auto') {
+      return { code: normalizeLanguageCode(requested) ?? requested, confidence: 1 };
+    }
+
+    const result = await LanguageDetectionService.detectLanguage(text);
+    return { code: result.language_code, confidence: result.confidence };
+  }
+
+  /**
+   * Hold a query to the languages its enterprise allows. A language that is not
+   * allowed is answered in the first of its fallbacks that is, Tanglish in Tamil or
+   * English for example; without one the query is rejected, in the operator's
+   * language, before anything about it is stored. Queries whose language could not
+   * be detected are let through.
+   */
+  private enforceAllowedLanguage(enterprise: IEnterprise, language: DetectedLanguage): DetectedLanguage {
+    if (language.code === UNKNOWN_LANGUAGE || enterprise.isLanguageAllowed(language.code)) {
+      return language;
+    }
+
+    const info = getLanguage(language.code);
+    const fallback = info?.fallbacks.find(code => enterprise.isLanguageAllowed(code));
+    if (fallback) {
+      logger.info('Query answered in a fallback language', {
+        enterprise_id: enterprise._id,
+        language: language.code,
+        fallback,
+      });
+      return { ...language, code: fallback, detected: language.code };
+    }
+
+    const allowed = enterprise.settings?.allowed_languages ?? [];
+    const template = localized(LANGUAGE_NOT_ALLOWED_MESSAGES, language.code)!;
+    const names = allowed.map(code => getLanguage(code)?.native_name ?? code).join(', ');
+    throw createError(template.replace('{languages}', names), 400, 'LANGUAGE_NOT_ALLOWED', {
+      language: language.code,
+      allowed_languages: allowed,
+    });
+  }
+
+  /**
+   * Romanized Tanglish with its Tamil words in Tamil script; other languages as they are
+   */
+  private canonicalText(text: string, language: string): string {
+    return language === 'tanglish' ? TamilTransliterator.canonicalize(text).text : text;
+  }
+
+  private blockedResponse(language: string): ComposedAnswer {
+    return { text: localized(BLOCKED_MESSAGES, language)!, sources: [], found: false };
+  }
+
+  private lockdownResponse(language: string): ComposedAnswer {
+    return { text: localized(LOCKDOWN_MESSAGES, language)!, sources: [], found: false };
+  }
+
+  /**
+   * Use the intent's canned response when the manuals could not answer
+   */
+  private withIntentFallback(answer: ComposedAnswer, intent: IntentConfig | undefined, language: string): ComposedAnswer {
+    if (answer.found) {
+      return answer;
+    }
+
+    const responses = intent?.responses;
+    if (responses) {
+      return { text: localized(responses, language) ?? answer.text, sources: [], found: false };
+    }
+
+    return answer;
+  }
+
+  private async persist(
+    request: QueryRequest,
+    enterprise: IEnterprise,
+    conversation: IConversation,
+    text: string,
+    language: DetectedLanguage,
+    intent: IntentResult,
+    assessment: RiskAssessment,
+    lockdown: IOperatorLockdown | null,
+    machine: string | undefined,
+    answer: ComposedAnswer,
+    trace: ProcessingTrace,
+    clarification: ClarificationRequest | null,
+    choice?: ClarificationChoice
+  ): Promise<IQuery> {
+    const blocked = assessment.blocked || lockdown !== null;
+    const explanation = this.explainDecision(assessment, lockdown);
+    const data = {
+      text,
+      intent,
+      confidence: intent.confidence,
+      risk: assessment.risk,
+      blocked,
+      risk_explanation: explanation,
+      detected_language: language.detected ?? language.code,
+      processing_time_ms: Math.round(trace.processing_time_ms),
+      response_text: blocked ? undefined : answer.text,
+      sources: answer.sources,
+    };
+
+    let query: IQuery;
+    if (choice) {
+      // The answer replaces the question on the original query, keeping the exchange for audit
+      query = choice.query;
+      query.conversation_id = conversation._id;
+      query.set('data', data);
+      query.resolveClarification(choice.option.id, choice.resolved_by);
+      await query.save();
+    } else {
+      query = await Query.create({
+        enterprise_id: enterprise._id,
+        operator_id: request.operator_id,
+        conversation_id: conversation._id,
+        data,
+        clarification: clarification
+          ? { ...clarification, language: language.code, status: 'pending', asked_at: new Date() }
+          : undefined,
+      });
+
+      if (this.labeling.needsReview(intent)) {
+        await this.queueForReview(query, trace);
+      }
+    }
+
+    return query;
+  }
+
+  /**
+   * The assessment's explanation, marked as refused when the operator is locked down
+   */
+  private explainDecision(assessment: RiskAssessment, lockdown: IOperatorLockdown | null): RiskExplanation {
+    return lockdown
+      ? { ...assessment.explanation, decision: { ...assessment.explanation.decision, blocked: true, locked_down: true } }
+      : assessment.explanation;
+  }
+
+  /**
+   * Alert admins to a high-risk or blocked query. A critical query also locks the
+   * operator out of the machine it is about; one naming no machine locks every
+   * machine only when it asserts a critical hazard, not when its risk was only
+   * inferred from its intent. The lockdown is created before the alert recording it,
+   * so that an alert never lists a lockdown that does not exist.
+   */
+  private async raiseAlert(
+    request: QueryRequest,
+    enterprise: IEnterprise,
+    text: string,
+    language: DetectedLanguage,
+    intent: IntentResult,
+    assessment: RiskAssessment,
+    lockdown: IOperatorLockdown | null,
+    machine: string | undefined,
+    query: IQuery | null,
+    trace: ProcessingTrace
+  ): Promise<IAlert> {
+    const explanation = this.explainDecision(assessment, lockdown);
+    const assertsCritical = assessment.explanation.keywords
+      .some(hit => hit.context === 'asserted' && hit.level === 'critical');
+    const lockdownId = assessment.risk === 'critical' && !lockdown && (!!machine || assertsCritical)
+      ? new mongoose.Types.ObjectId()
+      : undefined;
+    const alertId = new mongoose.Types.ObjectId();
+    const lockReason = assessment.reason.slice(0, 500);
+
+    if (lockdownId) {
+      await OperatorLockdown.create({
+        _id: lockdownId,
+        enterprise_id: enterprise._id,
+        operator_id: request.operator_id,
+        machine,
+        query_id: query?._id,
+        alert_id: alertId,
+        reason: lockReason,
+      });
+
+      logger.warn('Operator locked down after critical query', {
+        trace_id: trace.trace_id,
+        lockdown_id: lockdownId,
+        alert_id: alertId,
+        operator_id: request.operator_id,
+        machine: machine ?? 'all',
+      });
+    }
+
+    const alert = await Alert.create({
+      _id: alertId,
+      enterprise_id: enterprise._id,
+      operator_id: request.operator_id,
+      data: {
+        text,
+        intent,
+        risk: assessment.risk,
+        language: language.detected ?? language.code,
+        trigger_reason: lockReason,
+        risk_rule: assessment.rule,
+        risk_explanation: explanation,
+      },
+      lockdown_events: lockdownId
+        ? [{ action: 'locked', lockdown_id: lockdownId, machine, reason: lockReason, at: new Date() }]
+        : [],
+    });
+
+    logger.warn('High-risk query alert created', {
+      trace_id: trace.trace_id,
+      alert_id: alert._id,
+      query_id: query?._id,
+      risk: assessment.risk,
+      blocked: assessment.blocked,
+      rule_id: assessment.rule.rule_id,
+      summary: summarizeRiskExplanation(explanation),
+    });
+
+    return alert;
+  }
+
+  /**
+   * Queue an uncertain query for an admin to label. The query was answered either
+   * way, so a failure here is logged rather than failing the query.
+   */
+  private async queueForReview(query: IQuery, trace: ProcessingTrace): Promise<void> {
+    try {
+      const task = await this.labeling.enqueue(query, 'low_confidence');
+      if (task) {
+        logger.debug('Query queued for intent review', {
+          trace_id: trace.trace_id,
+          query_id: query._id,
+          labeling_task_id: task._id,
+          intent: query.data.intent.name,
+          confidence: query.data.intent.confidence,
+        });
+      }
+    } catch (error) {
+      logger.warn('Failed to queue query for intent review', {
+        trace_id: trace.trace_id,
+        query_id: query._id,
+        error: error instanceof Error ? error.message : error,
+      });
+    }
+  }
+
+  /**
+   * Append a processed query to its conversation and carry its context forward
+   */
+  private async recordTurn(
+    conversation: IConversation,
+    query: IQuery,
+    text: string,
+    intent: IntentResult | null,
+    resolved: ResolvedQuery,
+    chunks: RetrievedChunk[]
+  ): Promise<void> {
+    const context: IConversation['context'] = { last_text: text };
+
+    if (resolved.machine) {
+      context.machine = resolved.machine;
+    }
+    if (intent && intent.name !== UNKNOWN_INTENT) {
+      context.intent = intent.name;
+      context.intent_confidence = intent.confidence;
+    }
+    if (chunks.length > 0 && mongoose.Types.ObjectId.isValid(chunks[0].manual_id)) {
+      context.manual_id = new mongoose.Types.ObjectId(chunks[0].manual_id);
+    }
+
+    conversation.addTurn(query._id, context);
+    await conversation.save();
+  }
+}
+
+/**
+ * Shared pipeline instance used by the query routes
+ */
+export const queryPipeline = new QueryPipeline();
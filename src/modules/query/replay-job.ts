@@ -0,0 +1,82 @@
+import { writeFileSync } from 'fs';
+import { config } from '../../config/environment';
+import { DatabaseConnection } from '../../config/database';
+import { QueryReplayer, ReplayFilter } from './replay';
+
+/**
+ * Batch replay of stored queries against the current pipeline.
+ *
+ * Usage:
+ *   npm run replay:queries -- --enterprise <id> [--since <ISO date>] [--until <ISO date>]
+ *     [--intent <name>] [--limit <n>] [--output <file.json>] [--fail-on-change]
+ *
+ * Exits with code 1 when --fail-on-change is set and any replayed query changed or failed,
+ * so it can gate configuration rollouts.
+ */
+function parseArgs(argv: string[]): Record<string, string | boolean> {
+  const args: Record<string, string | boolean> = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (!argv[i].startsWith('--')) continue;
+
+    const name = argv[i].slice(2);
+    const next = argv[i + 1];
+    if (next === undefined || next.startsWith('--')) {
+      args[name] = true;
+    } else {
+      args[name] = next;
+      i++;
+    }
+  }
+  return args;
+}
+
+async function main(): Promise<number> {
+  const args = parseArgs(process.argv.slice(2));
+
+  const enterpriseId = args.enterprise;
+  if (typeof enterpriseId !== 'string' || !/^[0-9a-fA-F]{24}$/.test(enterpriseId)) {
+    console.error('--enterprise <id> is required and must be a valid ObjectId');
+    return 2;
+  }
+
+  const filter: ReplayFilter = {};
+  if (typeof args.since === 'string') filter.since = new Date(args.since);
+  if (typeof args.until === 'string') filter.until = new Date(args.until);
+  if (typeof args.intent === 'string') filter.intent = args.intent;
+  if (typeof args.limit === 'string') filter.limit = parseInt(args.limit, 10);
+
+  const database = DatabaseConnection.getInstance();
+  await database.connect({ uri: config.database.uri });
+
+  try {
+    const report = await new QueryReplayer().replay(enterpriseId, filter);
+    const { summary } = report;
+
+    console.log(`Replayed ${summary.total} queries: ${summary.changed} changed, ${summary.unchanged} unchanged, ${summary.failed} failed`);
+    for (const [field, count] of Object.entries(summary.changes_by_field)) {
+      if (count > 0) console.log(`  ${field}: ${count}`);
+    }
+    for (const result of report.results.filter(item => item.changes.length > 0 || item.error)) {
+      const detail = result.error
+        ? `error: ${result.error}`
+        : result.changes.map(field => `${field} ${JSON.stringify(result.recorded[field])} → ${JSON.stringify(result.replayed![field])}`).join(', ');
+      console.log(`  ${result.query_id} "${result.text.slice(0, 60)}": ${detail}`);
+    }
+
+    if (typeof args.output === 'string') {
+      writeFileSync(args.output, JSON.stringify(report, null, 2));
+      console.log(`Report written to ${args.output}`);
+    }
+
+    return args['fail-on-change'] && (summary.changed > 0 || summary.failed > 0) ? 1 : 0;
+  } finally {
+    await database.disconnect();
+  }
+}
+
+main()
+  .then(code => process.exit(code))
+  .catch(error => {
+    console.error('Query replay failed:', error);
+    process.exit(1);
+  });
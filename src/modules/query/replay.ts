@@ -0,0 +1,206 @@
+import { Query, IQuery } from '../../models/Query';
+import { logger } from '../../utils/logger';
+import { RiskLevel } from '../../types';
+import { QueryPipeline, queryPipeline } from './pipeline';
+
+/**
+ * The parts of a query outcome compared by a replay
+ */
+export interface ReplayOutcome {
+  intent: string;
+  confidence: number;
+  risk: RiskLevel;
+  blocked: boolean;
+  top_sources: string[];
+}
+
+export type ReplayField = keyof ReplayOutcome;
+
+/**
+ * Recorded versus replayed outcome of one stored query
+ */
+export interface QueryReplayDiff {
+  query_id: string;
+  text: string;
+  created_at: Date;
+  recorded: ReplayOutcome;
+  replayed?: ReplayOutcome;
+  changes: ReplayField[];
+  confidence_delta?: number;
+  error?: string;
+}
+
+export interface ReplaySummary {
+  total: number;
+  changed: number;
+  unchanged: number;
+  failed: number;
+  changes_by_field: Record<ReplayField, number>;
+}
+
+export interface QueryReplayReport {
+  enterprise_id: string;
+  replayed_at: Date;
+  summary: ReplaySummary;
+  results: QueryReplayDiff[];
+}
+
+/**
+ * Which stored queries to replay
+ */
+export interface ReplayFilter {
+  query_ids?: string[];
+  since?: Date;
+  until?: Date;
+  intent?: string;
+  limit?: number;
+}
+
+const REPLAY_FIELDS: ReplayField[] = ['intent', 'confidence', 'risk', 'blocked', 'top_sources'];
+
+/**
+ * Re-runs stored queries through the current pipeline without persisting anything,
+ * and reports how intent, confidence, risk, blocking and top sources would change.
+ * Used as a regression check before rolling out intent, risk or manual changes.
+ */
+export class QueryReplayer {
+  static readonly DEFAULT_LIMIT = 100;
+  static readonly MAX_LIMIT = 500;
+  private static readonly TOP_SOURCES = 3;
+
+  constructor(
+    private readonly pipeline: QueryPipeline = queryPipeline,
+    // Confidence changes smaller than this are not reported
+    private readonly confidenceTolerance: number = 0.05
+  ) {}
+
+  /**
+   * Replay an enterprise's stored queries, newest first
+   */
+  async replay(enterpriseId: string, filter: ReplayFilter = {}): Promise<QueryReplayReport> {
+    const query: Record<string, unknown> = { enterprise_id: enterpriseId };
+    if (filter.query_ids?.length) {
+      query._id = { $in: filter.query_ids };
+    }
+    if (filter.since || filter.until) {
+      query.created_at = {
+        ...(filter.since && { $gte: filter.since }),
+        ...(filter.until && { $lte: filter.until }),
+      };
+    }
+    if (filter.intent) {
+      query['data.intent.name'] = filter.intent;
+    }
+
+    const limit = Math.min(filter.limit ?? QueryReplayer.DEFAULT_LIMIT, QueryReplayer.MAX_LIMIT);
+    const queries = await Query.find(query).sort({ created_at: -1 }).limit(limit);
+
+    // Replay one at a time so a large batch does not starve live traffic
+    const results: QueryReplayDiff[] = [];
+    for (const stored of queries) {
+      results.push(await this.replayQuery(stored));
+    }
+
+    return {
+      enterprise_id: enterpriseId,
+      replayed_at: new Date(),
+      summary: QueryReplayer.summarize(results),
+      results,
+    };
+  }
+
+  /**
+   * Replay a single stored query
+   */
+  async replayQuery(stored: IQuery): Promise<QueryReplayDiff> {
+    const recorded: ReplayOutcome = {
+      intent: stored.data.intent.name,
+      confidence: stored.data.confidence,
+      risk: stored.data.risk,
+      blocked: stored.data.blocked,
+      top_sources: (stored.data.sources ?? [])
+        .slice(0, QueryReplayer.TOP_SOURCES)
+        .map(source => String(source.chunk_id)),
+    };
+    const base = {
+      query_id: String(stored._id),
+      text: stored.data.text,
+      created_at: stored.created_at,
+      recorded,
+    };
+
+    try {
+      const response = await this.pipeline.process({
+        enterprise_id: String(stored.enterprise_id),
+        operator_id: String(stored.operator_id),
+        input_text: stored.data.text,
+        language: 'auto',
+      }, undefined, undefined, { dryRun: true });
+
+      const replayed: ReplayOutcome = {
+        intent: response.intent.name,
+        confidence: response.intent.confidence,
+        risk: response.risk_level,
+        blocked: response.blocked,
+        top_sources: response.sources
+          .slice(0, QueryReplayer.TOP_SOURCES)
+          .map(source => source.chunk_id),
+      };
+
+      return {
+        ...base,
+        replayed,
+        changes: this.diff(recorded, replayed),
+        confidence_delta: Math.round((replayed.confidence - recorded.confidence) * 1000) / 1000,
+      };
+    } catch (error) {
+      logger.warn('Query replay failed', {
+        query_id: base.query_id,
+        error: error instanceof Error ? error.message : error,
+      });
+      return { ...base, changes: [], error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  /**
+   * Fields whose replayed value differs from the recorded one
+   */
+  diff(recorded: ReplayOutcome, replayed: ReplayOutcome): ReplayField[] {
+    return REPLAY_FIELDS.filter(field => {
+      switch (field) {
+        case 'confidence':
+          return Math.abs(replayed.confidence - recorded.confidence) >= this.confidenceTolerance;
+        case 'top_sources':
+          return replayed.top_sources.join(',') !== recorded.top_sources.join(',');
+        default:
+          return replayed[field] !== recorded[field];
+      }
+    });
+  }
+
+  static summarize(results: QueryReplayDiff[]): ReplaySummary {
+    const changesByField = Object.fromEntries(REPLAY_FIELDS.map(field => [field, 0])) as Record<ReplayField, number>;
+    let changed = 0;
+    let failed = 0;
+
+    for (const result of results) {
+      if (result.error) {
+        failed++;
+        continue;
+      }
+      if (result.changes.length > 0) {
+        changed++;
+      }
+      result.changes.forEach(field => changesByField[field]++);
+    }
+
+    return {
+      total: results.length,
+      changed,
+      unchanged: results.length - changed - failed,
+      failed,
+      changes_by_field: changesByField,
+    };
+  }
+}
+
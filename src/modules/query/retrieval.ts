@@ -0,0 +1,141 @@
+import mongoose from 'mongoose';
+import { Vector } from '../../models/Vector';
+import { IChunk } from '../../models/Chunk';
+import { Manual } from '../../models/Manual';
+import { SourceCitation } from '../../types';
+import { EmbeddingService } from './embeddings';
+
+/**
+ * A manual chunk retrieved for a query
+ */
+export interface RetrievedChunk {
+  chunk_id: string;
+  manual_id: string;
+  manual_name: string;
+  text: string;
+  similarity: number;
+  metadata: IChunk['metadata'];
+}
+
+/**
+ * Retrieval options
+ */
+export interface RetrievalOptions {
+  limit?: number;
+  threshold?: number;
+  // Rank chunks from this manual ahead of others (e.g. the manual of the previous turn)
+  manualId?: string;
+}
+
+/**
+ * Raised when an enterprise's manuals were indexed with a different embedding model
+ * than queries are embedded with, whose vectors cannot be compared
+ */
+export class EmbeddingModelMismatchError extends Error {
+  constructor(public readonly queryModel: string, public readonly indexedModels: string[]) {
+    super(`Manuals are indexed with ${indexedModels.join(', ')}, but queries are embedded with ${queryModel}; ` +
+      're-index the manuals or configure the matching embedding service');
+    this.name = 'EmbeddingModelMismatchError';
+  }
+}
+
+/**
+ * Name shown for chunks whose manual can no longer be found
+ */
+const UNKNOWN_MANUAL_NAME = 'Unknown manual';
+
+/**
+ * Cite a retrieved chunk so its instruction can be checked against the original manual
+ */
+export function toSourceCitation(chunk: RetrievedChunk): SourceCitation {
+  return {
+    chunk_id: chunk.chunk_id,
+    manual_id: chunk.manual_id,
+    manual_name: chunk.manual_name,
+    page_number: chunk.metadata?.page_number,
+    section_title: chunk.metadata?.section_title,
+    start_position: chunk.metadata?.start_position,
+    end_position: chunk.metadata?.end_position,
+    similarity: chunk.similarity,
+  };
+}
+
+/**
+ * Semantic chunk retrieval over enterprise vectors
+ */
+export class ChunkRetriever {
+  private static readonly DEFAULT_LIMIT = 3;
+  private static readonly DEFAULT_THRESHOLD = 0.35;
+
+  constructor(private readonly embeddings: EmbeddingService) {}
+
+  /**
+   * Retrieve the most similar chunks for a text within an enterprise
+   */
+  async retrieve(
+    text: string,
+    enterpriseId: string | mongoose.Types.ObjectId,
+    options: RetrievalOptions = {}
+  ): Promise<RetrievedChunk[]> {
+    const [embedding] = await this.embeddings.embed([text]);
+    const results = await Vector.findSimilar(
+      embedding,
+      enterpriseId,
+      options.limit ?? ChunkRetriever.DEFAULT_LIMIT,
+      options.threshold ?? ChunkRetriever.DEFAULT_THRESHOLD,
+      this.embeddings.modelVersion
+    );
+    if (results.length === 0) {
+      await this.checkIndexedModel(enterpriseId);
+    }
+
+    const populated = results.filter(result => result.chunk_id && typeof result.chunk_id === 'object');
+    const manualNames = await this.getManualNames(populated.map(result => String(result.chunk_id.manual_id)));
+
+    const chunks: RetrievedChunk[] = populated
+      .map(result => {
+        const chunk = result.chunk_id;
+        const manualId = String(chunk.manual_id);
+        return {
+          chunk_id: String(chunk._id ?? chunk.id),
+          manual_id: manualId,
+          manual_name: manualNames.get(manualId) ?? UNKNOWN_MANUAL_NAME,
+          text: chunk.text,
+          similarity: result.similarity,
+          metadata: chunk.metadata,
+        };
+      });
+
+    if (options.manualId) {
+      const preferred = chunks.filter(chunk => chunk.manual_id === options.manualId);
+      const others = chunks.filter(chunk => chunk.manual_id !== options.manualId);
+      return [...preferred, ...others];
+    }
+
+    return chunks;
+  }
+
+  /**
+   * Fail when the enterprise's vectors all come from other embedding models, rather
+   * than report that its manuals say nothing about the query
+   */
+  private async checkIndexedModel(enterpriseId: string | mongoose.Types.ObjectId): Promise<void> {
+    const indexedModels: string[] = await Vector.distinct('model_version', { enterprise_id: enterpriseId });
+    if (indexedModels.length > 0 && !indexedModels.includes(this.embeddings.modelVersion)) {
+      throw new EmbeddingModelMismatchError(this.embeddings.modelVersion, indexedModels.sort());
+    }
+  }
+
+  /**
+   * Look up the original file names of the given manuals
+   */
+  private async getManualNames(manualIds: string[]): Promise<Map<string, string>> {
+    const uniqueIds = [...new Set(manualIds)];
+    if (uniqueIds.length === 0) {
+      return new Map();
+    }
+
+    const manuals = await Manual.find({ _id: { $in: uniqueIds } }).select('original_name');
+    return new Map(manuals.map(manual => [String(manual._id), manual.original_name]));
+  }
+}
@@ -0,0 +1,374 @@
+import { IntentConfig, MentionContext, RiskExplanation, RiskKeywordHit, RiskLevel, RiskRuleMatch } from '../../types';
+import { analyzeMention } from './negation';
+import { TamilTransliterator } from './transliteration';
+
+/**
+ * Risk levels ordered from least to most severe
+ */
+export const RISK_ORDER: RiskLevel[] = ['low', 'medium', 'high', 'critical'];
+
+/**
+ * Numeric rank of a risk level for comparisons
+ */
+export function riskRank(level: RiskLevel): number {
+  return RISK_ORDER.indexOf(level);
+}
+
+/**
+ * Languages escalation keywords are written in
+ */
+export type EscalationLanguage = 'en' | 'ta' | 'tanglish';
+
+/**
+ * Escalation rule: any of its keywords raises a query to at least `level`,
+ * whatever intent it was classified as.
+ *
+ * Keywords match whole words; a trailing `*` matches any word starting with
+ * the keyword, for Tamil and Tanglish words that take suffixes ("pugai*"
+ * matches "pugaiya").
+ *
+ * Exclusions are compounds that contain a keyword but name something harmless
+ * ("fire extinguisher", "shock absorber"); a keyword within one is treated like a
+ * negated mention.
+ */
+export interface EscalationRule {
+  id: string;
+  level: RiskLevel;
+  keywords: Partial<Record<EscalationLanguage, string[]>>;
+  exclusions?: Partial<Record<EscalationLanguage, string[]>>;
+}
+
+/**
+ * Risk assessment result
+ */
+export interface RiskAssessment {
+  risk: RiskLevel;
+  blocked: boolean;
+  reason: string;
+  rule: RiskRuleMatch;
+  explanation: RiskExplanation;
+}
+
+export const DEFAULT_ESCALATION_RULES: EscalationRule[] = [
+  {
+    id: 'fire_smoke',
+    level: 'critical',
+    keywords: {
+      en: ['fire', 'on fire', 'flames', 'smoke', 'smoking', 'burning'],
+      ta: ['தீ', 'தீப்பிடி*', 'புகை*', 'எரிகிறது', 'எரியுது'],
+      tanglish: ['pugai*', 'theepidi*', 'theeppidi*', 'thee pidi*', 'eriyuthu', 'eriyudhu'],
+    },
+    exclusions: {
+      en: [
+        'fire extinguisher*', 'fire alarm*', 'fire drill*', 'fire exit*', 'fire escape*',
+        'smoke detector*', 'smoke alarm*',
+      ],
+    },
+  },
+  {
+    id: 'electric_shock',
+    level: 'critical',
+    keywords: {
+      en: ['shock', 'electric shock', 'electrocuted', 'live wire'],
+      ta: ['மின்சாரம் தாக்கி*', 'மின் அதிர்ச்சி', 'ஷாக்*'],
+      tanglish: ['current adi*', 'current pass aagu*', 'shock adi*'],
+    },
+    exclusions: {
+      en: ['shock absorber*'],
+    },
+  },
+  {
+    id: 'injury',
+    level: 'critical',
+    keywords: {
+      en: ['injured', 'injury', 'bleeding', 'trapped', 'caught in the machine'],
+      ta: ['காயம்*', 'ரத்தம்*', 'இரத்தம்*', 'சிக்கி*'],
+      tanglish: ['adi pattu*', 'raththam*', 'ratham*', 'kaayam*', 'maatikich*'],
+    },
+  },
+  {
+    id: 'gas_leak',
+    level: 'critical',
+    keywords: {
+      en: ['gas leak', 'gas leaking', 'smell of gas'],
+      ta: ['வாயு கசிவு', 'எரிவாயு கசி*'],
+      tanglish: ['gas leak*', 'gas vaasan*'],
+    },
+  },
+  {
+    id: 'overheating',
+    level: 'high',
+    keywords: {
+      en: ['overheating', 'overheated', 'too hot'],
+      ta: ['அதிக வெப்பம்', 'ரொம்ப சூடு*'],
+      tanglish: ['romba soodu*', 'romba suda*', 'heat aagu*', 'over heat*'],
+    },
+  },
+];
+
+interface CompiledKeyword {
+  keyword: string;
+  language: EscalationLanguage;
+  pattern: RegExp;
+}
+
+// Letters and Tamil vowel signs both count as part of a word
+const WORD_CHAR = '[\\p{L}\\p{M}\\p{N}]';
+
+const compiledRules = new WeakMap<EscalationRule, CompiledKeyword[]>();
+const compiledExclusions = new WeakMap<EscalationRule, CompiledKeyword[]>();
+
+function compileKeywords(keywords: Partial<Record<EscalationLanguage, string[]>>): CompiledKeyword[] {
+  return (Object.entries(keywords) as [EscalationLanguage, string[]][]).flatMap(([language, words]) =>
+    words.map(keyword => ({ keyword, language, pattern: keywordPattern(keyword) }))
+  );
+}
+
+function compileRule(rule: EscalationRule): CompiledKeyword[] {
+  let compiled = compiledRules.get(rule);
+  if (!compiled) {
+    compiled = compileKeywords(rule.keywords);
+    compiledRules.set(rule, compiled);
+  }
+  return compiled;
+}
+
+function compileExclusions(rule: EscalationRule): CompiledKeyword[] {
+  let compiled = compiledExclusions.get(rule);
+  if (!compiled) {
+    compiled = compileKeywords(rule.exclusions ?? {});
+    compiledExclusions.set(rule, compiled);
+  }
+  return compiled;
+}
+
+function keywordPattern(keyword: string): RegExp {
+  const prefix = keyword.endsWith('*');
+  const body = (prefix ? keyword.slice(0, -1) : keyword)
+    .trim()
+    .normalize('NFC')
+    .split(/\s+/)
+    .map(word => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join('\\s+');
+
+  return new RegExp(`(?<!${WORD_CHAR})${body}${prefix ? `${WORD_CHAR}*` : `(?!${WORD_CHAR})`}`, 'giu');
+}
+
+function lowerOf(a: RiskLevel, b: RiskLevel): RiskLevel {
+  return riskRank(a) <= riskRank(b) ? a : b;
+}
+
+/**
+ * Risk assessment and blocking logic
+ */
+export class RiskAssessor {
+  // Only high and critical queries may be blocked (enforced by the Query model)
+  private static readonly MIN_BLOCKING_RISK: RiskLevel = 'high';
+  // Hazards said to be absent or only supposed ("no smoke now", "what if there is a
+  // fire"), and hazard words within harmless compounds ("smoke detector"), are worth
+  // answering with care, but not blocking
+  private static readonly DISCOUNTED_MAX_RISK: RiskLevel = 'medium';
+
+  /**
+   * Assess the risk of a query against the enterprise threshold. The risk is the
+   * intent's own risk, raised by any escalation keyword found in the text or any
+   * other matched rule (such as the enterprise's risk rules). A query is blocked
+   * when its risk exceeds the threshold, or reaches the intent's own block_threshold.
+   *
+   * Negated, hypothetical and excluded keyword mentions raise the risk to at most medium, and
+   * so does an intent recognized from such mentions alone. The explanation then
+   * keeps the risk the query would have had without this adjustment.
+   */
+  static assess(
+    intent: IntentConfig | undefined,
+    enterpriseThreshold: RiskLevel,
+    text = '',
+    rules: EscalationRule[] = DEFAULT_ESCALATION_RULES,
+    matchedRules: RiskRuleMatch[] = []
+  ): RiskAssessment {
+    const baseRisk: RiskLevel = intent?.risk ?? 'low';
+    const intentName = intent?.name ?? 'unknown';
+    const hits = this.findKeywords(text, rules);
+    const asserted = hits.filter(hit => hit.context === 'asserted');
+    const discounted = hits.filter(hit => hit.context !== 'asserted');
+
+    // Earlier candidates keep the decision unless a later one is strictly more severe
+    const strongest = (candidates: (RiskRuleMatch | null)[]) => (candidates.filter(Boolean) as RiskRuleMatch[])
+      .reduce((best, candidate) => (riskRank(candidate.level) > riskRank(best.level) ? candidate : best));
+    const intentRule: RiskRuleMatch = { rule_id: `intent:${intentName}`, source: 'intent', level: baseRisk };
+    const original = strongest([intentRule, this.strongestKeyword(hits, rules), ...matchedRules]);
+
+    // An intent recognized from discounted mentions alone is discounted with them
+    const intentDiscounted = !!intent &&
+      this.recognizedFrom(intent, discounted, rules) && !this.recognizedFrom(intent, asserted, rules);
+    const discountedKeyword = this.strongestKeyword(discounted, rules);
+    const rule = strongest([
+      intentDiscounted ? { ...intentRule, level: lowerOf(baseRisk, this.DISCOUNTED_MAX_RISK) } : intentRule,
+      this.strongestKeyword(asserted, rules),
+      discountedKeyword && { ...discountedKeyword, level: lowerOf(discountedKeyword.level, this.DISCOUNTED_MAX_RISK) },
+      ...matchedRules,
+    ]);
+    const risk = rule.level;
+
+    const exceeds = (level: RiskLevel) => riskRank(level) > riskRank(enterpriseThreshold);
+    const reachesIntent = (level: RiskLevel) =>
+      !!intent?.block_threshold && riskRank(level) >= riskRank(intent.block_threshold);
+    const isBlocked = (level: RiskLevel) =>
+      riskRank(level) >= riskRank(this.MIN_BLOCKING_RISK) && (exceeds(level) || reachesIntent(level));
+
+    const exceedsEnterprise = exceeds(risk);
+    const reachesIntentThreshold = reachesIntent(risk);
+    const blocked = isBlocked(risk);
+    const adjusted = original.level !== risk;
+
+    let reason: string;
+    if (rule.source === 'keyword') {
+      reason = `Keyword "${rule.matched}" (${rule.language}) matched escalation rule "${rule.rule_id}", ` +
+        `raising intent "${intentName}" from ${baseRisk} to ${risk} risk`;
+    } else if (rule.source === 'rule') {
+      const version = rule.rule_version ? `version ${rule.rule_version}` : 'draft';
+      reason = `Enterprise rule "${rule.rule_id}" (${version}) matched, ` +
+        `raising intent "${intentName}" from ${baseRisk} to ${risk} risk`;
+    } else {
+      reason = `Intent "${intentName}" has ${risk} risk`;
+    }
+
+    if (adjusted) {
+      const [mention] = [...discounted].sort((a, b) => riskRank(b.level) - riskRank(a.level));
+      reason += `, lowered from ${original.level} because "${mention.matched}" is ` +
+        (mention.context === 'compound' ? `part of "${mention.cue}"` : mention.context);
+    }
+
+    if (blocked && exceedsEnterprise) {
+      reason += `, exceeding enterprise threshold ${enterpriseThreshold}`;
+    } else if (blocked) {
+      reason += `, reaching its block threshold ${intent!.block_threshold}`;
+    }
+
+    const explanation: RiskExplanation = {
+      intent: { name: intentName, level: baseRisk },
+      keywords: hits,
+      rules: matchedRules.map(({ rule_id, level, rule_version }) => ({ rule_id, level, rule_version })),
+      threshold: {
+        enterprise: enterpriseThreshold,
+        exceeds_enterprise: exceedsEnterprise,
+        intent: intent?.block_threshold,
+        reaches_intent: reachesIntentThreshold,
+      },
+      decision: { risk, blocked, source: rule.source, rule_id: rule.rule_id },
+    };
+    if (adjusted) {
+      explanation.adjustment = {
+        original_risk: original.level,
+        original_blocked: isBlocked(original.level),
+        original_rule_id: original.rule_id,
+        adjusted_risk: risk,
+        contexts: [...new Set(discounted.map(hit => hit.context as Exclude<MentionContext, 'asserted'>))],
+      };
+    }
+
+    return { risk, blocked, reason, rule, explanation };
+  }
+
+  /**
+   * Find the most severe asserted escalation keyword in a text, ignoring negated,
+   * hypothetical and compound mentions. Among equally severe matches, the earliest
+   * rule and keyword wins.
+   */
+  static matchKeywords(text: string, rules: EscalationRule[] = DEFAULT_ESCALATION_RULES): RiskRuleMatch | null {
+    return this.strongestKeyword(this.findKeywords(text, rules).filter(hit => hit.context === 'asserted'), rules);
+  }
+
+  /**
+   * Every escalation keyword occurrence in a text, in text order, with whether it is
+   * asserted, negated, hypothetical or part of a compound its rule excludes. Keywords
+   * are also matched against the text's canonical form, so that Tamil keywords find
+   * romanized Tamil words ("pugai" for "புகை"). Offsets refer to the NFC-normalized text, which for typed input is the
+   * text itself. Where keywords overlap ("shock" within "electric shock"), each is
+   * listed; a word matched in both forms is listed once.
+   */
+  static findKeywords(text: string, rules: EscalationRule[] = DEFAULT_ESCALATION_RULES): RiskKeywordHit[] {
+    const normalized = text.normalize('NFC');
+    const canonical = TamilTransliterator.canonicalize(normalized);
+    const hits: RiskKeywordHit[] = [];
+    const seen = new Set<string>();
+
+    // Matches in the text as typed come first, so they are the ones kept
+    const forms = canonical.spans.length > 0 ? [normalized, canonical.text] : [normalized];
+    const rangeOf = (index: number, match: RegExpMatchArray) => index === 0
+      ? { start: match.index!, end: match.index! + match[0].length }
+      : TamilTransliterator.toOriginalRange(canonical, match.index!, match.index! + match[0].length);
+
+    const exclusions = rules.flatMap(rule => forms.flatMap((form, index) =>
+      compileExclusions(rule).flatMap(({ pattern }) =>
+        [...form.matchAll(pattern)].map(match => ({ rule_id: rule.id, ...rangeOf(index, match) }))
+      )
+    ));
+
+    for (const [index, form] of forms.entries()) {
+      for (const rule of rules) {
+        for (const { keyword, language, pattern } of compileRule(rule)) {
+          for (const match of form.matchAll(pattern)) {
+            const { start, end } = rangeOf(index, match);
+            const key = `${rule.id}:${start}:${end}`;
+            if (seen.has(key)) continue;
+            seen.add(key);
+
+            const compound = exclusions.find(exclusion =>
+              exclusion.rule_id === rule.id && exclusion.start <= start && end <= exclusion.end);
+            hits.push({
+              rule_id: rule.id,
+              level: rule.level,
+              keyword,
+              matched: normalized.slice(start, end),
+              language,
+              start,
+              end,
+              ...(compound
+                ? { context: 'compound' as const, cue: normalized.slice(compound.start, compound.end) }
+                : analyzeMention(normalized, start, end)),
+            });
+          }
+        }
+      }
+    }
+
+    return hits.sort((a, b) => a.start - b.start || b.end - a.end);
+  }
+
+  /**
+   * The most severe of some keyword hits as a rule match; among equally severe
+   * hits, the earliest rule and keyword, then the first in the text
+   */
+  private static strongestKeyword(hits: RiskKeywordHit[], rules: EscalationRule[]): RiskRuleMatch | null {
+    let best: RiskRuleMatch | null = null;
+
+    for (const rule of rules) {
+      if (best && riskRank(rule.level) <= riskRank(best.level)) continue;
+
+      for (const { keyword, language } of compileRule(rule)) {
+        const hit = hits.find(candidate => candidate.rule_id === rule.id && candidate.keyword === keyword);
+        if (hit) {
+          best = { rule_id: rule.id, source: 'keyword', level: rule.level, keyword, matched: hit.matched, language };
+          break;
+        }
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Whether the intent may have been recognized from any of the keyword hits: the
+   * hit's rule is named after the intent, or its keyword appears in the intent's examples
+   */
+  private static recognizedFrom(intent: IntentConfig, hits: RiskKeywordHit[], rules: EscalationRule[]): boolean {
+    return hits.some(hit => {
+      if (hit.rule_id === intent.name) return true;
+
+      const rule = rules.find(candidate => candidate.id === hit.rule_id);
+      const compiled = rule && compileRule(rule).find(candidate => candidate.keyword === hit.keyword);
+      return !!compiled && intent.examples.some(example => example.normalize('NFC').search(compiled.pattern) >= 0);
+    });
+  }
+}
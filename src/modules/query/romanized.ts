@@ -0,0 +1,272 @@
+/**
+ * Romanized Tamil words common in operator queries: function words, pronouns,
+ * question words and the verbs operators use about machines. Spelling variants are
+ * listed separately, since there is no standard romanization.
+ */
+export const ROMANIZED_TAMIL_LEXICON = new Set([
+  // Question words
+  'enna', 'ennaa', 'yenna', 'eppadi', 'epdi', 'yeppadi', 'eppo', 'yeppo', 'eppodhu', 'enga', 'engae',
+  'yaaru', 'yaar', 'evlo', 'evvalavu', 'ethana', 'edhukku', 'ethukku', 'yen', 'aen', 'edhu', 'ethu',
+  // Pronouns and determiners
+  'naan', 'nan', 'naanga', 'naama', 'nee', 'neenga', 'ninga', 'avan', 'aval', 'avanga', 'adhu', 'athu',
+  'idhu', 'ithu', 'indha', 'intha', 'andha', 'antha', 'enakku', 'enaku', 'unakku', 'unga', 'ungaluku',
+  'ellam', 'ellaam', 'ellarum', 'onnum', 'edhuvum', 'ethuvum', 'konjam', 'romba', 'rombo', 'nalla',
+  // Negation, affirmation and particles
+  'illa', 'illai', 'ille', 'illaya', 'illaye', 'kidaiyadhu', 'kidaiyathu', 'venam', 'vendam', 'vendaam',
+  'aama', 'aamaa', 'sari', 'seri', 'dhaan', 'thaan', 'thaane', 'dhaane', 'kooda', 'mattum', 'innum',
+  'aana', 'aanaa', 'apram', 'appuram', 'munnadi', 'apparam', 'ippo', 'ipo', 'ippa', 'appo', 'inga',
+  'anga', 'mela', 'keezha', 'kitta', 'pathi', 'paththi', 'vela', 'velai', 'oruvela', 'nu', 'nnu',
+  // Case endings written apart: "manual la", "team ku"
+  'la', 'le', 'ku', 'kku', 'ukku', 'oda',
+  // Verbs about machines and work
+  'irukku', 'iruku', 'irukka', 'irukkaa', 'irundhu', 'irunthu', 'irukkum', 'irukkanum', 'irukkura',
+  'varuthu', 'varudhu', 'varala', 'varalai', 'vandha', 'vanthuchu', 'vandhuchu', 'varum', 'vara',
+  'aaguthu', 'aagudhu', 'aagala', 'aachu', 'aayiduchu', 'aagum', 'aaganum', 'aagaadhadhu',
+  'pannanum', 'pannunga', 'pannu', 'panna', 'panren', 'pannen', 'pannala', 'pannitu', 'pannittu',
+  'pannradhu', 'pannradhukku', 'panrathu', 'pannuvom', 'pannalaam',
+  'odala', 'odudhu', 'oduthu', 'odanum', 'oduthilla', 'nikkudhu', 'nikkuthu', 'ninnuduchu', 'ninnuchu',
+  'sollunga', 'sollu', 'sonna', 'sonnaanga', 'theriyala', 'theriyum', 'theriyuma', 'therila',
+  'paarunga', 'paaru', 'paathen', 'paakanum', 'podanum', 'podunga', 'pottu', 'eduthu', 'edunga',
+  'maathanum', 'maathunga', 'kudunga', 'kudu', 'mudiyala', 'mudiyum', 'mudiyuma', 'venum', 'veenum',
+  'adikudhu', 'adikuthu', 'adichiduchu', 'udanjiduchu', 'udanjidichu', 'kaanom', 'kekkudhu', 'kekuthu',
+  'theepidichiduchu', 'theepidichu', 'pidichiduchu', 'pugai', 'pogai', 'soodu', 'sudu', 'satham',
+  'sattham', 'thanni', 'thanneer', 'vazhi', 'kai', 'kaal', 'kannu', 'udambu', 'jaasthi', 'jasthi',
+  'jaasti', 'kammi', 'kami', 'inniku', 'innaiku', 'naalaikku', 'nethu',
+]);
+
+/**
+ * Common English words, including the machine vocabulary operators mix into Tamil
+ * sentences. Words here are never counted as Tamil, whatever their endings.
+ */
+export const COMMON_ENGLISH_WORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'but', 'if', 'so', 'of', 'to', 'in', 'on', 'at', 'by', 'for', 'from',
+  'with', 'without', 'into', 'onto', 'about', 'after', 'before', 'over', 'under', 'up', 'down', 'out',
+  'is', 'are', 'was', 'were', 'be', 'been', 'being', 'am', 'do', 'does', 'did', 'done', 'have', 'has',
+  'had', 'will', 'would', 'can', 'could', 'should', 'shall', 'may', 'might', 'must', 'not', 'no', 'yes',
+  'i', 'me', 'my', 'we', 'our', 'you', 'your', 'he', 'she', 'it', 'its', 'they', 'them', 'their',
+  'this', 'that', 'these', 'those', 'there', 'here', 'what', 'which', 'who', 'whom', 'why', 'how',
+  'when', 'where', 'all', 'any', 'some', 'more', 'most', 'much', 'many', 'very', 'too', 'again',
+  'now', 'then', 'still', 'just', 'only', 'also', 'even', 'once', 'twice', 'today', 'morning',
+  'get', 'got', 'getting', 'go', 'going', 'goes', 'went', 'come', 'coming', 'came', 'make', 'making',
+  'take', 'taking', 'turn', 'turning', 'start', 'starting', 'started', 'stop', 'stopping', 'stopped',
+  'run', 'running', 'work', 'working', 'need', 'needs', 'want', 'know', 'see', 'seen', 'show', 'showing',
+  'check', 'change', 'replace', 'fix', 'help', 'mean', 'means', 'keep', 'use', 'using', 'push', 'press',
+  'hello', 'hi', 'thanks', 'please', 'ok', 'okay', 'fine', 'good', 'bad', 'new', 'old', 'big', 'small',
+  'hot', 'cold', 'high', 'low', 'strange', 'loud', 'lot',
+  'machine', 'motor', 'pump', 'panel', 'belt', 'filter', 'oil', 'spindle', 'gearbox', 'conveyor',
+  'sensor', 'switch', 'button', 'display', 'screen', 'alarm', 'error', 'code', 'message', 'power',
+  'supply', 'voltage', 'current', 'wire', 'cable', 'fuse', 'breaker', 'door', 'guard', 'interlock',
+  'emergency', 'safety', 'maintenance', 'manual', 'procedure', 'schedule', 'lubrication', 'pressure',
+  'temperature', 'speed', 'load', 'noise', 'sound', 'vibration', 'vibrating', 'shake', 'leak',
+  'leaking', 'smoke', 'smoking', 'fire', 'burning', 'smell', 'spark', 'sparks', 'shock', 'overheating',
+  'heat', 'light', 'green', 'red', 'shift', 'operator', 'supervisor', 'team', 'line', 'part', 'parts',
+  'valve', 'hydraulic', 'coolant', 'blade', 'tool', 'reset', 'restart', 'level', 'problem', 'issue',
+]);
+
+/**
+ * Suffixes Tamil glues to words, also to English ones ("machinela", "motorku"):
+ * case endings, plural and polite -nga, negative -ala, question -uma and -laama,
+ * and common verb endings. Endings English shares often ("-le", "-lla") are left out.
+ */
+const TAMIL_SUFFIX = /(?:(?<!l)la|ku|kku|oda|ode|ukku|nga|unga|inga|anga|uthu|udhu|ichu|iduchu|anum|anam|(?:d|r|g|k|y|v|n|th)ala|alai|aama|uma|laama|lama|dhu|thu|ittu|thutu|chutu|tten|ren|rom|vom|aen)$/;
+
+// Shortest word a suffix is trusted on, so "la" or "ku" alone are not Tamil
+const MIN_SUFFIXED_LENGTH = 4;
+
+/**
+ * How a word of Latin-script text was judged
+ */
+export type RomanizedEvidence = 'lexicon' | 'suffix' | 'ngram' | 'english';
+
+export interface RomanizedTamilScore {
+  // Share of Latin-script words judged Tamil
+  ratio: number;
+  lexicon_words: number;
+  suffix_words: number;
+  words: number;
+  isRomanizedTamil: boolean;
+  confidence: number;
+}
+
+const NGRAM_SIZE = 3;
+
+function trigrams(word: string): string[] {
+  const padded = ` ${word} `;
+  const grams: string[] = [];
+  for (let i = 0; i + NGRAM_SIZE <= padded.length; i++) {
+    grams.push(padded.slice(i, i + NGRAM_SIZE));
+  }
+  return grams;
+}
+
+function countTrigrams(words: Iterable<string>): { counts: Map<string, number>; total: number } {
+  const counts = new Map<string, number>();
+  let total = 0;
+  for (const word of words) {
+    for (const gram of trigrams(word)) {
+      counts.set(gram, (counts.get(gram) ?? 0) + 1);
+      total++;
+    }
+  }
+  return { counts, total };
+}
+
+/**
+ * Character trigram log-odds of romanized Tamil against English, learned from the
+ * two word lists. Romanized Tamil has telling letter sequences ("dh", "zh", long
+ * "aa", doubled consonants, vowel endings) that carry over to words the lexicon
+ * does not list.
+ */
+class TrigramOdds {
+  private readonly tamil = countTrigrams(ROMANIZED_TAMIL_LEXICON);
+  private readonly english = countTrigrams(COMMON_ENGLISH_WORDS);
+  private readonly vocabulary = new Set([...this.tamil.counts.keys(), ...this.english.counts.keys()]).size;
+
+  /**
+   * Mean log-odds of a word's trigrams; positive when it looks like romanized Tamil
+   */
+  score(word: string): number {
+    const grams = trigrams(word);
+    const logOdds = grams.map(gram => {
+      const tamil = ((this.tamil.counts.get(gram) ?? 0) + 1) / (this.tamil.total + this.vocabulary);
+      const english = ((this.english.counts.get(gram) ?? 0) + 1) / (this.english.total + this.vocabulary);
+      return Math.log(tamil / english);
+    });
+    return logOdds.reduce((sum, value) => sum + value, 0) / grams.length;
+  }
+}
+
+/**
+ * Detects Tamil written in Latin letters ("machine odala", "enna pannanum"), which
+ * has no Tamil characters for the script-based detectors to find. Each word is
+ * judged by the lexicon, then by Tamil suffixes, then by its character trigrams.
+ */
+export class RomanizedTamilDetector {
+  private static readonly ROMANIZED_THRESHOLD = 0.3; // 30% Tamil words minimum
+  private static readonly HIGH_ROMANIZED_THRESHOLD = 0.6; // 60% Tamil words for high confidence
+  // Mean trigram log-odds above which an unknown word counts as Tamil
+  private static readonly NGRAM_MARGIN = 0.5;
+
+  private static odds?: TrigramOdds;
+
+  /**
+   * Judge one lowercase Latin-script word
+   */
+  static classifyWord(word: string): RomanizedEvidence {
+    if (COMMON_ENGLISH_WORDS.has(word)) return 'english';
+    if (ROMANIZED_TAMIL_LEXICON.has(word)) return 'lexicon';
+    if (word.length >= MIN_SUFFIXED_LENGTH && TAMIL_SUFFIX.test(word)) return 'suffix';
+
+    this.odds ??= new TrigramOdds();
+    return this.odds.score(word) > this.NGRAM_MARGIN ? 'ngram' : 'english';
+  }
+
+  /**
+   * Share of Latin-script words that are romanized Tamil. Words judged from
+   * n-grams alone count towards the share, but a text also needs a lexicon word or
+   * two suffixed words, so that unusual English words do not make it Tamil.
+   */
+  static score(text: string): RomanizedTamilScore {
+    // Hyphens join Tamil suffixes to English words: "machine-la"
+    const words = (text.toLowerCase().match(/[a-z]+(?:-[a-z]+)*/g) ?? [])
+      .flatMap(word => word.split('-'))
+      .filter(word => word.length > 1);
+
+    const counts: Record<RomanizedEvidence, number> = { lexicon: 0, suffix: 0, ngram: 0, english: 0 };
+    for (const word of words) {
+      counts[this.classifyWord(word)]++;
+    }
+
+    const ratio = words.length === 0 ? 0 : (words.length - counts.english) / words.length;
+    const isRomanizedTamil = (counts.lexicon > 0 || counts.suffix >= 2) && ratio >= this.ROMANIZED_THRESHOLD;
+
+    let confidence = 0;
+    if (isRomanizedTamil) {
+      if (ratio >= this.HIGH_ROMANIZED_THRESHOLD) {
+        confidence = 0.85;
+      } else if (ratio >= 0.45) {
+        confidence = 0.7;
+      } else {
+        confidence = 0.55;
+      }
+    }
+
+    return {
+      ratio,
+      lexicon_words: counts.lexicon,
+      suffix_words: counts.suffix,
+      words: words.length,
+      isRomanizedTamil,
+      confidence,
+    };
+  }
+}
+
+/**
+ * Romanized Hindi words common in operator queries. Words that are also common in
+ * English ("to", "me", "hi", "is", "par", "so", "us", "main", "band") are left out,
+ * since Hinglish is judged from this list alone.
+ */
+export const ROMANIZED_HINDI_LEXICON = new Set([
+  // Question words
+  'kya', 'kyaa', 'kyun', 'kyon', 'kyu', 'kaise', 'kaisa', 'kaisi', 'kab', 'kahan', 'kahaan', 'kaun',
+  'kitna', 'kitni', 'kitne', 'kidhar',
+  // Pronouns and determiners
+  'mera', 'meri', 'mere', 'mujhe', 'humara', 'hamara', 'hamein', 'humein', 'aap', 'aapka', 'aapko',
+  'tum', 'tumhara', 'yeh', 'ye', 'woh', 'wo', 'isko', 'usko', 'iska', 'uska', 'kuch', 'kuchh', 'sab',
+  'sabhi', 'koi', 'bahut', 'bohot', 'zyada', 'jyada', 'thoda', 'thodi',
+  // Postpositions and particles
+  'ka', 'ki', 'ke', 'ko', 'se', 'mein', 'mai', 'hai', 'hain', 'nahi', 'nahin', 'nhi', 'mat', 'bhi',
+  'abhi', 'aur', 'lekin', 'phir', 'fir', 'kyunki', 'agar', 'toh', 'haan', 'ji', 'theek', 'thik',
+  'accha', 'achha', 'acha', 'wala', 'wali', 'wale',
+  // Verbs about machines and work
+  'raha', 'rahi', 'rahe', 'gaya', 'gayi', 'gaye', 'hua', 'hui', 'hue', 'ho', 'hona', 'hoga', 'hogi',
+  'tha', 'thi', 'karo', 'karna', 'karein', 'kare', 'kar', 'kiya', 'kiye', 'karun', 'chal', 'chalu',
+  'chala', 'chalta', 'chalti', 'ruk', 'ruka', 'ruki', 'ruko', 'rukna', 'toot', 'tuta', 'tuti', 'tut',
+  'sakta', 'sakti', 'sakte', 'chahiye', 'batao', 'bataiye', 'bataye', 'dekho', 'dekhiye', 'kholo',
+  'lagao', 'laga', 'lagi', 'nikal', 'nikla', 'nikli', 'aa', 'aaya', 'aayi', 'jal', 'jala', 'jali',
+  // Hazards
+  'aag', 'dhuan', 'dhuaan', 'dhua', 'garam', 'garmi', 'pani', 'paani', 'bijli', 'awaaz', 'awaz',
+  'khatra', 'chot', 'kam', 'dikkat', 'pareshani',
+]);
+
+export interface RomanizedHindiScore {
+  // Share of Latin-script words in the lexicon
+  ratio: number;
+  lexicon_words: number;
+  words: number;
+  isRomanizedHindi: boolean;
+  confidence: number;
+}
+
+/**
+ * Detects Hindi written in Latin letters ("machine chal nahi raha"). Hindi has few
+ * endings to go by, so words are judged by the lexicon alone.
+ */
+export class RomanizedHindiDetector {
+  private static readonly ROMANIZED_THRESHOLD = 0.3; // 30% Hindi words minimum
+  private static readonly HIGH_ROMANIZED_THRESHOLD = 0.6; // 60% Hindi words for high confidence
+  // Short particles ("ki", "ke") also turn up in names and codes
+  private static readonly MIN_LEXICON_WORDS = 2;
+
+  static score(text: string): RomanizedHindiScore {
+    const words = (text.toLowerCase().match(/[a-z]+/g) ?? []).filter(word => word.length > 1);
+    const lexiconWords = words.filter(word => ROMANIZED_HINDI_LEXICON.has(word)).length;
+
+    const ratio = words.length === 0 ? 0 : lexiconWords / words.length;
+    const isRomanizedHindi = lexiconWords >= this.MIN_LEXICON_WORDS && ratio >= this.ROMANIZED_THRESHOLD;
+
+    let confidence = 0;
+    if (isRomanizedHindi) {
+      if (ratio >= this.HIGH_ROMANIZED_THRESHOLD) {
+        confidence = 0.85;
+      } else if (ratio >= 0.45) {
+        confidence = 0.7;
+      } else {
+        confidence = 0.55;
+      }
+    }
+
+    return { ratio, lexicon_words: lexiconWords, words: words.length, isRomanizedHindi, confidence };
+  }
+}
@@ -0,0 +1,332 @@
+import { MeasuredQuantity, RiskRuleConditions, RiskRuleSpec } from '../../models/RiskRuleSet';
+import { IntentResult, RiskLevel, RiskRuleMatch } from '../../types';
+import { RiskAssessment, riskRank } from './risk';
+
+/**
+ * Unit each measured quantity is compared in
+ */
+export const MEASURED_QUANTITIES: Record<MeasuredQuantity, string> = {
+  temperature: 'celsius',
+  pressure: 'bar',
+  speed: 'rpm',
+  voltage: 'volt',
+  current: 'ampere',
+  percent: 'percent',
+};
+
+/**
+ * A number mentioned in the text, converted to its quantity's unit
+ */
+export interface Measurement {
+  quantity: MeasuredQuantity;
+  value: number;
+  unit: string;
+  text: string;
+}
+
+/**
+ * What a query looked like when its rules were evaluated
+ */
+export interface RiskRuleContext {
+  text: string;
+  intent: IntentResult;
+  language: string;
+  machine?: string;
+  at: Date;
+}
+
+/**
+ * Sample query for trying rules out. Language and machine are detected from the
+ * text unless given; `at` defaults to now.
+ */
+export interface RiskRuleSample {
+  text: string;
+  language?: string;
+  machine?: string;
+  at?: Date;
+}
+
+/**
+ * How a sample query fares against a rule set
+ */
+export interface RiskRuleTestResult {
+  context: RiskRuleContext;
+  measurements: Measurement[];
+  // Version of the published rule set evaluated, null for draft rules
+  version: number | null;
+  matches: RiskRuleEvaluation[];
+  evaluations: RiskRuleEvaluation[];
+  assessment: RiskAssessment;
+}
+
+/**
+ * Outcome of one condition of a rule
+ */
+export interface RiskConditionResult {
+  condition: keyof RiskRuleConditions;
+  matched: boolean;
+  detail: string;
+}
+
+/**
+ * Outcome of a rule against a query
+ */
+export interface RiskRuleEvaluation {
+  rule_id: string;
+  description?: string;
+  level: RiskLevel;
+  matched: boolean;
+  conditions: RiskConditionResult[];
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+const UNIT_PATTERNS: { quantity: MeasuredQuantity; pattern: RegExp; convert: (value: number, unit: string) => number }[] = [
+  {
+    quantity: 'temperature',
+    pattern: /(-?\d+(?:\.\d+)?)\s*(°\s*[cf]|degrees?\s*(?:celsius|fahrenheit|[cf]\b)?|deg\b|celsius|fahrenheit|டிகிரி|[cf]\b)/giu,
+    convert: (value, unit) => /f(ahrenheit)?$/i.test(unit) ? (value - 32) * 5 / 9 : value,
+  },
+  {
+    quantity: 'pressure',
+    pattern: /(-?\d+(?:\.\d+)?)\s*(bar\b|psi\b|kpa\b|mpa\b)/gi,
+    convert: (value, unit) => ({ psi: value * 0.0689476, kpa: value / 100, mpa: value * 10 }[unit.toLowerCase()] ?? value),
+  },
+  {
+    quantity: 'speed',
+    pattern: /(\d+(?:\.\d+)?)\s*(rpm\b)/gi,
+    convert: value => value,
+  },
+  {
+    quantity: 'voltage',
+    pattern: /(\d+(?:\.\d+)?)\s*(kv\b|volts?\b|v\b)/gi,
+    convert: (value, unit) => unit.toLowerCase() === 'kv' ? value * 1000 : value,
+  },
+  {
+    quantity: 'current',
+    pattern: /(\d+(?:\.\d+)?)\s*(amps?\b|amperes?\b)/gi,
+    convert: value => value,
+  },
+  {
+    quantity: 'percent',
+    pattern: /(\d+(?:\.\d+)?)\s*(%|percent\b)/gi,
+    convert: value => value,
+  },
+];
+
+/**
+ * Read the measurements mentioned in a text, e.g. "95°C" or "8 bar"
+ */
+export function extractMeasurements(text: string): Measurement[] {
+  const measurements: Measurement[] = [];
+
+  for (const { quantity, pattern, convert } of UNIT_PATTERNS) {
+    for (const match of text.matchAll(pattern)) {
+      const value = convert(parseFloat(match[1]), match[2].replace(/\s+/g, ''));
+      measurements.push({
+        quantity,
+        value: Math.round(value * 100) / 100,
+        unit: MEASURED_QUANTITIES[quantity],
+        text: match[0].trim(),
+      });
+    }
+  }
+
+  return measurements;
+}
+
+/**
+ * Why a rule set cannot be saved; empty when it is valid
+ */
+export function describeRiskRuleProblems(rules: RiskRuleSpec[]): string[] {
+  const problems: string[] = [];
+  const seen = new Set<string>();
+
+  for (const rule of rules) {
+    const label = `Rule "${rule.id}"`;
+    const when = rule.when ?? {};
+
+    if (seen.has(rule.id)) {
+      problems.push(`${label} is defined more than once`);
+    }
+    seen.add(rule.id);
+
+    if (activeConditions(when).length === 0) {
+      problems.push(`${label} has no conditions and would match every query`);
+    }
+    if (when.min_confidence !== undefined && when.max_confidence !== undefined && when.min_confidence > when.max_confidence) {
+      problems.push(`${label} has min_confidence above max_confidence`);
+    }
+    if (when.value && [when.value.gt, when.value.gte, when.value.lt, when.value.lte].every(bound => bound === undefined)) {
+      problems.push(`${label} needs at least one bound (gt, gte, lt or lte) on ${when.value.quantity}`);
+    }
+    if (when.time) {
+      if (!TIME_PATTERN.test(when.time.from) || !TIME_PATTERN.test(when.time.to)) {
+        problems.push(`${label} time window must use HH:MM`);
+      }
+      if (when.time.timezone && !isValidTimezone(when.time.timezone)) {
+        problems.push(`${label} has unknown time zone "${when.time.timezone}"`);
+      }
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Evaluates enterprise risk rules against queries
+ */
+export class RiskRuleEngine {
+  /**
+   * Evaluate every rule, with the outcome of each of its conditions
+   */
+  static evaluate(rules: RiskRuleSpec[], context: RiskRuleContext): RiskRuleEvaluation[] {
+    const measurements = extractMeasurements(context.text);
+
+    return rules.map(rule => {
+      const conditions = activeConditions(rule.when ?? {}).map(condition =>
+        this.checkCondition(condition, rule.when, context, measurements)
+      );
+
+      return {
+        rule_id: rule.id,
+        description: rule.description,
+        level: rule.level,
+        matched: conditions.length > 0 && conditions.every(result => result.matched),
+        conditions,
+      };
+    });
+  }
+
+  /**
+   * Matching rules as risk rule candidates, most severe first
+   */
+  static match(rules: RiskRuleSpec[], context: RiskRuleContext, version?: number): RiskRuleMatch[] {
+    return this.evaluate(rules, context)
+      .filter(evaluation => evaluation.matched)
+      .sort((a, b) => riskRank(b.level) - riskRank(a.level))
+      .map(evaluation => ({
+        rule_id: evaluation.rule_id,
+        source: 'rule' as const,
+        level: evaluation.level,
+        ...(version !== undefined && { rule_version: version }),
+      }));
+  }
+
+  private static checkCondition(
+    condition: keyof RiskRuleConditions,
+    when: RiskRuleConditions,
+    context: RiskRuleContext,
+    measurements: Measurement[]
+  ): RiskConditionResult {
+    const { intent, language, machine } = context;
+
+    switch (condition) {
+      case 'intent':
+        return {
+          condition,
+          matched: when.intent!.includes(intent.name),
+          detail: `intent is ${intent.name}`,
+        };
+      case 'min_confidence':
+        return {
+          condition,
+          matched: intent.confidence >= when.min_confidence!,
+          detail: `confidence ${intent.confidence.toFixed(2)} vs minimum ${when.min_confidence}`,
+        };
+      case 'max_confidence':
+        return {
+          condition,
+          matched: intent.confidence <= when.max_confidence!,
+          detail: `confidence ${intent.confidence.toFixed(2)} vs maximum ${when.max_confidence}`,
+        };
+      case 'language':
+        return {
+          condition,
+          matched: when.language!.includes(language),
+          detail: `language is ${language}`,
+        };
+      case 'machine':
+        return {
+          condition,
+          matched: !!machine && when.machine!.some(term => ` ${machine} `.includes(` ${term.toLowerCase()} `)),
+          detail: machine ? `machine is ${machine}` : 'no machine mentioned',
+        };
+      case 'value': {
+        const bounds = when.value!;
+        const candidates = measurements.filter(measurement => measurement.quantity === bounds.quantity);
+        const hit = candidates.find(measurement => withinBounds(measurement.value, bounds));
+        return {
+          condition,
+          matched: !!hit,
+          detail: candidates.length === 0
+            ? `no ${bounds.quantity} mentioned`
+            : `${bounds.quantity} ${(hit ?? candidates[0]).value} ${MEASURED_QUANTITIES[bounds.quantity]}`,
+        };
+      }
+      case 'time': {
+        const window = when.time!;
+        const minutes = localMinutes(context.at, window.timezone ?? 'UTC');
+        const from = toMinutes(window.from);
+        const to = toMinutes(window.to);
+        const inside = from <= to
+          ? minutes >= from && minutes < to
+          : minutes >= from || minutes < to;
+        return {
+          condition,
+          matched: inside,
+          detail: `local time ${formatMinutes(minutes)} (${window.timezone ?? 'UTC'})`,
+        };
+      }
+    }
+  }
+}
+
+function activeConditions(when: RiskRuleConditions): (keyof RiskRuleConditions)[] {
+  const conditions: (keyof RiskRuleConditions)[] = [];
+  if (when.intent?.length) conditions.push('intent');
+  if (when.min_confidence !== undefined && when.min_confidence !== null) conditions.push('min_confidence');
+  if (when.max_confidence !== undefined && when.max_confidence !== null) conditions.push('max_confidence');
+  if (when.language?.length) conditions.push('language');
+  if (when.machine?.length) conditions.push('machine');
+  if (when.value?.quantity) conditions.push('value');
+  if (when.time?.from && when.time?.to) conditions.push('time');
+  return conditions;
+}
+
+function withinBounds(value: number, bounds: NonNullable<RiskRuleConditions['value']>): boolean {
+  return (bounds.gt === undefined || bounds.gt === null || value > bounds.gt)
+    && (bounds.gte === undefined || bounds.gte === null || value >= bounds.gte)
+    && (bounds.lt === undefined || bounds.lt === null || value < bounds.lt)
+    && (bounds.lte === undefined || bounds.lte === null || value <= bounds.lte);
+}
+
+function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-GB', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function localMinutes(at: Date, timezone: string): number {
+  const parts = new Intl.DateTimeFormat('en-GB', {
+    timeZone: timezone,
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(at);
+  const hour = Number(parts.find(part => part.type === 'hour')?.value ?? 0);
+  const minute = Number(parts.find(part => part.type === 'minute')?.value ?? 0);
+  return hour * 60 + minute;
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+function formatMinutes(minutes: number): string {
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
@@ -0,0 +1,343 @@
+import { RomanizedTamilDetector } from './romanized';
+
+/**
+ * Transliteration between Tamil script and Latin letters.
+ *
+ * Scheme (Latin → Tamil):
+ *   Vowels     a அ, aa ஆ, i இ, ii/ee ஈ, u உ, uu/oo ஊ, e எ, ae ஏ, ai ஐ, o ஒ, oa ஓ, au ஔ
+ *   Consonants k/g க, ng ங, ch/s ச, nj ஞ, t/d ட, N ண, th/dh த, n ந/ன, p/b ப, m ம,
+ *              y ய, r ர, l ல, v/w வ, zh ழ, L ள, R ற, j ஜ, sh ஷ, S ஸ, h ஹ
+ *   n is ந at the start of a word and before th/dh, ண before t/d, and ன elsewhere;
+ *   nn is ண்ண after a ("pannu" பண்ணு, "thanni" தண்ணி) and ன்ன elsewhere ("enna" என்ன).
+ *   ng and nj before a vowel are written ங்க and ஞ்ச, as Tamil spells them ("enga" எங்க).
+ *   k, ch, t and p between vowels are doubled, since Tamil voices a single one there
+ *   ("adikuthu" அடிக்குது, "pidichaa" பிடிச்சா); g, s, d and b are the single letter.
+ *   A consonant without a vowel after it takes the pulli (்).
+ *   Capitals mark N, L, R and S only inside a word; a capital first letter is just
+ *   capitalization, since no Tamil word starts with ண, ள, ற or ழ.
+ *
+ * Letters outside the scheme fall back to the nearest Tamil sound: c and q as க,
+ * f as ஃப, x as க்ஸ, z as ஜ, and h after a consonant is dropped ("bh" as ப).
+ *
+ * Tamil → Latin writes the scheme's canonical spelling, choosing among the Latin
+ * letters of a Tamil one the way it sounds: க, ச, ட and ப are g, s, d and b between
+ * vowels ("pugai", "kasivu", "vaendaam", "koabam"), த is dh after ந ("vandha"), ட is d
+ * after ண, ச is s at the start of a word. Tamil → Latin → Tamil gives back the same
+ * text, except for letters the scheme cannot tell apart in those positions (ந inside
+ * a word, ன்ன after a, ஸ before a vowel at the start of a word).
+ */
+
+/**
+ * Where a transliterated word of a canonical text came from
+ */
+export interface TransliteratedSpan {
+  start: number;
+  end: number;
+  original_start: number;
+  original_end: number;
+}
+
+/**
+ * A text with its romanized Tamil words written in Tamil script
+ */
+export interface CanonicalText {
+  text: string;
+  spans: TransliteratedSpan[];
+}
+
+export type TransliterationTarget = 'tamil' | 'latin' | 'canonical';
+
+export const TRANSLITERATION_TARGETS: TransliterationTarget[] = ['tamil', 'latin', 'canonical'];
+
+const PULLI = '்';
+
+// Latin vowels with their independent letter and the sign they take after a consonant
+const VOWELS: Record<string, { letter: string; sign: string }> = {
+  a: { letter: 'அ', sign: '' },
+  aa: { letter: 'ஆ', sign: 'ா' },
+  i: { letter: 'இ', sign: 'ி' },
+  ii: { letter: 'ஈ', sign: 'ீ' },
+  u: { letter: 'உ', sign: 'ு' },
+  uu: { letter: 'ஊ', sign: 'ூ' },
+  e: { letter: 'எ', sign: 'ெ' },
+  ae: { letter: 'ஏ', sign: 'ே' },
+  ai: { letter: 'ஐ', sign: 'ை' },
+  o: { letter: 'ஒ', sign: 'ொ' },
+  oa: { letter: 'ஓ', sign: 'ோ' },
+  au: { letter: 'ஔ', sign: 'ௌ' },
+};
+
+const VOWEL_ALIASES: Record<string, string> = { ee: 'ii', oo: 'uu' };
+
+// Latin consonants with their Tamil letter; n is resolved by its neighbours
+const CONSONANTS: Record<string, string> = {
+  k: 'க', g: 'க', c: 'க', q: 'க', ng: 'ங', ch: 'ச', s: 'ச', nj: 'ஞ', t: 'ட', d: 'ட', N: 'ண', th: 'த',
+  dh: 'த', n: 'ன', p: 'ப', b: 'ப', f: 'ஃப', m: 'ம', y: 'ய', r: 'ர', l: 'ல', v: 'வ', w: 'வ', zh: 'ழ', L: 'ள', R: 'ற', j: 'ஜ', z: 'ஜ', sh: 'ஷ', S: 'ஸ', h: 'ஹ', x: 'க்ஸ',
+};
+
+// Longest first, so digraphs win over their letters
+const LATIN_UNITS = [...Object.keys(VOWELS), ...Object.keys(VOWEL_ALIASES), ...Object.keys(CONSONANTS)]
+  .sort((a, b) => b.length - a.length);
+
+const TAMIL_VOWELS = new Map(Object.entries(VOWELS).map(([latin, { letter }]) => [letter, latin]));
+const TAMIL_SIGNS = new Map(Object.entries(VOWELS).filter(([, { sign }]) => sign).map(([latin, { sign }]) => [sign, latin]));
+
+// Canonical Latin of each Tamil consonant, before the positional choices
+const TAMIL_CONSONANTS: Record<string, string> = {
+  'க': 'k', 'ங': 'ng', 'ச': 's', 'ஞ': 'nj', 'ட': 't', 'ண': 'N', 'த': 'th', 'ந': 'n', 'ப': 'p', 'ம': 'm',
+  'ய': 'y', 'ர': 'r', 'ல': 'l', 'வ': 'v', 'ழ': 'zh', 'ள': 'L', 'ற': 'R', 'ன': 'n', 'ஜ': 'j', 'ஷ': 'sh',
+  'ஸ': 'S', 'ஹ': 'h',
+};
+
+const DENTALS = new Set(['th', 'dh']);
+const RETROFLEXES = new Set(['t', 'd']);
+// Voiceless stops, doubled between vowels
+const GEMINATES = new Set(['k', 'ch', 't', 'p']);
+
+interface LatinUnit {
+  latin: string;
+  vowel: boolean;
+}
+
+interface TamilSyllable {
+  consonant?: string;
+  // Latin of the vowel, '' for a consonant with pulli
+  vowel: string;
+}
+
+function splitLatin(word: string): LatinUnit[] {
+  const units: LatinUnit[] = [];
+  let i = 0;
+  while (i < word.length) {
+    // Capitals the scheme does not use stand for their small letter: "B", "K", "A"
+    const latin = LATIN_UNITS.find(unit => word.startsWith(unit, i))
+      ?? LATIN_UNITS.find(unit => unit === word[i].toLowerCase())!;
+    i += word.startsWith(latin, i) ? latin.length : 1;
+
+    const vowel = latin in VOWELS || latin in VOWEL_ALIASES;
+    // Aspiration has no letter of its own: "bh", "kh"
+    if (latin === 'h' && units.length > 0 && !units[units.length - 1].vowel) continue;
+    units.push({ latin: VOWEL_ALIASES[latin] ?? latin, vowel });
+  }
+  return units;
+}
+
+// Whether the n at an index is one of an nn after a, which Tamil mostly spells ண்ண
+function isRetroflexNN(units: LatinUnit[], index: number): boolean {
+  const first = units[index - 1]?.latin === 'n' ? index - 1 : index;
+  return units[first]?.latin === 'n' && units[first + 1]?.latin === 'n' &&
+    ['a', 'aa'].includes(units[first - 1]?.latin);
+}
+
+function consonantLetter(units: LatinUnit[], index: number): string {
+  const { latin } = units[index];
+  const next = units[index + 1];
+
+  if (latin === 'n') {
+    if (isRetroflexNN(units, index)) return 'ண';
+    if (index === 0 || (next && DENTALS.has(next.latin))) return 'ந';
+    if (next && RETROFLEXES.has(next.latin)) return 'ண';
+    return 'ன';
+  }
+  if (latin === 'ng' && next?.vowel) return `ங${PULLI}க`;
+  if (latin === 'nj' && next?.vowel && index > 0) return `ஞ${PULLI}ச`;
+  // Loanword clusters: "switch", "station"
+  if (latin === 's' && next && !next.vowel && next.latin !== 's' && next.latin !== 'ch') return 'ஸ';
+  return CONSONANTS[latin];
+}
+
+function wordToTamil(word: string): string {
+  // A capital first letter is capitalization, not a scheme marker
+  const units = splitLatin(word[0].toLowerCase() + word.slice(1));
+  let tamil = '';
+
+  for (let i = 0; i < units.length; i++) {
+    const unit = units[i];
+    if (unit.vowel) {
+      tamil += VOWELS[unit.latin].letter;
+      continue;
+    }
+
+    const letter = consonantLetter(units, i);
+    const next = units[i + 1];
+    if (GEMINATES.has(unit.latin) && units[i - 1]?.vowel && next?.vowel) {
+      tamil += letter + PULLI;
+    }
+    tamil += letter;
+    if (next?.vowel) {
+      tamil += VOWELS[next.latin].sign;
+      i++;
+    } else {
+      tamil += PULLI;
+    }
+  }
+
+  return tamil;
+}
+
+function splitTamil(word: string): TamilSyllable[] {
+  const syllables: TamilSyllable[] = [];
+  const chars = Array.from(word);
+
+  for (let i = 0; i < chars.length; i++) {
+    const char = chars[i];
+    if (TAMIL_VOWELS.has(char)) {
+      syllables.push({ vowel: TAMIL_VOWELS.get(char)! });
+    } else if (char === 'ஃ' && chars[i + 1] !== 'ப') {
+      // Aytham sounds like h, and before ப writes f
+      syllables.push({ consonant: 'ஹ', vowel: '' });
+    } else if (char in TAMIL_CONSONANTS) {
+      const consonant = char === 'ப' && chars[i - 1] === 'ஃ' ? 'f' : char;
+      const next = chars[i + 1];
+      if (next === PULLI || TAMIL_SIGNS.has(next)) {
+        syllables.push({ consonant, vowel: next === PULLI ? '' : TAMIL_SIGNS.get(next)! });
+        i++;
+      } else {
+        syllables.push({ consonant, vowel: 'a' });
+      }
+    }
+  }
+
+  return syllables;
+}
+
+function consonantLatin(syllables: TamilSyllable[], index: number): string {
+  const { consonant, vowel } = syllables[index];
+  const previous = syllables[index - 1];
+  const next = syllables[index + 1];
+  // Between vowels: after a syllable with a vowel, and carrying one
+  const voiced = !!previous && previous.vowel !== '' && vowel !== '';
+
+  switch (consonant) {
+    case 'f':
+      return 'f';
+    case 'க':
+      return voiced ? 'g' : 'k';
+    case 'ட':
+      return voiced || (previous?.consonant === 'ண' && previous.vowel === '') ? 'd' : 't';
+    case 'த':
+      return previous?.consonant === 'ந' && previous.vowel === '' ? 'dh' : 'th';
+    case 'ப':
+      return voiced || (previous?.consonant === 'ம' && previous.vowel === '') ? 'b' : 'p';
+    case 'ச':
+      if (!previous || voiced || (previous.vowel === '' && ['ன', 'ண', 'ம'].includes(previous.consonant!))) return 's';
+      return 'ch';
+    case 'ண': {
+      // n before t/d is read as ண, and so is nn after a
+      const pair = vowel === '' && next?.consonant === 'ண' ? index : index - 1;
+      const afterA = ['a', 'aa'].includes(syllables[pair - 1]?.vowel ?? '') &&
+        syllables[pair].vowel === '' && syllables[pair + 1]?.consonant === 'ண';
+      return afterA || (vowel === '' && next?.consonant === 'ட') ? 'n' : 'N';
+    }
+    default:
+      return TAMIL_CONSONANTS[consonant!];
+  }
+}
+
+function wordToLatin(word: string): string {
+  const syllables = splitTamil(word);
+  let latin = '';
+
+  for (let i = 0; i < syllables.length; i++) {
+    const syllable = syllables[i];
+    const previous = syllables[i - 1];
+
+    if (!syllable.consonant) {
+      latin += syllable.vowel;
+      continue;
+    }
+    // ங்க and ஞ்ச are written ng and nj before a vowel
+    const cluster = previous?.vowel === '' &&
+      ((previous.consonant === 'ங' && syllable.consonant === 'க') || (previous.consonant === 'ஞ' && syllable.consonant === 'ச'));
+    if (!cluster) {
+      latin += consonantLatin(syllables, i);
+    }
+    latin += syllable.vowel;
+  }
+
+  return latin;
+}
+
+/**
+ * Converts romanized Tamil to Tamil script and back, and writes operator text in one
+ * canonical form: Tamil words in Tamil script, English words as typed. "pugai
+ * varuthu" and "புகை வருது" then look the same to retrieval, keyword matching and TTS.
+ */
+export class TamilTransliterator {
+  /**
+   * Write every Latin-script word of a text in Tamil script
+   */
+  static toTamil(text: string): string {
+    return text.replace(/[A-Za-z]+/g, word => wordToTamil(word));
+  }
+
+  /**
+   * Write every Tamil-script word of a text in Latin letters
+   */
+  static toLatin(text: string): string {
+    return text.normalize('NFC').replace(/[\u0B80-\u0BFF]+/g, word => wordToLatin(word));
+  }
+
+  /**
+   * Write the romanized Tamil words of a text in Tamil script, keeping English words
+   * and text already in Tamil script. Each converted word is recorded as a span, so
+   * that positions in the canonical text can be traced back to the original.
+   */
+  static canonicalize(text: string): CanonicalText {
+    const spans: TransliteratedSpan[] = [];
+    let canonical = '';
+    let copied = 0;
+
+    for (const match of text.matchAll(/[A-Za-z]+/g)) {
+      const word = match[0];
+      if (RomanizedTamilDetector.classifyWord(word.toLowerCase()) === 'english') continue;
+
+      const tamil = wordToTamil(word);
+      canonical += text.slice(copied, match.index!);
+      spans.push({
+        start: canonical.length,
+        end: canonical.length + tamil.length,
+        original_start: match.index!,
+        original_end: match.index! + word.length,
+      });
+      canonical += tamil;
+      copied = match.index! + word.length;
+    }
+
+    return { text: canonical + text.slice(copied), spans };
+  }
+
+  /**
+   * Range of the original text that a range of its canonical text came from. A
+   * range touching a converted word covers the whole original word.
+   */
+  static toOriginalRange(canonical: CanonicalText, start: number, end: number): { start: number; end: number } {
+    const map = (offset: number, edge: 'start' | 'end'): number => {
+      let shift = 0;
+      for (const span of canonical.spans) {
+        if (offset < span.start || (edge === 'end' && offset === span.start)) break;
+        if (offset < span.end || (edge === 'end' && offset === span.end)) {
+          return edge === 'start' ? span.original_start : span.original_end;
+        }
+        shift = span.original_end - span.end;
+      }
+      return offset + shift;
+    };
+
+    return { start: map(start, 'start'), end: map(end, 'end') };
+  }
+
+  /**
+   * Convert a text to Tamil script, to Latin letters, or to its canonical form
+   */
+  static transliterate(text: string, target: TransliterationTarget): string {
+    switch (target) {
+      case 'tamil':
+        return this.toTamil(text);
+      case 'latin':
+        return this.toLatin(text);
+      case 'canonical':
+        return this.canonicalize(text).text;
+    }
+  }
+}
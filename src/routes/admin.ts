@@ -0,0 +1,1123 @@
+import express, { Request, Response } from 'express';
+import Joi from 'joi';
+import { Conversation } from '../models/Conversation';
+import { FeedbackCounts, Query } from '../models/Query';
+import { IntentOverride, IntentOverrideSpec } from '../models/IntentOverride';
+import { RiskRuleSet, RiskRuleSpec, RISK_RULE_FORMAT } from '../models/RiskRuleSet';
+import { OperatorLockdown } from '../models/OperatorLockdown';
+import { Alert } from '../models/Alert';
+import { LabelingTask, ILabelingTask, LABELING_REASONS, LABELING_STATUSES } from '../models/LabelingTask';
+import { QueryReplayer } from '../modules/query/replay';
+import { CATALOGUE_LANGUAGES, intentCatalogue } from '../modules/query/catalogue';
+import {
+  EnterpriseIntentCatalogue,
+  describeOverrideProblems,
+  weakensCriticalIntent,
+} from '../modules/query/overrides';
+import { RISK_ORDER } from '../modules/query/risk';
+import { MEASURED_QUANTITIES, describeRiskRuleProblems } from '../modules/query/rules';
+import { queryPipeline } from '../modules/query/pipeline';
+import { labelingQueue } from '../modules/query/labeling';
+import { TamilTransliterator, TRANSLITERATION_TARGETS } from '../modules/query/transliteration';
+import { authenticate, authorize, validateEnterpriseAccess } from '../middleware/auth';
+import { adminRateLimit } from '../middleware/rateLimiting';
+import { validateEnterpriseId, validateEnterpriseResource, validateRequest, schemas } from '../middleware/validation';
+import { AppError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+
+const router = express.Router();
+
+// Admin routes are restricted to enterprise and super admins
+const requireAdmin = [authenticate, authorize(['enterprise_admin', 'super_admin']), adminRateLimit];
+
+const objectIdPattern = /^[0-9a-fA-F]{24}$/;
+
+const validateConversationList = validateRequest({
+  query: schemas.pagination.keys({
+    operator_id: Joi.string().pattern(objectIdPattern).optional(),
+  }),
+});
+
+const validateQueryList = validateRequest({
+  query: schemas.pagination.keys({
+    feedback: Joi.string().valid('any', 'none', 'helpful', 'not_helpful').optional(),
+    intent: Joi.string().max(100).optional(),
+  }),
+});
+
+const validateFeedbackReport = validateRequest({
+  query: Joi.object({
+    since: Joi.date().iso().optional(),
+  }),
+});
+
+const validateReplayRequest = validateRequest({
+  body: Joi.object({
+    query_ids: Joi.array().items(Joi.string().pattern(objectIdPattern)).max(QueryReplayer.MAX_LIMIT).optional(),
+    since: Joi.date().iso().optional(),
+    until: Joi.date().iso().optional(),
+    intent: Joi.string().max(100).optional(),
+    limit: Joi.number().integer().min(1).max(QueryReplayer.MAX_LIMIT).optional(),
+  }),
+});
+
+const languageTexts = Joi.object().pattern(
+  Joi.string().valid(...CATALOGUE_LANGUAGES),
+  Joi.string().trim().min(1).max(1000)
+);
+
+const validateIntentOverrideParams = validateRequest({
+  params: schemas.enterpriseId.keys({
+    intent_name: Joi.string().pattern(/^[a-z][a-z0-9_]*$/).max(100).required()
+      .messages({ 'string.pattern.base': 'Intent name must be snake_case' }),
+  }),
+});
+
+const validateIntentOverride = validateRequest({
+  body: Joi.object({
+    disabled: Joi.boolean().optional(),
+    examples: Joi.array().items(Joi.string().trim().min(1).max(500)).max(200).optional(),
+    responses: languageTexts.optional(),
+    labels: languageTexts.optional(),
+    risk: Joi.string().valid(...RISK_ORDER).optional(),
+    block_threshold: Joi.string().valid('high', 'critical').optional(),
+  }).min(1),
+});
+
+const timeOfDay = Joi.string().pattern(/^([01]\d|2[0-3]):([0-5]\d)$/)
+  .messages({ 'string.pattern.base': 'Time must use HH:MM' });
+
+const riskRule = Joi.object({
+  id: Joi.string().pattern(/^[a-z][a-z0-9_]*$/).max(100).required()
+    .messages({ 'string.pattern.base': 'Rule ID must be snake_case' }),
+  description: Joi.string().trim().max(500).optional(),
+  level: Joi.string().valid(...RISK_ORDER).required(),
+  when: Joi.object({
+    intent: Joi.array().items(Joi.string().max(100)).min(1).optional(),
+    min_confidence: Joi.number().min(0).max(1).optional(),
+    max_confidence: Joi.number().min(0).max(1).optional(),
+    language: Joi.array().items(Joi.string().max(20)).min(1).optional(),
+    machine: Joi.array().items(Joi.string().trim().max(100)).min(1).optional(),
+    value: Joi.object({
+      quantity: Joi.string().valid(...Object.keys(MEASURED_QUANTITIES)).required(),
+      gt: Joi.number().optional(),
+      gte: Joi.number().optional(),
+      lt: Joi.number().optional(),
+      lte: Joi.number().optional(),
+    }).optional(),
+    time: Joi.object({
+      from: timeOfDay.required(),
+      to: timeOfDay.required(),
+      timezone: Joi.string().max(64).optional(),
+    }).optional(),
+  }).required(),
+});
+
+const riskRules = Joi.array().items(riskRule).max(200);
+
+const validateRiskRuleVersion = validateRequest({
+  query: Joi.object({
+    version: Joi.number().integer().min(1).optional(),
+  }),
+});
+
+const validateRiskRuleSet = validateRequest({
+  body: Joi.object({
+    format: Joi.number().valid(RISK_RULE_FORMAT).required(),
+    rules: riskRules.required(),
+    comment: Joi.string().trim().max(500).optional(),
+  }),
+});
+
+const validateRiskRuleTest = validateRequest({
+  body: Joi.object({
+    text: Joi.string().trim().min(1).max(5000).required(),
+    language: Joi.string().max(20).optional(),
+    machine: Joi.string().trim().lowercase().max(100).optional(),
+    at: Joi.date().iso().optional(),
+    rules: riskRules.optional(),
+  }),
+});
+
+const validateTransliteration = validateRequest({
+  body: Joi.object({
+    text: Joi.string().trim().min(1).max(5000).required(),
+    to: Joi.string().valid(...TRANSLITERATION_TARGETS).optional(),
+  }),
+});
+
+const validateLockdownList = validateRequest({
+  query: Joi.object({
+    status: Joi.string().valid('active', 'released', 'all').optional(),
+    operator_id: Joi.string().pattern(objectIdPattern).optional(),
+  }),
+});
+
+const validateLockdownParams = validateRequest({
+  params: schemas.enterpriseId.keys({
+    lockdown_id: Joi.string().pattern(objectIdPattern).required(),
+  }),
+});
+
+const validateUnlock = validateRequest({
+  body: Joi.object({
+    reason: Joi.string().trim().min(3).max(500).required()
+      .messages({ 'any.required': 'A reason is required to release a lockdown' }),
+  }),
+});
+
+const validateLabelingList = validateRequest({
+  query: schemas.pagination.keys({
+    status: Joi.string().valid(...LABELING_STATUSES, 'all').optional(),
+    reason: Joi.string().valid(...LABELING_REASONS).optional(),
+  }),
+});
+
+const validateLabelingStats = validateRequest({
+  query: Joi.object({
+    since: Joi.date().iso().optional(),
+  }),
+});
+
+const validateLabelingParams = validateRequest({
+  params: schemas.enterpriseId.keys({
+    task_id: Joi.string().pattern(objectIdPattern).required(),
+  }),
+});
+
+const validateLabel = validateRequest({
+  body: Joi.object({
+    intent_name: Joi.string().pattern(/^[a-z][a-z0-9_]*$/).max(100).required()
+      .messages({ 'string.pattern.base': 'Intent name must be snake_case' }),
+  }),
+});
+
+const validateNewIntentCandidate = validateRequest({
+  body: Joi.object({
+    name: Joi.string().pattern(/^[a-z][a-z0-9_]*$/).max(100).optional()
+      .messages({ 'string.pattern.base': 'Intent name must be snake_case' }),
+    note: Joi.string().trim().max(500).optional(),
+  }),
+});
+
+const validateDismiss = validateRequest({
+  body: Joi.object({
+    note: Joi.string().trim().max(500).optional(),
+  }),
+});
+
+/**
+ * Lockdown filters for each listing status
+ */
+const LOCKDOWN_FILTERS: Record<string, Record<string, unknown>> = {
+  active: { released_at: { $exists: false } },
+  released: { released_at: { $exists: true } },
+  all: {},
+};
+
+const queryReplayer = new QueryReplayer();
+const enterpriseIntents = new EnterpriseIntentCatalogue();
+
+/**
+ * Query filters for each feedback listing option
+ */
+const FEEDBACK_FILTERS: Record<string, Record<string, unknown>> = {
+  any: { feedback: { $exists: true } },
+  none: { feedback: { $exists: false } },
+  helpful: { 'feedback.helpful': true },
+  not_helpful: { 'feedback.helpful': false },
+};
+
+/**
+ * Share of helpful feedback, rounded to three decimals
+ */
+function satisfactionRate(helpful: number, total: number): number {
+  return total === 0 ? 0 : Math.round((helpful / total) * 1000) / 1000;
+}
+
+/**
+ * Load a labeling task of the enterprise, answering 404 when there is none
+ */
+async function findLabelingTask(req: Request, res: Response): Promise<ILabelingTask | null> {
+  const task = await LabelingTask.findOne({ _id: req.params.task_id, enterprise_id: req.params.enterprise_id });
+  if (!task) {
+    res.status(404).json({
+      error: {
+        code: 'LABELING_TASK_NOT_FOUND',
+        message: 'Labeling task not found',
+        trace_id: req.user?.trace_id,
+      },
+      timestamp: new Date().toISOString(),
+    });
+  }
+  return task;
+}
+
+/**
+ * Answer a failed labeling action, passing on the status of expected errors
+ */
+function sendLabelingError(res: Response, error: unknown, message: string, trace_id?: string): void {
+  const appError = error as AppError;
+  const statusCode = appError.statusCode || 500;
+
+  logger.error(`${message}:`, error, { trace_id });
+  res.status(statusCode).json({
+    error: {
+      code: appError.code || 'LABELING_FAILED',
+      message: statusCode === 500 ? message : appError.message,
+      trace_id,
+    },
+    timestamp: new Date().toISOString(),
+  });
+}
+
+/**
+ * Read page and limit from the query string, applying pagination defaults
+ */
+function getPagination(req: Request): { page: number; limit: number } {
+  const page = Math.max(1, parseInt(req.query.page as string, 10) || 1);
+  const limit = Math.min(100, Math.max(1, parseInt(req.query.limit as string, 10) || 20));
+  return { page, limit };
+}
+
+/**
+ * GET /admin/:enterprise_id/conversations
+ * List operator conversations, most recently active first
+ */
+router.get('/:enterprise_id/conversations', requireAdmin, validateEnterpriseId, validateEnterpriseAccess, validateConversationList, async (req: Request, res: Response): Promise<void> => {
+  const trace_id = req.user?.trace_id;
+  const { enterprise_id } = req.params;
+
+  try {
+    const { page, limit } = getPagination(req);
+    const filter: Record<string, unknown> = { enterprise_id };
+    if (typeof req.query.operator_id === 'string') {
+      filter.operator_id = req.query.operator_id;
+    }
+
+    const [conversations, total] = await Promise.all([
+      Conversation.find(filter)
+        .sort({ last_activity_at: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .populate('operator_id', 'email role'),
+      Conversation.countDocuments(filter),
+    ]);
+
+    res.json({
+      conversations,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    logger.error('Failed to list conversations:', error, { trace_id });
+    res.status(500).json({
+      error: {
+        code: 'CONVERSATION_LIST_FAILED',
+        message: 'Failed to list conversations',
+        trace_id,
+      },
+      timestamp: new Date().toISOString(),
+    });
+  }
+});
+
+/**
+ * GET /admin/:enterprise_id/conversations/:id
+ * Get a whole conversation with all of its query turns in order
+ */
+router.get('/:enterprise_id/conversations/:id', requireAdmin, validateEnterpriseResource, validateEnterpriseAccess, async (req: Request, res: Response): Promise<void> => {
+  const trace_id = req.user?.trace_id;
+  const { enterprise_id, id } = req.params;
+
+  try {
+    const conversation = await Conversation.findWithTurns(id, enterprise_id);
+    if (!conversation) {
+      res.status(404).json({
+        error: {
+          code: 'CONVERSATION_NOT_FOUND',
+          message: 'Conversation not found',
+          trace_id,
+        },
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    res.json({
+      conversation: {
+        id: conversation._id,
+        operator: conversation.operator_id,
+        context: conversation.context,
+        created_at: conversation.created_at,
+        last_activity_at: conversation.last_activity_at,
+        turn_count: conversation.getTurnCount(),
+        turns: conversation.query_ids,
+      },
+    });
+  } catch (error) {
+    logger.error('Failed to get conversation:', error, { trace_id });
+    res.status(500).json({
+      error: {
+        code: 'CONVERSATION_FETCH_FAILED',
+        message: 'Failed to fetch conversation',
+        trace_id,
+      },
+      timestamp: new Date().toISOString(),
+    });
+  }
+});
+
+/**
+ * GET /admin/:enterprise_id/queries
+ * List queries, newest first, optionally filtered by feedback and intent
+ */
+router.get('/:enterprise_id/queries', requireAdmin, validateEnterpriseId, validateEnterpriseAccess, validateQueryList, async (req: Request, res: Response): Promise<void> => {
+  const trace_id = req.user?.trace_id;
+  const { enterprise_id } = req.params;
+
+  try {
+    const { page, limit } = getPagination(req);
+    const filter: Record<string, unknown> = { enterprise_id };
+    if (typeof req.query.feedback === 'string') {
+      Object.assign(filter, FEEDBACK_FILTERS[req.query.feedback]);
+    }
+    if (typeof req.query.intent === 'string') {
+      filter['data.intent.name'] = req.query.intent;
+    }
+
+    const [queries, total] = await Promise.all([
+      Query.find(filter)
+        .sort({ created_at: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .populate('operator_id', 'email role'),
+      Query.countDocuments(filter),
+    ]);
+
+    res.json({
+      queries,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    logger.error('Failed to list queries:', error, { trace_id });
+    res.status(500).json({
+      error: {
+        code: 'QUERY_LIST_FAILED',
+        message: 'Failed to list queries',
+        trace_id,
+      },
+      timestamp: new Date().toISOString(),
+    });
+  }
+});
+
+/**
+ * POST /admin/:enterprise_id/queries/replay
+ * Re-run stored queries through the current pipeline without persisting, and diff the outcomes
+ */
+router.post('/:enterprise_id/queries/replay', requireAdmin, validateEnterpriseId, validateEnterpriseAccess, validateReplayRequest, async (req: Request, res: Response): Promise<void> => {
+  const trace_id = req.user?.trace_id;
+  const { enterprise_id } = req.params;
+  const { query_ids, since, until, intent, limit } = req.body;
+
+  try {
+    const report = await queryReplayer.replay(enterprise_id, {
+      query_ids,
+      since: since ? new Date(since) : undefined,
+      until: until ? new Date(until) : undefined,
+      intent,
+      limit,
+    });
+
+    logger.info('Query replay completed', { trace_id, enterprise_id, ...report.summary });
+    res.json({ replay: report });
+  } catch (error) {
+    logger.error('Failed to replay queries:', error, { trace_id });
+    res.status(500).json({
+      error: {
+        code: 'QUERY_REPLAY_FAILED',
+        message: 'Failed to replay queries',
+        trace_id,
+      },
+      timestamp: new Date().toISOString(),
+    });
+  }
+});
+
+/**
+ * GET /admin/:enterprise_id/feedback/report
+ * Operator satisfaction per intent and per cited manual
+ */
+router.get('/:enterprise_id/feedback/report', requireAdmin, validateEnterpriseId, validateEnterpriseAccess, validateFeedbackReport, async (req: Request, res: Response): Promise<void> => {
+  const trace_id = req.user?.trace_id;
+  const { enterprise_id } = req.params;
+
+  try {
+    const since = typeof req.query.since === 'string' ? new Date(req.query.since) : undefined;
+    const report = await Query.getFeedbackReport(enterprise_id, since);
+
+    const overall = report?.overall?.[0] ?? { total: 0, helpful: 0, corrections: 0 };
+    const summarize = (group: FeedbackCounts) => ({
+      total: group.total,
+      helpful: group.helpful,
+      not_helpful: group.total - group.helpful,
+      corrections: group.corrections,
+      satisfaction_rate: satisfactionRate(group.helpful, group.total),
+    });
+
+    res.json({
+      report: {
+        since: since?.toISOString(),
+        overall: summarize(overall),
+        by_intent: (report?.by_intent ?? []).map(group => ({
+          intent: group._id,
+          ...summarize(group),
+        })),
+        by_manual: (report?.by_manual ?? []).map(group => ({
+          manual_id: group._id,
+          manual_name: group.manual_name,
+          ...summarize(group),
+        })),
+      },
+    });
+  } catch (error) {
+    logger.error('Failed to build feedback report:', error, { trace_id });
+    res.status(500).json({
+      error: {
+        code: 'FEEDBACK_REPORT_FAILED',
+        message: 'Failed to build feedback report',
+        trace_id,
+      },
+      timestamp: new Date().toISOString(),
+    });
+  }
+});
+
+/**
+ * GET /admin/:enterprise_id/intents
+ * The enterprise's effective intent catalogue: the global catalogue with its overrides applied
+ */
+router.get('/:enterprise_id/intents', requireAdmin, validateEnterpriseId, validateEnterpriseAccess, async (req: Request, res: Response): Promise<void> => {
+  const trace_id = req.user?.trace_id;
+  const { enterprise_id } = req.params;
+
+  try {
+    const catalogue = await enterpriseIntents.getEffective(enterprise_id);
+    res.json({ catalogue });
+  } catch (error) {
+    logger.error('Failed to build effective intent catalogue:', error, { trace_id });
+    res.status(500).json({
+      error: {
+        code: 'INTENT_CATALOGUE_FAILED',
+        message: 'Failed to build intent catalogue',
+        trace_id,
+      },
+      timestamp: new Date().toISOString(),
+    });
+  }
+});
+
+/**
+ * GET /admin/:enterprise_id/intent-overrides
+ * List the enterprise's intent overrides
+ */
+router.get('/:enterprise_id/intent-overrides', requireAdmin, validateEnterpriseId, validateEnterpriseAccess, async (req: Request, res: Response): Promise<void> => {
+  const trace_id = req.user?.trace_id;
+  const { enterprise_id } = req.params;
+
+  try {
+    const overrides = await IntentOverride.findByEnterprise(enterprise_id);
+    res.json({ overrides });
+  } catch (error) {
+    logger.error('Failed to list intent overrides:', error, { trace_id });
+    res.status(500).json({
+      error: {
+        code: 'OVERRIDE_LIST_FAILED',
+        message: 'Failed to list intent overrides',
+        trace_id,
+      },
+      timestamp: new Date().toISOString(),
+    });
+  }
+});
+
+/**
+ * PUT /admin/:enterprise_id/intent-overrides/:intent_name
+ * Create or replace the override of an intent: add examples, change wording or risk, or disable it.
+ * Naming an intent the global catalogue does not have defines an enterprise-only intent.
+ * Disabling a critical intent or lowering its risk is reserved to super admins.
+ */
+router.put('/:enterprise_id/intent-overrides/:intent_name', requireAdmin, validateIntentOverrideParams, validateEnterpriseAccess, validateIntentOverride, async (req: Request, res: Response): Promise<void> => {
+  const trace_id = req.user?.trace_id;
+  const { enterprise_id, intent_name } = req.params;
+  const spec: IntentOverrideSpec = { intent_name, ...req.body };
+
+  try {
+    const globalIntent = intentCatalogue.getIntents().find(intent => intent.name === intent_name);
+
+    const problems = describeOverrideProblems(spec, globalIntent);
+    if (problems.length > 0) {
+      res.status(400).json({
+        error: {
+          code: 'INVALID_OVERRIDE',
+          message: 'Intent override cannot be applied',
+          details: { problems },
+          trace_id,
+        },
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    if (weakensCriticalIntent(spec, globalIntent) && req.user!.role !== 'super_admin') {
+      res.status(403).json({
+        error: {
+          code: 'CRITICAL_INTENT_PROTECTED',
+          message: 'Only super admins can disable critical intents or lower their risk',
+          trace_id,
+        },
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    const fields = {
+      disabled: spec.disabled ?? false,
+      examples: spec.examples ?? [],
+      responses: spec.responses,
+      labels: spec.labels,
+      risk: spec.risk,
+      block_threshold: spec.block_threshold,
+    };
+
+    let override = await IntentOverride.findOne({ enterprise_id, intent_name });
+    const created = !override;
+    if (override) {
+      override.set({ ...fields, updated_by: req.user!.email });
+    } else {
+      override = new IntentOverride({ enterprise_id, intent_name, ...fields, created_by: req.user!.email });
+    }
+    await override.save();
+
+    logger.info('Intent override saved', {
+      trace_id,
+      enterprise_id,
+      intent_name,
+      created,
+      disabled: fields.disabled,
+      risk: fields.risk,
+      global: Boolean(globalIntent),
+    });
+
+    res.status(created ? 201 : 200).json({ override });
+  } catch (error) {
+    logger.error('Failed to save intent override:', error, { trace_id });
+    res.status(500).json({
+      error: {
+        code: 'OVERRIDE_SAVE_FAILED',
+        message: 'Failed to save intent override',
+        trace_id,
+      },
+      timestamp: new Date().toISOString(),
+    });
+  }
+});
+
+/**
+ * DELETE /admin/:enterprise_id/intent-overrides/:intent_name
+ * Remove an override, restoring the global intent (or dropping an enterprise-only intent)
+ */
+router.delete('/:enterprise_id/intent-overrides/:intent_name', requireAdmin, validateIntentOverrideParams, validateEnterpriseAccess, async (req: Request, res: Response): Promise<void> => {
+  const trace_id = req.user?.trace_id;
+  const { enterprise_id, intent_name } = req.params;
+
+  try {
+    const override = await IntentOverride.findOneAndDelete({ enterprise_id, intent_name });
+    if (!override) {
+      res.status(404).json({
+        error: {
+          code: 'OVERRIDE_NOT_FOUND',
+          message: 'Intent override not found',
+          trace_id,
+        },
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    logger.info('Intent override deleted', { trace_id, enterprise_id, intent_name, deleted_by: req.user!.email });
+    res.json({ override });
+  } catch (error) {
+    logger.error('Failed to delete intent override:', error, { trace_id });
+    res.status(500).json({
+      error: {
+        code: 'OVERRIDE_DELETE_FAILED',
+        message: 'Failed to delete intent override',
+        trace_id,
+      },
+      timestamp: new Date().toISOString(),
+    });
+  }
+});
+
+/**
+ * GET /admin/:enterprise_id/risk-rules
+ * The enterprise's risk rules in force, or an earlier version with ?version=
+ */
+router.get('/:enterprise_id/risk-rules', requireAdmin, validateEnterpriseId, validateEnterpriseAccess, validateRiskRuleVersion, async (req: Request, res: Response): Promise<void> => {
+  const trace_id = req.user?.trace_id;
+  const { enterprise_id } = req.params;
+
+  try {
+    const ruleSet = req.query.version
+      ? await RiskRuleSet.findOne({ enterprise_id, version: Number(req.query.version) })
+      : await RiskRuleSet.findActive(enterprise_id);
+
+    if (!ruleSet && req.query.version) {
+      res.status(404).json({
+        error: {
+          code: 'RULE_SET_NOT_FOUND',
+          message: 'Risk rule set version not found',
+          trace_id,
+        },
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    res.json({ rule_set: ruleSet });
+  } catch (error) {
+    logger.error('Failed to get risk rules:', error, { trace_id });
+    res.status(500).json({
+      error: {
+        code: 'RULE_SET_FETCH_FAILED',
+        message: 'Failed to get risk rules',
+        trace_id,
+      },
+      timestamp: new Date().toISOString(),
+    });
+  }
+});
+
+/**
+ * GET /admin/:enterprise_id/risk-rules/versions
+ * History of published rule sets, newest first
+ */
+router.get('/:enterprise_id/risk-rules/versions', requireAdmin, validateEnterpriseId, validateEnterpriseAccess, async (req: Request, res: Response): Promise<void> => {
+  const trace_id = req.user?.trace_id;
+  const { enterprise_id } = req.params;
+
+  try {
+    const ruleSets = await RiskRuleSet.find({ enterprise_id }).sort({ version: -1 }).limit(100);
+
+    res.json({
+      versions: ruleSets.map(ruleSet => ({
+        version: ruleSet.version,
+        format: ruleSet.format,
+        rules: ruleSet.rules.length,
+        comment: ruleSet.comment,
+        created_by: ruleSet.created_by,
+        created_at: ruleSet.created_at,
+      })),
+    });
+  } catch (error) {
+    logger.error('Failed to list risk rule versions:', error, { trace_id });
+    res.status(500).json({
+      error: {
+        code: 'RULE_SET_LIST_FAILED',
+        message: 'Failed to list risk rule versions',
+        trace_id,
+      },
+      timestamp: new Date().toISOString(),
+    });
+  }
+});
+
+/**
+ * PUT /admin/:enterprise_id/risk-rules
+ * Publish a new version of the enterprise's risk rules. It applies from the next query.
+ */
+router.put('/:enterprise_id/risk-rules', requireAdmin, validateEnterpriseId, validateEnterpriseAccess, validateRiskRuleSet, async (req: Request, res: Response): Promise<void> => {
+  const trace_id = req.user?.trace_id;
+  const { enterprise_id } = req.params;
+  const { format, rules, comment } = req.body as { format: number; rules: RiskRuleSpec[]; comment?: string };
+
+  const problems = describeRiskRuleProblems(rules);
+  if (problems.length > 0) {
+    res.status(400).json({
+      error: {
+        code: 'INVALID_RISK_RULES',
+        message: 'Risk rules cannot be published',
+        details: { problems },
+        trace_id,
+      },
+      timestamp: new Date().toISOString(),
+    });
+    return;
+  }
+
+  try {
+    const ruleSet = await RiskRuleSet.publish(enterprise_id, { format, rules, comment }, req.user!.email);
+
+    logger.info('Risk rules published', {
+      trace_id,
+      enterprise_id,
+      version: ruleSet.version,
+      rules: rules.length,
+      created_by: req.user!.email,
+    });
+
+    res.status(201).json({ rule_set: ruleSet });
+  } catch (error) {
+    if ((error as { code?: number }).code === 11000) {
+      res.status(409).json({
+        error: {
+          code: 'RULE_SET_CONFLICT',
+          message: 'Another version was published at the same time, please retry',
+          trace_id,
+        },
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    logger.error('Failed to publish risk rules:', error, { trace_id });
+    res.status(500).json({
+      error: {
+        code: 'RULE_SET_SAVE_FAILED',
+        message: 'Failed to publish risk rules',
+        trace_id,
+      },
+      timestamp: new Date().toISOString(),
+    });
+  }
+});
+
+/**
+ * POST /admin/:enterprise_id/risk-rules/test
+ * Evaluate a sample text against the published rules, or against draft rules
+ * sent with the request, listing every rule that matched
+ */
+router.post('/:enterprise_id/risk-rules/test', requireAdmin, validateEnterpriseId, validateEnterpriseAccess, validateRiskRuleTest, async (req: Request, res: Response): Promise<void> => {
+  const trace_id = req.user?.trace_id;
+  const { enterprise_id } = req.params;
+  const { text, language, machine, at, rules } = req.body;
+
+  if (rules) {
+    const problems = describeRiskRuleProblems(rules);
+    if (problems.length > 0) {
+      res.status(400).json({
+        error: {
+          code: 'INVALID_RISK_RULES',
+          message: 'Draft risk rules are invalid',
+          details: { problems },
+          trace_id,
+        },
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+  }
+
+  try {
+    const result = await queryPipeline.evaluateRiskRules(
+      enterprise_id,
+      { text, language, machine: machine?.toLowerCase(), at: at ? new Date(at) : undefined },
+      rules
+    );
+
+    res.json({ result });
+  } catch (error) {
+    const appError = error as AppError;
+    const statusCode = appError.statusCode || 500;
+
+    logger.error('Failed to test risk rules:', error, { trace_id });
+    res.status(statusCode).json({
+      error: {
+        code: appError.code || 'RULE_TEST_FAILED',
+        message: statusCode === 500 ? 'Failed to test risk rules' : appError.message,
+        trace_id,
+      },
+      timestamp: new Date().toISOString(),
+    });
+  }
+});
+
+/**
+ * POST /admin/:enterprise_id/transliterate
+ * Convert a text to Tamil script, to Latin letters, or to the canonical form the
+ * pipeline matches keywords and searches manuals with
+ */
+router.post('/:enterprise_id/transliterate', requireAdmin, validateEnterpriseId, validateEnterpriseAccess, validateTransliteration, (req: Request, res: Response): void => {
+  const { text, to = 'canonical' } = req.body;
+
+  res.json({ result: { to, text: TamilTransliterator.transliterate(text, to) } });
+});
+
+/**
+ * GET /admin/:enterprise_id/lockdowns
+ * Operator lockdowns raised by critical queries, active ones by default, newest first
+ */
+router.get('/:enterprise_id/lockdowns', requireAdmin, validateEnterpriseId, validateEnterpriseAccess, validateLockdownList, async (req: Request, res: Response): Promise<void> => {
+  const trace_id = req.user?.trace_id;
+  const { enterprise_id } = req.params;
+  const status = (req.query.status as string) || 'active';
+
+  try {
+    const filter: Record<string, unknown> = { enterprise_id, ...LOCKDOWN_FILTERS[status] };
+    if (req.query.operator_id) {
+      filter.operator_id = req.query.operator_id;
+    }
+
+    const lockdowns = await OperatorLockdown.find(filter).sort({ created_at: -1 }).limit(100);
+
+    res.json({ lockdowns });
+  } catch (error) {
+    logger.error('Failed to list lockdowns:', error, { trace_id });
+    res.status(500).json({
+      error: {
+        code: 'LOCKDOWN_LIST_FAILED',
+        message: 'Failed to list lockdowns',
+        trace_id,
+      },
+      timestamp: new Date().toISOString(),
+    });
+  }
+});
+
+/**
+ * POST /admin/:enterprise_id/lockdowns/:lockdown_id/unlock
+ * Release an operator lockdown. The reason is required and recorded on the lockdown
+ * and on the alert that raised it.
+ */
+router.post('/:enterprise_id/lockdowns/:lockdown_id/unlock', requireAdmin, validateLockdownParams, validateEnterpriseAccess, validateUnlock, async (req: Request, res: Response): Promise<void> => {
+  const trace_id = req.user?.trace_id;
+  const { enterprise_id, lockdown_id } = req.params;
+  const reason = (req.body.reason as string).trim();
+
+  try {
+    // Released only if still active, so that concurrent unlocks record a single release
+    const lockdown = await OperatorLockdown.findOneAndUpdate(
+      { _id: lockdown_id, enterprise_id, released_at: null },
+      { $set: { released_at: new Date(), released_by: req.user!.email, release_reason: reason } },
+      { new: true, runValidators: true }
+    );
+    if (!lockdown) {
+      const existing = await OperatorLockdown.findOne({ _id: lockdown_id, enterprise_id });
+      if (!existing) {
+        res.status(404).json({
+          error: {
+            code: 'LOCKDOWN_NOT_FOUND',
+            message: 'Lockdown not found',
+            trace_id,
+          },
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      res.status(409).json({
+        error: {
+          code: 'LOCKDOWN_ALREADY_RELEASED',
+          message: 'This lockdown has already been released',
+          details: { released_at: existing.released_at, released_by: existing.released_by },
+          trace_id,
+        },
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    await Alert.updateOne({ _id: lockdown.alert_id }, {
+      $push: {
+        lockdown_events: {
+          action: 'unlocked',
+          lockdown_id: lockdown._id,
+          machine: lockdown.machine,
+          reason,
+          by: req.user!.email,
+          at: lockdown.released_at,
+        },
+      },
+    });
+
+    logger.warn('Operator lockdown released', {
+      trace_id,
+      enterprise_id,
+      lockdown_id,
+      alert_id: lockdown.alert_id,
+      operator_id: lockdown.operator_id,
+      machine: lockdown.machine ?? 'all',
+      released_by: req.user!.email,
+      reason,
+    });
+
+    res.json({ lockdown });
+  } catch (error) {
+    logger.error('Failed to release lockdown:', error, { trace_id });
+    res.status(500).json({
+      error: {
+        code: 'LOCKDOWN_RELEASE_FAILED',
+        message: 'Failed to release lockdown',
+        trace_id,
+      },
+      timestamp: new Date().toISOString(),
+    });
+  }
+});
+
+/**
+ * GET /admin/:enterprise_id/labeling-queue
+ * Queries queued for intent review, pending ones by default. The least confident
+ * classifications come first, since their labels teach the classifier the most.
+ */
+router.get('/:enterprise_id/labeling-queue', requireAdmin, validateEnterpriseId, validateEnterpriseAccess, validateLabelingList, async (req: Request, res: Response): Promise<void> => {
+  const trace_id = req.user?.trace_id;
+  const { enterprise_id } = req.params;
+  const status = (req.query.status as string) || 'pending';
+
+  try {
+    const { page, limit } = getPagination(req);
+    const filter: Record<string, unknown> = { enterprise_id };
+    if (status !== 'all') {
+      filter.status = status;
+    }
+    if (typeof req.query.reason === 'string') {
+      filter.reasons = req.query.reason;
+    }
+
+    const [tasks, total] = await Promise.all([
+      LabelingTask.find(filter)
+        .sort({ 'predicted.confidence': 1, created_at: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      LabelingTask.countDocuments(filter),
+    ]);
+
+    res.json({
+      tasks,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    logger.error('Failed to list labeling queue:', error, { trace_id });
+    res.status(500).json({
+      error: {
+        code: 'LABELING_LIST_FAILED',
+        message: 'Failed to list labeling queue',
+        trace_id,
+      },
+      timestamp: new Date().toISOString(),
+    });
+  }
+});
+
+/**
+ * GET /admin/:enterprise_id/labeling-queue/stats
+ * Queue size by status and review corrections per intent, most corrected first
+ */
+router.get('/:enterprise_id/labeling-queue/stats', requireAdmin, validateEnterpriseId, validateEnterpriseAccess, validateLabelingStats, async (req: Request, res: Response): Promise<void> => {
+  const trace_id = req.user?.trace_id;
+  const { enterprise_id } = req.params;
+
+  try {
+    const since = typeof req.query.since === 'string' ? new Date(req.query.since) : undefined;
+    const stats = await labelingQueue.getStats(enterprise_id, since);
+
+    res.json({ stats: { since: since?.toISOString(), ...stats } });
+  } catch (error) {
+    logger.error('Failed to build labeling stats:', error, { trace_id });
+    res.status(500).json({
+      error: {
+        code: 'LABELING_STATS_FAILED',
+        message: 'Failed to build labeling stats',
+        trace_id,
+      },
+      timestamp: new Date().toISOString(),
+    });
+  }
+});
+
+/**
+ * POST /admin/:enterprise_id/labeling-queue/:task_id/label
+ * Label a queued query with an intent of the enterprise's catalogue. Its text becomes
+ * an example of that intent, recorded with the query it came from, and applies from
+ * the next query.
+ */
+router.post('/:enterprise_id/labeling-queue/:task_id/label', requireAdmin, validateLabelingParams, validateEnterpriseAccess, validateLabel, async (req: Request, res: Response): Promise<void> => {
+  const trace_id = req.user?.trace_id;
+
+  try {
+    const task = await findLabelingTask(req, res);
+    if (!task) return;
+
+    const override = await labelingQueue.label(task, req.body.intent_name, req.user!.email);
+
+    res.json({ task, override });
+  } catch (error) {
+    sendLabelingError(res, error, 'Failed to label query', trace_id);
+  }
+});
+
+/**
+ * POST /admin/:enterprise_id/labeling-queue/:task_id/new-intent
+ * Mark a queued query as an example of an intent the catalogue does not have yet,
+ * optionally proposing its name. It can be labeled once the intent is defined.
+ */
+router.post('/:enterprise_id/labeling-queue/:task_id/new-intent', requireAdmin, validateLabelingParams, validateEnterpriseAccess, validateNewIntentCandidate, async (req: Request, res: Response): Promise<void> => {
+  const trace_id = req.user?.trace_id;
+
+  try {
+    const task = await findLabelingTask(req, res);
+    if (!task) return;
+
+    await labelingQueue.proposeNewIntent(task, req.user!.email, req.body.name, req.body.note);
+
+    logger.info('Query marked as new intent candidate', {
+      trace_id,
+      enterprise_id: req.params.enterprise_id,
+      labeling_task_id: task._id,
+      name: req.body.name,
+      labeled_by: req.user!.email,
+    });
+
+    res.json({ task });
+  } catch (error) {
+    sendLabelingError(res, error, 'Failed to mark new intent candidate', trace_id);
+  }
+});
+
+/**
+ * POST /admin/:enterprise_id/labeling-queue/:task_id/dismiss
+ * Drop a queued query that is not an example of any intent
+ */
+router.post('/:enterprise_id/labeling-queue/:task_id/dismiss', requireAdmin, validateLabelingParams, validateEnterpriseAccess, validateDismiss, async (req: Request, res: Response): Promise<void> => {
+  const trace_id = req.user?.trace_id;
+
+  try {
+    const task = await findLabelingTask(req, res);
+    if (!task) return;
+
+    await labelingQueue.dismiss(task, req.user!.email, req.body.note);
+
+    res.json({ task });
+  } catch (error) {
+    sendLabelingError(res, error, 'Failed to dismiss query', trace_id);
+  }
+});
+
+export { router as adminRouter };
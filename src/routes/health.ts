@@ -2,6 +2,8 @@ import { Router, Request, Response } from 'express';
 import mongoose from 'mongoose';
 import { config } from '../config/environment';
 import { logger } from '../utils/logger';
+import { answerCache, AnswerCacheStats } from '../modules/query/cache';
+import { intentCatalogue, IntentCatalogueStatus } from '../modules/query/catalogue';
 
 const router = Router();
 
@@ -19,6 +21,10 @@ interface HealthStatus {
     stt: ServiceHealth;
     tts: ServiceHealth;
   };
+  caches: {
+    answers: AnswerCacheStats;
+  };
+  intents: IntentCatalogueStatus;
   uptime: number;
 }
 
@@ -47,6 +53,10 @@ router.get('/', async (req: Request, res: Response) => {
         stt: await checkSTTHealth(),
         tts: await checkTTSHealth(),
       },
+      caches: {
+        answers: answerCache.getStats(),
+      },
+      intents: intentCatalogue.getStatus(),
       uptime: process.uptime(),
     };
 
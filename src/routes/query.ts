@@ -0,0 +1,602 @@
+import express, { NextFunction, Request, Response } from 'express';
+import { authenticate } from '../middleware/auth';
+import { queryRateLimit } from '../middleware/rateLimiting';
+import {
+  validateQueryClarification,
+  validateQueryFeedback,
+  validateQueryId,
+  validateQueryRequest,
+} from '../middleware/validation';
+import { AppError } from '../middleware/errorHandler';
+import { queryPipeline } from '../modules/query/pipeline';
+import { queryJobQueue } from '../modules/query/jobs';
+import { AnswerCacheLookup } from '../modules/query/cache';
+import { labelingQueue } from '../modules/query/labeling';
+import { IQuery, Query } from '../models/Query';
+import { Chunk } from '../models/Chunk';
+import { QueryJob, IQueryJob } from '../models/QueryJob';
+import { config } from '../config/environment';
+import { logger } from '../utils/logger';
+import { ProcessingStep, QueryRequest } from '../types';
+
+const router = express.Router();
+
+/**
+ * Body parser for POST /query/jobs, mounted ahead of the server-wide parser: jobs
+ * carry long recordings of up to 50MB of base64 audio, beyond the 10MB allowed elsewhere
+ */
+export const queryJobBodyParser = express.json({ limit: '50mb' });
+
+/**
+ * Server-Sent Event names emitted for each pipeline step
+ */
+const STEP_EVENTS: Record<string, string> = {
+  stt: 'transcribed',
+  language_detection: 'language',
+  intent_classification: 'intent',
+  risk_assessment: 'risk',
+  retrieval: 'chunks',
+  response_generation: 'answer',
+  tts: 'audio',
+};
+
+/**
+ * Write a single Server-Sent Event
+ */
+function writeEvent(res: Response, event: string, data: unknown): void {
+  if (res.writableEnded) return;
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+/**
+ * Public view of a query job
+ */
+function toJobView(job: IQueryJob) {
+  return {
+    job_id: job._id,
+    status: job.status,
+    trace_id: job.trace_id,
+    attempts: job.attempts,
+    created_at: job.created_at,
+    started_at: job.started_at,
+    finished_at: job.finished_at,
+    result: job.result,
+    error: job.error?.code ? job.error : undefined,
+  };
+}
+
+/**
+ * Load a job the authenticated user may see, or send a 404
+ */
+async function findAccessibleJob(req: Request, res: Response): Promise<IQueryJob | null> {
+  const job = await QueryJob.findById(req.params.id);
+  if (!job || !hasEnterpriseAccess(req, String(job.enterprise_id))) {
+    res.status(404).json({
+      error: {
+        code: 'JOB_NOT_FOUND',
+        message: 'Query job not found',
+        trace_id: req.user!.trace_id,
+      },
+      timestamp: new Date().toISOString(),
+    });
+    return null;
+  }
+  return job;
+}
+
+/**
+ * Check that the authenticated user may query on behalf of the enterprise
+ */
+function hasEnterpriseAccess(req: Request, enterpriseId: string): boolean {
+  return req.user!.role === 'super_admin' || req.user!.enterprises.includes(enterpriseId);
+}
+
+/**
+ * Check that the authenticated user asked a query, or is an admin who may act on it
+ */
+function canActOnQuery(req: Request, query: IQuery): boolean {
+  return String(query.operator_id) === req.user!.user_id || ['enterprise_admin', 'super_admin'].includes(req.user!.role);
+}
+
+/**
+ * Reject queries asked on behalf of another operator. Lockdowns and the audit trail go by
+ * the request's operator_id, so it must be the authenticated user's own.
+ */
+function requireOwnOperator(req: Request, res: Response, next: NextFunction): void {
+  if (req.body.operator_id !== req.user!.user_id) {
+    res.status(403).json({
+      error: {
+        code: 'OPERATOR_MISMATCH',
+        message: 'Queries may only be asked as the authenticated operator',
+        trace_id: req.user!.trace_id,
+      },
+      timestamp: new Date().toISOString(),
+    });
+    return;
+  }
+  next();
+}
+
+/**
+ * POST /query
+ * Process an operator question through the query pipeline
+ */
+router.post('/', authenticate, queryRateLimit, validateQueryRequest, requireOwnOperator, async (req: Request, res: Response): Promise<void> => {
+  const trace_id = req.user!.trace_id;
+  const queryRequest: QueryRequest = req.body;
+
+  if (!hasEnterpriseAccess(req, queryRequest.enterprise_id)) {
+    res.status(403).json({
+      error: {
+        code: 'ENTERPRISE_ACCESS_DENIED',
+        message: 'Access denied to this enterprise',
+        trace_id,
+      },
+      timestamp: new Date().toISOString(),
+    });
+    return;
+  }
+
+  try {
+    const response = await queryPipeline.process(queryRequest, trace_id);
+
+    logger.info('Query processed', {
+      trace_id,
+      enterprise_id: queryRequest.enterprise_id,
+      intent: response.intent.name,
+      risk_level: response.risk_level,
+      blocked: response.blocked,
+      processing_time_ms: response.trace.processing_time_ms,
+    });
+
+    res.json(response);
+  } catch (error) {
+    const appError = error as AppError;
+    const statusCode = appError.statusCode || 500;
+
+    logger.error('Query processing failed:', error, { trace_id });
+    res.status(statusCode).json({
+      error: {
+        code: appError.code || 'QUERY_PROCESSING_FAILED',
+        message: statusCode === 500 ? 'Failed to process query' : appError.message,
+        trace_id,
+      },
+      timestamp: new Date().toISOString(),
+    });
+  }
+});
+
+/**
+ * POST /query/stream
+ * Process an operator question and stream each completed step as Server-Sent Events.
+ * The stream ends with a "result" event, a "blocked" event for blocked queries, a "clarification"
+ * event when the operator must choose between candidate intents or machines, or an "error" event.
+ */
+router.post('/stream', authenticate, queryRateLimit, validateQueryRequest, requireOwnOperator, async (req: Request, res: Response): Promise<void> => {
+  const trace_id = req.user!.trace_id;
+  const queryRequest: QueryRequest = req.body;
+
+  if (!hasEnterpriseAccess(req, queryRequest.enterprise_id)) {
+    res.status(403).json({
+      error: {
+        code: 'ENTERPRISE_ACCESS_DENIED',
+        message: 'Access denied to this enterprise',
+        trace_id,
+      },
+      timestamp: new Date().toISOString(),
+    });
+    return;
+  }
+
+  res.status(200).set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  });
+  res.flushHeaders();
+
+  const onStep = (step: ProcessingStep, result?: unknown): void => {
+    const event = STEP_EVENTS[step.name];
+    if (event) {
+      writeEvent(res, event, { step, result });
+    }
+    // A cached answer skips retrieval, so its chunks come from the cache
+    const cached = step.name === 'cache_lookup' ? (result as AnswerCacheLookup | undefined)?.value : undefined;
+    if (cached) {
+      writeEvent(res, 'chunks', { step, result: cached.chunks });
+    }
+  };
+
+  try {
+    const response = await queryPipeline.process(queryRequest, trace_id, onStep);
+
+    logger.info('Streamed query processed', {
+      trace_id,
+      enterprise_id: queryRequest.enterprise_id,
+      intent: response.intent.name,
+      risk_level: response.risk_level,
+      blocked: response.blocked,
+      processing_time_ms: response.trace.processing_time_ms,
+    });
+
+    const finalEvent = response.blocked ? 'blocked' : response.clarification ? 'clarification' : 'result';
+    writeEvent(res, finalEvent, response);
+  } catch (error) {
+    const appError = error as AppError;
+    const statusCode = appError.statusCode || 500;
+
+    logger.error('Streamed query processing failed:', error, { trace_id });
+    writeEvent(res, 'error', {
+      error: {
+        code: appError.code || 'QUERY_PROCESSING_FAILED',
+        message: statusCode === 500 ? 'Failed to process query' : appError.message,
+        trace_id,
+      },
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  res.end();
+});
+
+/**
+ * POST /query/jobs
+ * Queue a query for background processing, e.g. long audio that would time out synchronously.
+ * Responds 202 with the job ID; poll GET /query/jobs/:id or subscribe to GET /query/jobs/:id/events.
+ */
+router.post('/jobs', authenticate, queryRateLimit, validateQueryRequest, requireOwnOperator, async (req: Request, res: Response): Promise<void> => {
+  const trace_id = req.user!.trace_id;
+  const queryRequest: QueryRequest = req.body;
+
+  if (!hasEnterpriseAccess(req, queryRequest.enterprise_id)) {
+    res.status(403).json({
+      error: {
+        code: 'ENTERPRISE_ACCESS_DENIED',
+        message: 'Access denied to this enterprise',
+        trace_id,
+      },
+      timestamp: new Date().toISOString(),
+    });
+    return;
+  }
+
+  try {
+    const job = await queryJobQueue.submit(queryRequest, trace_id);
+    const statusUrl = `${req.baseUrl}/jobs/${job._id}`;
+
+    res.status(202).location(statusUrl).json({
+      job_id: job._id,
+      status: job.status,
+      status_url: statusUrl,
+      events_url: `${statusUrl}/events`,
+    });
+  } catch (error) {
+    logger.error('Failed to queue query job:', error, { trace_id });
+    res.status(500).json({
+      error: {
+        code: 'JOB_SUBMISSION_FAILED',
+        message: 'Failed to queue query',
+        trace_id,
+      },
+      timestamp: new Date().toISOString(),
+    });
+  }
+});
+
+/**
+ * GET /query/jobs/:id
+ * Get a query job's state, with the QueryResponse once completed
+ */
+router.get('/jobs/:id', authenticate, validateQueryId, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const job = await findAccessibleJob(req, res);
+    if (!job) return;
+
+    res.json({ job: toJobView(job) });
+  } catch (error) {
+    logger.error('Failed to get query job:', error, { trace_id: req.user!.trace_id });
+    res.status(500).json({
+      error: {
+        code: 'JOB_FETCH_FAILED',
+        message: 'Failed to fetch query job',
+        trace_id: req.user!.trace_id,
+      },
+      timestamp: new Date().toISOString(),
+    });
+  }
+});
+
+/**
+ * GET /query/jobs/:id/events
+ * Server-Sent Events with a "status" event on every state change, ending with
+ * a "result", "error" or "cancelled" event
+ */
+router.get('/jobs/:id/events', authenticate, validateQueryId, async (req: Request, res: Response): Promise<void> => {
+  let job: IQueryJob | null;
+  try {
+    job = await findAccessibleJob(req, res);
+  } catch (error) {
+    logger.error('Failed to get query job:', error, { trace_id: req.user!.trace_id });
+    res.status(500).json({
+      error: {
+        code: 'JOB_FETCH_FAILED',
+        message: 'Failed to fetch query job',
+        trace_id: req.user!.trace_id,
+      },
+      timestamp: new Date().toISOString(),
+    });
+    return;
+  }
+  if (!job) return;
+
+  res.status(200).set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  });
+  res.flushHeaders();
+
+  const jobId = job._id;
+  let lastStatus: string | undefined;
+  let timer: NodeJS.Timeout | undefined;
+
+  const publish = (current: IQueryJob): boolean => {
+    if (current.status !== lastStatus) {
+      lastStatus = current.status;
+      writeEvent(res, 'status', { job_id: current._id, status: current.status, attempts: current.attempts });
+    }
+    if (!current.isTerminal()) return false;
+
+    const terminalEvent = current.status === 'completed' ? 'result' : current.status === 'failed' ? 'error' : 'cancelled';
+    writeEvent(res, terminalEvent, toJobView(current));
+    res.end();
+    return true;
+  };
+
+  const poll = async (): Promise<void> => {
+    try {
+      const current = await QueryJob.findById(jobId);
+      if (!current) {
+        writeEvent(res, 'error', { error: { code: 'JOB_NOT_FOUND', message: 'Query job not found' } });
+        res.end();
+        return;
+      }
+      if (!publish(current)) {
+        timer = setTimeout(poll, config.queryJobs.pollIntervalMs);
+      }
+    } catch (error) {
+      logger.error('Failed to poll query job:', error, { trace_id: req.user!.trace_id });
+      timer = setTimeout(poll, config.queryJobs.pollIntervalMs);
+    }
+  };
+
+  req.on('close', () => {
+    if (timer) clearTimeout(timer);
+  });
+
+  if (!publish(job)) {
+    timer = setTimeout(poll, config.queryJobs.pollIntervalMs);
+  }
+});
+
+/**
+ * DELETE /query/jobs/:id
+ * Cancel a queued or running query job
+ */
+router.delete('/jobs/:id', authenticate, validateQueryId, async (req: Request, res: Response): Promise<void> => {
+  const trace_id = req.user!.trace_id;
+
+  try {
+    const job = await findAccessibleJob(req, res);
+    if (!job) return;
+
+    const cancelled = await queryJobQueue.cancel(String(job._id));
+    if (!cancelled) {
+      res.status(409).json({
+        error: {
+          code: 'JOB_ALREADY_FINISHED',
+          message: 'Query job has already finished',
+          trace_id,
+        },
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    res.json({ job: toJobView(cancelled) });
+  } catch (error) {
+    logger.error('Failed to cancel query job:', error, { trace_id });
+    res.status(500).json({
+      error: {
+        code: 'JOB_CANCEL_FAILED',
+        message: 'Failed to cancel query job',
+        trace_id,
+      },
+      timestamp: new Date().toISOString(),
+    });
+  }
+});
+
+/**
+ * POST /query/:id/clarification
+ * Answer the clarifying question asked for a query. The query is processed again with the
+ * chosen intent or machine, and its stored answer is replaced, keeping the exchange for audit.
+ */
+router.post('/:id/clarification', authenticate, queryRateLimit, validateQueryClarification, async (req: Request, res: Response): Promise<void> => {
+  const trace_id = req.user!.trace_id;
+  const { option_id } = req.body;
+
+  try {
+    const query = await Query.findById(req.params.id);
+    if (!query || !hasEnterpriseAccess(req, String(query.enterprise_id))) {
+      res.status(404).json({
+        error: {
+          code: 'QUERY_NOT_FOUND',
+          message: 'Query not found',
+          trace_id,
+        },
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    if (!canActOnQuery(req, query)) {
+      res.status(403).json({
+        error: {
+          code: 'QUERY_ACCESS_DENIED',
+          message: 'Only the operator who asked this query or an admin may answer its clarification',
+          trace_id,
+        },
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    if (query.clarification?.status !== 'pending') {
+      res.status(409).json({
+        error: {
+          code: 'CLARIFICATION_NOT_PENDING',
+          message: 'This query is not waiting for a clarification',
+          trace_id,
+        },
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    const option = query.getPendingClarificationOption(option_id);
+    if (!option) {
+      res.status(400).json({
+        error: {
+          code: 'INVALID_CLARIFICATION_OPTION',
+          message: 'Option was not offered for this query',
+          details: { options: query.clarification.options.map(offered => offered.id) },
+          trace_id,
+        },
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    const response = await queryPipeline.process({
+      enterprise_id: String(query.enterprise_id),
+      operator_id: String(query.operator_id),
+      input_text: query.data.text,
+      language: query.clarification.language,
+      conversation_id: query.conversation_id ? String(query.conversation_id) : undefined,
+    }, trace_id, undefined, {
+      clarification: { query, option, resolved_by: req.user!.email },
+    });
+
+    logger.info('Query clarification resolved', {
+      trace_id,
+      query_id: query._id,
+      option_kind: option.kind,
+      option_value: option.value,
+      intent: response.intent.name,
+      risk_level: response.risk_level,
+      blocked: response.blocked,
+    });
+
+    res.json(response);
+  } catch (error) {
+    const appError = error as AppError;
+    const statusCode = appError.statusCode || 500;
+
+    logger.error('Query clarification failed:', error, { trace_id });
+    res.status(statusCode).json({
+      error: {
+        code: appError.code || 'QUERY_PROCESSING_FAILED',
+        message: statusCode === 500 ? 'Failed to process query' : appError.message,
+        trace_id,
+      },
+      timestamp: new Date().toISOString(),
+    });
+  }
+});
+
+/**
+ * POST /query/:id/feedback
+ * Record whether an answer helped, with an optional correction and the chunk that should have been used.
+ * Submitting again replaces earlier feedback. Unhelpful answers queue the query for intent review.
+ */
+router.post('/:id/feedback', authenticate, validateQueryFeedback, async (req: Request, res: Response): Promise<void> => {
+  const trace_id = req.user!.trace_id;
+  const { helpful, correction_text, correct_chunk_id } = req.body;
+
+  try {
+    const query = await Query.findById(req.params.id);
+    if (!query || !hasEnterpriseAccess(req, String(query.enterprise_id))) {
+      res.status(404).json({
+        error: {
+          code: 'QUERY_NOT_FOUND',
+          message: 'Query not found',
+          trace_id,
+        },
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    if (!canActOnQuery(req, query)) {
+      res.status(403).json({
+        error: {
+          code: 'QUERY_ACCESS_DENIED',
+          message: 'Only the operator who asked this query or an admin may rate its answer',
+          trace_id,
+        },
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    if (correct_chunk_id && !await Chunk.exists({ _id: correct_chunk_id, enterprise_id: query.enterprise_id })) {
+      res.status(400).json({
+        error: {
+          code: 'INVALID_CHUNK',
+          message: 'Chunk not found in this enterprise\'s manuals',
+          trace_id,
+        },
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    query.recordFeedback({ helpful, correction_text, correct_chunk_id, submitted_by: req.user!.email });
+    await query.save();
+
+    // Unhelpful answers may come from a wrong intent, so an admin reviews the classification
+    if (!helpful) {
+      await labelingQueue.enqueue(query, 'unhelpful').catch(error => {
+        logger.warn('Failed to queue query for intent review', {
+          trace_id,
+          query_id: query._id,
+          error: error instanceof Error ? error.message : error,
+        });
+      });
+    }
+
+    logger.info('Query feedback recorded', {
+      trace_id,
+      query_id: query._id,
+      helpful,
+      has_correction: Boolean(correction_text),
+    });
+
+    res.json({ query_id: query._id, feedback: query.feedback });
+  } catch (error) {
+    logger.error('Failed to record query feedback:', error, { trace_id });
+    res.status(500).json({
+      error: {
+        code: 'FEEDBACK_FAILED',
+        message: 'Failed to record feedback',
+        trace_id,
+      },
+      timestamp: new Date().toISOString(),
+    });
+  }
+});
+
+export { router as queryRouter };
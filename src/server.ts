@@ -10,6 +10,11 @@ import { applySecurity } from './middleware/security';
 import { generalRateLimit, healthRateLimit } from './middleware/rateLimiting';
 import { healthRouter } from './routes/health';
 import { authRouter } from './routes/auth';
+import { queryJobBodyParser, queryRouter } from './routes/query';
+import { adminRouter } from './routes/admin';
+import { queryJobQueue } from './modules/query/jobs';
+import { intentCatalogue } from './modules/query/catalogue';
+import { TrigramLanguageIdentifier } from './modules/query/ngram';
 
 const app = express();
 
@@ -25,6 +30,7 @@ app.use(cors({
 }));
 
 // Request parsing middleware
+app.use('/query/jobs', queryJobBodyParser);
 app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
@@ -41,6 +47,8 @@ app.use(generalRateLimit);
 // Routes with specific rate limiting
 app.use('/health', healthRateLimit, healthRouter);
 app.use('/auth', authRouter);
+app.use('/query', queryRouter);
+app.use('/admin', adminRouter);
 
 // Global error handler
 app.use(errorHandler);
@@ -61,6 +69,16 @@ async function startServer() {
       logger.warn('Firebase initialization failed, continuing in development mode:', error);
     }
     
+    // Fail fast on an invalid intent catalogue; later edits are picked up without a restart
+    intentCatalogue.load();
+    intentCatalogue.watch();
+    
+    // Fail fast on missing or invalid language profiles too
+    TrigramLanguageIdentifier.useProfiles(config.languageProfiles.directory);
+    
+    // Resume background query jobs, including any interrupted by a restart
+    queryJobQueue.start();
+    
     const port = config.server.port;
     app.listen(port, () => {
       logger.info(`TalkToMachine server started on port ${port}`);
@@ -6,6 +6,7 @@ export interface QueryRequest {
   input_text?: string;
   audio_base64?: string;
   language?: string;
+  conversation_id?: string;
 }
 
 export interface QueryResponse {
@@ -16,6 +17,22 @@ export interface QueryResponse {
   blocked: boolean;
   audio_base64?: string;
   trace: ProcessingTrace;
+  sources: SourceCitation[];
+  query_id?: string;
+  conversation_id?: string;
+  clarification?: ClarificationRequest;
+  lockdown?: LockdownNotice;
+}
+
+export interface SourceCitation {
+  chunk_id: string;
+  manual_id: string;
+  manual_name: string;
+  page_number?: number;
+  section_title?: string;
+  start_position?: number;
+  end_position?: number;
+  similarity: number;
 }
 
 export interface ProcessingStep {
@@ -31,6 +48,39 @@ export interface IntentResult {
   matched_examples: string[];
 }
 
+export interface IntentCandidate {
+  name: string;
+  confidence: number;
+}
+
+export type ClarificationReason = 'low_confidence' | 'tied_intents' | 'ambiguous_machine';
+
+export interface ClarificationOption {
+  id: string;
+  kind: 'intent' | 'manual';
+  // Intent name or manual ID
+  value: string;
+  label: string;
+  confidence: number;
+}
+
+export interface ClarificationRequest {
+  reason: ClarificationReason;
+  question: string;
+  options: ClarificationOption[];
+}
+
+/**
+ * Active operator lockdown that refused a query
+ */
+export interface LockdownNotice {
+  lockdown_id: string;
+  // Absent when the lockdown covers every machine
+  machine?: string;
+  alert_id: string;
+  locked_at: Date;
+}
+
 export interface ProcessingTrace {
   trace_id: string;
   timestamp: Date;
@@ -38,8 +88,106 @@ export interface ProcessingTrace {
   steps: ProcessingStep[];
 }
 
+export interface IntentConfig {
+  name: string;
+  examples: string[];
+  responses: Record<string, string>;
+  // Short names per language, used when asking the operator which intent they meant
+  labels?: Record<string, string>;
+  risk: RiskLevel;
+  block_threshold?: RiskLevel;
+}
+
 export type RiskLevel = 'low' | 'medium' | 'high' | 'critical';
 
+/**
+ * The rule that decided a query's risk: the intent's own risk, an escalation
+ * keyword, or one of the enterprise's risk rules
+ */
+export interface RiskRuleMatch {
+  rule_id: string;
+  source: 'intent' | 'keyword' | 'rule';
+  level: RiskLevel;
+  // Set for keyword rules: the rule's keyword and the text it matched
+  keyword?: string;
+  matched?: string;
+  language?: string;
+  // Set for enterprise rules: the version of the rule set
+  rule_version?: number;
+}
+
+/**
+ * Whether a hazard is said to be present, said to be absent ("no smoke now"), only
+ * supposed ("what if there is a fire"), or its word is part of a harmless compound
+ * ("smoke detector")
+ */
+export type MentionContext = 'asserted' | 'negated' | 'hypothetical' | 'compound';
+
+/**
+ * An escalation keyword found in a query, with its character offsets in the text
+ */
+export interface RiskKeywordHit {
+  rule_id: string;
+  level: RiskLevel;
+  keyword: string;
+  matched: string;
+  language: string;
+  start: number;
+  end: number;
+  context: MentionContext;
+  // The word that made the mention negated or hypothetical, or the compound it is part of
+  cue?: string;
+}
+
+/**
+ * Structured account of how a query's risk was decided, for grouping and filtering
+ * alerts by cause and for rendering localized summaries
+ */
+export interface RiskExplanation {
+  // Risk of the classified intent on its own
+  intent: { name: string; level: RiskLevel };
+  // Every escalation keyword found, in text order
+  keywords: RiskKeywordHit[];
+  // Enterprise risk rules that fired
+  rules: { rule_id: string; level: RiskLevel; rule_version?: number }[];
+  threshold: {
+    enterprise: RiskLevel;
+    exceeds_enterprise: boolean;
+    // The intent's own block threshold, when it has one
+    intent?: RiskLevel;
+    reaches_intent: boolean;
+  };
+  decision: {
+    risk: RiskLevel;
+    blocked: boolean;
+    // The candidate that set the risk
+    source: RiskRuleMatch['source'];
+    rule_id: string;
+    // Refused because the operator is locked down, whatever the risk
+    locked_down?: boolean;
+  };
+  // Set when negated, hypothetical or compound hazard mentions lowered the risk
+  adjustment?: {
+    original_risk: RiskLevel;
+    original_blocked: boolean;
+    original_rule_id: string;
+    adjusted_risk: RiskLevel;
+    // Contexts of the mentions that were discounted
+    contexts: Exclude<MentionContext, 'asserted'>[];
+  };
+}
+
+export interface STTService {
+  transcribe(audioBase64: string): Promise<string>;
+  isReady(): boolean;
+}
+
+export interface TTSService {
+  // Read text out in the voice of a BCP-47 locale ("ta-IN")
+  synthesize(text: string, locale: string): Promise<string>;
+  getCachedAudio(key: string): string | null;
+}
+
 export type UserRole = 'operator' | 'enterprise_admin' | 'super_admin';
 
 export interface ErrorResponse {
@@ -0,0 +1,129 @@
+/**
+ * A language queries may be asked and answered in
+ */
+export interface LanguageInfo {
+  // Code stored on enterprises, queries and alerts
+  code: string;
+  // BCP-47 tag
+  tag: string;
+  // Name the language detector reports
+  name: string;
+  // Name in the language itself, shown to operators
+  native_name: string;
+  // Language a code-mixed form mixes with English
+  base?: string;
+  // Locale of the voice answers are read out in
+  tts_locale: string;
+  // Languages to answer in, in order, when an enterprise does not allow this one
+  fallbacks: string[];
+}
+
+/**
+ * Every supported language. Languages have their BCP-47 codes; their code-mixed
+ * forms with English (Tanglish, Hinglish, ...) have none, so they are stored under
+ * their common names and tagged as private use of the language they mix in.
+ */
+export const LANGUAGES: LanguageInfo[] = [
+  { code: 'en', tag: 'en', name: 'english', native_name: 'English', tts_locale: 'en-IN', fallbacks: [] },
+  { code: 'ta', tag: 'ta', name: 'tamil', native_name: 'தமிழ்', tts_locale: 'ta-IN', fallbacks: ['tanglish'] },
+  {
+    code: 'tanglish', tag: 'ta-x-tanglish', name: 'tanglish', native_name: 'Tanglish', base: 'ta',
+    tts_locale: 'ta-IN', fallbacks: ['ta', 'en'],
+  },
+  { code: 'hi', tag: 'hi', name: 'hindi', native_name: 'हिन्दी', tts_locale: 'hi-IN', fallbacks: ['hinglish'] },
+  {
+    code: 'hinglish', tag: 'hi-x-hinglish', name: 'hinglish', native_name: 'Hinglish', base: 'hi',
+    tts_locale: 'hi-IN', fallbacks: ['hi', 'en'],
+  },
+  { code: 'te', tag: 'te', name: 'telugu', native_name: 'తెలుగు', tts_locale: 'te-IN', fallbacks: ['tenglish'] },
+  {
+    code: 'tenglish', tag: 'te-x-tenglish', name: 'tenglish', native_name: 'Tenglish', base: 'te',
+    tts_locale: 'te-IN', fallbacks: ['te', 'en'],
+  },
+  { code: 'kn', tag: 'kn', name: 'kannada', native_name: 'ಕನ್ನಡ', tts_locale: 'kn-IN', fallbacks: ['kanglish'] },
+  {
+    code: 'kanglish', tag: 'kn-x-kanglish', name: 'kanglish', native_name: 'Kanglish', base: 'kn',
+    tts_locale: 'kn-IN', fallbacks: ['kn', 'en'],
+  },
+  { code: 'ml', tag: 'ml', name: 'malayalam', native_name: 'മലയാളം', tts_locale: 'ml-IN', fallbacks: ['manglish'] },
+  {
+    code: 'manglish', tag: 'ml-x-manglish', name: 'manglish', native_name: 'Manglish', base: 'ml',
+    tts_locale: 'ml-IN', fallbacks: ['ml', 'en'],
+  },
+  { code: 'bn', tag: 'bn', name: 'bengali', native_name: 'বাংলা', tts_locale: 'bn-IN', fallbacks: ['banglish'] },
+  {
+    code: 'banglish', tag: 'bn-x-banglish', name: 'banglish', native_name: 'Banglish', base: 'bn',
+    tts_locale: 'bn-IN', fallbacks: ['bn', 'en'],
+  },
+  { code: 'es', tag: 'es', name: 'spanish', native_name: 'Español', tts_locale: 'es-ES', fallbacks: [] },
+  { code: 'fr', tag: 'fr', name: 'french', native_name: 'Français', tts_locale: 'fr-FR', fallbacks: [] },
+  { code: 'de', tag: 'de', name: 'german', native_name: 'Deutsch', tts_locale: 'de-DE', fallbacks: [] },
+];
+
+/**
+ * Stored codes of every supported language
+ */
+export const LANGUAGE_CODES = LANGUAGES.map(language => language.code);
+
+/**
+ * Stored code of a language whose detection failed
+ */
+export const UNKNOWN_LANGUAGE = 'unknown';
+
+const BY_ALIAS = new Map<string, LanguageInfo>();
+for (const language of LANGUAGES) {
+  for (const alias of [language.code, language.tag, language.name]) {
+    BY_ALIAS.set(alias.toLowerCase(), language);
+  }
+}
+
+/**
+ * Supported language with a stored code
+ */
+export function getLanguage(code: string): LanguageInfo | undefined {
+  const language = BY_ALIAS.get(code);
+  return language?.code === code ? language : undefined;
+}
+
+/**
+ * Stored code of a language given by its stored code, BCP-47 tag or detector name,
+ * in any case. Region subtags are dropped ("ta-IN" is Tamil), and a language in
+ * Latin script is its code-mixed form ("hi-Latn" is Hinglish).
+ */
+export function normalizeLanguageCode(value: string): string | undefined {
+  const key = value.trim().toLowerCase().replace(/_/g, '-');
+  const exact = BY_ALIAS.get(key);
+  if (exact) {
+    return exact.code;
+  }
+
+  const [primary, ...subtags] = key.split('-');
+  if (subtags.includes('latn')) {
+    const mixed = LANGUAGES.find(language => language.base === primary);
+    if (mixed) {
+      return mixed.code;
+    }
+  }
+  return getLanguage(primary)?.code;
+}
+
+/**
+ * Locale of the voice to read an answer in, English for unknown languages
+ */
+export function ttsLocale(code: string): string {
+  return (getLanguage(code) ?? getLanguage('en')!).tts_locale;
+}
+
+/**
+ * A language's entry in a table of localized messages or templates: its own, else
+ * that of its first fallback that has one, else the English one
+ */
+export function localized<T>(entries: Partial<Record<string, T>>, code: string): T | undefined {
+  for (const candidate of [code, ...(getLanguage(code)?.fallbacks ?? []), 'en']) {
+    const entry = entries[candidate];
+    if (entry !== undefined) {
+      return entry;
+    }
+  }
+  return undefined;
+}